@@ -0,0 +1,30 @@
+/**
+ * Test Auth Helpers
+ * Signed local test tokens for integration tests (AUTH_TEST_MODE is on in
+ * __tests__/setup.ts)
+ */
+
+import {
+  TestAuthTokenUtils,
+  TestTokenClaims,
+} from "../../src/utils/testAuthToken.utils";
+
+export const createTestToken = (
+  claims: TestTokenClaims,
+  expiresInSeconds?: number,
+): string =>
+  TestAuthTokenUtils.sign(
+    claims,
+    process.env.AUTH_TEST_SECRET!,
+    expiresInSeconds,
+  );
+
+/**
+ * Authorization header for supertest, e.g. `.set(authHeader("user-1"))`
+ */
+export const authHeader = (
+  uid: string,
+  claims: Omit<TestTokenClaims, "uid"> = {},
+): { Authorization: string } => ({
+  Authorization: `Bearer ${createTestToken({ uid, ...claims })}`,
+});
@@ -0,0 +1,126 @@
+import request from "supertest";
+import express, { Express } from "express";
+import {
+  AuthenticatedRequest,
+  requireRole,
+  verifyFirebaseToken,
+} from "../../src/middleware/auth.middleware";
+import { authHeader, createTestToken } from "../helpers/testAuth";
+
+describe("Auth Middleware", () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.get("/api/me", verifyFirebaseToken, (req, res) => {
+      res.status(200).json({ user: (req as AuthenticatedRequest).user });
+    });
+    app.get(
+      "/api/admin/ping",
+      verifyFirebaseToken,
+      requireRole("support"),
+      (req, res) => {
+        res.status(200).json({ success: true });
+      },
+    );
+  });
+
+  afterEach(() => {
+    process.env.AUTH_TEST_MODE = "true";
+    process.env.NODE_ENV = "test";
+  });
+
+  describe("Test tokens", () => {
+    it("should authenticate a signed test token", async () => {
+      const response = await request(app)
+        .get("/api/me")
+        .set(authHeader("user-1", { email: "user@h2oasis.com" }));
+
+      expect(response.status).toBe(200);
+      expect(response.body.user).toMatchObject({
+        uid: "user-1",
+        email: "user@h2oasis.com",
+        provider: "test",
+      });
+    });
+
+    it("should reject a tampered test token", async () => {
+      const [prefix, , signature] = createTestToken({ uid: "user-1" }).split(
+        ".",
+      );
+      const payload = Buffer.from(
+        JSON.stringify({ uid: "user-2", exp: Date.now() / 1000 + 60 }),
+      ).toString("base64url");
+
+      const response = await request(app)
+        .get("/api/me")
+        .set("Authorization", `Bearer ${prefix}.${payload}.${signature}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject an expired test token", async () => {
+      const response = await request(app)
+        .get("/api/me")
+        .set(
+          "Authorization",
+          `Bearer ${createTestToken({ uid: "user-1" }, -60)}`,
+        );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should carry staff roles for admin routes", async () => {
+      const forbidden = await request(app)
+        .get("/api/admin/ping")
+        .set(authHeader("user-1"));
+      const allowed = await request(app)
+        .get("/api/admin/ping")
+        .set(authHeader("staff-1", { role: "support" }));
+
+      expect(forbidden.status).toBe(403);
+      expect(allowed.status).toBe(200);
+    });
+  });
+
+  describe("x-firebase-uid header", () => {
+    it("should be accepted in test mode", async () => {
+      const response = await request(app)
+        .get("/api/me")
+        .set("x-firebase-uid", "user-1");
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.uid).toBe("user-1");
+    });
+
+    it("should be rejected when test mode is off", async () => {
+      process.env.AUTH_TEST_MODE = "false";
+
+      const response = await request(app)
+        .get("/api/me")
+        .set("x-firebase-uid", "user-1");
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should be rejected in production even with test mode on", async () => {
+      process.env.NODE_ENV = "production";
+
+      const header = await request(app)
+        .get("/api/me")
+        .set("x-firebase-uid", "user-1");
+      const token = await request(app).get("/api/me").set(authHeader("user-1"));
+
+      expect(header.status).toBe(401);
+      expect(token.status).toBe(401);
+    });
+
+    it("should never grant a staff role", async () => {
+      const response = await request(app)
+        .get("/api/admin/ping")
+        .set("x-firebase-uid", "staff-1");
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
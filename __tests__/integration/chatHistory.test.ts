@@ -0,0 +1,162 @@
+/**
+ * Integration Tests for Chat History Endpoints
+ * These tests verify users can only read and delete their own history
+ */
+
+import request from "supertest";
+import express, { Express } from "express";
+import chatRoutes from "../../src/routes/chat.routes";
+import { authHeader } from "../helpers/testAuth";
+
+const mockGetHistory = jest.fn();
+const mockListConversations = jest.fn();
+const mockDeleteConversation = jest.fn();
+const mockDeleteAllHistory = jest.fn();
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+jest.mock("../../src/utils/redis", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+jest.mock("../../src/services/chatHistory.service", () => ({
+  ChatHistoryService: jest.fn().mockImplementation(() => ({
+    getHistory: (...args: unknown[]) => mockGetHistory(...args),
+    listConversations: (...args: unknown[]) => mockListConversations(...args),
+    deleteConversation: (...args: unknown[]) => mockDeleteConversation(...args),
+    deleteAllHistory: (...args: unknown[]) => mockDeleteAllHistory(...args),
+  })),
+}));
+
+describe("Chat History Endpoints", () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/chat", chatRoutes);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should require authentication", async () => {
+    const response = await request(app).get("/api/chat/history/user-1");
+
+    expect(response.status).toBe(401);
+    expect(mockGetHistory).not.toHaveBeenCalled();
+  });
+
+  it("should not return another user's history", async () => {
+    const response = await request(app)
+      .get("/api/chat/history/user-1")
+      .set(authHeader("user-2"));
+
+    expect(response.status).toBe(403);
+    expect(mockGetHistory).not.toHaveBeenCalled();
+  });
+
+  it("should return a page of the user's history", async () => {
+    const pagination = { page: 2, limit: 10, total: 25, hasMore: true };
+    mockGetHistory.mockResolvedValue({
+      conversation: { conversationId: "conversation-1" },
+      messages: [{ role: "user", content: "Hi" }],
+      pagination,
+    });
+
+    const response = await request(app)
+      .get(
+        "/api/chat/history/user-1?conversationId=conversation-1&page=2&limit=10",
+      )
+      .set(authHeader("user-1"));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      success: true,
+      history: [{ role: "user", content: "Hi" }],
+      pagination,
+    });
+    expect(mockGetHistory).toHaveBeenCalledWith({
+      firebaseUid: "user-1",
+      conversationId: "conversation-1",
+      page: 2,
+      limit: 10,
+    });
+  });
+
+  it("should return 404 for a conversation the user doesn't have", async () => {
+    mockGetHistory.mockResolvedValue({
+      conversation: null,
+      messages: [],
+      pagination: { page: 1, limit: 20, total: 0, hasMore: false },
+    });
+
+    const response = await request(app)
+      .get("/api/chat/history/user-1?conversationId=conversation-9")
+      .set(authHeader("user-1"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should list the user's conversations", async () => {
+    mockListConversations.mockResolvedValue({
+      conversations: [{ conversationId: "conversation-1" }],
+      pagination: { page: 1, limit: 20, total: 1, hasMore: false },
+    });
+
+    const response = await request(app)
+      .get("/api/chat/history/user-1/conversations")
+      .set(authHeader("user-1"));
+
+    expect(response.status).toBe(200);
+    expect(response.body.conversations).toHaveLength(1);
+    expect(mockListConversations).toHaveBeenCalledWith("user-1", 1, undefined);
+  });
+
+  it("should delete one conversation", async () => {
+    mockDeleteConversation.mockResolvedValue(true);
+
+    const response = await request(app)
+      .delete("/api/chat/history/user-1?conversationId=conversation-1")
+      .set(authHeader("user-1"));
+
+    expect(response.status).toBe(200);
+    expect(mockDeleteConversation).toHaveBeenCalledWith(
+      "user-1",
+      "conversation-1",
+    );
+    expect(mockDeleteAllHistory).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 when deleting a conversation the user doesn't have", async () => {
+    mockDeleteConversation.mockResolvedValue(false);
+
+    const response = await request(app)
+      .delete("/api/chat/history/user-1?conversationId=conversation-9")
+      .set(authHeader("user-1"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should clear all of the user's history", async () => {
+    mockDeleteAllHistory.mockResolvedValue(3);
+
+    const response = await request(app)
+      .delete("/api/chat/history/user-1")
+      .set(authHeader("user-1"));
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedConversations).toBe(3);
+  });
+
+  it("should not delete another user's history", async () => {
+    const response = await request(app)
+      .delete("/api/chat/history/user-1")
+      .set(authHeader("user-2"));
+
+    expect(response.status).toBe(403);
+    expect(mockDeleteAllHistory).not.toHaveBeenCalled();
+  });
+});
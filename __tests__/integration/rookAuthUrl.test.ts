@@ -0,0 +1,71 @@
+/**
+ * Integration Tests for the ROOK Authorization URL
+ * The ROOK user id comes from the authenticated user's record, never from
+ * the request body
+ */
+
+import request from "supertest";
+import express, { Express } from "express";
+import mongoose from "mongoose";
+import healthDataRoutes from "../../src/routes/healthData.routes";
+import { authHeader } from "../helpers/testAuth";
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+const USER_ID = "68da80c9ffda7e51bd9ac167";
+
+describe("ROOK Authorization URL", () => {
+  let app: Express;
+  let fetchMock: jest.SpyInstance;
+  let findOne: jest.SpyInstance;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/health-data", healthDataRoutes);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    process.env.ROOK_SANDBOX_CLIENT_UUID = "client-1";
+    process.env.ROOK_SANDBOX_SECRET_KEY = "secret";
+    delete process.env.OAUTH_REDIRECT_URL;
+
+    findOne = jest.spyOn(mongoose.Model, "findOne").mockReturnValue({
+      select: async () => ({ _id: new mongoose.Types.ObjectId(USER_ID) }),
+    } as any);
+    fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      json: async () => ({ authorization_url: "https://oura.example/auth" }),
+    } as any);
+  });
+
+  it("should request the URL for the authenticated user", async () => {
+    const response = await request(app)
+      .post("/api/health-data/rook-auth-url")
+      .set(authHeader("user-1"))
+      .send({ dataSource: "oura", mongoUserId: "someone-else" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual({
+      authorizationURL: "https://oura.example/auth",
+      isAlreadyConnected: false,
+    });
+    expect(findOne).toHaveBeenCalledWith({ firebaseUid: "user-1" });
+    expect(fetchMock.mock.calls[0][0]).toContain(
+      `/user_id/${USER_ID}/data_source/oura/`,
+    );
+  });
+
+  it("should return 404 when the user has no record", async () => {
+    findOne.mockReturnValue({ select: async () => null } as any);
+
+    const response = await request(app)
+      .post("/api/health-data/rook-auth-url")
+      .set(authHeader("user-1"))
+      .send({ dataSource: "oura" });
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Integration Tests for Session Updates
+ * Sessions created through chat are returned with their stored UUID as
+ * SessionId; these tests verify the client can update them with it
+ */
+
+import request from "supertest";
+import express, { Express } from "express";
+import mongoose from "mongoose";
+import sessionRoutes from "../../src/routes/session.routes";
+import { authHeader } from "../helpers/testAuth";
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+jest.mock("../../src/services/sessionCache.service", () => ({
+  sessionCacheService: { addSessionToCache: jest.fn() },
+}));
+
+const SESSION_ID = "3f0c6a1e-8a4b-4a8e-9d55-1c2b3a4d5e6f";
+
+describe("Session Updates", () => {
+  let app: Express;
+  let findOneAndUpdate: jest.SpyInstance;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/sessions", sessionRoutes);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+
+    const stored = {
+      sessionId: SESSION_ID,
+      firebaseUid: "user-1",
+      SessionName: "Evening Recovery",
+      source: "chat",
+      isFavorited: true,
+    };
+    findOneAndUpdate = jest
+      .spyOn(mongoose.Model, "findOneAndUpdate")
+      .mockResolvedValue({
+        ...stored,
+        toObject: () => stored,
+        toJSON: () => stored,
+      } as any);
+  });
+
+  it("should update a chat-created session through its UUID", async () => {
+    const response = await request(app)
+      .patch(`/api/sessions/${SESSION_ID}`)
+      .set(authHeader("user-1"))
+      .send({ isFavorited: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.session).toMatchObject({
+      sessionId: SESSION_ID,
+      isFavorited: true,
+    });
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { sessionId: SESSION_ID, firebaseUid: "user-1" },
+      { $set: { isFavorited: true } },
+      { new: true },
+    );
+  });
+
+  it("should return 404 for another user's session", async () => {
+    findOneAndUpdate.mockResolvedValue(null);
+
+    const response = await request(app)
+      .patch(`/api/sessions/${SESSION_ID}`)
+      .set(authHeader("user-2"))
+      .send({ isFavorited: true });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Integration Tests for the Webhook Queue
+ * A ROOK webhook goes through the webhook route, the in-memory queue and
+ * the consumer worker - no Service Bus or MongoDB needed
+ */
+
+import request from "supertest";
+import express, { Express } from "express";
+import mongoose from "mongoose";
+import webhookRoutes from "../../src/routes/webhook.routes";
+import { pollQueue } from "../../src/workers/webhook-consumer.worker";
+import { closeQueue, getQueue } from "../../src/config/queue";
+import { MemoryQueue } from "../../src/config/memoryQueue";
+
+const mockProcessWebhook = jest.fn();
+
+let mockUuid = 0;
+jest.mock("uuid", () => ({ v4: () => `uuid-${++mockUuid}` }));
+
+jest.mock("../../src/services/webhook.processor.service", () => ({
+  WebhookProcessor: {
+    processWebhook: (...args: unknown[]) => mockProcessWebhook(...args),
+  },
+}));
+
+jest.mock("../../src/services/wearableConnection.service", () => ({
+  WearableConnectionService: jest.fn(),
+}));
+
+const USER_ID = "68da80c9ffda7e51bd9ac167";
+const RAW_WEBHOOK_ID = "68da80c9ffda7e51bd9ac999";
+
+const sleepWebhook = {
+  version: 2,
+  data_structure: "sleep_summary",
+  client_uuid: "client-1",
+  user_id: USER_ID,
+  document_version: 1,
+  sleep_health: {
+    summary: {
+      sleep_summary: {
+        metadata: { sources_of_data_array: ["Oura"] },
+        duration: { sleep_duration_seconds_int: 27000 },
+      },
+    },
+  },
+};
+
+describe("Webhook Queue", () => {
+  let app: Express;
+  let findByIdAndUpdate: jest.SpyInstance;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/webhooks/rook", webhookRoutes);
+  });
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    mockProcessWebhook.mockReset();
+    await closeQueue(); // Fresh in-memory queue
+
+    jest
+      .spyOn(mongoose.Model, "create")
+      .mockResolvedValue({ _id: RAW_WEBHOOK_ID } as any);
+    findByIdAndUpdate = jest
+      .spyOn(mongoose.Model, "findByIdAndUpdate")
+      .mockResolvedValue({} as any);
+  });
+
+  const receiveWebhook = () =>
+    request(app).post("/api/webhooks/rook/health-data").send(sleepWebhook);
+
+  const queue = () => getQueue() as MemoryQueue;
+
+  it("should queue a webhook and process it in the worker", async () => {
+    const response = await receiveWebhook();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, messageId: "uuid-1" });
+    expect(findByIdAndUpdate).toHaveBeenCalledWith(RAW_WEBHOOK_ID, {
+      sqsMessageId: "uuid-1",
+    });
+
+    mockProcessWebhook.mockResolvedValue({ success: true, message: "ok" });
+    expect(await pollQueue()).toBe(1);
+
+    expect(mockProcessWebhook).toHaveBeenCalledWith(
+      USER_ID,
+      "oura",
+      "sleep_summary",
+      sleepWebhook,
+    );
+    expect(findByIdAndUpdate).toHaveBeenLastCalledWith(
+      RAW_WEBHOOK_ID,
+      expect.objectContaining({ processed: true }),
+    );
+    expect(queue().getMessageCount()).toBe(0);
+  });
+
+  it("should put a message back for retry after a temporary failure", async () => {
+    await receiveWebhook();
+
+    mockProcessWebhook.mockResolvedValueOnce({
+      success: false,
+      message: "Database timeout",
+    });
+    await expect(pollQueue()).rejects.toThrow("Database timeout");
+    expect(queue().getMessageCount()).toBe(1);
+
+    mockProcessWebhook.mockResolvedValueOnce({ success: true, message: "ok" });
+    expect(await pollQueue()).toBe(1);
+    expect(queue().getMessageCount()).toBe(0);
+  });
+
+  it("should dead-letter a message that can never be processed", async () => {
+    await receiveWebhook();
+
+    mockProcessWebhook.mockResolvedValue({
+      success: false,
+      message: "User not found",
+    });
+    expect(await pollQueue()).toBe(1);
+
+    expect(queue().getMessageCount()).toBe(0);
+    expect(queue().getDeadLetters()).toEqual([
+      expect.objectContaining({ reason: "User not found", deliveryCount: 1 }),
+    ]);
+    expect(findByIdAndUpdate).toHaveBeenLastCalledWith(
+      RAW_WEBHOOK_ID,
+      expect.objectContaining({ error: "User not found", processed: true }),
+    );
+  });
+});
@@ -5,6 +5,13 @@
 process.env.NODE_ENV = "test";
 process.env.PORT = "3001";
 
+// Auth test mode: requests authenticate with signed local test tokens
+process.env.AUTH_TEST_MODE = "true";
+process.env.AUTH_TEST_SECRET = "h2oasis-test-secret";
+
+// In-process queue, so webhook tests run without Azure Service Bus
+process.env.QUEUE_BACKEND = "memory";
+
 // Mock console methods if needed
 global.console = {
   ...console,
@@ -0,0 +1,216 @@
+/**
+ * Unit Tests for Account Deletion Service
+ * These tests verify the purge removes the user from every store and
+ * records its progress on the tombstone
+ */
+
+import mongoose from "mongoose";
+import { AccountDeletionService } from "../../src/services/accountDeletion.service";
+import { IAccountDeletion } from "../../src/models/AccountDeletion.model";
+import { ACCOUNT_DELETION } from "../../src/constants";
+
+const mockDeleteRookUser = jest.fn();
+const mockDeleteFirebaseUser = jest.fn();
+const mockRedisDel = jest.fn();
+const mockDeleteUserAudio = jest.fn();
+const mockDeleteFromAzureBlob = jest.fn();
+
+const EXPORT_BLOB_URL =
+  "https://example.blob.core.windows.net/media/exports/user-1/job-1.zip";
+
+jest.mock("uuid", () => ({ v4: () => "deletion-1" }));
+
+jest.mock("../../src/services/rook.service", () => ({
+  deleteRookUser: (...args: unknown[]) => mockDeleteRookUser(...args),
+}));
+
+jest.mock("../../src/services/tts.service", () => ({
+  ttsService: {
+    deleteUserAudio: (...args: unknown[]) => mockDeleteUserAudio(...args),
+  },
+}));
+
+jest.mock("../../src/utils/blobStorage", () => ({
+  deleteFromAzureBlob: (...args: unknown[]) => mockDeleteFromAzureBlob(...args),
+  isAzureBlobUrl: (url: string) => url.includes(".blob.core.windows.net/"),
+}));
+
+jest.mock("../../src/utils/firebase", () => ({
+  admin: {
+    auth: () => ({
+      deleteUser: (...args: unknown[]) => mockDeleteFirebaseUser(...args),
+    }),
+  },
+}));
+
+jest.mock("../../src/utils/redis", () => ({
+  __esModule: true,
+  default: { del: (...args: unknown[]) => mockRedisDel(...args) },
+}));
+
+const query = (result: unknown) => ({
+  select: () => ({ lean: async () => result }),
+});
+
+const createDeletion = (attempts = 1) =>
+  ({
+    deletionId: "deletion-1",
+    firebaseUid: "user-1",
+    userId: "mongo-1",
+    attempts,
+  }) as IAccountDeletion;
+
+describe("Account Deletion Service", () => {
+  const service = new AccountDeletionService();
+  let updateOne: jest.SpyInstance;
+  let deleteMany: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+
+    mockDeleteRookUser.mockResolvedValue(true);
+    mockDeleteFirebaseUser.mockResolvedValue(undefined);
+    mockRedisDel.mockResolvedValue(2);
+    mockDeleteUserAudio.mockReturnValue(3);
+
+    jest.spyOn(mongoose.Model, "findOne").mockReturnValue(
+      query({
+        email: "User@H2Oasis.com",
+        photoURL: "https://x/me.jpg",
+      }) as any,
+    );
+    jest
+      .spyOn(mongoose.Model, "find")
+      .mockReturnValue(query([{ blobUrl: EXPORT_BLOB_URL }, {}]) as any);
+    jest
+      .spyOn(mongoose.Model, "deleteOne")
+      .mockResolvedValue({ deletedCount: 1 } as any);
+    deleteMany = jest
+      .spyOn(mongoose.Model, "deleteMany")
+      .mockResolvedValue({ deletedCount: 4 } as any);
+    updateOne = jest
+      .spyOn(mongoose.Model, "updateOne")
+      .mockResolvedValue({} as any);
+  });
+
+  const recordedSteps = () =>
+    updateOne.mock.calls
+      .map(([, update]) => update.$push?.steps)
+      .filter(Boolean);
+
+  it("should purge every store and complete the tombstone", async () => {
+    await service.purgeAccount(createDeletion());
+
+    const steps = recordedSteps();
+    expect(steps.map((step) => step.store)).toEqual([
+      "rook",
+      "blob.profile-photo",
+      "blob.exports",
+      "tts-audio",
+      "redis",
+      "mongo.sessions",
+      "mongo.session-runs",
+      "mongo.session-schedules",
+      "mongo.chat-conversations",
+      "mongo.chat-messages",
+      "mongo.device-tokens",
+      "mongo.health-daily-summaries",
+      "mongo.recovery-scores",
+      "mongo.raw-webhooks",
+      "mongo.queue-messages",
+      "mongo.export-jobs",
+      "mongo.password-resets",
+      "firebase-auth",
+      "mongo.users",
+    ]);
+    expect(steps[0].deletedCount).toBe(1);
+    expect(steps[1].deletedCount).toBe(0); // Social photo, not our blob
+    expect(steps[2].deletedCount).toBe(1);
+    expect(steps[3].deletedCount).toBe(3);
+
+    expect(mockDeleteRookUser).toHaveBeenCalledWith("mongo-1");
+    expect(mockRedisDel).toHaveBeenCalledWith([
+      "user:user@h2oasis.com",
+      "wearables:user-1",
+      "wearables:mongo-1",
+      "user:user-1:sessions",
+    ]);
+    expect(mockDeleteFromAzureBlob).toHaveBeenCalledWith(EXPORT_BLOB_URL, true);
+    expect(deleteMany).toHaveBeenCalledWith({ externalUserId: "mongo-1" });
+    expect(deleteMany).toHaveBeenCalledWith({ "body.userId": "mongo-1" });
+    expect(deleteMany).toHaveBeenCalledWith({ email: "user@h2oasis.com" });
+    expect(updateOne).toHaveBeenLastCalledWith(
+      { deletionId: "deletion-1" },
+      expect.objectContaining({ status: "completed" }),
+    );
+  });
+
+  it("should treat an already deleted Firebase user as done", async () => {
+    mockDeleteFirebaseUser.mockRejectedValue({ code: "auth/user-not-found" });
+
+    await service.purgeAccount(createDeletion());
+
+    const firebaseStep = recordedSteps().find(
+      (step) => step.store === "firebase-auth",
+    );
+    expect(firebaseStep.deletedCount).toBe(0);
+  });
+
+  it("should keep a failed purge for retry until it runs out of attempts", async () => {
+    mockDeleteRookUser.mockRejectedValue(new Error("ROOK unavailable"));
+
+    await expect(service.purgeAccount(createDeletion())).rejects.toThrow(
+      "ROOK unavailable",
+    );
+    expect(updateOne).toHaveBeenLastCalledWith(
+      { deletionId: "deletion-1" },
+      { status: "purging", lastError: "ROOK unavailable" },
+    );
+
+    await expect(
+      service.purgeAccount(createDeletion(ACCOUNT_DELETION.MAX_ATTEMPTS)),
+    ).rejects.toThrow();
+    expect(updateOne).toHaveBeenLastCalledWith(
+      { deletionId: "deletion-1" },
+      { status: "failed", lastError: "ROOK unavailable" },
+    );
+    expect(deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should not restore an account after a failed purge", async () => {
+    mockDeleteRookUser.mockResolvedValue(true);
+    mockDeleteFirebaseUser.mockRejectedValue(new Error("Firebase unavailable"));
+    await expect(service.purgeAccount(createDeletion())).rejects.toThrow();
+
+    const [, failure] = updateOne.mock.calls[updateOne.mock.calls.length - 1];
+    const tombstone = {
+      status: "purging",
+      purgeStartedAt: new Date(),
+      ...failure,
+    };
+    const findOneAndUpdate = jest
+      .spyOn(mongoose.Model, "findOneAndUpdate")
+      .mockImplementation(((filter: any) =>
+        Promise.resolve(
+          tombstone.status === filter.status &&
+            !(
+              filter.purgeStartedAt?.$exists === false &&
+              tombstone.purgeStartedAt
+            )
+            ? tombstone
+            : null,
+        )) as any);
+
+    expect(await service.restoreAccount("user-1")).toBeNull();
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ firebaseUid: "user-1", status: "scheduled" }),
+      expect.anything(),
+      { new: true },
+    );
+    expect(updateOne).not.toHaveBeenCalledWith(
+      { firebaseUid: "user-1" },
+      expect.objectContaining({ isActive: true }),
+    );
+  });
+});
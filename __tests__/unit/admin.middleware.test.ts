@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Admin Middleware
+ * These tests verify staff role checks and that admin actions are audited
+ */
+
+import { Request, Response } from "express";
+import { EventEmitter } from "events";
+import { requireRole } from "../../src/middleware/auth.middleware";
+import { auditAdminAction } from "../../src/middleware/adminAudit.middleware";
+
+const mockRecord = jest.fn();
+const mockComplete = jest.fn();
+
+jest.mock("../../src/services/adminAudit.service", () => ({
+  AdminAuditService: jest.fn().mockImplementation(() => ({
+    record: (...args: unknown[]) => mockRecord(...args),
+    complete: (...args: unknown[]) => mockComplete(...args),
+  })),
+}));
+
+const createResponse = () => {
+  const res = new EventEmitter() as EventEmitter & Partial<Response>;
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res as Response;
+  });
+  res.json = jest.fn(() => res as Response);
+  return res as unknown as Response & EventEmitter;
+};
+
+const createRequest = (role?: string): Request =>
+  ({
+    user: {
+      uid: "staff-1",
+      email: "staff@h2oasis.com",
+      provider: "password",
+      role,
+    },
+    method: "POST",
+    originalUrl: "/api/admin/users/user-1/deactivate?reason=abuse",
+    params: { firebaseUid: "user-1" },
+    query: { reason: "abuse" },
+    body: {},
+    ip: "127.0.0.1",
+    get: () => "jest",
+  }) as unknown as Request;
+
+describe("Admin Middleware", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("requireRole", () => {
+    it("should allow a matching role and admins", () => {
+      const next = jest.fn();
+
+      requireRole("support")(createRequest("support"), createResponse(), next);
+      requireRole("support")(createRequest("admin"), createResponse(), next);
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject users without the role", () => {
+      const next = jest.fn();
+      const res = createResponse();
+
+      requireRole("admin")(createRequest("support"), res, next);
+      requireRole("support")(createRequest(), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it("should reject unauthenticated requests", () => {
+      const next = jest.fn();
+      const res = createResponse();
+
+      requireRole("support")({} as Request, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe("auditAdminAction", () => {
+    it("should record the action before it runs and its status after", async () => {
+      mockRecord.mockResolvedValue({ id: "entry-1" });
+      const next = jest.fn();
+      const res = createResponse();
+
+      await auditAdminAction("users.deactivate")(
+        createRequest("admin"),
+        res,
+        next,
+      );
+
+      expect(mockRecord).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorUid: "staff-1",
+          actorRole: "admin",
+          action: "users.deactivate",
+          path: "/api/admin/users/user-1/deactivate",
+          targetUid: "user-1",
+          query: { reason: "abuse" },
+        }),
+      );
+      expect(next).toHaveBeenCalled();
+
+      res.emit("finish");
+      expect(mockComplete).toHaveBeenCalledWith("entry-1", 200);
+    });
+
+    it("should refuse the action when the audit entry can't be stored", async () => {
+      mockRecord.mockRejectedValue(new Error("connection lost"));
+      const next = jest.fn();
+      const res = createResponse();
+
+      await auditAdminAction("users.deactivate")(
+        createRequest("admin"),
+        res,
+        next,
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(503);
+    });
+  });
+});
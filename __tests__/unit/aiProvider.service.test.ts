@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for AI Provider Failover
+ * These tests use fake providers - no AI APIs are called
+ */
+
+import {
+  AIProvider,
+  AIProviderTimeoutError,
+  FailoverAIProvider,
+  getExperimentBucket,
+} from "../../src/services/aiProvider.service";
+
+// uuid ships ESM only, which ts-jest doesn't transform
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+function fakeProvider(
+  name: string,
+  behaviour: { reply?: string; fail?: boolean; delayMs?: number },
+): AIProvider {
+  const respond = (signal?: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (behaviour.fail) reject(new Error(`${name} failed`));
+        else resolve(behaviour.reply || name);
+      }, behaviour.delayMs || 0);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new Error("aborted"));
+      });
+    });
+
+  return {
+    name,
+    chat: jest.fn((_input, _messages, _wearables, options) =>
+      respond(options?.signal),
+    ),
+    streamChat: jest.fn(async function* (
+      _input: string,
+      _messages: unknown,
+      _wearables: unknown,
+      options?: { signal?: AbortSignal },
+    ) {
+      yield await respond(options?.signal);
+    }),
+    createSession: jest.fn(),
+    generatePlan: jest.fn((_messages, _wearables, options) =>
+      respond(options?.signal),
+    ),
+  };
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe("AI Provider", () => {
+  describe("Failover", () => {
+    it("should use the primary provider when it succeeds", async () => {
+      const primary = fakeProvider("primary", {});
+      const fallback = fakeProvider("fallback", {});
+      const provider = new FailoverAIProvider(primary, fallback, 1000);
+
+      await expect(provider.chat("hi", [], null)).resolves.toBe("primary");
+      expect(fallback.chat).not.toHaveBeenCalled();
+    });
+
+    it("should fail over when the primary errors", async () => {
+      const provider = new FailoverAIProvider(
+        fakeProvider("primary", { fail: true }),
+        fakeProvider("fallback", {}),
+        1000,
+      );
+
+      await expect(provider.chat("hi", [], null)).resolves.toBe("fallback");
+    });
+
+    it("should fail over when the primary times out", async () => {
+      const provider = new FailoverAIProvider(
+        fakeProvider("primary", { delayMs: 500 }),
+        fakeProvider("fallback", {}),
+        20,
+      );
+
+      await expect(provider.generatePlan([], null)).resolves.toBe("fallback");
+    });
+
+    it("should surface a timeout error without a fallback", async () => {
+      const provider = new FailoverAIProvider(
+        fakeProvider("primary", { delayMs: 500 }),
+        null,
+        20,
+      );
+
+      await expect(provider.chat("hi", [], null)).rejects.toBeInstanceOf(
+        AIProviderTimeoutError,
+      );
+    });
+
+    it("should fail over a stream that errors before the first chunk", async () => {
+      const provider = new FailoverAIProvider(
+        fakeProvider("primary", { fail: true }),
+        fakeProvider("fallback", { reply: "streamed" }),
+        1000,
+      );
+
+      await expect(collect(provider.streamChat("hi", [], null))).resolves.toBe(
+        "streamed",
+      );
+    });
+  });
+
+  describe("Experiment bucket", () => {
+    it("should assign a stable bucket between 0 and 99", () => {
+      const bucket = getExperimentBucket("u6QJ1xtouUN9F6uGjUZEa5v2oS12");
+
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(100);
+      expect(getExperimentBucket("u6QJ1xtouUN9F6uGjUZEa5v2oS12")).toBe(bucket);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for Chat Context Service
+ * These tests verify older turns are folded into the rolling summary and
+ * that the summary leads the context sent to the AI
+ */
+
+import mongoose from "mongoose";
+import { ChatContextService } from "../../src/services/chatContext.service";
+import { AIProvider } from "../../src/services/aiProvider.service";
+import { IChatConversation } from "../../src/models/ChatConversation.model";
+import { CHAT_CONTEXT } from "../../src/constants";
+
+const mockChat = jest.fn();
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+const aiProvider = {
+  name: "test",
+  chat: (...args: unknown[]) => mockChat(...args),
+} as unknown as AIProvider;
+
+const createMessages = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? "user" : "assistant",
+    content: `message ${index + 1}`,
+  }));
+
+const createConversation = (overrides: Partial<IChatConversation> = {}) =>
+  ({
+    conversationId: "conversation-1",
+    firebaseUid: "user-1",
+    summarizedMessageCount: 0,
+    save: jest.fn(),
+    ...overrides,
+  }) as unknown as IChatConversation;
+
+describe("Chat Context Service", () => {
+  const service = new ChatContextService(aiProvider);
+  let messages: ReturnType<typeof createMessages>;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockChat.mockReset();
+
+    jest.spyOn(mongoose.Model, "find").mockReturnValue({
+      sort: () => ({
+        skip: (count: number) => ({ lean: async () => messages.slice(count) }),
+      }),
+    } as any);
+  });
+
+  it("should leave short conversations unsummarized", async () => {
+    messages = createMessages(CHAT_CONTEXT.SUMMARY_TRIGGER_MESSAGES - 1);
+    const conversation = createConversation();
+
+    await service.refreshSummary(conversation);
+
+    expect(mockChat).not.toHaveBeenCalled();
+    expect(conversation.save).not.toHaveBeenCalled();
+  });
+
+  it("should fold all but the recent turns into the summary", async () => {
+    messages = createMessages(CHAT_CONTEXT.SUMMARY_TRIGGER_MESSAGES);
+    mockChat.mockResolvedValue("  Training for a marathon, likes saunas.  ");
+    const conversation = createConversation({ summary: "Has a cold plunge." });
+
+    await service.refreshSummary(conversation);
+
+    const folded =
+      CHAT_CONTEXT.SUMMARY_TRIGGER_MESSAGES -
+      CHAT_CONTEXT.RECENT_MESSAGES_TO_KEEP;
+    const [prompt] = mockChat.mock.calls[0];
+    expect(prompt).toContain("EXISTING SUMMARY:\nHas a cold plunge.");
+    expect(prompt).toContain(`message ${folded}`);
+    expect(prompt).not.toContain(`message ${folded + 1}`);
+    expect(conversation).toMatchObject({
+      summary: "Training for a marathon, likes saunas.",
+      summarizedMessageCount: folded,
+    });
+    expect(conversation.save).toHaveBeenCalled();
+  });
+
+  it("should keep what the user said when the AI can't summarize", async () => {
+    messages = createMessages(CHAT_CONTEXT.SUMMARY_TRIGGER_MESSAGES);
+    mockChat.mockRejectedValue(new Error("Provider unavailable"));
+    const conversation = createConversation();
+
+    await service.refreshSummary(conversation);
+
+    expect(conversation.summary).toMatch(
+      /^User previously said: message 1 \| message 3/,
+    );
+  });
+
+  it("should lead the context with the summary and skip summarized turns", async () => {
+    messages = createMessages(4);
+    const conversation = createConversation({
+      summary: "Prefers evening sessions.",
+      summarizedMessageCount: 2,
+    });
+
+    const context = await service.buildMessages(conversation, "What now?");
+
+    expect(context).toEqual([
+      {
+        role: "system",
+        content: expect.stringContaining("Prefers evening sessions."),
+      },
+      { role: "user", content: "message 3" },
+      { role: "assistant", content: "message 4" },
+      { role: "user", content: "What now?" },
+    ]);
+  });
+});
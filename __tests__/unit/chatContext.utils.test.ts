@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for Chat Context Utilities
+ * These tests verify token estimation and budget-based history truncation
+ */
+
+import {
+  ChatContextUtils,
+  ContextMessage,
+} from "../../src/utils/chatContext.utils";
+
+describe("Chat Context Utils", () => {
+  describe("Token estimation", () => {
+    it("should estimate roughly four characters per token", () => {
+      expect(ChatContextUtils.estimateTokens("")).toBe(0);
+      expect(ChatContextUtils.estimateTokens("abcd")).toBe(1);
+      expect(ChatContextUtils.estimateTokens("abcde")).toBe(2);
+    });
+
+    it("should add framing overhead per message", () => {
+      const cost = ChatContextUtils.estimateMessageTokens({
+        role: "user",
+        content: "abcd",
+      });
+
+      expect(cost).toBeGreaterThan(1);
+    });
+  });
+
+  describe("Budget selection", () => {
+    const conversation: ContextMessage[] = [
+      { role: "user", content: "a".repeat(40) },
+      { role: "assistant", content: "b".repeat(40) },
+      { role: "user", content: "c".repeat(40) },
+      { role: "assistant", content: "d".repeat(40) },
+    ];
+
+    it("should keep everything when the budget allows", () => {
+      const selected = ChatContextUtils.selectWithinBudget(conversation, 1000);
+
+      expect(selected).toEqual(conversation);
+    });
+
+    it("should keep the newest messages in chronological order", () => {
+      // Each message costs 14 tokens (10 content + 4 overhead)
+      const selected = ChatContextUtils.selectWithinBudget(conversation, 28);
+
+      expect(selected.map((m) => m.content[0])).toEqual(["c", "d"]);
+    });
+
+    it("should not start the history with an assistant reply", () => {
+      const selected = ChatContextUtils.selectWithinBudget(conversation, 42);
+
+      expect(selected[0].role).toBe("user");
+      expect(selected.map((m) => m.content[0])).toEqual(["c", "d"]);
+    });
+
+    it("should return nothing when the budget is exhausted", () => {
+      expect(ChatContextUtils.selectWithinBudget(conversation, 0)).toEqual([]);
+    });
+  });
+
+  describe("Truncation", () => {
+    it("should leave short text untouched", () => {
+      expect(ChatContextUtils.truncate("short text", 50)).toBe("short text");
+    });
+
+    it("should cut on a word boundary", () => {
+      expect(ChatContextUtils.truncate("one two three four", 10)).toBe(
+        "one two…",
+      );
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for Chat History Service
+ * These tests verify history is paged backwards from the newest message,
+ * that every query is scoped to the owner, and conversation deletion
+ */
+
+import mongoose from "mongoose";
+import { ChatHistoryService } from "../../src/services/chatHistory.service";
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+// find()/findOne() chains: every step returns the chain, lean() the result
+const query = (result: unknown) => {
+  const chain: Record<string, unknown> = { lean: async () => result };
+  for (const step of ["sort", "skip", "limit"]) chain[step] = () => chain;
+  return chain;
+};
+
+const conversation = {
+  conversationId: "conversation-1",
+  firebaseUid: "user-1",
+  title: "Sauna tips",
+};
+
+describe("Chat History Service", () => {
+  const service = new ChatHistoryService();
+  let findOne: jest.SpyInstance;
+  let find: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+
+    findOne = jest
+      .spyOn(mongoose.Model, "findOne")
+      .mockReturnValue(query(conversation) as any);
+    find = jest.spyOn(mongoose.Model, "find").mockReturnValue(
+      query([
+        { role: "assistant", content: "message 45" },
+        { role: "user", content: "message 44" },
+      ]) as any,
+    );
+    jest.spyOn(mongoose.Model, "countDocuments").mockResolvedValue(45 as any);
+  });
+
+  describe("History", () => {
+    it("should return a page oldest first, counting back from the newest", async () => {
+      const skip = jest.fn();
+      const chain = query([
+        { role: "assistant", content: "message 25" },
+        { role: "user", content: "message 24" },
+      ]);
+      chain.skip = (count: number) => {
+        skip(count);
+        return chain;
+      };
+      find.mockReturnValue(chain as any);
+
+      const history = await service.getHistory({
+        firebaseUid: "user-1",
+        conversationId: "conversation-1",
+        page: 2,
+        limit: 20,
+      });
+
+      expect(skip).toHaveBeenCalledWith(20);
+      expect(history.messages.map((message) => message.content)).toEqual([
+        "message 24",
+        "message 25",
+      ]);
+      expect(history.pagination).toEqual({
+        page: 2,
+        limit: 20,
+        total: 45,
+        hasMore: true,
+      });
+    });
+
+    it("should cap the page size", async () => {
+      const history = await service.getHistory({
+        firebaseUid: "user-1",
+        limit: 1000,
+      });
+
+      expect(history.pagination).toMatchObject({
+        page: 1,
+        limit: 100,
+        hasMore: false,
+      });
+    });
+
+    it("should only look up the user's own conversations", async () => {
+      findOne.mockReturnValue(query(null) as any);
+
+      const history = await service.getHistory({
+        firebaseUid: "user-2",
+        conversationId: "conversation-1",
+      });
+
+      expect(findOne).toHaveBeenCalledWith({
+        conversationId: "conversation-1",
+        firebaseUid: "user-2",
+      });
+      expect(history.conversation).toBeNull();
+      expect(history.messages).toEqual([]);
+      expect(find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Deletion", () => {
+    it("should delete a conversation with its messages", async () => {
+      jest
+        .spyOn(mongoose.Model, "deleteOne")
+        .mockResolvedValue({ deletedCount: 1 } as any);
+      const deleteMany = jest
+        .spyOn(mongoose.Model, "deleteMany")
+        .mockResolvedValue({ deletedCount: 2 } as any);
+
+      await expect(
+        service.deleteConversation("user-1", "conversation-1"),
+      ).resolves.toBe(true);
+      expect(deleteMany).toHaveBeenCalledWith({
+        conversationId: "conversation-1",
+        firebaseUid: "user-1",
+      });
+    });
+
+    it("should leave messages alone when the conversation isn't the user's", async () => {
+      jest
+        .spyOn(mongoose.Model, "deleteOne")
+        .mockResolvedValue({ deletedCount: 0 } as any);
+      const deleteMany = jest.spyOn(mongoose.Model, "deleteMany");
+
+      await expect(
+        service.deleteConversation("user-2", "conversation-1"),
+      ).resolves.toBe(false);
+      expect(deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit Tests for Data Export Service
+ * These tests verify lost jobs are retried or failed, lapsed exports are
+ * deleted, and that running a job never throws
+ */
+
+import mongoose from "mongoose";
+import { DataExportService } from "../../src/services/dataExport.service";
+import { IExportJob } from "../../src/models/ExportJob.model";
+import { DATA_EXPORT } from "../../src/constants";
+
+const mockDeleteFromAzureBlob = jest.fn();
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+jest.mock("../../src/utils/blobStorage", () => ({
+  deleteFromAzureBlob: (...args: unknown[]) => mockDeleteFromAzureBlob(...args),
+  getBlobSasUrl: jest.fn(),
+  uploadToAzureBlob: jest.fn(),
+}));
+
+jest.mock("../../src/services/email.service", () => ({
+  sendEmail: jest.fn(),
+}));
+
+const createJob = (overrides: Partial<IExportJob> = {}) =>
+  ({
+    jobId: "job-1",
+    firebaseUid: "user-1",
+    status: "processing",
+    attempts: 1,
+    updatedAt: new Date("2026-10-19T10:00:00Z"),
+    save: jest.fn(),
+    ...overrides,
+  }) as unknown as IExportJob;
+
+describe("Data Export Service", () => {
+  const service = new DataExportService();
+  let findOneAndUpdate: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockDeleteFromAzureBlob.mockReset();
+
+    findOneAndUpdate = jest.spyOn(mongoose.Model, "findOneAndUpdate");
+  });
+
+  it("should not throw when the job can't be claimed", async () => {
+    findOneAndUpdate.mockRejectedValue(new Error("Connection lost"));
+
+    await expect(service.processJob("job-1")).resolves.toBeUndefined();
+  });
+
+  it("should run a stale job again", async () => {
+    const job = createJob();
+    const processJob = jest
+      .spyOn(service, "processJob")
+      .mockResolvedValue(undefined);
+    findOneAndUpdate.mockResolvedValue(job);
+
+    await expect(service.retryStaleJob(job)).resolves.toBe(true);
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { jobId: "job-1", status: "processing", updatedAt: job.updatedAt },
+      { status: "pending" },
+    );
+    expect(processJob).toHaveBeenCalledWith("job-1");
+  });
+
+  it("should fail a stale job once it has used its attempts", async () => {
+    const job = createJob({ attempts: DATA_EXPORT.MAX_ATTEMPTS });
+    const processJob = jest.spyOn(service, "processJob");
+    const updateOne = jest
+      .spyOn(mongoose.Model, "updateOne")
+      .mockResolvedValue({} as any);
+
+    await expect(service.retryStaleJob(job)).resolves.toBe(false);
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { jobId: "job-1", status: "processing", updatedAt: job.updatedAt },
+      expect.objectContaining({ status: "failed" }),
+    );
+    expect(processJob).not.toHaveBeenCalled();
+  });
+
+  it("should delete the zips of exports whose link has lapsed", async () => {
+    const job = createJob({
+      status: "completed",
+      blobUrl: "https://example.blob.core.windows.net/media/exports/job-1.zip",
+    });
+    jest.spyOn(mongoose.Model, "find").mockReturnValue({
+      select: () => ({ limit: async () => [job] }),
+    } as any);
+
+    await expect(service.expireDownloads()).resolves.toBe(1);
+
+    expect(mockDeleteFromAzureBlob).toHaveBeenCalledWith(
+      "https://example.blob.core.windows.net/media/exports/job-1.zip",
+      true,
+    );
+    expect(job).toMatchObject({ status: "expired", blobUrl: undefined });
+    expect(job.save).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for Data Export Utilities
+ * These tests verify CSV formatting and the contents of the export zip
+ */
+
+import JSZip from "jszip";
+import { Types } from "mongoose";
+import { DataExportUtils } from "../../src/utils/dataExport.utils";
+
+describe("Data Export Utils", () => {
+  describe("CSV", () => {
+    it("should include a column for every field seen in any record", () => {
+      const csv = DataExportUtils.toCsv([
+        { date: "2025-01-01", hrv: 52 },
+        { date: "2025-01-02", restingHr: 58 },
+      ]);
+
+      expect(csv).toBe(
+        "date,hrv,restingHr\r\n2025-01-01,52,\r\n2025-01-02,,58\r\n",
+      );
+    });
+
+    it("should quote commas, quotes and newlines and write nested values as JSON", () => {
+      const csv = DataExportUtils.toCsv([
+        {
+          content: 'Sauna, then "cold"\nplunge',
+          steps: [{ minutes: 10 }],
+        },
+      ]);
+
+      expect(csv).toBe(
+        'content,steps\r\n"Sauna, then ""cold""\nplunge","[{""minutes"":10}]"\r\n',
+      );
+    });
+
+    it("should stop spreadsheet apps treating text as formulas", () => {
+      const csv = DataExportUtils.toCsv([
+        { content: "=HYPERLINK(1)", change: -3 },
+      ]);
+
+      expect(csv).toBe("content,change\r\n'=HYPERLINK(1),-3\r\n");
+    });
+  });
+
+  describe("Archive", () => {
+    it("should zip JSON and CSV files with a README", async () => {
+      const id = new Types.ObjectId();
+      const { buffer, recordCounts } = await DataExportUtils.buildArchive(
+        [
+          {
+            name: "profile",
+            description: "Profile",
+            records: [{ _id: id, email: "user@h2oasis.com", __v: 0 }],
+            csv: false,
+          },
+          {
+            name: "health/recovery-scores",
+            description: "Recovery scores",
+            records: [{ date: new Date("2025-01-01T00:00:00Z"), score: 80 }],
+            csv: true,
+          },
+        ],
+        new Date("2025-01-02T00:00:00Z"),
+      );
+
+      const zip = await JSZip.loadAsync(buffer);
+      const profile = JSON.parse(
+        await zip.file("profile.json")!.async("string"),
+      );
+
+      expect(recordCounts).toEqual({
+        profile: 1,
+        "health/recovery-scores": 1,
+      });
+      expect(profile).toEqual([
+        { _id: id.toString(), email: "user@h2oasis.com" },
+      ]);
+      expect(zip.file("profile.csv")).toBeNull();
+      expect(
+        await zip.file("health/recovery-scores.csv")!.async("string"),
+      ).toBe("date,score\r\n2025-01-01T00:00:00.000Z,80\r\n");
+      expect(await zip.file("README.txt")!.async("string")).toContain(
+        "health/recovery-scores (1 records)",
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Health Fusion Utilities
+ * These tests verify source priority, user overrides, recency and completeness
+ */
+
+import { HealthFusionUtils } from "../../src/utils/healthFusion.utils";
+
+describe("Health Fusion Utils", () => {
+  const morning = "2026-10-15T07:00:00Z";
+  const evening = "2026-10-15T21:00:00Z";
+
+  it("should pick each metric from its preferred source", () => {
+    const fused = HealthFusionUtils.fuse([
+      {
+        source: "apple",
+        data: {
+          sleep: { duration_minutes: 400, last_updated: morning },
+          physical: { steps: 9000, last_updated: morning },
+        },
+      },
+      {
+        source: "oura",
+        data: {
+          sleep: { duration_minutes: 430, last_updated: morning },
+          physical: { steps: 7000, last_updated: morning },
+        },
+      },
+    ]);
+
+    expect(fused.data.sleep?.duration_minutes).toBe(430);
+    expect(fused.data.physical?.steps).toBe(9000);
+    expect(fused.sources).toEqual({
+      "sleep.duration_minutes": "oura",
+      "physical.steps": "apple",
+    });
+  });
+
+  it("should let users override the priority", () => {
+    const fused = HealthFusionUtils.fuse(
+      [
+        { source: "apple", data: { sleep: { duration_minutes: 400 } } },
+        { source: "oura", data: { sleep: { duration_minutes: 430 } } },
+      ],
+      { sleep: ["apple"] },
+    );
+
+    expect(fused.data.sleep?.duration_minutes).toBe(400);
+    expect(fused.sources["sleep.duration_minutes"]).toBe("apple");
+  });
+
+  it("should fill gaps from the next source", () => {
+    const fused = HealthFusionUtils.fuse([
+      { source: "oura", data: { sleep: { duration_minutes: 430 } } },
+      {
+        source: "apple",
+        data: {
+          sleep: { duration_minutes: 400, hrv: { rmssd_avg_ms: 48 } },
+        },
+      },
+    ]);
+
+    expect(fused.data.sleep).toEqual({
+      duration_minutes: 430,
+      hrv: { rmssd_avg_ms: 48 },
+    });
+    expect(fused.sources["sleep.hrv.rmssd_avg_ms"]).toBe("apple");
+  });
+
+  it("should prefer much fresher data over the preferred source", () => {
+    const fused = HealthFusionUtils.fuse([
+      {
+        source: "apple",
+        data: { physical: { steps: 3000, last_updated: morning } },
+      },
+      {
+        source: "fitbit",
+        data: { physical: { steps: 11000, last_updated: evening } },
+      },
+    ]);
+
+    expect(fused.data.physical?.steps).toBe(11000);
+    expect(fused.data.physical?.last_updated).toBe(
+      new Date(evening).toISOString(),
+    );
+  });
+
+  it("should keep a workout recorded by two devices once", () => {
+    const workout = {
+      activity_type: "running",
+      start_time: "2026-10-15T18:00:00+02:00",
+    };
+
+    const fused = HealthFusionUtils.fuse([
+      {
+        source: "garmin",
+        data: { activity_events: [{ ...workout, duration_minutes: 30 }] },
+      },
+      {
+        source: "apple",
+        data: { activity_events: [{ ...workout, duration_minutes: 31 }] },
+      },
+    ]);
+
+    expect(fused.data.activity_events).toHaveLength(1);
+    expect(fused.data.activity_events?.[0].duration_minutes).toBe(31);
+    expect(fused.sources["activity_events.0"]).toBe("apple");
+  });
+});
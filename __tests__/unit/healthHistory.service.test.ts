@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Health History Service
+ * These tests verify webhook data is upserted into one summary per day
+ * and merged with what that day already holds
+ */
+
+import mongoose from "mongoose";
+import { HealthHistoryService } from "../../src/services/healthHistory.service";
+
+describe("Health History Service", () => {
+  const service = new HealthHistoryService();
+  let stored: Record<string, unknown>;
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    stored = {};
+
+    jest.spyOn(mongoose.Model, "findOne").mockImplementation(((key: any) => ({
+      select: () => ({
+        lean: async () =>
+          stored[key.date] ? { data: stored[key.date] } : null,
+      }),
+    })) as any);
+    updateOne = jest
+      .spyOn(mongoose.Model, "updateOne")
+      .mockImplementation((async (key: any, update: any) => {
+        stored[key.date] = update.$set.data;
+        return {};
+      }) as any);
+  });
+
+  it("should upsert sleep under the day the user woke up", async () => {
+    const days = await service.recordSummary("user-1", "oura", "sleep", {
+      duration_minutes: 450,
+      sleep_start: "2026-01-04T23:30:00-05:00",
+      sleep_end: "2026-01-05T07:00:00-05:00",
+      last_updated: "2026-01-05T07:10:00-05:00",
+    });
+
+    expect(days).toBe(1);
+    expect(updateOne).toHaveBeenCalledWith(
+      {
+        firebaseUid: "user-1",
+        source: "oura",
+        dataType: "sleep",
+        date: "2026-01-05",
+      },
+      { $set: { data: expect.objectContaining({ duration_minutes: 450 }) } },
+      { upsert: true },
+    );
+  });
+
+  it("should merge a later update into the same day", async () => {
+    const sleep = {
+      sleep_end: "2026-01-05T07:00:00-05:00",
+      last_updated: "2026-01-05T07:10:00-05:00",
+    };
+    await service.recordSummary("user-1", "oura", "sleep", {
+      ...sleep,
+      duration_minutes: 450,
+      efficiency_percentage: 88,
+    });
+    await service.recordSummary("user-1", "oura", "sleep", {
+      ...sleep,
+      duration_minutes: 455,
+      last_updated: "2026-01-05T09:00:00-05:00",
+    });
+
+    expect(stored["2026-01-05"]).toMatchObject({
+      duration_minutes: 455,
+      efficiency_percentage: 88, // Kept from the earlier reading
+    });
+  });
+
+  it("should split activity events across the days they started", async () => {
+    stored["2026-01-04"] = [
+      { activity_type: "run", start_time: "2026-01-04T08:00:00-05:00" },
+    ];
+
+    const days = await service.recordSummary(
+      "user-1",
+      "garmin",
+      "activity_events",
+      [
+        { activity_type: "run", start_time: "2026-01-04T08:00:00-05:00" },
+        { activity_type: "swim", start_time: "2026-01-04T18:00:00-05:00" },
+        { activity_type: "bike", start_time: "2026-01-05T07:00:00-05:00" },
+      ],
+    );
+
+    expect(days).toBe(2);
+    expect(stored["2026-01-04"]).toEqual([
+      { activity_type: "swim", start_time: "2026-01-04T18:00:00-05:00" },
+      { activity_type: "run", start_time: "2026-01-04T08:00:00-05:00" },
+    ]);
+    expect(stored["2026-01-05"]).toEqual([
+      { activity_type: "bike", start_time: "2026-01-05T07:00:00-05:00" },
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Health Trends Utilities
+ * These tests verify daily series, rolling averages, baselines and anomalies
+ */
+
+import {
+  DailyValue,
+  HealthTrendsUtils,
+} from "../../src/utils/healthTrends.utils";
+import { SessionStatsUtils } from "../../src/utils/sessionStats.utils";
+
+// One reading per day ending on `to`, oldest first
+const daily = (to: string, values: number[]): DailyValue[] =>
+  values.map((value, index) => ({
+    date: SessionStatsUtils.addDays(to, index - values.length + 1),
+    value,
+  }));
+
+describe("Health Trends Utils", () => {
+  describe("Daily values", () => {
+    it("should average wearables and fill gaps from recovery scores", () => {
+      const values = HealthTrendsUtils.dailyValues(
+        "hrv_rmssd",
+        [
+          {
+            date: "2026-10-14",
+            dataType: "sleep",
+            data: { hrv: { rmssd_avg_ms: 40 } },
+          },
+          {
+            date: "2026-10-14",
+            dataType: "sleep",
+            data: { hrv: { rmssd_avg_ms: 50 } },
+          },
+        ],
+        [
+          { date: "2026-10-14", metrics: { hrvMs: 90 }, vendorScores: [] },
+          { date: "2026-10-15", metrics: { hrvMs: 60 }, vendorScores: [] },
+        ],
+      );
+
+      expect(values).toEqual([
+        { date: "2026-10-14", value: 45 },
+        { date: "2026-10-15", value: 60 },
+      ]);
+    });
+
+    it("should read body battery from vendor scores", () => {
+      const values = HealthTrendsUtils.dailyValues(
+        "body_battery",
+        [],
+        [
+          {
+            date: "2026-10-15",
+            metrics: {},
+            vendorScores: [
+              { wearable: "garmin", source: "garmin_body_battery", score: 72 },
+            ],
+          },
+        ],
+      );
+
+      expect(values).toEqual([{ date: "2026-10-15", value: 72 }]);
+    });
+  });
+
+  describe("Trend", () => {
+    const to = "2026-10-15";
+
+    it("should return a day for every date in the range", () => {
+      const trend = HealthTrendsUtils.compute(
+        "steps",
+        [{ date: "2026-10-13", value: 8000 }],
+        { from: "2026-10-09", to },
+      );
+
+      expect(trend.series).toHaveLength(7);
+      expect(trend.series[0].value).toBeNull();
+      expect(trend.series[4].value).toBe(8000);
+      expect(trend.series[6].average7d).toBe(8000);
+      expect(trend.latest).toEqual({ date: "2026-10-13", value: 8000 });
+      expect(trend.baseline).toBeNull();
+    });
+
+    it("should compute rolling averages and the baseline", () => {
+      const trend = HealthTrendsUtils.compute(
+        "hrv_rmssd",
+        daily(to, Array(28).fill(50)),
+        { from: "2026-10-09", to },
+      );
+
+      const last = trend.series[trend.series.length - 1];
+      expect(last.average7d).toBe(50);
+      expect(last.average28d).toBe(50);
+      expect(trend.baseline).toEqual({
+        mean: 50,
+        standardDeviation: 0,
+        days: 28,
+      });
+      expect(trend.direction).toBe("flat");
+      expect(trend.improving).toBeNull();
+    });
+
+    it("should flag days far from the baseline", () => {
+      const values = daily(
+        to,
+        Array.from({ length: 28 }, (_, index) => (index % 2 ? 48 : 52)),
+      );
+      values[values.length - 1].value = 30;
+
+      const trend = HealthTrendsUtils.compute("hrv_rmssd", values, {
+        from: "2026-10-09",
+        to,
+      });
+
+      expect(trend.anomalies).toEqual([to]);
+      expect(trend.series[trend.series.length - 1].zScore).toBeLessThan(-2);
+    });
+
+    it("should know which direction is better for each metric", () => {
+      // Four steady weeks, then a week 10 higher
+      const values = daily(to, [
+        ...Array.from({ length: 28 }, (_, index) => (index % 2 ? 58 : 62)),
+        ...Array(7).fill(70),
+      ]);
+
+      const hrv = HealthTrendsUtils.compute("hrv_rmssd", values, {
+        from: "2026-10-09",
+        to,
+      });
+      const restingHr = HealthTrendsUtils.compute("resting_hr", values, {
+        from: "2026-10-09",
+        to,
+      });
+
+      expect(hrv.direction).toBe("up");
+      expect(hrv.improving).toBe(true);
+      expect(restingHr.improving).toBe(false);
+    });
+  });
+});
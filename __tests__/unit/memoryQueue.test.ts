@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for the In-Memory Queue
+ * These tests verify message locking, redelivery and dead-lettering, the
+ * delivery semantics every queue backend shares
+ */
+
+import { MemoryQueue } from "../../src/config/memoryQueue";
+import { QueueLockLostError } from "../../src/config/queue.types";
+import { QUEUE } from "../../src/constants";
+
+let mockUuid = 0;
+jest.mock("uuid", () => ({ v4: () => `uuid-${++mockUuid}` }));
+
+describe("Memory Queue", () => {
+  let queue: MemoryQueue;
+  let now: number;
+
+  beforeEach(() => {
+    queue = new MemoryQueue();
+    now = Date.parse("2026-01-05T07:00:00.000Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should hide a received message until it's settled", async () => {
+    const messageId = await queue.send({ userId: "user-1" });
+
+    const [message] = await queue.receive(1, 0);
+    expect(message).toMatchObject({
+      messageId,
+      body: { userId: "user-1" },
+      deliveryCount: 1,
+    });
+    expect(await queue.receive(1, 0)).toEqual([]);
+
+    await queue.complete(message);
+    expect(queue.getMessageCount()).toBe(0);
+  });
+
+  it("should redeliver an abandoned message with a higher delivery count", async () => {
+    await queue.send({ userId: "user-1" });
+
+    const [first] = await queue.receive(1, 0);
+    await queue.abandon(first);
+    const [second] = await queue.receive(1, 0);
+
+    expect(second.messageId).toBe(first.messageId);
+    expect(second.deliveryCount).toBe(2);
+
+    // The first delivery can no longer settle the message
+    await expect(queue.complete(first)).rejects.toThrow(QueueLockLostError);
+  });
+
+  it("should redeliver a message whose lock expired", async () => {
+    await queue.send({ userId: "user-1" });
+
+    const [first] = await queue.receive(1, 0);
+    now += QUEUE.LOCK_DURATION_MS;
+
+    await expect(queue.complete(first)).rejects.toThrow(QueueLockLostError);
+    const [second] = await queue.receive(1, 0);
+    expect(second.deliveryCount).toBe(2);
+  });
+
+  it("should dead-letter a message after the max delivery count", async () => {
+    const messageId = await queue.send({ userId: "user-1" });
+
+    for (let attempt = 1; attempt <= QUEUE.MAX_DELIVERY_COUNT; attempt++) {
+      const [message] = await queue.receive(1, 0);
+      await queue.abandon(message);
+    }
+
+    expect(await queue.receive(1, 0)).toEqual([]);
+    expect(queue.getDeadLetters()).toEqual([
+      {
+        messageId,
+        body: { userId: "user-1" },
+        deliveryCount: QUEUE.MAX_DELIVERY_COUNT + 1,
+        reason: "MaxDeliveryCountExceeded",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Notification Utilities
+ * These tests verify quiet hours and per-category opt-outs
+ */
+
+import { NotificationUtils } from "../../src/utils/notification.utils";
+
+describe("Notification Utils", () => {
+  describe("Quiet hours", () => {
+    const overnight = {
+      start: "22:00",
+      end: "07:00",
+      timeZone: "America/New_York",
+    };
+
+    it("should handle windows that run overnight", () => {
+      // 23:30 and 06:00 in New York (EDT, UTC-4)
+      expect(
+        NotificationUtils.isWithinQuietHours(
+          overnight,
+          new Date("2026-10-15T03:30:00Z"),
+        ),
+      ).toBe(true);
+      expect(
+        NotificationUtils.isWithinQuietHours(
+          overnight,
+          new Date("2026-10-15T10:00:00Z"),
+        ),
+      ).toBe(true);
+      // 07:00 - quiet hours are over
+      expect(
+        NotificationUtils.isWithinQuietHours(
+          overnight,
+          new Date("2026-10-15T11:00:00Z"),
+        ),
+      ).toBe(false);
+    });
+
+    it("should handle windows within a day", () => {
+      const afternoon = { start: "13:00", end: "15:00", timeZone: "UTC" };
+
+      expect(
+        NotificationUtils.isWithinQuietHours(
+          afternoon,
+          new Date("2026-10-15T14:00:00Z"),
+        ),
+      ).toBe(true);
+      expect(
+        NotificationUtils.isWithinQuietHours(
+          afternoon,
+          new Date("2026-10-15T16:00:00Z"),
+        ),
+      ).toBe(false);
+    });
+
+    it("should never be quiet without quiet hours", () => {
+      expect(NotificationUtils.isWithinQuietHours(undefined)).toBe(false);
+    });
+  });
+
+  describe("Skip reasons", () => {
+    const preferences = {
+      quietHours: { start: "00:00", end: "23:59", timeZone: "UTC" },
+      optOuts: ["announcements" as const],
+    };
+    const now = new Date("2026-10-15T12:00:00Z");
+
+    it("should skip categories the user opted out of", () => {
+      expect(
+        NotificationUtils.getSkipReason(preferences, "announcements", { now }),
+      ).toBe("opted_out");
+    });
+
+    it("should skip during quiet hours unless told to ignore them", () => {
+      expect(
+        NotificationUtils.getSkipReason(preferences, "recovery_nudges", {
+          now,
+        }),
+      ).toBe("quiet_hours");
+      expect(
+        NotificationUtils.getSkipReason(preferences, "session_reminders", {
+          now,
+          ignoreQuietHours: true,
+        }),
+      ).toBeNull();
+    });
+  });
+});
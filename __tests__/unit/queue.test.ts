@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for Queue Backend Selection
+ * These tests verify production never quietly falls back from Service Bus
+ * and that the in-process queue is refused outside tests
+ */
+
+import { assertQueueConfig } from "../../src/config/queue";
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+describe("Queue Backend Selection", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.QUEUE_BACKEND;
+    delete process.env.AZURE_SERVICE_BUS_CONNECTION_STRING;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("should refuse to start in production without Service Bus", () => {
+    process.env.NODE_ENV = "production";
+
+    expect(() => assertQueueConfig()).toThrow(
+      /AZURE_SERVICE_BUS_CONNECTION_STRING is not set/,
+    );
+  });
+
+  it("should allow the MongoDB queue in production when set explicitly", () => {
+    process.env.NODE_ENV = "production";
+    process.env.QUEUE_BACKEND = "mongo";
+
+    expect(() => assertQueueConfig()).not.toThrow();
+  });
+
+  it("should fall back to the MongoDB queue outside production", () => {
+    process.env.NODE_ENV = "development";
+
+    expect(() => assertQueueConfig()).not.toThrow();
+  });
+
+  it("should refuse the in-memory queue outside tests", () => {
+    process.env.NODE_ENV = "development";
+    process.env.QUEUE_BACKEND = "memory";
+
+    expect(() => assertQueueConfig()).toThrow(
+      "QUEUE_BACKEND=memory is only supported in tests",
+    );
+  });
+
+  it("should allow the in-memory queue in tests", () => {
+    process.env.NODE_ENV = "test";
+    process.env.QUEUE_BACKEND = "memory";
+
+    expect(() => assertQueueConfig()).not.toThrow();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for Recovery Score Utilities
+ * These tests verify vendor score normalization and the raw metric fallback
+ */
+
+import { RecoveryScoreUtils } from "../../src/utils/recoveryScore.utils";
+
+describe("Recovery Score Utils", () => {
+  const now = new Date("2026-10-15T12:00:00Z");
+  const recent = "2026-10-15T07:00:00Z";
+  const lastWeek = "2026-10-08T07:00:00Z";
+
+  describe("Inputs", () => {
+    it("should collect vendor scores from every wearable", () => {
+      const inputs = RecoveryScoreUtils.extractInputs(
+        {
+          oura: {
+            data: { readiness: { score: 80, last_updated: recent } },
+          },
+          whoop: {
+            data: {
+              recovery: { score: 60, hrv_rmssd_ms: 55, last_updated: recent },
+            },
+          },
+        },
+        now,
+      );
+
+      expect(inputs.vendorScores.map((vendor) => vendor.source)).toEqual([
+        "oura_readiness",
+        "whoop_recovery",
+      ]);
+      expect(inputs.metrics.hrvMs).toBe(55);
+      expect(inputs.wearables).toEqual(["oura", "whoop"]);
+    });
+
+    it("should ignore stale readings and disconnected wearables", () => {
+      const inputs = RecoveryScoreUtils.extractInputs(
+        {
+          oura: {
+            data: { readiness: { score: 80, last_updated: lastWeek } },
+          },
+          garmin: {
+            connected: false,
+            data: { body_battery: { level: 70, last_updated: recent } },
+          },
+        },
+        now,
+      );
+
+      expect(inputs.vendorScores).toEqual([]);
+      expect(inputs.wearables).toEqual([]);
+    });
+
+    it("should prefer the freshest reading of a metric", () => {
+      const inputs = RecoveryScoreUtils.extractInputs(
+        {
+          fitbit: {
+            data: {
+              sleep: {
+                duration_minutes: 400,
+                last_updated: "2026-10-15T06:00:00Z",
+              },
+            },
+          },
+          oura: {
+            data: {
+              sleep: { duration_minutes: 450, last_updated: recent },
+            },
+          },
+        },
+        now,
+      );
+
+      expect(inputs.metrics.sleepMinutes).toBe(450);
+    });
+  });
+
+  describe("Score", () => {
+    it("should use the average vendor score when available", () => {
+      const result = RecoveryScoreUtils.compute(
+        {
+          vendorScores: [
+            { wearable: "oura", source: "oura_readiness", score: 80 },
+            { wearable: "whoop", source: "whoop_recovery", score: 61 },
+          ],
+          metrics: { hrvMs: 60 },
+          wearables: ["oura", "whoop"],
+        },
+        null,
+      );
+
+      expect(result?.method).toBe("vendor");
+      expect(result?.score).toBe(71);
+      expect(result?.components.hrv).toBe(50);
+    });
+
+    it("should fall back to raw metrics", () => {
+      const result = RecoveryScoreUtils.compute(
+        {
+          vendorScores: [],
+          metrics: {
+            hrvMs: 100, // 100
+            restingHeartRateBpm: 40, // 100
+            sleepMinutes: 480, // 100
+            sleepEfficiency: 95, // 100
+            activityLoad: 100, // 0
+          },
+          wearables: ["garmin"],
+        },
+        null,
+      );
+
+      expect(result?.method).toBe("metrics");
+      expect(result?.score).toBe(85);
+    });
+
+    it("should score against the personal baseline once there is one", () => {
+      const baseline = RecoveryScoreUtils.baseline([
+        { hrvMs: 40 },
+        { hrvMs: 40 },
+        { hrvMs: 40 },
+      ]);
+
+      expect(baseline?.hrvMs).toBe(40);
+      expect(RecoveryScoreUtils.components({ hrvMs: 40 }, baseline).hrv).toBe(
+        50,
+      );
+      expect(RecoveryScoreUtils.baseline([{ hrvMs: 40 }])).toBeNull();
+    });
+
+    it("should not score activity load alone", () => {
+      expect(
+        RecoveryScoreUtils.compute(
+          {
+            vendorScores: [],
+            metrics: { activityLoad: 20 },
+            wearables: ["fitbit"],
+          },
+          null,
+        ),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for Recurrence Utilities
+ * These tests verify RRULE parsing and next occurrence calculation across timezones
+ */
+
+import {
+  RecurrenceRuleError,
+  RecurrenceUtils,
+} from "../../src/utils/recurrence.utils";
+
+describe("Recurrence Utils", () => {
+  describe("Parsing", () => {
+    it("should parse a weekly rule", () => {
+      const rule = RecurrenceUtils.parse(
+        "RRULE:FREQ=WEEKLY;BYDAY=FR,MO,WE;BYHOUR=7;BYMINUTE=0",
+      );
+
+      expect(rule).toEqual({
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: [1, 3, 5],
+        byHour: [7],
+        byMinute: [0],
+      });
+      expect(RecurrenceUtils.format(rule)).toBe(
+        "FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=7;BYMINUTE=0",
+      );
+    });
+
+    it("should reject unsupported or invalid rules", () => {
+      expect(() => RecurrenceUtils.parse("FREQ=MONTHLY;BYHOUR=7")).toThrow(
+        RecurrenceRuleError,
+      );
+      expect(() =>
+        RecurrenceUtils.parse("FREQ=DAILY;COUNT=5;BYHOUR=7"),
+      ).toThrow(RecurrenceRuleError);
+      expect(() => RecurrenceUtils.parse("FREQ=DAILY;BYHOUR=25")).toThrow(
+        RecurrenceRuleError,
+      );
+      expect(() =>
+        RecurrenceUtils.parse("FREQ=WEEKLY;BYDAY=XX;BYHOUR=7"),
+      ).toThrow(RecurrenceRuleError);
+      expect(() => RecurrenceUtils.parse("FREQ=DAILY")).toThrow(
+        RecurrenceRuleError,
+      );
+    });
+  });
+
+  describe("Next occurrence", () => {
+    const monWedFri = RecurrenceUtils.parse(
+      "FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=7",
+    );
+
+    it("should find the next matching weekday in the user's timezone", () => {
+      // Wednesday 2026-10-14 at 08:00 in New York - today's 7am has passed
+      const next = RecurrenceUtils.nextOccurrence(
+        monWedFri,
+        { timeZone: "America/New_York", startDate: "2026-10-01" },
+        new Date("2026-10-14T12:00:00Z"),
+      );
+
+      // Friday 7am EDT
+      expect(next?.toISOString()).toBe("2026-10-16T11:00:00.000Z");
+    });
+
+    it("should follow daylight saving changes", () => {
+      // New York falls back on Sunday 2026-11-01
+      const next = RecurrenceUtils.nextOccurrence(
+        monWedFri,
+        { timeZone: "America/New_York", startDate: "2026-10-01" },
+        new Date("2026-10-31T12:00:00Z"),
+      );
+
+      // Monday 7am EST
+      expect(next?.toISOString()).toBe("2026-11-02T12:00:00.000Z");
+    });
+
+    it("should not start before the start date", () => {
+      const daily = RecurrenceUtils.parse("FREQ=DAILY;BYHOUR=18;BYMINUTE=30");
+
+      const next = RecurrenceUtils.nextOccurrence(
+        daily,
+        { timeZone: "UTC", startDate: "2026-11-05" },
+        new Date("2026-10-14T12:00:00Z"),
+      );
+
+      expect(next?.toISOString()).toBe("2026-11-05T18:30:00.000Z");
+    });
+
+    it("should respect the interval", () => {
+      const everyOtherWeek = RecurrenceUtils.parse(
+        "FREQ=WEEKLY;INTERVAL=2;BYDAY=SA;BYHOUR=9",
+      );
+      const window = { timeZone: "UTC", startDate: "2026-10-05" };
+
+      const first = RecurrenceUtils.nextOccurrence(
+        everyOtherWeek,
+        window,
+        new Date("2026-10-05T00:00:00Z"),
+      );
+      const second = RecurrenceUtils.nextOccurrence(
+        everyOtherWeek,
+        window,
+        first!,
+      );
+
+      expect(first?.toISOString()).toBe("2026-10-10T09:00:00.000Z");
+      expect(second?.toISOString()).toBe("2026-10-24T09:00:00.000Z");
+    });
+
+    it("should return null after the end date", () => {
+      const next = RecurrenceUtils.nextOccurrence(
+        monWedFri,
+        {
+          timeZone: "UTC",
+          startDate: "2026-10-01",
+          endDate: "2026-10-14",
+        },
+        new Date("2026-10-14T12:00:00Z"),
+      );
+
+      expect(next).toBeNull();
+    });
+  });
+
+  describe("Local times", () => {
+    it("should move times skipped by the clocks going forward to the hour after", () => {
+      // New York springs forward at 2am on 2026-03-08: 2:30 becomes 3:30 EDT
+      expect(
+        RecurrenceUtils.toInstant(
+          "2026-03-08",
+          2,
+          30,
+          "America/New_York",
+        ).toISOString(),
+      ).toBe("2026-03-08T07:30:00.000Z");
+
+      // Berlin springs forward at 2am on 2026-03-29: 2:30 becomes 3:30 CEST
+      expect(
+        RecurrenceUtils.toInstant(
+          "2026-03-29",
+          2,
+          30,
+          "Europe/Berlin",
+        ).toISOString(),
+      ).toBe("2026-03-29T01:30:00.000Z");
+    });
+
+    it("should use the first of the times repeated when the clocks go back", () => {
+      // New York falls back at 2am on 2026-11-01: 1:30 EDT, not 1:30 EST
+      expect(
+        RecurrenceUtils.toInstant(
+          "2026-11-01",
+          1,
+          30,
+          "America/New_York",
+        ).toISOString(),
+      ).toBe("2026-11-01T05:30:00.000Z");
+
+      // Berlin falls back at 3am on 2026-10-25: 2:30 CEST, not 2:30 CET
+      expect(
+        RecurrenceUtils.toInstant(
+          "2026-10-25",
+          2,
+          30,
+          "Europe/Berlin",
+        ).toISOString(),
+      ).toBe("2026-10-25T00:30:00.000Z");
+    });
+
+    it("should leave times either side of a change alone", () => {
+      expect(
+        RecurrenceUtils.toInstant(
+          "2026-03-08",
+          1,
+          30,
+          "America/New_York",
+        ).toISOString(),
+      ).toBe("2026-03-08T06:30:00.000Z");
+      expect(
+        RecurrenceUtils.toInstant(
+          "2026-10-25",
+          3,
+          30,
+          "Europe/Berlin",
+        ).toISOString(),
+      ).toBe("2026-10-25T02:30:00.000Z");
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Session Insights Utilities
+ * These tests verify session days, next-night joins, effects and confidence
+ */
+
+import {
+  NightlyMetrics,
+  SessionInsightsUtils,
+} from "../../src/utils/sessionInsights.utils";
+import { SessionStatsUtils } from "../../src/utils/sessionStats.utils";
+
+describe("Session Insights Utils", () => {
+  describe("Session days", () => {
+    it("should group completions by local day and product", () => {
+      const days = SessionInsightsUtils.sessionDays(
+        [
+          {
+            // 23:30 UTC is already the next day in Amsterdam
+            completedAt: new Date("2026-10-14T23:30:00Z"),
+            steps: [
+              { activity: "Sauna session", minutes: 15 },
+              { activity: "Cold plunge", minutes: 0 },
+            ],
+          },
+        ],
+        "Europe/Amsterdam",
+      );
+
+      expect([...days.keys()]).toEqual(["2026-10-15"]);
+      expect([...days.get("2026-10-15")!].sort()).toEqual([
+        "any_session",
+        "sauna",
+      ]);
+    });
+  });
+
+  describe("Nightly metrics", () => {
+    it("should prefer sleep data and fill gaps from recovery scores", () => {
+      const nights = SessionInsightsUtils.nightlyMetrics(
+        new Map([
+          ["2026-10-15", { deep_sleep_minutes: 80, hrv: { rmssd_avg_ms: 50 } }],
+        ]),
+        [
+          { date: "2026-10-15", score: 70, metrics: { hrvMs: 90 } },
+          { date: "2026-10-16", score: 65, metrics: { hrvMs: 45 } },
+        ],
+      );
+
+      expect(nights.get("2026-10-15")).toEqual({
+        deep_sleep: 80,
+        hrv: 50,
+        recovery_score: 70,
+      });
+      expect(nights.get("2026-10-16")).toEqual({
+        hrv: 45,
+        recovery_score: 65,
+      });
+    });
+  });
+
+  describe("Effects", () => {
+    const from = "2026-09-01";
+
+    // Sauna on even days; deep sleep is 15 min longer the night after
+    const build = (days: number) => {
+      const sessionDays = new Map<string, Set<any>>();
+      const nights: NightlyMetrics = new Map();
+
+      for (let index = 0; index < days; index++) {
+        const date = SessionStatsUtils.addDays(from, index);
+        const sauna = index % 2 === 0;
+        if (sauna) sessionDays.set(date, new Set(["any_session", "sauna"]));
+        nights.set(SessionStatsUtils.addDays(date, 1), {
+          deep_sleep: (sauna ? 90 : 75) + (index % 4 < 2 ? 2 : -2),
+        });
+      }
+
+      return {
+        sessionDays,
+        nights,
+        range: { from, to: SessionStatsUtils.addDays(from, days - 1) },
+      };
+    };
+
+    it("should compare the following night with rest days", () => {
+      const { sessionDays, nights, range } = build(30);
+
+      const effects = SessionInsightsUtils.compute(sessionDays, nights, range);
+      const sauna = effects.find(
+        (effect) =>
+          effect.exposure === "sauna" && effect.metric === "deep_sleep",
+      )!;
+
+      expect(sauna.withSession.nights).toBe(15);
+      expect(sauna.withoutSession.nights).toBe(15);
+      expect(sauna.difference).toBe(15);
+      expect(sauna.confidence).toBe("high");
+      expect(sauna.improving).toBe(true);
+      expect(sauna.confidenceInterval[0]).toBeGreaterThan(0);
+      expect(sauna.summary).toBe(
+        "On sauna days your deep sleep averages +15 min the following night (15 nights vs. 15 without a session, high confidence)",
+      );
+      expect(effects.some((effect) => effect.exposure === "hot-tub")).toBe(
+        false,
+      );
+    });
+
+    it("should leave out effects with too few nights", () => {
+      const { sessionDays, nights, range } = build(4);
+
+      expect(SessionInsightsUtils.compute(sessionDays, nights, range)).toEqual(
+        [],
+      );
+    });
+
+    it("should give low confidence to small noisy samples", () => {
+      const effect = SessionInsightsUtils.effect(
+        "cold-plunge",
+        "hrv",
+        [50, 70, 40],
+        [45, 60, 55],
+      )!;
+
+      expect(effect.confidence).toBe("low");
+      expect(effect.confidenceInterval[0]).toBeLessThan(0);
+      expect(effect.confidenceInterval[1]).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for Session Personalization Service
+ * These tests verify the context is built from the user's recent runs,
+ * sessions completed without a run, recovery scores and product
+ */
+
+import mongoose from "mongoose";
+import { SessionPersonalizationService } from "../../src/services/sessionPersonalization.service";
+import { SessionStatsUtils } from "../../src/utils/sessionStats.utils";
+import { SESSION_PERSONALIZATION } from "../../src/constants";
+
+const mockGetScores = jest.fn();
+
+jest.mock("../../src/services/recoveryScore.service", () => ({
+  RecoveryScoreService: jest.fn().mockImplementation(() => ({
+    getScores: (...args: unknown[]) => mockGetScores(...args),
+  })),
+}));
+
+// find()/findOne() chains: every step returns the chain, lean() the result
+const query = (result: unknown) => {
+  const chain: Record<string, unknown> = { lean: async () => result };
+  for (const step of ["sort", "limit", "select"]) chain[step] = () => chain;
+  return chain;
+};
+
+const runs = [
+  {
+    sessionId: "session-1",
+    status: "abandoned",
+    startedAt: new Date("2026-10-16T18:30:00Z"),
+    endedAt: new Date("2026-10-16T18:45:00Z"),
+    steps: [
+      {
+        stepNumber: 1,
+        activity: "Cold Plunge",
+        plannedDurationMinutes: 3,
+        status: "skipped",
+      },
+    ],
+    rating: { score: 2 },
+  },
+];
+
+const completedSessions = [
+  {
+    sessionId: "session-1", // Also has a run - summarized from the run
+    SessionName: "Contrast Reset",
+    Steps: [],
+    completedAt: new Date("2026-10-16T18:45:00Z"),
+  },
+  {
+    sessionId: "session-2",
+    SessionName: "Evening Soak",
+    productType: "hot-tub",
+    Steps: [{ StepNumber: 1, Activity: "Hot Tub", DurationMinutes: 15 }],
+    completedAt: new Date("2026-10-17T20:00:00Z"),
+    completionFeedback: { rating: 5 },
+  },
+];
+
+describe("Session Personalization Service", () => {
+  const service = new SessionPersonalizationService();
+  let find: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockGetScores.mockReset();
+    mockGetScores.mockResolvedValue([
+      { date: "2026-10-16", score: 70 },
+      { date: "2026-10-17", score: 80 },
+    ]);
+
+    jest.spyOn(mongoose.Model, "findOne").mockReturnValue(
+      query({
+        selectedProduct: { type: "sauna" },
+        preferences: { timezone: "America/New_York" },
+      }) as any,
+    );
+    find = jest.spyOn(mongoose.Model, "find").mockImplementation(function (
+      this: any,
+      filter: any,
+    ) {
+      if (this.modelName === "SessionRun") return query(runs);
+      return filter.isCompleted
+        ? query(completedSessions)
+        : query([{ sessionId: "session-1", SessionName: "Contrast Reset" }]);
+    } as any);
+  });
+
+  it("should combine runs and completed sessions, newest first", async () => {
+    const context = await service.buildContext("user-1");
+
+    expect(
+      context.recentSessions.map((session) => [
+        session.sessionName,
+        session.outcome,
+      ]),
+    ).toEqual([
+      ["Evening Soak", "completed"],
+      ["Contrast Reset", "abandoned"],
+    ]);
+    expect(context.recentSessions[1].skipped).toEqual(["Cold Plunge"]);
+    expect(context.averageRating).toBe(3.5);
+    expect(context.product).toBe("sauna");
+    expect(find).toHaveBeenCalledWith({
+      firebaseUid: "user-1",
+      sessionId: { $in: ["session-1"] },
+    });
+  });
+
+  it("should read the recovery window in the user's time zone", async () => {
+    const today = SessionStatsUtils.toLocalDate(new Date(), "America/New_York");
+
+    const context = await service.buildContext("user-1");
+
+    expect(mockGetScores).toHaveBeenCalledWith(
+      "user-1",
+      SessionStatsUtils.addDays(
+        today,
+        -(SESSION_PERSONALIZATION.RECOVERY_DAYS - 1),
+      ),
+      today,
+    );
+    expect(context.recovery).toMatchObject({
+      latest: { date: "2026-10-17", score: 80 },
+      average: 75,
+    });
+  });
+});
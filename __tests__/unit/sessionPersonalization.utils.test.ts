@@ -0,0 +1,173 @@
+/**
+ * Unit Tests for Session Personalization Utilities
+ * These tests verify run and feedback summaries, recovery trends and the prompt
+ */
+
+import { SessionPersonalizationUtils } from "../../src/utils/sessionPersonalization.utils";
+
+describe("Session Personalization Utils", () => {
+  const endedAt = new Date("2026-10-17T19:00:00Z");
+
+  describe("Recent sessions", () => {
+    it("should summarize skipped, shortened and unreached steps of a run", () => {
+      const summary = SessionPersonalizationUtils.fromRun(
+        {
+          sessionId: "session-1",
+          status: "abandoned",
+          startedAt: new Date("2026-10-17T18:30:00Z"),
+          endedAt,
+          steps: [
+            {
+              stepNumber: 1,
+              activity: "Sauna",
+              plannedDurationMinutes: 15,
+              status: "completed",
+              actualDurationSeconds: 6 * 60,
+            },
+            {
+              stepNumber: 2,
+              activity: "Cold plunge",
+              plannedDurationMinutes: 3,
+              status: "skipped",
+            },
+            {
+              stepNumber: 3,
+              activity: "Rest",
+              plannedDurationMinutes: 5,
+              status: "pending",
+            },
+          ],
+          rating: { score: 2, comment: "Too hot", ratedAt: endedAt },
+        },
+        { SessionName: "Contrast Reset", productType: "sauna" },
+      );
+
+      expect(summary).toMatchObject({
+        sessionName: "Contrast Reset",
+        outcome: "abandoned",
+        plannedMinutes: 23,
+        actualMinutes: 6,
+        skipped: ["Cold plunge"],
+        shortened: ["Sauna"],
+        rating: 2,
+      });
+    });
+
+    it("should use feedback sent when a session was marked complete", () => {
+      const summary = SessionPersonalizationUtils.fromSession({
+        sessionId: "session-2",
+        SessionName: "Evening Soak",
+        productType: "hot-tub",
+        completedAt: endedAt,
+        updatedAt: endedAt,
+        Steps: [
+          {
+            StepNumber: 1,
+            Activity: "Hot tub soak",
+            DurationMinutes: 20,
+            Instructions: "",
+          },
+          {
+            StepNumber: 2,
+            Activity: "Breathwork",
+            DurationMinutes: 5,
+            Instructions: "",
+          },
+        ],
+        completionFeedback: {
+          steps: [{ stepNumber: 2, skipped: true }],
+          rating: 4,
+          recordedAt: endedAt,
+        },
+      });
+
+      expect(summary.skipped).toEqual(["Breathwork"]);
+      expect(summary.actualMinutes).toBeNull();
+      expect(summary.rating).toBe(4);
+    });
+  });
+
+  describe("Recovery", () => {
+    it("should compare the last days with the rest of the window", () => {
+      const recovery = SessionPersonalizationUtils.recovery([
+        { date: "2026-10-12", score: 80 },
+        { date: "2026-10-13", score: 78 },
+        { date: "2026-10-14", score: 82 },
+        { date: "2026-10-15", score: 60 },
+        { date: "2026-10-16", score: 58 },
+        { date: "2026-10-17", score: 55 },
+      ]);
+
+      expect(recovery).toEqual({
+        latest: { date: "2026-10-17", score: 55 },
+        average: 69,
+        trend: "down",
+      });
+    });
+
+    it("should have no trend without earlier scores", () => {
+      const recovery = SessionPersonalizationUtils.recovery([
+        { date: "2026-10-17", score: 55 },
+      ]);
+
+      expect(recovery.trend).toBeNull();
+    });
+  });
+
+  describe("Context", () => {
+    const session = (skipped: string[]) => ({
+      sessionId: "session",
+      sessionName: "Morning Plunge",
+      date: endedAt,
+      outcome: "completed" as const,
+      productType: "cold-plunge" as const,
+      plannedMinutes: 10,
+      actualMinutes: null,
+      skipped,
+      shortened: [],
+      rating: 3,
+    });
+
+    it("should flag activities skipped in several sessions", () => {
+      const context = SessionPersonalizationUtils.build(
+        [session(["Cold plunge"]), session(["Cold plunge", "Rest"])],
+        {
+          latest: { date: "2026-10-17", score: 55 },
+          average: 69,
+          trend: "down",
+        },
+        "cold-plunge",
+      );
+
+      expect(context.oftenSkipped).toEqual(["Cold plunge"]);
+      expect(context.averageRating).toBe(3);
+      expect(context.summary).toContain("Often skipped: Cold plunge");
+      expect(context.summary).toContain(
+        "Recovery score: 55/100 on 2026-10-17, trending down",
+      );
+
+      expect(
+        SessionPersonalizationUtils.generationInputs(context, {
+          tags: ["Cold Plunge"],
+        }),
+      ).toMatchObject({
+        tags: ["Cold Plunge"],
+        goals: [],
+        productType: "cold-plunge",
+        recentSessionIds: ["session", "session"],
+        recoveryScore: 55,
+        recoveryTrend: "down",
+      });
+    });
+
+    it("should leave the prompt alone for new users", () => {
+      const context = SessionPersonalizationUtils.build(
+        [],
+        { latest: null, average: null, trend: null },
+        null,
+      );
+
+      expect(context.summary).toBe("");
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for Session Run Service
+ * These tests verify runs move through start, step events, pauses,
+ * completion, abandonment and rating, and that completing a run marks
+ * the session completed
+ */
+
+import mongoose from "mongoose";
+import {
+  SessionRunService,
+  SessionRunStateError,
+} from "../../src/services/sessionRun.service";
+import { ISessionRun, SessionRun } from "../../src/models/SessionRun.model";
+
+jest.mock("uuid", () => ({ v4: () => "run-1" }));
+
+jest.mock("../../src/services/sessionCache.service", () => ({
+  sessionCacheService: { addSessionToCache: jest.fn() },
+}));
+
+const SESSION_ID = "3f0c6a1e-8a4b-4a8e-9d55-1c2b3a4d5e6f"; // Sessions use UUIDs
+const START = new Date("2026-01-05T07:00:00.000Z");
+const at = (seconds: number) => new Date(START.getTime() + seconds * 1000);
+
+const storedSession = {
+  sessionId: SESSION_ID,
+  firebaseUid: "user-1",
+  SessionName: "Morning Contrast",
+  Steps: [
+    { StepNumber: 1, Activity: "Sauna", DurationMinutes: 10 },
+    { StepNumber: 2, Activity: "Cold Plunge", DurationMinutes: 3 },
+  ],
+};
+
+const createRun = (overrides: Partial<ISessionRun> = {}) =>
+  new SessionRun({
+    runId: "run-1",
+    sessionId: SESSION_ID,
+    firebaseUid: "user-1",
+    status: "in_progress",
+    startedAt: START,
+    steps: [
+      {
+        stepNumber: 1,
+        activity: "Sauna",
+        plannedDurationMinutes: 10,
+        status: "pending",
+      },
+      {
+        stepNumber: 2,
+        activity: "Cold Plunge",
+        plannedDurationMinutes: 3,
+        status: "pending",
+      },
+    ],
+    ...overrides,
+  });
+
+describe("Session Run Service", () => {
+  const service = new SessionRunService();
+  let run: ISessionRun;
+  let findOneAndUpdate: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    run = createRun();
+
+    jest.spyOn(mongoose.Model, "findOne").mockImplementation(function (
+      this: any,
+    ) {
+      return this.modelName === "SessionRun"
+        ? run
+        : { lean: async () => storedSession };
+    } as any);
+    jest.spyOn(SessionRun.prototype, "save").mockImplementation(async function (
+      this: any,
+    ) {
+      return this;
+    } as any);
+    findOneAndUpdate = jest
+      .spyOn(mongoose.Model, "findOneAndUpdate")
+      .mockResolvedValue({
+        SessionName: storedSession.SessionName,
+        toObject: () => storedSession,
+      } as any);
+  });
+
+  it("should start a run with a snapshot of the session steps", async () => {
+    const create = jest
+      .spyOn(mongoose.Model, "create")
+      .mockImplementation(async (doc: any) => doc);
+
+    await service.startRun("user-1", SESSION_ID, START);
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runId: "run-1",
+        sessionId: SESSION_ID,
+        status: "in_progress",
+        steps: [
+          {
+            stepNumber: 1,
+            activity: "Sauna",
+            plannedDurationMinutes: 10,
+            status: "pending",
+          },
+          {
+            stepNumber: 2,
+            activity: "Cold Plunge",
+            plannedDurationMinutes: 3,
+            status: "pending",
+          },
+        ],
+      }),
+    );
+  });
+
+  it("should measure step time without pauses", async () => {
+    const event = (type: any, seconds: number) =>
+      service.recordEvent("user-1", SESSION_ID, "run-1", {
+        type,
+        stepNumber: 1,
+        at: at(seconds),
+      });
+
+    await event("step_started", 0);
+    await event("paused", 120);
+    await event("resumed", 180);
+    await event("step_finished", 600);
+
+    expect(run.steps[0]).toMatchObject({
+      status: "completed",
+      actualDurationSeconds: 540,
+    });
+    expect(run.totalActiveSeconds).toBe(540);
+    await expect(event("resumed", 610)).rejects.toThrow(SessionRunStateError);
+  });
+
+  it("should complete the run and mark the session completed by its UUID", async () => {
+    await service.recordEvent("user-1", SESSION_ID, "run-1", {
+      type: "paused",
+      at: at(60),
+    });
+
+    await service.completeRun("user-1", SESSION_ID, "run-1", {
+      at: at(900),
+      rating: { score: 5 },
+    });
+
+    expect(run.status).toBe("completed");
+    expect(run.endedAt).toEqual(at(900));
+    expect(run.pauses[0].resumedAt).toEqual(at(900));
+    expect(run.rating?.score).toBe(5);
+
+    // Looked up by sessionId only - a UUID can't be cast to an ObjectId
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { sessionId: SESSION_ID, firebaseUid: "user-1" },
+      { $set: expect.objectContaining({ isCompleted: true }) },
+      { new: true },
+    );
+  });
+
+  it("should abandon a run and refuse further events", async () => {
+    await service.abandonRun("user-1", SESSION_ID, "run-1", {
+      at: at(300),
+      reason: "Too cold",
+    });
+
+    expect(run).toMatchObject({
+      status: "abandoned",
+      abandonReason: "Too cold",
+    });
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+    await expect(
+      service.completeRun("user-1", SESSION_ID, "run-1"),
+    ).rejects.toThrow("Run is already abandoned");
+  });
+
+  it("should only rate finished runs", async () => {
+    await expect(
+      service.rateRun("user-1", SESSION_ID, "run-1", { score: 4 }),
+    ).rejects.toThrow(SessionRunStateError);
+
+    run = createRun({ status: "completed", endedAt: at(900) });
+    await service.rateRun("user-1", SESSION_ID, "run-1", {
+      score: 4,
+      comment: "Great",
+    });
+
+    expect(run.rating).toMatchObject({ score: 4, comment: "Great" });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Session Safety Utilities
+ * These tests verify the product guardrails applied to session steps
+ */
+
+import { ISessionStep } from "../../src/models/Session.model";
+import {
+  SAFETY_RULES,
+  SessionSafetyUtils,
+} from "../../src/utils/sessionSafety.utils";
+
+function step(
+  StepNumber: number,
+  Activity: string,
+  DurationMinutes: number,
+  Instructions = "Follow the timer",
+): ISessionStep {
+  return { StepNumber, Activity, DurationMinutes, Instructions };
+}
+
+describe("Session Safety Utils", () => {
+  describe("Step classification", () => {
+    it("should detect the product used by a step", () => {
+      expect(
+        SessionSafetyUtils.classifyStep(step(1, "Cold Plunge", 3)),
+      ).toEqual({ kind: "cold", product: "cold-plunge" });
+      expect(SessionSafetyUtils.classifyStep(step(1, "Sauna", 10))).toEqual({
+        kind: "heat",
+        product: "sauna",
+      });
+      expect(
+        SessionSafetyUtils.classifyStep(step(1, "Hot Tub Relaxation", 10)),
+      ).toEqual({ kind: "heat", product: "hot-tub" });
+      expect(
+        SessionSafetyUtils.classifyStep(step(1, "Breathing Practice", 2)).kind,
+      ).toBe("other");
+    });
+
+    it("should read temperatures from the step text", () => {
+      const temps = SessionSafetyUtils.extractTemperaturesF(
+        step(1, "Cold Plunge", 3, "Set the water to 10°C"),
+      );
+
+      expect(temps).toEqual([50]);
+    });
+  });
+
+  describe("Guardrails", () => {
+    it("should leave a safe session unchanged", () => {
+      const steps = [
+        step(1, "Sauna", 10),
+        step(2, "Rest", 2),
+        step(3, "Cold Plunge", 3),
+      ];
+
+      const result = SessionSafetyUtils.apply(steps, {});
+
+      expect(result.modifications).toEqual([]);
+      expect(result.violations).toEqual([]);
+      expect(result.steps).toEqual(steps);
+      expect(result.totalDurationMinutes).toBe(15);
+    });
+
+    it("should clamp steps longer than the product limit", () => {
+      const result = SessionSafetyUtils.apply([step(1, "Cold Plunge", 12)], {});
+
+      expect(result.steps[0].DurationMinutes).toBe(10);
+      expect(result.modifications[0].rule).toBe(
+        SAFETY_RULES.STEP_DURATION_CLAMPED,
+      );
+    });
+
+    it("should insert rest between cold and heat steps", () => {
+      const result = SessionSafetyUtils.apply(
+        [step(1, "Sauna", 10), step(2, "Cold Plunge", 3)],
+        {},
+      );
+
+      expect(result.steps.map((s) => s.Activity)).toEqual([
+        "Sauna",
+        "Rest",
+        "Cold Plunge",
+      ]);
+      expect(result.steps.map((s) => s.StepNumber)).toEqual([1, 2, 3]);
+      expect(result.totalDurationMinutes).toBe(15);
+      expect(result.modifications[0].rule).toBe(SAFETY_RULES.REST_INSERTED);
+    });
+
+    it("should extend a rest step that is too short", () => {
+      const result = SessionSafetyUtils.apply(
+        [step(1, "Sauna", 10), step(2, "Rest", 1), step(3, "Cold Plunge", 3)],
+        {},
+      );
+
+      expect(result.steps[1].DurationMinutes).toBe(2);
+      expect(result.modifications[0].rule).toBe(SAFETY_RULES.REST_EXTENDED);
+    });
+
+    it("should report temperatures outside the product range", () => {
+      const result = SessionSafetyUtils.apply(
+        [step(1, "Cold Plunge", 3, "Lower the water to 34°F")],
+        {},
+      );
+
+      expect(result.violations).toHaveLength(1);
+    });
+
+    it("should tighten limits for older users", () => {
+      const result = SessionSafetyUtils.apply([step(1, "Cold Plunge", 10)], {
+        age: 70,
+      });
+
+      expect(result.steps[0].DurationMinutes).toBeLessThan(10);
+      expect(result.modifications[0].message).toContain("age-adjusted");
+    });
+
+    it("should be idempotent", () => {
+      const first = SessionSafetyUtils.apply(
+        [step(1, "Sauna", 25), step(2, "Cold Plunge", 12)],
+        { age: 70 },
+      );
+      const second = SessionSafetyUtils.apply(first.steps, { age: 70 });
+
+      expect(second.modifications).toEqual([]);
+      expect(second.steps).toEqual(first.steps);
+    });
+  });
+
+  describe("Age", () => {
+    it("should count whole years", () => {
+      const now = new Date(2026, 5, 15);
+
+      expect(SessionSafetyUtils.calculateAge(new Date(1960, 5, 15), now)).toBe(
+        66,
+      );
+      expect(SessionSafetyUtils.calculateAge(new Date(1960, 5, 16), now)).toBe(
+        65,
+      );
+    });
+  });
+});
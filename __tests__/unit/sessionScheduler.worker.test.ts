@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for Session Scheduler Worker
+ * These tests verify due reminders are sent, and skipped for accounts
+ * that are deactivated or waiting to be deleted
+ */
+
+import mongoose from "mongoose";
+import { processDueReminders } from "../../src/workers/session-scheduler.worker";
+import { ReminderNotifier } from "../../src/services/reminderNotifier.service";
+
+jest.mock("uuid", () => ({ v4: () => "test-uuid" }));
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const schedule = {
+  scheduleId: "schedule-1",
+  firebaseUid: "user-1",
+  sessionId: "session-1",
+  rrule: "FREQ=DAILY;BYHOUR=18;BYMINUTE=0",
+  timeZone: "UTC",
+  startDate: "2026-10-01",
+  reminderMinutesBefore: 30,
+  nextOccurrenceAt: new Date("2026-10-19T12:20:00Z"),
+  nextReminderAt: new Date("2026-10-19T11:50:00Z"),
+};
+
+const query = (result: unknown) => ({
+  select: () => ({ lean: async () => result }),
+});
+
+describe("Session Scheduler Worker", () => {
+  const send = jest.fn();
+  const notifier: ReminderNotifier = { name: "test", send };
+  let user: Record<string, unknown>;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    send.mockReset();
+    user = { email: "user@example.com", isActive: true };
+
+    jest.spyOn(mongoose.Model, "find").mockReturnValue({
+      sort: () => ({ limit: () => ({ lean: async () => [schedule] }) }),
+    } as any);
+    jest
+      .spyOn(mongoose.Model, "updateOne")
+      .mockResolvedValue({ modifiedCount: 1 } as any);
+    jest.spyOn(mongoose.Model, "findOne").mockImplementation(function (
+      this: any,
+    ) {
+      return this.modelName === "User"
+        ? query(user)
+        : query({ SessionName: "Evening Soak", TotalDurationMinutes: 20 });
+    } as any);
+  });
+
+  it("should send due reminders", async () => {
+    await expect(processDueReminders(notifier, now)).resolves.toBe(1);
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleId: "schedule-1",
+        sessionName: "Evening Soak",
+      }),
+    );
+  });
+
+  it("should skip deactivated accounts", async () => {
+    user.isActive = false;
+
+    await expect(processDueReminders(notifier, now)).resolves.toBe(0);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should skip accounts waiting to be deleted", async () => {
+    user.deletionScheduledFor = new Date("2026-11-02T12:00:00Z");
+
+    await expect(processDueReminders(notifier, now)).resolves.toBe(0);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
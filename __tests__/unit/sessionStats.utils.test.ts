@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for Session Stats Utilities
+ * These tests verify streaks, minute totals and timezone day boundaries
+ */
+
+import {
+  CompletionRecord,
+  SessionStatsUtils,
+} from "../../src/utils/sessionStats.utils";
+
+function completion(
+  completedAt: string,
+  steps: [string, number][] = [["Cold Plunge", 3]],
+): CompletionRecord {
+  return {
+    completedAt: new Date(completedAt),
+    steps: steps.map(([activity, minutes]) => ({ activity, minutes })),
+  };
+}
+
+const NOW = new Date("2026-10-14T12:00:00Z"); // Wednesday
+
+describe("Session Stats Utils", () => {
+  describe("Dates", () => {
+    it("should use the local day of the timezone", () => {
+      const lateEvening = new Date("2026-10-14T02:30:00Z");
+
+      expect(SessionStatsUtils.toLocalDate(lateEvening, "UTC")).toBe(
+        "2026-10-14",
+      );
+      expect(
+        SessionStatsUtils.toLocalDate(lateEvening, "America/New_York"),
+      ).toBe("2026-10-13");
+    });
+
+    it("should start weeks on Monday", () => {
+      expect(SessionStatsUtils.startOfWeek("2026-10-14")).toBe("2026-10-12");
+      expect(SessionStatsUtils.startOfWeek("2026-10-12")).toBe("2026-10-12");
+      expect(SessionStatsUtils.startOfWeek("2026-10-18")).toBe("2026-10-12");
+    });
+
+    it("should reject unknown timezones", () => {
+      expect(SessionStatsUtils.isValidTimeZone("Europe/Berlin")).toBe(true);
+      expect(SessionStatsUtils.isValidTimeZone("Mars/Olympus")).toBe(false);
+    });
+  });
+
+  describe("Streaks", () => {
+    it("should count consecutive days up to today", () => {
+      const stats = SessionStatsUtils.compute(
+        [
+          completion("2026-10-12T08:00:00Z"),
+          completion("2026-10-13T08:00:00Z"),
+          completion("2026-10-14T08:00:00Z"),
+          completion("2026-10-14T18:00:00Z"),
+        ],
+        [],
+        { timeZone: "UTC", now: NOW },
+      );
+
+      expect(stats.streaks.current).toBe(3);
+      expect(stats.streaks.longest).toBe(3);
+    });
+
+    it("should keep the streak alive until the day is over", () => {
+      const stats = SessionStatsUtils.compute(
+        [
+          completion("2026-10-12T08:00:00Z"),
+          completion("2026-10-13T08:00:00Z"),
+        ],
+        [],
+        { timeZone: "UTC", now: NOW },
+      );
+
+      expect(stats.streaks.current).toBe(2);
+    });
+
+    it("should reset after a missed day but remember the longest", () => {
+      const stats = SessionStatsUtils.compute(
+        [
+          completion("2026-10-01T08:00:00Z"),
+          completion("2026-10-02T08:00:00Z"),
+          completion("2026-10-03T08:00:00Z"),
+          completion("2026-10-14T08:00:00Z"),
+        ],
+        [],
+        { timeZone: "UTC", now: NOW },
+      );
+
+      expect(stats.streaks.current).toBe(1);
+      expect(stats.streaks.longest).toBe(3);
+      expect(stats.streaks.lastCompletedDate).toBe("2026-10-14");
+    });
+
+    it("should follow the user's timezone", () => {
+      // 01:00 UTC on the 13th and 14th is the evening of the 12th and 13th in New York
+      const completions = [
+        completion("2026-10-13T01:00:00Z"),
+        completion("2026-10-14T01:00:00Z"),
+      ];
+
+      const utc = SessionStatsUtils.compute(completions, [], {
+        timeZone: "UTC",
+        now: new Date("2026-10-15T12:00:00Z"),
+      });
+      const newYork = SessionStatsUtils.compute(completions, [], {
+        timeZone: "America/New_York",
+        now: new Date("2026-10-15T12:00:00Z"),
+      });
+
+      expect(utc.streaks.current).toBe(2);
+      expect(newYork.streaks.current).toBe(0);
+    });
+  });
+
+  describe("Minutes and breakdowns", () => {
+    const stats = SessionStatsUtils.compute(
+      [
+        completion("2026-10-13T08:00:00Z", [
+          ["Sauna", 10],
+          ["Rest", 2],
+          ["Cold Plunge", 3],
+        ]),
+        completion("2026-10-05T08:00:00Z", [["cold plunge", 4]]),
+        completion("2026-09-20T08:00:00Z", [["Hot Tub Soak", 15]]),
+      ],
+      [4, 5],
+      { timeZone: "UTC", now: NOW },
+    );
+
+    it("should total minutes per week and month", () => {
+      expect(stats.minutes.total).toBe(34);
+      expect(stats.minutes.thisWeek).toBe(15);
+      expect(stats.minutes.thisMonth).toBe(19);
+      expect(stats.minutes.byWeek[stats.minutes.byWeek.length - 2]).toEqual({
+        weekStart: "2026-10-05",
+        minutes: 4,
+      });
+      expect(stats.minutes.byMonth.slice(-2)).toEqual([
+        { month: "2026-09", minutes: 15 },
+        { month: "2026-10", minutes: 19 },
+      ]);
+    });
+
+    it("should break down by product and activity", () => {
+      expect(stats.byProduct["cold-plunge"]).toEqual({
+        sessions: 2,
+        minutes: 7,
+      });
+      expect(stats.byProduct["hot-tub"]).toEqual({ sessions: 1, minutes: 15 });
+      expect(stats.byProduct.other).toEqual({ sessions: 1, minutes: 2 });
+      expect(stats.byActivity[0]).toEqual({
+        activity: "Hot Tub Soak",
+        count: 1,
+        minutes: 15,
+      });
+      expect(
+        stats.byActivity.find((a) => a.activity === "Cold Plunge")?.count,
+      ).toBe(2);
+    });
+
+    it("should average ratings", () => {
+      expect(stats.rating).toEqual({ average: 4.5, count: 2 });
+    });
+  });
+
+  describe("Records", () => {
+    it("should prefer reported durations and skip skipped steps", () => {
+      const record = SessionStatsUtils.fromRun({
+        startedAt: new Date("2026-10-14T08:00:00Z"),
+        endedAt: new Date("2026-10-14T08:20:00Z"),
+        steps: [
+          {
+            stepNumber: 1,
+            activity: "Sauna",
+            plannedDurationMinutes: 10,
+            status: "completed",
+            actualDurationSeconds: 480,
+          },
+          {
+            stepNumber: 2,
+            activity: "Rest",
+            plannedDurationMinutes: 2,
+            status: "skipped",
+          },
+          {
+            stepNumber: 3,
+            activity: "Cold Plunge",
+            plannedDurationMinutes: 3,
+            status: "pending",
+          },
+        ],
+      });
+
+      expect(record.steps.map((s) => s.minutes)).toEqual([8, 0, 3]);
+    });
+  });
+});
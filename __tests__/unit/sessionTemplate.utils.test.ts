@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for Session Template Utilities
+ * These tests verify the built-in templates, template selection and scaling
+ */
+
+import { DEFAULT_SESSION_TEMPLATES } from "../../src/config/sessionTemplates";
+import { SessionTemplateUtils } from "../../src/utils/sessionTemplate.utils";
+
+describe("Session Template Utils", () => {
+  describe("Built-in templates", () => {
+    it("should pass validation and safety limits unchanged", () => {
+      for (const template of DEFAULT_SESSION_TEMPLATES) {
+        expect(SessionTemplateUtils.reviewSteps(template.steps)).toEqual([]);
+      }
+    });
+
+    it("should have unique template ids", () => {
+      const ids = DEFAULT_SESSION_TEMPLATES.map(
+        (template) => template.templateId,
+      );
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+
+  describe("Criteria", () => {
+    it("should read products, goals and intensity from the AI inputs", () => {
+      expect(
+        SessionTemplateUtils.criteriaFrom({
+          tags: ["Sauna", "Cold Plunge", "Breathwork"],
+          goals: ["Stress Relief", "something else"],
+          mood: "Tired after a long day",
+        }),
+      ).toEqual({
+        products: ["sauna", "cold-plunge"],
+        goals: ["stress-relief"],
+        intensity: "gentle",
+      });
+    });
+  });
+
+  describe("Selection", () => {
+    it("should prefer matching goals and intensity", () => {
+      const template = SessionTemplateUtils.select(
+        DEFAULT_SESSION_TEMPLATES,
+        SessionTemplateUtils.criteriaFrom({
+          tags: ["Hot Tub"],
+          goals: ["Stress Relief"],
+          mood: "Want to unwind",
+        }),
+        "seed",
+      );
+
+      expect(template?.templateId).toBe("hot-tub-evening-unwind");
+    });
+
+    it("should pick the same template for the same seed", () => {
+      const criteria = SessionTemplateUtils.criteriaFrom({ tags: ["Sauna"] });
+      const first = SessionTemplateUtils.select(
+        DEFAULT_SESSION_TEMPLATES,
+        criteria,
+        "user-1|Sauna",
+      );
+
+      for (let i = 0; i < 5; i++) {
+        expect(
+          SessionTemplateUtils.select(
+            [...DEFAULT_SESSION_TEMPLATES].reverse(),
+            criteria,
+            "user-1|Sauna",
+          ),
+        ).toBe(first);
+      }
+    });
+
+    it("should return null when no template uses the product", () => {
+      expect(
+        SessionTemplateUtils.select(
+          DEFAULT_SESSION_TEMPLATES.filter(
+            (template) => !template.productTypes.includes("sauna"),
+          ),
+          SessionTemplateUtils.criteriaFrom({ tags: ["Sauna"] }),
+          "seed",
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("Session", () => {
+    const template = DEFAULT_SESSION_TEMPLATES.find(
+      (entry) => entry.templateId === "hot-tub-muscle-recovery",
+    )!;
+
+    it("should shorten exposure steps for a gentler mood", () => {
+      const session = SessionTemplateUtils.toSession(template, {
+        sessionId: "session-1",
+        intensity: "gentle",
+        goal: "Muscle Recovery",
+      });
+
+      expect(session.Steps.map((step) => step.DurationMinutes)).toEqual([
+        8, 5, 6.5, 5,
+      ]);
+      expect(session.TotalDurationMinutes).toBe(24.5);
+      expect(session.RecommendedFor).toBe("Muscle Recovery");
+      expect(session.Steps[0].TimerStartMessage).toBe("Starting Hot Tub Soak");
+    });
+
+    it("should keep durations at the template's own intensity", () => {
+      const session = SessionTemplateUtils.toSession(template, {
+        sessionId: "session-1",
+        intensity: "moderate",
+      });
+
+      expect(session.TotalDurationMinutes).toBe(28);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Session Validation Utilities
+ * These tests verify the schema rules applied to AI-generated sessions
+ */
+
+import { SessionValidationUtils } from "../../src/utils/sessionValidation.utils";
+import { PRODUCT_SAFETY_LIMITS } from "../../src/constants";
+
+function buildSession(overrides: Record<string, unknown> = {}) {
+  return {
+    SessionId: "session-1",
+    SessionName: "Evening Contrast",
+    TotalDurationMinutes: 18,
+    RecommendedFor: "Recovery",
+    Steps: [
+      {
+        StepNumber: 1,
+        Activity: "Sauna",
+        DurationMinutes: 12,
+        Instructions: "Sit and breathe slowly",
+      },
+      {
+        StepNumber: 2,
+        Activity: "Cold Plunge",
+        DurationMinutes: 3,
+        Instructions: "Submerge to the shoulders",
+      },
+      {
+        StepNumber: 3,
+        Activity: "Rest",
+        DurationMinutes: 3,
+        Instructions: "Dry off and relax",
+      },
+    ],
+    Tips: ["Stay hydrated"],
+    StartMessage: "Let's begin",
+    CompletionMessage: "Great job",
+    ...overrides,
+  };
+}
+
+describe("Session Validation Utils", () => {
+  it("should accept a well-formed session", () => {
+    const result = SessionValidationUtils.validate(buildSession());
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("should reject out-of-order step numbers", () => {
+    const session = buildSession();
+    session.Steps[1].StepNumber = 3;
+
+    const result = SessionValidationUtils.validate(session);
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.issues.join(" ")).toContain("Steps.1.StepNumber");
+    }
+  });
+
+  it("should reject non-positive durations", () => {
+    const session = buildSession({ TotalDurationMinutes: 15 });
+    session.Steps[2].DurationMinutes = 0;
+
+    expect(SessionValidationUtils.validate(session).valid).toBe(false);
+  });
+
+  it("should reject a total that doesn't match the steps", () => {
+    const result = SessionValidationUtils.validate(
+      buildSession({ TotalDurationMinutes: 30 }),
+    );
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.issues[0]).toContain("TotalDurationMinutes");
+    }
+  });
+
+  it("should reject cold exposure beyond the product safety limit", () => {
+    const maxColdMinutes =
+      PRODUCT_SAFETY_LIMITS["cold-plunge"].MAX_STEP_MINUTES;
+    const session = buildSession({ TotalDurationMinutes: 16 + maxColdMinutes });
+    session.Steps[1].DurationMinutes = maxColdMinutes + 1;
+
+    expect(SessionValidationUtils.validate(session).valid).toBe(false);
+
+    session.Steps[1].DurationMinutes = maxColdMinutes;
+    session.TotalDurationMinutes = 15 + maxColdMinutes;
+    expect(SessionValidationUtils.validate(session).valid).toBe(true);
+  });
+
+  it("should validate edited steps against the total", () => {
+    const { Steps } = buildSession();
+
+    expect(SessionValidationUtils.validateSteps(Steps, 18)).toEqual([]);
+    expect(SessionValidationUtils.validateSteps(Steps, 20)).toHaveLength(1);
+  });
+});
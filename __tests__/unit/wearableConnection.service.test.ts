@@ -0,0 +1,183 @@
+/**
+ * Unit Tests for Wearable Connection Service
+ * These tests verify ROOK notifications move wearables between connection
+ * states, record history and clear the user's wearables cache
+ */
+
+import mongoose from "mongoose";
+import { WearableConnectionService } from "../../src/services/wearableConnection.service";
+
+const mockRedisDel = jest.fn();
+const mockNotifyWearableRevoked = jest.fn();
+
+jest.mock("../../src/utils/redis", () => ({
+  __esModule: true,
+  default: { del: (...args: unknown[]) => mockRedisDel(...args) },
+}));
+
+jest.mock("../../src/services/notification.service", () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    notifyWearableRevoked: (...args: unknown[]) =>
+      mockNotifyWearableRevoked(...args),
+  })),
+}));
+
+const USER_ID = "68da80c9ffda7e51bd9ac167";
+
+describe("Wearable Connection Service", () => {
+  const service = new WearableConnectionService();
+  let updateOne: jest.SpyInstance;
+
+  const mockUser = (wearables: Record<string, unknown> = {}) =>
+    jest.spyOn(mongoose.Model, "findById").mockReturnValue({
+      select: () => ({
+        lean: async () => ({ firebaseUid: "user-1", wearables }),
+      }),
+    } as any);
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    updateOne = jest
+      .spyOn(mongoose.Model, "updateOne")
+      .mockResolvedValue({} as any);
+  });
+
+  it("should disconnect a revoked wearable and ask for reauthorization", async () => {
+    mockUser({ garmin: { connected: true } });
+
+    const result = await service.handleRookNotification({
+      userId: USER_ID,
+      action: "connection_revoked",
+      dataSource: "garmin",
+      message: "User revoked access",
+    });
+
+    expect(result).toEqual({
+      transition: "revoked",
+      firebaseUid: "user-1",
+      sources: ["garmin"],
+    });
+
+    const [filter, update] = updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: USER_ID });
+    expect(update.$set).toMatchObject({
+      "wearables.garmin.connected": false,
+      "wearables.garmin.needsReauth": true,
+    });
+    expect(update.$push["wearables.garmin.history"].$each[0]).toMatchObject({
+      event: "revoked",
+      reason: "User revoked access",
+    });
+    expect(mockRedisDel).toHaveBeenCalledWith("wearables:user-1");
+    expect(mockNotifyWearableRevoked).toHaveBeenCalledWith("user-1", "garmin");
+  });
+
+  it("should reconnect a wearable and clear its error", async () => {
+    mockUser();
+
+    const result = await service.handleRookNotification({
+      userId: USER_ID,
+      action: "connection_established",
+      dataSource: "apple_health",
+    });
+
+    expect(result.transition).toBe("connected");
+    const [, update] = updateOne.mock.calls[0];
+    expect(update.$set).toMatchObject({
+      "wearables.apple.connected": true,
+      "wearables.apple.needsReauth": false,
+    });
+    expect(update.$unset).toEqual({
+      "wearables.apple.lastError": "",
+      "wearables.apple.revokedAt": "",
+    });
+    expect(update.$push["wearables.apple.history"].$each[0]).toMatchObject({
+      event: "connected",
+      reason: "connection_established",
+    });
+  });
+
+  it("should flag a wearable for reauthorization on error notifications", async () => {
+    mockUser({ oura: { connected: true } });
+
+    const result = await service.handleRookNotification({
+      userId: USER_ID,
+      action: "token_expired",
+      dataSource: "oura",
+      level: "ERROR",
+      message: "Refresh token expired",
+    });
+
+    expect(result.transition).toBe("error");
+    const [, update] = updateOne.mock.calls[0];
+    expect(update.$set["wearables.oura.needsReauth"]).toBe(true);
+    expect(update.$set["wearables.oura.lastError"].message).toBe(
+      "Refresh token expired",
+    );
+    expect(update.$set).not.toHaveProperty(["wearables.oura.connected"]);
+  });
+
+  it("should clear a stale error when a sync finds the wearable still connected", async () => {
+    await service.syncConnection(
+      USER_ID,
+      {
+        id: "oura",
+        name: "Oura",
+        type: "api",
+        connected: true,
+        needsReauth: true,
+        lastError: { message: "Refresh token expired", at: new Date() },
+        lastSync: new Date(),
+        data: null,
+      },
+      "oura",
+      true,
+    );
+
+    const [, update] = updateOne.mock.calls[0];
+    expect(update.$set).toMatchObject({ "wearables.oura.needsReauth": false });
+    expect(update.$unset).toEqual({ "wearables.oura.lastError": "" });
+    expect(update).not.toHaveProperty("$push"); // Not a change of state
+  });
+
+  it("should disconnect every connected ROOK wearable when the ROOK user is deleted", async () => {
+    mockUser({
+      oura: { connected: true },
+      whoop: { connected: false },
+      garmin: { connected: true },
+      apple: { connected: true, type: "sdk" },
+    });
+
+    const result = await service.handleRookNotification({
+      userId: USER_ID,
+      action: "user_deleted",
+    });
+
+    expect(result.transition).toBe("rook_user_deleted");
+    expect(result.sources).toEqual(["oura", "garmin"]);
+    expect(updateOne).toHaveBeenCalledTimes(2);
+    expect(mockRedisDel).toHaveBeenCalledWith("wearables:user-1");
+  });
+
+  it("should ignore notifications it can't attribute", async () => {
+    const findById = mockUser();
+
+    const invalidUser = await service.handleRookNotification({
+      userId: "not-an-id",
+      action: "connection_revoked",
+      dataSource: "garmin",
+    });
+    const unknownSource = await service.handleRookNotification({
+      userId: USER_ID,
+      action: "connection_revoked",
+      dataSource: "unknown",
+    });
+
+    expect(invalidUser.transition).toBe("ignored");
+    expect(unknownSource.transition).toBe("ignored");
+    expect(findById).toHaveBeenCalledTimes(1);
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(mockRedisDel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Webhook Processor
+ * These tests verify wearable data is saved under its data type and that
+ * arriving data clears an earlier reauthorization flag
+ */
+
+import mongoose from "mongoose";
+import { WebhookProcessor } from "../../src/services/webhook.processor.service";
+
+jest.mock("../../src/utils/redis", () => ({
+  __esModule: true,
+  default: { del: jest.fn() },
+}));
+
+jest.mock("../../src/services/healthHistory.service", () => ({
+  HealthHistoryService: jest.fn().mockImplementation(() => ({
+    recordSummary: jest.fn(),
+  })),
+}));
+
+jest.mock("../../src/services/recoveryScore.service", () => ({
+  RecoveryScoreService: jest.fn().mockImplementation(() => ({
+    updateDailyScore: async () => null,
+  })),
+}));
+
+const USER_ID = "68da80c9ffda7e51bd9ac167";
+
+const sleepWebhook = {
+  version: 2,
+  data_structure: "sleep_summary",
+  client_uuid: "client-1",
+  user_id: USER_ID,
+  document_version: 1,
+  sleep_health: {
+    summary: {
+      sleep_summary: {
+        metadata: { sources_of_data_array: ["Oura"] },
+        duration: { sleep_duration_seconds_int: 27000 },
+      },
+    },
+  },
+} as any;
+
+describe("Webhook Processor", () => {
+  let findByIdAndUpdate: jest.SpyInstance;
+
+  const mockUser = (oura: Record<string, unknown>) =>
+    jest.spyOn(mongoose.Model, "findById").mockResolvedValue({
+      firebaseUid: "user-1",
+      wearables: { oura: { data: {}, ...oura } },
+    } as any);
+
+  const savedUpdate = () => findByIdAndUpdate.mock.calls[0][1];
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    findByIdAndUpdate = jest
+      .spyOn(mongoose.Model, "findByIdAndUpdate")
+      .mockResolvedValue(null);
+  });
+
+  it("should clear the reauthorization flag once data arrives", async () => {
+    mockUser({
+      connected: true,
+      needsReauth: true,
+      lastError: { message: "Refresh token expired", at: new Date() },
+    });
+
+    const result = await WebhookProcessor.processWebhook(
+      USER_ID,
+      "oura",
+      "sleep_summary",
+      sleepWebhook,
+    );
+
+    expect(result).toMatchObject({ success: true, dataType: "sleep" });
+    expect(savedUpdate().$set).toMatchObject({
+      "wearables.oura.connected": true,
+      "wearables.oura.needsReauth": false,
+    });
+    expect(savedUpdate().$unset).toEqual({ "wearables.oura.lastError": "" });
+  });
+
+  it("should leave a revoked wearable waiting for reauthorization", async () => {
+    mockUser({ connected: false, needsReauth: true, revokedAt: new Date() });
+
+    await WebhookProcessor.processWebhook(
+      USER_ID,
+      "oura",
+      "sleep_summary",
+      sleepWebhook,
+    );
+
+    expect(savedUpdate().$set).toHaveProperty(["wearables.oura.data.sleep"]);
+    expect(savedUpdate().$set).not.toHaveProperty([
+      "wearables.oura.needsReauth",
+    ]);
+    expect(savedUpdate()).not.toHaveProperty("$unset");
+  });
+});
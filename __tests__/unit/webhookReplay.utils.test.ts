@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for Webhook Replay Utilities
+ * These tests verify replay request validation and the dry-run diff
+ * between stored wearables data and a re-transformed payload
+ */
+
+import {
+  WebhookReplayRequestSchema,
+  WebhookReplayUtils,
+} from "../../src/utils/webhookReplay.utils";
+import { WEBHOOK_REPLAY } from "../../src/constants";
+
+describe("Webhook Replay Utils", () => {
+  describe("diffFields", () => {
+    it("should report changed and new leaf fields only", () => {
+      const changes = WebhookReplayUtils.diffFields(
+        {
+          date: "2026-01-05",
+          duration: { totalSleepSeconds: 25200, remSeconds: 5400 },
+          scores: { efficiency: 85 },
+          restingHr: 52, // Not in the replayed data, so kept by the merge
+        },
+        {
+          date: "2026-01-05",
+          duration: { totalSleepSeconds: 27000, remSeconds: 5400 },
+          scores: { efficiency: 85, quality: 4 },
+        },
+      );
+
+      expect(changes).toEqual([
+        {
+          field: "duration.totalSleepSeconds",
+          current: 25200,
+          replayed: 27000,
+        },
+        { field: "scores.quality", current: undefined, replayed: 4 },
+      ]);
+    });
+
+    it("should report every field when nothing is stored yet", () => {
+      const changes = WebhookReplayUtils.diffFields(undefined, {
+        steps: 9000,
+        heartRate: { avg: 61 },
+      });
+
+      expect(changes.map((change) => change.field)).toEqual([
+        "steps",
+        "heartRate",
+      ]);
+    });
+
+    it("should ignore key order and Date vs ISO string differences", () => {
+      const at = new Date("2026-01-05T07:00:00.000Z");
+
+      const changes = WebhookReplayUtils.diffFields(
+        { syncedAt: at, samples: [{ bpm: 60, at: "07:00" }] },
+        { syncedAt: at.toISOString(), samples: [{ at: "07:00", bpm: 60 }] },
+      );
+
+      expect(changes).toEqual([]);
+    });
+  });
+
+  describe("WebhookReplayRequestSchema", () => {
+    it("should default to a dry run with the default limit", () => {
+      const request = WebhookReplayRequestSchema.parse({
+        from: "2026-01-01",
+        status: "failed",
+      });
+
+      expect(request).toEqual({
+        from: new Date("2026-01-01"),
+        status: "failed",
+        limit: WEBHOOK_REPLAY.DEFAULT_LIMIT,
+        dryRun: true,
+      });
+    });
+
+    it("should reject conflicting filters", () => {
+      expect(
+        WebhookReplayRequestSchema.safeParse({
+          firebaseUid: "user-1",
+          externalUserId: "68da80c9ffda7e51bd9ac167",
+        }).success,
+      ).toBe(false);
+      expect(
+        WebhookReplayRequestSchema.safeParse({
+          from: "2026-02-01",
+          to: "2026-01-01",
+        }).success,
+      ).toBe(false);
+      expect(
+        WebhookReplayRequestSchema.safeParse({
+          limit: WEBHOOK_REPLAY.MAX_LIMIT + 1,
+        }).success,
+      ).toBe(false);
+    });
+  });
+});
@@ -7,6 +7,8 @@ import swaggerUi from "swagger-ui-express";
 import * as Sentry from "@sentry/node";
 import { swaggerSpec } from "./src/config/swagger";
 import { initializeFirebaseAdmin } from "./src/utils/firebase";
+import { assertAuthConfig } from "./src/config/auth";
+import { assertQueueConfig } from "./src/config/queue";
 import {
   logger,
   errorHandler,
@@ -26,9 +28,16 @@ import { rookWebhookService } from "./src/services/webhooks.service";
 import profileRoutes from "./src/routes/profile.routes";
 import onboardingRoutes from "./src/routes/onboarding.routes";
 import sessionRoutes from "./src/routes/session.routes";
+import sessionScheduleRoutes from "./src/routes/sessionSchedule.routes";
+import deviceRoutes from "./src/routes/device.routes";
+import insightsRoutes from "./src/routes/insights.routes";
+import sessionTemplateRoutes from "./src/routes/sessionTemplate.routes";
+import adminRoutes from "./src/routes/admin.routes";
 
 // Initialize Firebase Admin
 initializeFirebaseAdmin();
+assertAuthConfig();
+assertQueueConfig();
 
 const app = express();
 const port = Number(process.env.PORT) || 3000;
@@ -87,6 +96,11 @@ app.use("/api/elevenlabs", elevenlabsRoutes);
 app.use("/api/profile", profileRoutes);
 app.use("/api/onboarding", onboardingRoutes);
 app.use("/api/sessions", sessionRoutes);
+app.use("/api/schedules", sessionScheduleRoutes);
+app.use("/api/devices", deviceRoutes);
+app.use("/api/insights", insightsRoutes);
+app.use("/api/session-templates", sessionTemplateRoutes);
+app.use("/api/admin", adminRoutes);
 // WEBHOOK ROUTES (No authentication required - validated via HMAC)
 app.use("/api/webhooks/rook", webhookRoutes);
 
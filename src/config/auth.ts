@@ -0,0 +1,34 @@
+/**
+ * Auth Configuration
+ *
+ * By default every request needs a Firebase ID token. AUTH_TEST_MODE=true
+ * also accepts local test tokens signed with AUTH_TEST_SECRET (see
+ * TestAuthTokenUtils) and the x-firebase-uid header, for integration tests
+ * and local development. Test mode is never available in production.
+ */
+
+export const isAuthTestMode = (): boolean =>
+  process.env.AUTH_TEST_MODE === "true" &&
+  process.env.NODE_ENV !== "production";
+
+export const getAuthTestSecret = (): string | undefined =>
+  process.env.AUTH_TEST_SECRET || undefined;
+
+/**
+ * Refuse to start with test auth in production rather than silently
+ * ignoring the setting
+ */
+export const assertAuthConfig = (): void => {
+  if (
+    process.env.AUTH_TEST_MODE === "true" &&
+    process.env.NODE_ENV === "production"
+  ) {
+    throw new Error("AUTH_TEST_MODE must not be enabled in production");
+  }
+
+  if (isAuthTestMode()) {
+    console.warn(
+      "⚠️  AUTH_TEST_MODE is on - test tokens and x-firebase-uid are accepted",
+    );
+  }
+};
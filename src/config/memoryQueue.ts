@@ -0,0 +1,161 @@
+/**
+ * In-Memory Queue Backend
+ *
+ * Keeps messages in the current process, with the same locking, retry and
+ * dead-letter behaviour as the other backends. Only allowed in tests: the
+ * API and the worker only share messages when they run in the same process.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { QUEUE } from "../constants";
+import { QueueBackend, QueueLockLostError, QueueMessage } from "./queue.types";
+
+interface StoredMessage {
+  messageId: string;
+  body: unknown;
+  enqueuedAt: Date;
+  visibleAt: number;
+  deliveryCount: number;
+  lockToken?: string;
+}
+
+export interface DeadLetteredMessage {
+  messageId: string;
+  body: unknown;
+  deliveryCount: number;
+  reason: string;
+}
+
+export class MemoryQueue implements QueueBackend {
+  readonly name = "memory" as const;
+
+  private messages: StoredMessage[] = [];
+  private deadLetters: DeadLetteredMessage[] = [];
+  private lockTokens = new WeakMap<QueueMessage, string>();
+
+  async send(body: unknown): Promise<string> {
+    const messageId = uuidv4();
+
+    this.messages.push({
+      messageId,
+      // Copied as JSON, like a message sent over the wire
+      body: JSON.parse(JSON.stringify(body)),
+      enqueuedAt: new Date(),
+      visibleAt: Date.now(),
+      deliveryCount: 0,
+    });
+
+    return messageId;
+  }
+
+  async receive(
+    maxMessages: number,
+    waitTimeSeconds: number,
+  ): Promise<QueueMessage[]> {
+    const deadline = Date.now() + waitTimeSeconds * 1000;
+
+    for (;;) {
+      const messages = this.claim(maxMessages);
+      if (messages.length > 0 || Date.now() >= deadline) return messages;
+
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          Math.min(QUEUE.POLL_INTERVAL_MS, deadline - Date.now()),
+        ),
+      );
+    }
+  }
+
+  async complete(message: QueueMessage): Promise<void> {
+    const stored = this.getLocked(message);
+    this.messages = this.messages.filter((item) => item !== stored);
+  }
+
+  async abandon(message: QueueMessage): Promise<void> {
+    const stored = this.getLocked(message);
+    stored.visibleAt = Date.now();
+    stored.lockToken = undefined;
+  }
+
+  async deadLetter(message: QueueMessage, reason: string): Promise<void> {
+    this.moveToDeadLetters(this.getLocked(message), reason);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.messages = [];
+    this.deadLetters = [];
+  }
+
+  /**
+   * Messages waiting or locked, for inspection in tests
+   */
+  getMessageCount(): number {
+    return this.messages.length;
+  }
+
+  getDeadLetters(): DeadLetteredMessage[] {
+    return [...this.deadLetters];
+  }
+
+  private claim(maxMessages: number): QueueMessage[] {
+    const now = Date.now();
+    const claimed: QueueMessage[] = [];
+
+    for (const stored of [...this.messages]) {
+      if (claimed.length >= maxMessages) break;
+      if (stored.visibleAt > now) continue;
+
+      stored.deliveryCount++;
+      if (stored.deliveryCount > QUEUE.MAX_DELIVERY_COUNT) {
+        this.moveToDeadLetters(stored, "MaxDeliveryCountExceeded");
+        continue;
+      }
+
+      stored.lockToken = uuidv4();
+      stored.visibleAt = now + QUEUE.LOCK_DURATION_MS;
+
+      const message: QueueMessage = {
+        messageId: stored.messageId,
+        body: JSON.parse(JSON.stringify(stored.body)),
+        deliveryCount: stored.deliveryCount,
+        enqueuedAt: stored.enqueuedAt,
+      };
+      this.lockTokens.set(message, stored.lockToken);
+      claimed.push(message);
+    }
+
+    return claimed;
+  }
+
+  // Only the current delivery may settle a message, and only while locked
+  private getLocked(message: QueueMessage): StoredMessage {
+    const stored = this.messages.find(
+      (item) => item.messageId === message.messageId,
+    );
+
+    if (
+      !stored ||
+      !stored.lockToken ||
+      stored.lockToken !== this.lockTokens.get(message) ||
+      stored.visibleAt <= Date.now()
+    ) {
+      throw new QueueLockLostError(message.messageId);
+    }
+    return stored;
+  }
+
+  private moveToDeadLetters(stored: StoredMessage, reason: string): void {
+    this.messages = this.messages.filter((item) => item !== stored);
+    this.deadLetters.push({
+      messageId: stored.messageId,
+      body: stored.body,
+      deliveryCount: stored.deliveryCount,
+      reason,
+    });
+  }
+}
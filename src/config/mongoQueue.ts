@@ -0,0 +1,171 @@
+/**
+ * MongoDB Queue Backend
+ *
+ * Stores messages in the queuemessages collection so the API and the
+ * webhook worker can run locally without Azure Service Bus. Receiving
+ * claims a message with a conditional update, so several workers can
+ * share the queue. Dead-lettered messages stay in the collection with
+ * status "dead_lettered" and their reason.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { QueueMessage as QueueMessageModel } from "../models/QueueMessage.model";
+import { QUEUE } from "../constants";
+import { QueueBackend, QueueLockLostError, QueueMessage } from "./queue.types";
+
+export class MongoQueue implements QueueBackend {
+  readonly name = "mongo" as const;
+
+  // Lock token of each message's current delivery
+  private lockTokens = new WeakMap<QueueMessage, string>();
+
+  constructor(private queueName: string) {}
+
+  async send(body: unknown): Promise<string> {
+    const messageId = uuidv4();
+
+    await QueueMessageModel.create({
+      messageId,
+      queue: this.queueName,
+      body,
+      visibleAt: new Date(),
+    });
+
+    return messageId;
+  }
+
+  async receive(
+    maxMessages: number,
+    waitTimeSeconds: number,
+  ): Promise<QueueMessage[]> {
+    const deadline = Date.now() + waitTimeSeconds * 1000;
+    const messages: QueueMessage[] = [];
+
+    while (messages.length < maxMessages) {
+      const message = await this.claimNext();
+
+      if (message) {
+        messages.push(message);
+        continue;
+      }
+
+      // Only wait while nothing has been received
+      if (messages.length > 0 || Date.now() >= deadline) break;
+
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          Math.min(QUEUE.POLL_INTERVAL_MS, deadline - Date.now()),
+        ),
+      );
+    }
+
+    return messages;
+  }
+
+  async complete(message: QueueMessage): Promise<void> {
+    const result = await QueueMessageModel.deleteOne(
+      this.lockedFilter(message),
+    );
+    if (result.deletedCount === 0) {
+      throw new QueueLockLostError(message.messageId);
+    }
+  }
+
+  async abandon(message: QueueMessage): Promise<void> {
+    await this.settle(message, {
+      $set: { visibleAt: new Date() },
+      $unset: { lockToken: "" },
+    });
+  }
+
+  async deadLetter(message: QueueMessage, reason: string): Promise<void> {
+    await this.settle(message, {
+      $set: {
+        status: "dead_lettered",
+        deadLetterReason: reason,
+        deadLetteredAt: new Date(),
+      },
+      $unset: { lockToken: "" },
+    });
+    console.log("💀 Message sent to dead-letter queue:", reason);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await QueueMessageModel.exists({ queue: this.queueName });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    // Uses the app's MongoDB connection, which is closed by its owner
+  }
+
+  /**
+   * Lock the oldest receivable message. Messages whose lock expired are
+   * receivable again; past MAX_DELIVERY_COUNT they're dead-lettered.
+   */
+  private async claimNext(): Promise<QueueMessage | null> {
+    for (;;) {
+      const now = new Date();
+      const lockToken = uuidv4();
+
+      const claimed = await QueueMessageModel.findOneAndUpdate(
+        {
+          queue: this.queueName,
+          status: "pending",
+          visibleAt: { $lte: now },
+        },
+        {
+          $set: {
+            lockToken,
+            visibleAt: new Date(now.getTime() + QUEUE.LOCK_DURATION_MS),
+          },
+          $inc: { deliveryCount: 1 },
+        },
+        { sort: { visibleAt: 1 }, new: true },
+      ).lean();
+
+      if (!claimed) return null;
+
+      const message: QueueMessage = {
+        messageId: claimed.messageId,
+        body: claimed.body,
+        deliveryCount: claimed.deliveryCount,
+        enqueuedAt: claimed.createdAt,
+      };
+      this.lockTokens.set(message, lockToken);
+
+      if (claimed.deliveryCount <= QUEUE.MAX_DELIVERY_COUNT) return message;
+
+      await this.deadLetter(message, "MaxDeliveryCountExceeded");
+    }
+  }
+
+  private async settle(
+    message: QueueMessage,
+    update: Record<string, unknown>,
+  ): Promise<void> {
+    const result = await QueueMessageModel.updateOne(
+      this.lockedFilter(message),
+      update,
+    );
+    if (result.matchedCount === 0) {
+      throw new QueueLockLostError(message.messageId);
+    }
+  }
+
+  // Only the current delivery may settle a message, and only while locked
+  private lockedFilter(message: QueueMessage) {
+    return {
+      queue: this.queueName,
+      messageId: message.messageId,
+      status: "pending",
+      lockToken: this.lockTokens.get(message) ?? "",
+      visibleAt: { $gt: new Date() },
+    };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Message Queue
+ *
+ * Common interface for the webhook queue so the webhook controller, the
+ * replay tooling and the consumer worker don't depend on Azure Service Bus.
+ *
+ * Every backend has the same delivery semantics:
+ * - A received message is locked (invisible to other receivers) until it
+ *   is settled or the lock expires; an expired lock makes it receivable again
+ * - "complete" = processed, remove it
+ * - "abandon" = processing failed, make it receivable again for a retry
+ * - "deadLetter" = permanent failure, keep it aside and never deliver again
+ * - deliveryCount goes up on every receive; a message received more than
+ *   the maximum delivery count is dead-lettered instead
+ *
+ * Configuration (env):
+ *   QUEUE_BACKEND - "servicebus" | "mongo" | "memory". Defaults to
+ *                   "servicebus" when AZURE_SERVICE_BUS_CONNECTION_STRING is
+ *                   set, otherwise "mongo" - except in production, which
+ *                   refuses to start without Service Bus unless "mongo" is
+ *                   set explicitly. "memory" is only allowed in tests (the
+ *                   API and the worker are separate processes).
+ */
+
+import { QUEUE_BACKENDS, QueueBackendName } from "../constants";
+import { QueueBackend, QueueMessage } from "./queue.types";
+import { ServiceBusQueue } from "./serviceBus";
+import { MongoQueue } from "./mongoQueue";
+import { MemoryQueue } from "./memoryQueue";
+
+export * from "./queue.types";
+
+export const queueName =
+  process.env.AZURE_SERVICE_BUS_QUEUE_NAME || "task-queue";
+
+let queue: QueueBackend | null = null;
+
+function resolveBackendName(): QueueBackendName {
+  const value = process.env.QUEUE_BACKEND?.toLowerCase();
+
+  if (value) {
+    if (value === "memory" && process.env.NODE_ENV !== "test") {
+      // Messages never leave the process, so the worker would never see them
+      throw new Error("QUEUE_BACKEND=memory is only supported in tests");
+    }
+    if (QUEUE_BACKENDS.includes(value as QueueBackendName)) {
+      return value as QueueBackendName;
+    }
+    console.warn(`⚠️ Unknown QUEUE_BACKEND "${value}", ignoring`);
+  }
+
+  if (process.env.AZURE_SERVICE_BUS_CONNECTION_STRING) {
+    return "servicebus";
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "AZURE_SERVICE_BUS_CONNECTION_STRING is not set - configure Service Bus, or set QUEUE_BACKEND=mongo to use the MongoDB queue",
+    );
+  }
+
+  return "mongo";
+}
+
+/**
+ * Refuse to start with a queue backend that can't work here (see
+ * QUEUE_BACKEND above) rather than failing on the first webhook
+ */
+export function assertQueueConfig(): void {
+  resolveBackendName();
+}
+
+export function createQueue(name: QueueBackendName): QueueBackend {
+  switch (name) {
+    case "servicebus":
+      return new ServiceBusQueue(queueName);
+    case "mongo":
+      return new MongoQueue(queueName);
+    case "memory":
+      return new MemoryQueue();
+  }
+}
+
+/**
+ * The queue backend selected by QUEUE_BACKEND, created on first use
+ */
+export function getQueue(): QueueBackend {
+  if (!queue) {
+    queue = createQueue(resolveBackendName());
+    console.log(`📮 Using ${queue.name} queue backend`);
+  }
+  return queue;
+}
+
+// ============================================
+// PRODUCER
+// ============================================
+
+/**
+ * Send a message to the queue
+ * (Called by the webhook controller when a webhook arrives)
+ *
+ * @param messageBody - The webhook data to enqueue
+ * @returns The message ID
+ */
+export async function sendToQueue(messageBody: unknown): Promise<string> {
+  return getQueue().send(messageBody);
+}
+
+// ============================================
+// CONSUMER
+// ============================================
+
+/**
+ * Receive messages from the queue
+ * (Called by the worker to get new messages to process)
+ *
+ * @param maxMessages - How many messages to fetch
+ * @param waitTimeSeconds - How long to wait for messages
+ * @returns Array of received messages
+ */
+export async function receiveFromQueue(
+  maxMessages: number = 1,
+  waitTimeSeconds: number = 5,
+): Promise<QueueMessage[]> {
+  return getQueue().receive(maxMessages, waitTimeSeconds);
+}
+
+/**
+ * Complete (delete) a message after successful processing
+ */
+export async function completeMessage(message: QueueMessage): Promise<void> {
+  return getQueue().complete(message);
+}
+
+/**
+ * Abandon a message (put it back in the queue for retry)
+ */
+export async function abandonMessage(message: QueueMessage): Promise<void> {
+  return getQueue().abandon(message);
+}
+
+/**
+ * Send a message to the dead-letter queue (permanent failure)
+ *
+ * @param message - The received message to dead-letter
+ * @param reason - Why the message is being dead-lettered
+ */
+export async function deadLetterMessage(
+  message: QueueMessage,
+  reason: string,
+): Promise<void> {
+  return getQueue().deadLetter(message, reason);
+}
+
+// ============================================
+// HEALTH CHECK / SHUTDOWN
+// ============================================
+
+/**
+ * Verify the queue backend is reachable
+ */
+export async function healthCheck(): Promise<boolean> {
+  return getQueue().healthCheck();
+}
+
+/**
+ * Close the queue connection (for graceful shutdown).
+ * The next call creates a new backend.
+ */
+export async function closeQueue(): Promise<void> {
+  if (!queue) return;
+
+  const closing = queue;
+  queue = null;
+  await closing.close();
+}
@@ -0,0 +1,49 @@
+// Types shared by the queue facade (./queue) and its backends
+
+import { QueueBackendName } from "../constants";
+
+export interface QueueMessage {
+  messageId: string;
+  body: unknown;
+  deliveryCount: number; // 1 on the first delivery
+  enqueuedAt?: Date;
+}
+
+export interface QueueBackend {
+  readonly name: QueueBackendName;
+
+  /**
+   * Enqueue a message
+   * @returns The message ID
+   */
+  send(body: unknown): Promise<string>;
+
+  /**
+   * Receive and lock up to maxMessages, waiting up to waitTimeSeconds for
+   * the first one
+   */
+  receive(
+    maxMessages: number,
+    waitTimeSeconds: number,
+  ): Promise<QueueMessage[]>;
+
+  complete(message: QueueMessage): Promise<void>;
+
+  abandon(message: QueueMessage): Promise<void>;
+
+  deadLetter(message: QueueMessage, reason: string): Promise<void>;
+
+  healthCheck(): Promise<boolean>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Settling a message whose lock has expired (it may be delivered again)
+ */
+export class QueueLockLostError extends Error {
+  constructor(messageId: string) {
+    super(`Lock lost for queue message ${messageId}`);
+    this.name = "QueueLockLostError";
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Azure Service Bus Queue Backend
+ * (Replaces the old AWS SQS configuration)
+ *
+ * Service Bus = Azure's message queue service (same concept as SQS)
+ *
+ * WHY A MESSAGE QUEUE?
+ * - Decouple webhook receipt (fast) from processing (slow)
+ * - Handle bursts of webhooks without overwhelming MongoDB
+ * - Automatic retries if processing fails
+ * - No data loss even if worker crashes
+ *
+ * KEY DIFFERENCES FROM SQS:
+ * - SQS: You "poll" for messages (ask repeatedly "any new messages?")
+ * - Service Bus: You can also "receive" which is similar polling, or use "subscribe"
+ * - Service Bus has built-in dead-letter queue (no separate setup needed)
+ * - Messages are "completed" (deleted) or "abandoned" (retry)
+ *
+ * Lock duration and max delivery count are set on the queue in Azure.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  ServiceBusClient,
+  ServiceBusMessage,
+  ServiceBusReceivedMessage,
+  ServiceBusSender,
+} from "@azure/service-bus";
+import { QueueBackend, QueueMessage } from "./queue.types";
+
+export class ServiceBusQueue implements QueueBackend {
+  readonly name = "servicebus" as const;
+
+  private connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING;
+  private serviceBusClient: ServiceBusClient | null = null;
+  private sender: ServiceBusSender | null = null;
+
+  // Settling needs the message as Service Bus delivered it
+  private received = new WeakMap<QueueMessage, ServiceBusReceivedMessage>();
+
+  constructor(private queueName: string) {
+    if (!this.connectionString) {
+      console.error(
+        "❌ AZURE_SERVICE_BUS_CONNECTION_STRING not found in environment variables",
+      );
+    }
+  }
+
+  // ============================================
+  // PRODUCER — Send messages to the queue
+  // ============================================
+
+  async send(messageBody: unknown): Promise<string> {
+    try {
+      const message: ServiceBusMessage = {
+        messageId: randomUUID(),
+        body: messageBody,
+        // Application properties = metadata (like SQS MessageAttributes)
+        applicationProperties: {
+          provider: "rook",
+          data_structure:
+            (messageBody as { data_structure?: string } | null)
+              ?.data_structure || "unknown",
+        },
+      };
+
+      await this.getSender().sendMessages(message);
+
+      const messageId = String(message.messageId);
+      console.log(`✅ Message sent to Service Bus: ${messageId}`);
+      return messageId;
+    } catch (error) {
+      console.error("❌ Failed to send message to Service Bus:", error);
+      throw error;
+    }
+  }
+
+  // ============================================
+  // CONSUMER — Receive messages from the queue
+  // ============================================
+
+  async receive(
+    maxMessages: number,
+    waitTimeSeconds: number,
+  ): Promise<QueueMessage[]> {
+    // Create a new receiver each time (peekLock mode = message stays until we complete/abandon it)
+    const receiver = this.getClient().createReceiver(this.queueName);
+
+    try {
+      const messages = await receiver.receiveMessages(maxMessages, {
+        maxWaitTimeInMs: waitTimeSeconds * 1000,
+      });
+
+      return messages.map((received) => {
+        const message: QueueMessage = {
+          messageId: String(received.messageId),
+          body: received.body,
+          deliveryCount: received.deliveryCount ?? 1,
+          enqueuedAt: received.enqueuedTimeUtc,
+        };
+        this.received.set(message, received);
+        return message;
+      });
+    } catch (error) {
+      console.error("❌ Failed to receive messages from Service Bus:", error);
+      throw error;
+    } finally {
+      await receiver.close();
+    }
+  }
+
+  /**
+   * In Service Bus terminology:
+   * - "complete" = message processed successfully, remove it (like SQS deleteMessage)
+   * - "abandon" = processing failed, put it back in the queue for retry
+   * - "deadLetter" = move to dead-letter queue (permanent failure)
+   */
+  async complete(message: QueueMessage): Promise<void> {
+    const receiver = this.getClient().createReceiver(this.queueName);
+    try {
+      await receiver.completeMessage(this.getReceived(message));
+      console.log("✅ Message completed (deleted) from Service Bus");
+    } catch (error) {
+      console.error("❌ Failed to complete message:", error);
+      throw error;
+    } finally {
+      await receiver.close();
+    }
+  }
+
+  async abandon(message: QueueMessage): Promise<void> {
+    const receiver = this.getClient().createReceiver(this.queueName);
+    try {
+      await receiver.abandonMessage(this.getReceived(message));
+      console.log("🔄 Message abandoned (will retry) in Service Bus");
+    } catch (error) {
+      console.error("❌ Failed to abandon message:", error);
+      throw error;
+    } finally {
+      await receiver.close();
+    }
+  }
+
+  async deadLetter(message: QueueMessage, reason: string): Promise<void> {
+    const receiver = this.getClient().createReceiver(this.queueName);
+    try {
+      await receiver.deadLetterMessage(this.getReceived(message), {
+        deadLetterReason: reason,
+        deadLetterErrorDescription: `Permanent failure: ${reason}`,
+      });
+      console.log("💀 Message sent to dead-letter queue:", reason);
+    } catch (error) {
+      console.error("❌ Failed to dead-letter message:", error);
+      throw error;
+    } finally {
+      await receiver.close();
+    }
+  }
+
+  // ============================================
+  // HEALTH CHECK / SHUTDOWN
+  // ============================================
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      // Try to create a receiver — if connection string is wrong, this will fail
+      const receiver = this.getClient().createReceiver(this.queueName);
+      await receiver.close();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    try {
+      if (this.sender) {
+        await this.sender.close();
+        this.sender = null;
+      }
+      if (this.serviceBusClient) {
+        await this.serviceBusClient.close();
+        this.serviceBusClient = null;
+      }
+      console.log("✅ Service Bus connection closed");
+    } catch (error) {
+      console.error("❌ Error closing Service Bus:", error);
+    }
+  }
+
+  private getClient(): ServiceBusClient {
+    if (!this.connectionString) {
+      throw new Error(
+        "Azure Service Bus not configured. Check AZURE_SERVICE_BUS_CONNECTION_STRING.",
+      );
+    }
+    if (!this.serviceBusClient) {
+      this.serviceBusClient = new ServiceBusClient(this.connectionString);
+    }
+    return this.serviceBusClient;
+  }
+
+  private getSender(): ServiceBusSender {
+    if (!this.sender) {
+      this.sender = this.getClient().createSender(this.queueName);
+    }
+    return this.sender;
+  }
+
+  private getReceived(message: QueueMessage): ServiceBusReceivedMessage {
+    const received = this.received.get(message);
+    if (!received) {
+      throw new Error(
+        `Queue message ${message.messageId} was not received from Service Bus`,
+      );
+    }
+    return received;
+  }
+}
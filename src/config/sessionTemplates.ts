@@ -0,0 +1,317 @@
+/**
+ * Built-in Session Templates
+ *
+ * Vetted routines that ship with the backend. They are used when the
+ * template collection is empty, and can be copied into it (and then
+ * edited) with POST /api/admin/session-templates/seed.
+ * Every step stays within the adult limits in PRODUCT_SAFETY_LIMITS.
+ */
+
+import { SessionTemplateData } from "../utils/sessionTemplate.utils";
+
+export const DEFAULT_SESSION_TEMPLATES: SessionTemplateData[] = [
+  {
+    templateId: "cold-plunge-morning-reset",
+    name: "Morning Cold Reset",
+    description: "A short, sharp plunge to wake up body and mind.",
+    productTypes: ["cold-plunge"],
+    goals: ["training-recovery", "traveler-balance"],
+    intensity: "intense",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Box Breathing",
+        DurationMinutes: 3,
+        Instructions:
+          "Breathe in for 4, hold for 4, out for 4, hold for 4. Stay relaxed.",
+      },
+      {
+        StepNumber: 2,
+        Activity: "Cold Plunge",
+        DurationMinutes: 3,
+        Instructions:
+          "Lower in slowly up to your shoulders. Long, calm exhales through the mouth.",
+        TemperatureF: 50,
+      },
+      {
+        StepNumber: 3,
+        Activity: "Rest and Warm Up",
+        DurationMinutes: 4,
+        Instructions:
+          "Dry off and move gently - air squats or arm swings - to rewarm naturally.",
+      },
+    ],
+    tips: [
+      "Get out straight away if you feel dizzy or numb.",
+      "Let your body rewarm on its own rather than jumping into a hot shower.",
+    ],
+    startMessage: "Let's start the day with a clear head.",
+    completionMessage: "Done - notice the energy. Have a great day.",
+  },
+  {
+    templateId: "cold-plunge-gentle-intro",
+    name: "Gentle Cold Introduction",
+    description: "An easy first step into cold exposure with plenty of rest.",
+    productTypes: ["cold-plunge"],
+    goals: ["stress-relief", "relax-rebalance"],
+    intensity: "gentle",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Slow Breathing",
+        DurationMinutes: 3,
+        Instructions:
+          "Breathe in through the nose, out slowly through the mouth.",
+      },
+      {
+        StepNumber: 2,
+        Activity: "Cold Plunge",
+        DurationMinutes: 1.5,
+        Instructions:
+          "Sit in up to your chest. Keep your breathing slow and steady.",
+        TemperatureF: 58,
+      },
+      {
+        StepNumber: 3,
+        Activity: "Rest",
+        DurationMinutes: 4,
+        Instructions: "Wrap up warm and let your breathing settle.",
+      },
+    ],
+    tips: ["Warmer water is fine - consistency matters more than temperature."],
+    startMessage: "We'll take this nice and easy.",
+    completionMessage: "Well done. Every plunge gets a little easier.",
+  },
+  {
+    templateId: "hot-tub-evening-unwind",
+    name: "Evening Unwind Soak",
+    description: "A warm, slow soak to let go of the day before bed.",
+    productTypes: ["hot-tub"],
+    goals: ["stress-relief", "relax-rebalance"],
+    intensity: "gentle",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Deep Breathing",
+        DurationMinutes: 3,
+        Instructions: "Sit comfortably and take slow, deep breaths.",
+      },
+      {
+        StepNumber: 2,
+        Activity: "Hot Tub Soak",
+        DurationMinutes: 15,
+        Instructions:
+          "Settle in up to your shoulders. Relax your jaw, shoulders and hands.",
+        TemperatureF: 100,
+      },
+      {
+        StepNumber: 3,
+        Activity: "Cool Down",
+        DurationMinutes: 5,
+        Instructions: "Sit out, sip water and let your body cool gradually.",
+      },
+    ],
+    tips: ["Finish at least an hour before bed for the best sleep."],
+    startMessage: "Time to slow down and unwind.",
+    completionMessage:
+      "Nicely done. Enjoy a calm evening and a good night's sleep.",
+  },
+  {
+    templateId: "hot-tub-muscle-recovery",
+    name: "Muscle Recovery Soak",
+    description: "Two warm soaks with stretching in between for sore muscles.",
+    productTypes: ["hot-tub"],
+    goals: ["muscle-recovery", "training-recovery"],
+    intensity: "moderate",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Hot Tub Soak",
+        DurationMinutes: 10,
+        Instructions: "Let the warm water loosen your muscles. Stay still.",
+        TemperatureF: 102,
+      },
+      {
+        StepNumber: 2,
+        Activity: "Stretching",
+        DurationMinutes: 5,
+        Instructions:
+          "Gentle hamstring, hip and shoulder stretches. Hold each for 30 seconds.",
+      },
+      {
+        StepNumber: 3,
+        Activity: "Hot Tub Soak",
+        DurationMinutes: 8,
+        Instructions: "Back in - focus on the areas that feel tight.",
+        TemperatureF: 102,
+      },
+      {
+        StepNumber: 4,
+        Activity: "Rest",
+        DurationMinutes: 5,
+        Instructions: "Sit out, hydrate and let your heart rate come down.",
+      },
+    ],
+    tips: ["Drink a glass of water before and after."],
+    startMessage: "Let's help those muscles recover.",
+    completionMessage: "Great work - your body will thank you tomorrow.",
+  },
+  {
+    templateId: "sauna-classic-rounds",
+    name: "Classic Sauna Rounds",
+    description: "Two traditional sauna rounds with rest in between.",
+    productTypes: ["sauna"],
+    goals: ["relax-rebalance", "stress-relief", "traveler-balance"],
+    intensity: "moderate",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Sauna",
+        DurationMinutes: 12,
+        Instructions: "Sit on the lower bench first. Breathe slowly.",
+        TemperatureF: 175,
+      },
+      {
+        StepNumber: 2,
+        Activity: "Rest",
+        DurationMinutes: 5,
+        Instructions: "Step out, cool off and drink some water.",
+      },
+      {
+        StepNumber: 3,
+        Activity: "Sauna",
+        DurationMinutes: 10,
+        Instructions: "Second round - move up a bench only if you feel good.",
+        TemperatureF: 175,
+      },
+      {
+        StepNumber: 4,
+        Activity: "Rest",
+        DurationMinutes: 5,
+        Instructions: "Cool down fully and rehydrate.",
+      },
+    ],
+    tips: ["Leave the sauna at any point if you feel light-headed."],
+    startMessage: "Two rounds of heat, plenty of rest. Let's begin.",
+    completionMessage: "All done - relax and rehydrate.",
+  },
+  {
+    templateId: "sauna-cold-contrast",
+    name: "Sauna and Cold Contrast",
+    description: "Alternating heat and cold for an intense recovery session.",
+    productTypes: ["sauna", "cold-plunge"],
+    goals: ["training-recovery", "muscle-recovery"],
+    intensity: "intense",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Sauna",
+        DurationMinutes: 12,
+        Instructions: "Warm up fully. Breathe slowly through the nose.",
+        TemperatureF: 180,
+      },
+      {
+        StepNumber: 2,
+        Activity: "Rest",
+        DurationMinutes: 3,
+        Instructions: "Step out and take a few calm breaths before the cold.",
+      },
+      {
+        StepNumber: 3,
+        Activity: "Cold Plunge",
+        DurationMinutes: 3,
+        Instructions: "In up to your shoulders. Long exhales.",
+        TemperatureF: 50,
+      },
+      {
+        StepNumber: 4,
+        Activity: "Rest",
+        DurationMinutes: 3,
+        Instructions: "Dry off and let your breathing settle.",
+      },
+      {
+        StepNumber: 5,
+        Activity: "Sauna",
+        DurationMinutes: 10,
+        Instructions: "Second round of heat. Relax into it.",
+        TemperatureF: 180,
+      },
+      {
+        StepNumber: 6,
+        Activity: "Rest",
+        DurationMinutes: 3,
+        Instructions: "Step out and cool off slightly.",
+      },
+      {
+        StepNumber: 7,
+        Activity: "Cold Plunge",
+        DurationMinutes: 2,
+        Instructions: "Finish cold. Stay calm and controlled.",
+        TemperatureF: 50,
+      },
+      {
+        StepNumber: 8,
+        Activity: "Rest and Warm Up",
+        DurationMinutes: 5,
+        Instructions: "Dry off, dress warm and rehydrate.",
+      },
+    ],
+    tips: [
+      "Skip the contrast if you have a heart condition - ask your doctor.",
+    ],
+    startMessage: "Heat, cold, repeat. Let's go.",
+    completionMessage: "Contrast complete - a strong session for recovery.",
+  },
+  {
+    templateId: "hot-tub-cold-contrast",
+    name: "Warm and Cold Contrast",
+    description: "A softer contrast session using the hot tub and cold plunge.",
+    productTypes: ["hot-tub", "cold-plunge"],
+    goals: ["muscle-recovery", "training-recovery"],
+    intensity: "moderate",
+    steps: [
+      {
+        StepNumber: 1,
+        Activity: "Hot Tub Soak",
+        DurationMinutes: 12,
+        Instructions: "Warm up in the hot tub. Relax your shoulders.",
+        TemperatureF: 102,
+      },
+      {
+        StepNumber: 2,
+        Activity: "Rest",
+        DurationMinutes: 3,
+        Instructions: "Step out and breathe calmly.",
+      },
+      {
+        StepNumber: 3,
+        Activity: "Cold Plunge",
+        DurationMinutes: 2,
+        Instructions: "In up to your chest. Slow exhales.",
+        TemperatureF: 55,
+      },
+      {
+        StepNumber: 4,
+        Activity: "Rest",
+        DurationMinutes: 3,
+        Instructions: "Dry off and let your body adjust.",
+      },
+      {
+        StepNumber: 5,
+        Activity: "Hot Tub Soak",
+        DurationMinutes: 8,
+        Instructions: "Back into the warmth to finish.",
+        TemperatureF: 102,
+      },
+      {
+        StepNumber: 6,
+        Activity: "Cool Down",
+        DurationMinutes: 4,
+        Instructions: "Sit out and rehydrate.",
+      },
+    ],
+    tips: ["Keep the cold short - two minutes is plenty."],
+    startMessage: "A gentle contrast session. Let's start warm.",
+    completionMessage: "Nice work - loose muscles and a clear head.",
+  },
+];
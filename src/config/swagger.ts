@@ -42,11 +42,18 @@ const options: swaggerJsdoc.Options = {
     ],
     components: {
       securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "Firebase ID token",
+        },
         FirebaseAuth: {
           type: "apiKey",
           in: "header",
           name: "x-firebase-uid",
-          description: "Firebase UID for user authentication",
+          description:
+            "Firebase UID, only accepted when AUTH_TEST_MODE is on (never in production)",
         },
       },
       schemas: {
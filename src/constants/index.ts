@@ -23,6 +23,28 @@ export type FocusGoalKey = (typeof FOCUS_GOAL_KEYS)[number];
 export const AUTH_PROVIDERS = ["password", "google.com", "apple.com"] as const;
 export type AuthProvider = (typeof AUTH_PROVIDERS)[number];
 
+// ============================================
+// ADMIN CONSTANTS
+// ============================================
+// Firebase custom claim `role`; admins pass every role check
+export const ADMIN_ROLES = ["admin", "support"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+// pending: not processed yet, failed: processed with an error
+export const WEBHOOK_STATUSES = ["pending", "processed", "failed"] as const;
+export type WebhookStatus = (typeof WEBHOOK_STATUSES)[number];
+
+export const ADMIN = {
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+// Raw webhooks re-enqueued (or dry-run) per replay request
+export const WEBHOOK_REPLAY = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 1000,
+} as const;
+
 // ============================================
 // WEARABLE CONSTANTS
 // ============================================
@@ -49,17 +71,105 @@ export const API_WEARABLE_SOURCES = [
 ] as const;
 export type ApiWearableSource = (typeof API_WEARABLE_SOURCES)[number];
 
+export const HEALTH_DATA_TYPES = [
+  "sleep",
+  "physical",
+  "body",
+  "activity_events",
+] as const;
+export type HealthDataType = (typeof HEALTH_DATA_TYPES)[number];
+
+// ============================================
+// HEALTH DATA FUSION CONSTANTS
+// ============================================
+// Metrics users can pick a preferred source for
+export const FUSION_METRICS = [
+  "sleep",
+  "heart_rate",
+  "hrv",
+  "activity",
+  "body",
+] as const;
+export type FusionMetric = (typeof FUSION_METRICS)[number];
+
+// Default source order per metric, most trusted first.
+// Sources not listed rank after the listed ones.
+export const DEFAULT_SOURCE_PRIORITY: Record<FusionMetric, WearableSource[]> = {
+  sleep: ["oura", "whoop", "garmin", "fitbit", "apple", "samsung", "polar"],
+  heart_rate: [
+    "oura",
+    "whoop",
+    "apple",
+    "garmin",
+    "polar",
+    "fitbit",
+    "samsung",
+  ],
+  hrv: ["oura", "whoop", "apple", "garmin", "polar", "fitbit", "samsung"],
+  activity: ["apple", "garmin", "fitbit", "samsung", "polar", "whoop", "oura"],
+  body: ["apple", "samsung", "garmin", "fitbit", "oura", "whoop", "polar"],
+};
+
+export const HEALTH_FUSION = {
+  DEFAULT_TIMEZONE: "UTC",
+  // A preferred source loses to one whose data is this much newer
+  STALE_AFTER_HOURS: 6,
+} as const;
+
 // ============================================
 // WEBHOOK CONSTANTS
 // ============================================
 export const WEBHOOK_EVENT_TYPES = [
   "connection_established",
   "connection_revoked",
+  "user_connected",
+  "user_disconnected",
   "user_created",
   "user_deleted",
 ] as const;
 export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
 
+// ROOK data_source values and the wearable they feed
+export const ROOK_DATA_SOURCES: Record<string, WearableSource> = {
+  oura: "oura",
+  garmin: "garmin",
+  fitbit: "fitbit",
+  whoop: "whoop",
+  apple_health: "apple",
+  polar: "polar",
+};
+
+export const WEARABLE_CONNECTION_EVENTS = [
+  "connected",
+  "revoked", // Access withdrawn at the wearable or ROOK; needs reauthorizing
+  "error", // ROOK reported a problem reading the wearable
+] as const;
+export type WearableConnectionEvent =
+  (typeof WEARABLE_CONNECTION_EVENTS)[number];
+
+export const WEARABLE_CONNECTION = {
+  MAX_HISTORY: 50, // Connection events kept per wearable
+} as const;
+
+// ============================================
+// QUEUE CONSTANTS
+// ============================================
+// servicebus: Azure Service Bus (production)
+// mongo: a MongoDB collection, for local dev without Service Bus
+// memory: in-process, for tests; the API and the worker must share a process
+export const QUEUE_BACKENDS = ["servicebus", "mongo", "memory"] as const;
+export type QueueBackendName = (typeof QUEUE_BACKENDS)[number];
+
+export const QUEUE_MESSAGE_STATUSES = ["pending", "dead_lettered"] as const;
+export type QueueMessageStatus = (typeof QUEUE_MESSAGE_STATUSES)[number];
+
+// Mongo and memory queues; Service Bus is configured on the queue itself
+export const QUEUE = {
+  LOCK_DURATION_MS: 60 * 1000, // A received message is invisible this long
+  MAX_DELIVERY_COUNT: 10, // Dead-lettered when received more often
+  POLL_INTERVAL_MS: 500, // While waiting for messages
+} as const;
+
 // ============================================
 // CACHE TTL CONSTANTS (in seconds)
 // ============================================
@@ -69,6 +179,287 @@ export const CACHE_TTL = {
   WEARABLES: 300, // 5 minutes
 } as const;
 
+// ============================================
+// CHAT CONTEXT CONSTANTS
+// ============================================
+export const CHAT_CONTEXT = {
+  MAX_CONTEXT_TOKENS: 3000, // Budget for summary + history sent to the AI
+  SUMMARY_TRIGGER_MESSAGES: 24, // Summarize once this many turns are unsummarized
+  RECENT_MESSAGES_TO_KEEP: 12, // Turns always left out of the summary
+  MAX_SUMMARY_CHARS: 1600,
+} as const;
+
+// ============================================
+// SESSION LIBRARY CONSTANTS
+// ============================================
+export const SESSION_LIBRARY = {
+  DEFAULT_RETENTION_LIMIT: 50, // Override with SESSION_RETENTION_LIMIT
+} as const;
+
+// ============================================
+// SESSION STATS CONSTANTS
+// ============================================
+export const SESSION_STATS = {
+  DEFAULT_TIMEZONE: "UTC",
+  WEEKS: 12, // Weekly minutes returned, most recent last
+  MONTHS: 12,
+  TOP_ACTIVITIES: 10,
+} as const;
+
+// ============================================
+// SESSION TEMPLATE CONSTANTS
+// ============================================
+export const SESSION_INTENSITIES = ["gentle", "moderate", "intense"] as const;
+export type SessionIntensity = (typeof SESSION_INTENSITIES)[number];
+
+// Where a generated session came from
+export const SESSION_SOURCES = ["ai", "template"] as const;
+export type SessionSource = (typeof SESSION_SOURCES)[number];
+
+export const SESSION_TEMPLATES = {
+  // Exposure steps are scaled when the mood asks for a gentler or harder session
+  GENTLE_DURATION_FACTOR: 0.8,
+  INTENSE_DURATION_FACTOR: 1.2,
+} as const;
+
+// ============================================
+// SESSION SCHEDULE CONSTANTS
+// ============================================
+export const SESSION_SCHEDULE = {
+  DEFAULT_REMINDER_MINUTES: 15, // Reminder lead time before the session
+  MAX_REMINDER_MINUTES: 24 * 60,
+  MAX_SCHEDULES_PER_USER: 20,
+  SEARCH_HORIZON_DAYS: 366, // How far ahead to look for the next occurrence
+  POLL_INTERVAL_MS: 60 * 1000, // Scheduler worker
+  BATCH_SIZE: 50,
+  MISSED_REMINDER_GRACE_MINUTES: 30, // Older reminders are skipped, not sent late
+} as const;
+
+// ============================================
+// SESSION SAFETY CONSTANTS
+// ============================================
+// Per-product exposure limits applied to every generated or edited session
+export const PRODUCT_SAFETY_LIMITS: Record<
+  ProductType,
+  {
+    MIN_TEMPERATURE_F: number;
+    MAX_TEMPERATURE_F: number;
+    MAX_STEP_MINUTES: number;
+    MAX_SESSION_EXPOSURE_MINUTES: number; // Summed over all steps of this product
+  }
+> = {
+  "cold-plunge": {
+    MIN_TEMPERATURE_F: 39,
+    MAX_TEMPERATURE_F: 60,
+    MAX_STEP_MINUTES: 10,
+    MAX_SESSION_EXPOSURE_MINUTES: 15,
+  },
+  "hot-tub": {
+    MIN_TEMPERATURE_F: 95,
+    MAX_TEMPERATURE_F: 104,
+    MAX_STEP_MINUTES: 20,
+    MAX_SESSION_EXPOSURE_MINUTES: 30,
+  },
+  sauna: {
+    MIN_TEMPERATURE_F: 140,
+    MAX_TEMPERATURE_F: 195,
+    MAX_STEP_MINUTES: 20,
+    MAX_SESSION_EXPOSURE_MINUTES: 40,
+  },
+};
+
+export const SESSION_SAFETY_RULES = {
+  VERSION: 1, // Bump when limits change so reviews can be traced
+  MIN_REST_BETWEEN_CONTRAST_MINUTES: 2, // Rest between cold and heat steps
+  // Older and younger users get shorter exposures and keep only the gentler
+  // part of each temperature range (warmer cold plunge, cooler heat)
+  AGE_ADJUSTMENTS: [
+    { MIN_AGE: 65, DURATION_FACTOR: 0.66, TEMPERATURE_RANGE_FACTOR: 0.5 },
+    { MAX_AGE: 17, DURATION_FACTOR: 0.5, TEMPERATURE_RANGE_FACTOR: 0.5 },
+  ],
+} as const;
+
+// ============================================
+// SESSION VALIDATION CONSTANTS
+// ============================================
+export const SESSION_LIMITS = {
+  MIN_STEPS: 1,
+  MAX_STEPS: 20,
+  MAX_STEP_MINUTES: 60,
+  MAX_TOTAL_MINUTES: 120,
+  // Exposure steps follow the product safety limits
+  MAX_COLD_STEP_MINUTES: PRODUCT_SAFETY_LIMITS["cold-plunge"].MAX_STEP_MINUTES,
+  MAX_HEAT_STEP_MINUTES: Math.max(
+    PRODUCT_SAFETY_LIMITS["hot-tub"].MAX_STEP_MINUTES,
+    PRODUCT_SAFETY_LIMITS.sauna.MAX_STEP_MINUTES,
+  ),
+} as const;
+
+// ============================================
+// AI PROVIDER CONSTANTS
+// ============================================
+export const AI_PROVIDER_CONFIG = {
+  DEFAULT_TIMEOUT_MS: 30000, // Per attempt, before failing over
+  OPENAI_MODEL: "gpt-4o",
+  MAX_WEARABLES_CONTEXT_CHARS: 4000, // Wearables JSON included in prompts
+} as const;
+
+// ============================================
+// NOTIFICATION CONSTANTS
+// ============================================
+export const NOTIFICATION_CATEGORIES = [
+  "session_reminders",
+  "wearable_alerts",
+  "recovery_nudges",
+  "announcements",
+] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export const DEVICE_PLATFORMS = ["ios", "android", "web"] as const;
+export type DevicePlatform = (typeof DEVICE_PLATFORMS)[number];
+
+export const NOTIFICATION_CONFIG = {
+  MAX_DEVICES_PER_USER: 10, // Least recently seen devices are dropped
+  ANNOUNCEMENTS_TOPIC: "announcements", // Every device subscribes unless opted out
+  LOW_RECOVERY_THRESHOLD: 40, // H2Oasis recovery score (0-100) that triggers a nudge
+} as const;
+
+// ============================================
+// RECOVERY SCORE CONSTANTS
+// ============================================
+export const RECOVERY_SCORE_METHODS = ["vendor", "metrics"] as const;
+export type RecoveryScoreMethod = (typeof RECOVERY_SCORE_METHODS)[number];
+
+export const RECOVERY_SCORE = {
+  DEFAULT_TIMEZONE: "UTC",
+  MAX_DATA_AGE_HOURS: 36, // Older readings don't describe today
+  BASELINE_DAYS: 14, // Personal HRV / resting HR baseline window
+  MIN_BASELINE_DAYS: 3, // Population ranges are used until then
+  DEFAULT_HISTORY_DAYS: 30,
+  MAX_HISTORY_DAYS: 90,
+  // Weights of the raw metric components (re-normalized over what's available)
+  WEIGHTS: {
+    hrv: 0.35,
+    restingHeartRate: 0.2,
+    sleep: 0.3,
+    activityLoad: 0.15,
+  },
+} as const;
+
+// ============================================
+// SESSION PERSONALIZATION CONSTANTS
+// ============================================
+export const RECOVERY_TRENDS = ["up", "down", "flat"] as const;
+export type RecoveryTrend = (typeof RECOVERY_TRENDS)[number];
+
+export const SESSION_PERSONALIZATION = {
+  RECENT_SESSIONS: 5, // Sessions summarized for the AI
+  RECOVERY_DAYS: 14, // Recovery score window
+  RECENT_RECOVERY_DAYS: 3, // Compared with the rest of the window for the trend
+  RECOVERY_TREND_POINTS: 5, // Change in the average that counts as a trend
+  SHORTENED_RATIO: 0.75, // Steps stopped before this share of the plan were cut short
+  OFTEN_SKIPPED_SESSIONS: 2, // Skipped in this many recent sessions
+} as const;
+
+// ============================================
+// HEALTH TRENDS CONSTANTS
+// ============================================
+export const TREND_METRICS = [
+  "sleep_duration",
+  "sleep_efficiency",
+  "hrv_rmssd",
+  "resting_hr",
+  "steps",
+  "strain",
+  "body_battery",
+] as const;
+export type TrendMetric = (typeof TREND_METRICS)[number];
+
+export const HEALTH_TRENDS = {
+  DEFAULT_TIMEZONE: "UTC",
+  DEFAULT_RANGE_DAYS: 30,
+  MIN_RANGE_DAYS: 7,
+  MAX_RANGE_DAYS: 365,
+  SHORT_AVERAGE_DAYS: 7, // Rolling averages
+  LONG_AVERAGE_DAYS: 28,
+  BASELINE_DAYS: 28, // Trailing window for the personal baseline
+  MIN_BASELINE_DAYS: 7, // Fewer readings give no baseline or anomaly flags
+  ANOMALY_Z_SCORE: 2, // Standard deviations from baseline to flag a day
+  TREND_Z_SCORE: 0.5, // Shift of the last week vs. the baseline before it
+} as const;
+
+// ============================================
+// SESSION INSIGHTS CONSTANTS
+// ============================================
+export const INSIGHT_METRICS = [
+  "deep_sleep",
+  "sleep_duration",
+  "sleep_efficiency",
+  "hrv",
+  "resting_hr",
+  "recovery_score",
+] as const;
+export type InsightMetric = (typeof INSIGHT_METRICS)[number];
+
+export const INSIGHT_CONFIDENCE_LEVELS = ["low", "medium", "high"] as const;
+export type InsightConfidence = (typeof INSIGHT_CONFIDENCE_LEVELS)[number];
+
+export const SESSION_INSIGHTS = {
+  DEFAULT_TIMEZONE: "UTC",
+  LOOKBACK_DAYS: 90,
+  MIN_SAMPLES: 3, // Nights needed on each side to report an effect
+  // Nights on the smaller side and |t| needed for each confidence level
+  MEDIUM_CONFIDENCE: { MIN_SAMPLES: 5, MIN_T: 2 },
+  HIGH_CONFIDENCE: { MIN_SAMPLES: 10, MIN_T: 2.6 },
+  MAX_CONTEXT_INSIGHTS: 5, // Effects passed to the AI
+  CACHE_TTL_SECONDS: 60 * 60,
+} as const;
+
+// ============================================
+// DATA EXPORT CONSTANTS
+// ============================================
+export const EXPORT_JOB_STATUSES = [
+  "pending",
+  "processing",
+  "completed",
+  "failed",
+  "expired", // Download link lapsed and the zip was deleted
+] as const;
+export type ExportJobStatus = (typeof EXPORT_JOB_STATUSES)[number];
+
+export const DATA_EXPORT = {
+  BLOB_PREFIX: "exports",
+  LINK_EXPIRY_HOURS: 72, // Lifetime of the emailed download link
+  // An unfinished job older than this is assumed lost (e.g. a restart);
+  // the data export worker runs it again and a new export may be requested
+  STALE_JOB_MINUTES: 30,
+  MAX_ATTEMPTS: 3,
+  POLL_INTERVAL_MS: 5 * 60 * 1000, // Data export worker
+  BATCH_SIZE: 10,
+} as const;
+
+// ============================================
+// ACCOUNT DELETION CONSTANTS
+// ============================================
+export const ACCOUNT_DELETION_STATUSES = [
+  "scheduled", // In the grace period, can still be restored
+  "restored",
+  "purging",
+  "completed",
+  "failed", // Gave up after MAX_ATTEMPTS; needs a look
+] as const;
+export type AccountDeletionStatus = (typeof ACCOUNT_DELETION_STATUSES)[number];
+
+export const ACCOUNT_DELETION = {
+  GRACE_PERIOD_DAYS: 14,
+  POLL_INTERVAL_MS: 5 * 60 * 1000, // Account deletion worker
+  BATCH_SIZE: 10,
+  MAX_ATTEMPTS: 5,
+  // A purge that hasn't finished after this long is assumed lost
+  // (e.g. the worker restarted) and is picked up again
+  STALE_PURGE_MINUTES: 30,
+} as const;
+
 // ============================================
 // OTP CONSTANTS
 // ============================================
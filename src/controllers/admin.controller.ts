@@ -0,0 +1,329 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { AdminService } from "../services/admin.service";
+import { AdminAuditService } from "../services/adminAudit.service";
+import { WebhookReplayService } from "../services/webhookReplay.service";
+import { WebhookReplayRequestSchema } from "../utils/webhookReplay.utils";
+import { paramString } from "../utils/routeParams";
+import { handleError } from "../utils/controller.utils";
+import { ADMIN, ADMIN_ROLES, WEBHOOK_STATUSES } from "../constants";
+
+const PaginationSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(ADMIN.MAX_PAGE_SIZE, `limit must be at most ${ADMIN.MAX_PAGE_SIZE}`)
+    .default(ADMIN.DEFAULT_PAGE_SIZE),
+});
+
+const SearchUsersQuerySchema = PaginationSchema.extend({
+  q: z.string().trim().min(1).optional(),
+  isActive: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+const ListWebhooksQuerySchema = PaginationSchema.extend({
+  firebaseUid: z.string().min(1).optional(),
+  status: z.enum(WEBHOOK_STATUSES).optional(),
+  dataStructure: z.string().min(1).optional(),
+});
+
+const AuditLogQuerySchema = PaginationSchema.extend({
+  actorUid: z.string().min(1).optional(),
+  targetUid: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+});
+
+const SetRoleSchema = z.object({
+  role: z.enum(ADMIN_ROLES).nullable(),
+});
+
+export class AdminController {
+  private adminService: AdminService;
+  private adminAuditService: AdminAuditService;
+  private webhookReplayService: WebhookReplayService;
+
+  constructor() {
+    this.adminService = new AdminService();
+    this.adminAuditService = new AdminAuditService();
+    this.webhookReplayService = new WebhookReplayService();
+  }
+
+  /**
+   * GET /api/admin/users
+   * Search users by email, name, phone or exact firebaseUid
+   */
+  searchUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = SearchUsersQuerySchema.parse(req.query);
+
+      const { users, total } = await this.adminService.searchUsers({
+        query: query.q,
+        isActive: query.isActive,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: users,
+        pagination: { page: query.page, limit: query.limit, total },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to search users");
+    }
+  };
+
+  /**
+   * GET /api/admin/users/:firebaseUid
+   */
+  getUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.adminService.getUser(
+        paramString(req.params.firebaseUid)!,
+      );
+
+      if (!result) {
+        this.userNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to get user");
+    }
+  };
+
+  /**
+   * GET /api/admin/users/:firebaseUid/wearables
+   */
+  getWearables = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.adminService.getWearables(
+        paramString(req.params.firebaseUid)!,
+      );
+
+      if (!result) {
+        this.userNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to get wearable connections");
+    }
+  };
+
+  /**
+   * GET /api/admin/users/:firebaseUid/sessions
+   */
+  listSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const pagination = PaginationSchema.parse(req.query);
+
+      const { sessions, total } = await this.adminService.listSessions(
+        paramString(req.params.firebaseUid)!,
+        pagination,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+        pagination: { ...pagination, total },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to list sessions");
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:firebaseUid/deactivate
+   */
+  deactivateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deactivated = await this.adminService.deactivateUser(
+        paramString(req.params.firebaseUid)!,
+      );
+
+      if (!deactivated) {
+        this.userNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "User deactivated",
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to deactivate user");
+    }
+  };
+
+  /**
+   * PUT /api/admin/users/:firebaseUid/role
+   */
+  setRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { role } = SetRoleSchema.parse(req.body);
+
+      const updated = await this.adminService.setRole(
+        paramString(req.params.firebaseUid)!,
+        role,
+      );
+
+      if (!updated) {
+        this.userNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { role },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to set role");
+    }
+  };
+
+  /**
+   * GET /api/admin/sessions/:sessionId
+   */
+  getSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.adminService.getSession(
+        paramString(req.params.sessionId)!,
+      );
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to get session");
+    }
+  };
+
+  /**
+   * GET /api/admin/webhooks
+   */
+  listWebhooks = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = ListWebhooksQuerySchema.parse(req.query);
+
+      const result = await this.adminService.listWebhooks(query);
+
+      if (!result) {
+        this.userNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.webhooks,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+        },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to list webhooks");
+    }
+  };
+
+  /**
+   * GET /api/admin/webhooks/:webhookId
+   */
+  getWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const webhook = await this.adminService.getWebhook(
+        paramString(req.params.webhookId)!,
+      );
+
+      if (!webhook) {
+        res.status(404).json({
+          success: false,
+          error: "Webhook not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to get webhook");
+    }
+  };
+
+  /**
+   * POST /api/admin/webhooks/replay
+   * Re-enqueue matching raw webhooks, or preview the changes with dryRun
+   */
+  replayWebhooks = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { dryRun, ...filters } = WebhookReplayRequestSchema.parse(
+        req.body ?? {},
+      );
+
+      const result = await this.webhookReplayService.replay(filters, dryRun);
+
+      if (!result) {
+        this.userNotFound(res);
+        return;
+      }
+
+      res.status(dryRun ? 200 : 202).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to replay webhooks");
+    }
+  };
+
+  /**
+   * GET /api/admin/audit-log
+   */
+  listAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = AuditLogQuerySchema.parse(req.query);
+
+      const { entries, total } = await this.adminAuditService.list(query);
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+        pagination: { page: query.page, limit: query.limit, total },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to list audit log");
+    }
+  };
+
+  private userNotFound(res: Response) {
+    res.status(404).json({
+      success: false,
+      error: "User not found",
+    });
+  }
+}
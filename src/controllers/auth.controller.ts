@@ -5,9 +5,9 @@ import { AuthService } from "../services/auth.service";
 import { User } from "../models/User.model";
 import { admin } from "../utils/firebase";
 import { AuthenticatedRequest } from "../middleware/auth.middleware";
-import redis from "../utils/redis";
 import { generateOTP, sendOTPEmail } from "../services/otp.service";
 import { getBlobSasUrl } from "../utils/blobStorage";
+import { AccountDeletionService } from "../services/accountDeletion.service";
 
 // -----------------------------
 // ZOD SCHEMAS
@@ -37,6 +37,8 @@ const RequestOTPSchema = z.object({
   email: z.string().email(),
 });
 
+const accountDeletionService = new AccountDeletionService();
+
 export class AuthController {
   // ----------------------------------------------------
   // REGISTER
@@ -48,6 +50,22 @@ export class AuthController {
 
       await DatabaseService.connect();
 
+      // A deleted account stays reserved until it is purged
+      const pendingDeletion = await User.findOne({
+        email: email.toLowerCase(),
+        deletionScheduledFor: { $exists: true },
+      });
+
+      if (pendingDeletion) {
+        return res.status(409).json({
+          success: false,
+          message:
+            "This account is scheduled for deletion. Sign in to restore it.",
+          code: "ACCOUNT_PENDING_DELETION",
+          deletionScheduledFor: pendingDeletion.deletionScheduledFor,
+        });
+      }
+
       // SOCIAL login path
       if (firebaseUid && provider && provider !== "password") {
         const user = await AuthService.createOrUpdateUser({
@@ -221,6 +239,9 @@ export class AuthController {
           fullName: user.fullName,
         },
         linkedProviders: Array.from(user.linkedProviders?.keys() || []),
+        // Set while the account is scheduled for deletion, so the app can
+        // offer to restore it
+        deletionScheduledFor: user.deletionScheduledFor,
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -388,26 +409,20 @@ export class AuthController {
     try {
       await DatabaseService.connect();
 
-      const user = await AuthService.getUserByFirebaseUid(firebaseUid);
+      const deletion = await accountDeletionService.scheduleDeletion(
+        firebaseUid,
+      );
 
-      if (!user) {
+      if (!deletion) {
         return res
           .status(404)
           .json({ success: false, message: "User not found" });
       }
 
-      const cacheKey = `user:${user.email.toLowerCase()}`;
-
-      // Execute all deletions *in parallel*
-      await Promise.all([
-        User.deleteOne({ firebaseUid }),
-        redis.del(cacheKey),
-        admin.auth().deleteUser(firebaseUid),
-      ]);
-
       return res.status(200).json({
         success: true,
-        message: "Account deleted successfully",
+        message: `Account scheduled for deletion. Sign in and restore it before ${deletion.scheduledFor.toISOString()} to keep it.`,
+        deletionScheduledFor: deletion.scheduledFor,
       });
     } catch (error: any) {
       console.error("Delete account error:", error);
@@ -417,4 +432,36 @@ export class AuthController {
       });
     }
   }
+
+  // ----------------------------------------------------
+  // RESTORE ACCOUNT
+  // ----------------------------------------------------
+  static async restoreAccount(req: AuthenticatedRequest, res: Response) {
+    const firebaseUid = req.user!.uid;
+
+    try {
+      await DatabaseService.connect();
+
+      const deletion = await accountDeletionService.restoreAccount(firebaseUid);
+
+      if (!deletion) {
+        return res.status(404).json({
+          success: false,
+          message: "No scheduled account deletion to cancel",
+        });
+      }
+
+      return res
+        .status(200)
+        .json({ success: true, message: "Account restored" });
+    } catch (error) {
+      console.error("Restore account error:", error);
+      return res.status(500).json({
+        success: false,
+        message:
+          (error instanceof Error && error.message) ||
+          "Failed to restore account",
+      });
+    }
+  }
 }
@@ -1,26 +1,58 @@
 import { Request, Response } from "express";
-import { H2OasisAIService } from "../services/h2oasis-ai.service";
+import { AuthenticatedRequest } from "../middleware/auth.middleware";
+import {
+  AIChatMessage,
+  AIChatOptions,
+  getAIProvider,
+} from "../services/aiProvider.service";
 import { User } from "../models/User.model";
 import redisClient from "../utils/redis";
 import { SessionService } from "../services/session.service";
+import { ChatHistoryService } from "../services/chatHistory.service";
+import { ChatContextService } from "../services/chatContext.service";
+import { SessionGenerationService } from "../services/sessionGeneration.service";
+import { SessionValidationError } from "../utils/sessionValidation.utils";
+import { SessionSafetyError } from "../utils/sessionSafety.utils";
+import { paramString } from "../utils/routeParams";
+import { handleError, requireUser } from "../utils/controller.utils";
+import { HealthFusionService } from "../services/healthFusion.service";
+import { SessionInsightsService } from "../services/sessionInsights.service";
+import { SessionPersonalizationService } from "../services/sessionPersonalization.service";
+import { SessionPersonalizationUtils } from "../utils/sessionPersonalization.utils";
+
+// AI request inputs shared by the regular and streaming chat endpoints
+interface ChatRequestContext {
+  messages: AIChatMessage[];
+  wearablesData: unknown;
+  options: AIChatOptions;
+}
 
 export class ChatController {
-  private h2oasisAI: H2OasisAIService;
   private sessionService: SessionService;
+  private chatHistoryService: ChatHistoryService;
+  private chatContextService: ChatContextService;
+  private sessionGenerationService: SessionGenerationService;
+  private healthFusionService: HealthFusionService;
+  private sessionInsightsService: SessionInsightsService;
+  private sessionPersonalizationService: SessionPersonalizationService;
   private readonly CACHE_TTL = 300; // 5 minutes cache
 
   constructor() {
-    this.h2oasisAI = new H2OasisAIService();
     this.sessionService = new SessionService();
+    this.chatHistoryService = new ChatHistoryService();
+    this.chatContextService = new ChatContextService();
+    this.sessionGenerationService = new SessionGenerationService();
+    this.healthFusionService = new HealthFusionService();
+    this.sessionInsightsService = new SessionInsightsService();
+    this.sessionPersonalizationService = new SessionPersonalizationService();
   }
 
   sendMessage = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { message, chatHistory, tags, goals, mood, isNewSession } =
-        req.body;
+      const { message, conversationId } = req.body;
 
       // Get userId from auth middleware
-      const userId = req.headers["x-firebase-uid"] as string;
+      const userId = (req as AuthenticatedRequest).user?.uid;
 
       // Validate required fields
       if (!message || !userId) {
@@ -32,100 +64,358 @@ export class ChatController {
 
       console.log("💬 Processing chat message for user:", userId);
 
-      // Fetch user's wearables data (with caching)
-      const wearablesData = await this.getWearablesDataCached(userId);
-
-      // Get user to retrieve focusGoal
-      const user = await User.findOne({ firebaseUid: userId });
+      const context = await this.prepareChatContext(userId, req.body);
 
-      // Build goals array: prioritize passed goals, fallback to user's focusGoal
-      let goalsArray = goals || [];
-      if (goalsArray.length === 0 && user?.focusGoal?.label) {
-        goalsArray = [user.focusGoal.label];
-        console.log("📌 Using user's focus goal:", user.focusGoal.label);
-      }
+      // Call the configured AI provider (with failover)
+      const aiResponse = await getAIProvider(userId).chat(
+        message,
+        context.messages,
+        context.wearablesData,
+        context.options,
+      );
 
-      // Build messages array for H2Oasis AI
-      const messages = [
-        ...(chatHistory || []),
-        {
-          role: "user" as const,
-          content: message,
-        },
-      ];
+      console.log("✅ AI response received");
 
-      // Call H2Oasis AI API
-      const aiResponse = await this.h2oasisAI.sendMessage(
+      const result = await this.finalizeChatResponse(
+        userId,
         message,
-        messages,
-        wearablesData,
-        {
-          tags,
-          goals: goalsArray,
-          mood,
-          isNewSession,
-        },
+        aiResponse,
+        context,
+        conversationId,
       );
 
-      console.log("✅ AI response received");
+      res.json({
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Chat controller error:", error);
 
-      // Try to extract JSON session from response (may be wrapped in markdown or text)
-      let parsed: any = null;
-      let jsonString = aiResponse.trim();
-
-      // Remove markdown code blocks if present
-      if (jsonString.includes("```json")) {
-        jsonString = jsonString
-          .replace(/```json\s*/g, "")
-          .replace(/```\s*/g, "");
-      } else if (jsonString.includes("```")) {
-        jsonString = jsonString.replace(/```\s*/g, "");
+      const sessionErrorBody = this.sessionErrorBody(error);
+      if (sessionErrorBody) {
+        res.status(422).json(sessionErrorBody);
+        return;
       }
 
-      // Try to find JSON object in the response
-      const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          parsed = JSON.parse(jsonMatch[0]);
-        } catch (e) {
-          parsed = null;
-        }
+      res.status(500).json({
+        error: "Failed to process chat message",
+        message:
+          "I apologize, but I'm experiencing technical difficulties. Please try again in a moment.",
+      });
+    }
+  };
+
+  /**
+   * Stream the AI reply as Server-Sent Events
+   * POST /api/chat/message/stream
+   *
+   * Events:
+   *   token  - { content } incremental text
+   *   status - { status: "creating_session" } when the reply is session JSON
+   *   done   - same payload as POST /api/chat/message
+   *   error  - { error, message }
+   */
+  streamMessage = async (req: Request, res: Response): Promise<void> => {
+    const { message, conversationId } = req.body;
+    const userId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!message || !userId) {
+      res.status(400).json({
+        error: "Message and userId are required",
+      });
+      return;
+    }
+
+    console.log("💬 Streaming chat message for user:", userId);
+
+    // Stop generating if the client goes away
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        console.log("🔌 Client disconnected from chat stream");
+        abortController.abort();
       }
+    });
 
-      // If the parsed object looks like a Session, return structured response
-      if (
-        parsed &&
-        (parsed.SessionId || parsed.SessionName) &&
-        Array.isArray(parsed.Steps)
-      ) {
-        console.log("🛰️ Detected session JSON - returning structured session");
-        res.json({
-          success: true,
-          response:
-            "Session created successfully. Tap 'View Session' to open it.",
-          action: "CREATE_SESSION",
-          session: parsed,
-          timestamp: new Date().toISOString(),
-        });
-        return;
+    try {
+      const context = await this.prepareChatContext(userId, req.body);
+
+      res.status(200);
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering
+      res.flushHeaders();
+
+      let aiResponse = "";
+      // Session replies are JSON - don't stream raw JSON tokens to the UI
+      let isStructured: boolean | null = null;
+
+      for await (const token of getAIProvider(userId).streamChat(
+        message,
+        context.messages,
+        context.wearablesData,
+        { ...context.options, signal: abortController.signal },
+      )) {
+        aiResponse += token;
+
+        if (isStructured === null) {
+          const start = aiResponse.trimStart();
+          if (!start) continue;
+
+          isStructured = start.startsWith("{") || start.startsWith("```");
+          if (isStructured) {
+            this.writeSseEvent(res, "status", { status: "creating_session" });
+            continue;
+          }
+
+          // Flush anything held back while waiting for the first character
+          this.writeSseEvent(res, "token", { content: aiResponse });
+          continue;
+        }
+
+        if (!isStructured) {
+          this.writeSseEvent(res, "token", { content: token });
+        }
       }
 
-      // Default: return raw assistant text
-      res.json({
+      console.log("✅ AI stream completed");
+
+      const result = await this.finalizeChatResponse(
+        userId,
+        message,
+        aiResponse,
+        context,
+        conversationId,
+      );
+
+      this.writeSseEvent(res, "done", {
         success: true,
-        response: aiResponse,
+        ...result,
         timestamp: new Date().toISOString(),
       });
+      res.end();
     } catch (error) {
-      console.error("❌ Chat controller error:", error);
-      res.status(500).json({
+      if (abortController.signal.aborted) {
+        return;
+      }
+
+      console.error("❌ Chat stream error:", error);
+
+      const sessionErrorBody = this.sessionErrorBody(error);
+      const errorBody = sessionErrorBody || {
         error: "Failed to process chat message",
         message:
           "I apologize, but I'm experiencing technical difficulties. Please try again in a moment.",
-      });
+      };
+
+      if (!res.headersSent) {
+        res.status(sessionErrorBody ? 422 : 500).json(errorBody);
+        return;
+      }
+
+      this.writeSseEvent(res, "error", errorBody);
+      res.end();
     }
   };
 
+  /**
+   * Build the AI request context shared by the regular and streaming endpoints
+   */
+  private async prepareChatContext(
+    userId: string,
+    body: {
+      message: string;
+      chatHistory?: unknown[];
+      tags?: string[];
+      goals?: string[];
+      mood?: string;
+      isNewSession?: boolean;
+      conversationId?: string;
+    },
+  ): Promise<ChatRequestContext> {
+    const { message, chatHistory, tags, goals, mood, isNewSession } = body;
+
+    // Fetch user's wearables data (with caching)
+    const wearablesData = await this.getWearablesDataCached(userId);
+
+    // Get user to retrieve focusGoal
+    const user = await User.findOne({ firebaseUid: userId });
+
+    // Build goals array: prioritize passed goals, fallback to user's focusGoal
+    let goalsArray = goals || [];
+    if (goalsArray.length === 0 && user?.focusGoal?.label) {
+      goalsArray = [user.focusGoal.label];
+      console.log("📌 Using user's focus goal:", user.focusGoal.label);
+    }
+
+    // Client-provided history is ignored - context comes from the stored conversation
+    if (Array.isArray(chatHistory) && chatHistory.length > 0) {
+      console.warn(
+        "⚠️ Ignoring client-provided chatHistory, using stored conversation",
+      );
+    }
+
+    const conversation = body.conversationId
+      ? await this.chatHistoryService.findConversation(
+          userId,
+          body.conversationId,
+        )
+      : null;
+
+    // Build messages array for the AI provider
+    const messages = conversation
+      ? await this.chatContextService.buildMessages(conversation, message)
+      : [{ role: "user" as const, content: message }];
+
+    return {
+      messages,
+      wearablesData,
+      options: {
+        tags,
+        goals: goalsArray,
+        mood,
+        isNewSession,
+      },
+    };
+  }
+
+  /**
+   * Detect a session in the AI reply, persist the exchange and
+   * build the response payload
+   */
+  private async finalizeChatResponse(
+    userId: string,
+    message: string,
+    aiResponse: string,
+    context: ChatRequestContext,
+    conversationId?: string,
+  ) {
+    const candidate = this.extractSession(aiResponse);
+
+    // If the parsed object looks like a Session, return structured response
+    if (candidate) {
+      console.log("🛰️ Detected session JSON - returning structured session");
+
+      // Throws SessionValidationError / SessionSafetyError if it can't be repaired
+      const session = await this.sessionGenerationService.ensureValidSession(
+        userId,
+        candidate,
+        context.wearablesData,
+        {
+          tags: context.options.tags || [],
+          goals: context.options.goals,
+          mood: context.options.mood,
+        },
+      );
+
+      const sessionResponse =
+        "Session created successfully. Tap 'View Session' to open it.";
+
+      const savedConversationId = await this.saveChatMessage(
+        userId,
+        message,
+        sessionResponse,
+        {
+          conversationId,
+          action: "CREATE_SESSION",
+          sessionId: session.SessionId,
+        },
+      );
+
+      return {
+        response: sessionResponse,
+        action: "CREATE_SESSION",
+        session,
+        conversationId: savedConversationId,
+      };
+    }
+
+    const savedConversationId = await this.saveChatMessage(
+      userId,
+      message,
+      aiResponse,
+      { conversationId },
+    );
+
+    // Default: return raw assistant text
+    return {
+      response: aiResponse,
+      conversationId: savedConversationId,
+    };
+  }
+
+  /**
+   * Try to extract a JSON session from the AI reply
+   * (may be wrapped in markdown or text)
+   */
+  private extractSession(aiResponse: string): Record<string, unknown> | null {
+    let parsed: Record<string, unknown> | null = null;
+    let jsonString = aiResponse.trim();
+
+    // Remove markdown code blocks if present
+    if (jsonString.includes("```json")) {
+      jsonString = jsonString.replace(/```json\s*/g, "").replace(/```\s*/g, "");
+    } else if (jsonString.includes("```")) {
+      jsonString = jsonString.replace(/```\s*/g, "");
+    }
+
+    // Try to find JSON object in the response
+    const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        parsed = JSON.parse(jsonMatch[0]);
+      } catch (e) {
+        parsed = null;
+      }
+    }
+
+    if (
+      parsed &&
+      (parsed.SessionId || parsed.SessionName) &&
+      Array.isArray(parsed.Steps)
+    ) {
+      return parsed;
+    }
+
+    return null;
+  }
+
+  /**
+   * Response body for sessions rejected by validation or safety checks
+   * Returns null for any other error
+   */
+  private sessionErrorBody(error: unknown) {
+    if (error instanceof SessionValidationError) {
+      return {
+        success: false,
+        error: "Generated session was invalid",
+        code: "SESSION_INVALID",
+        issues: error.issues,
+        message:
+          "I couldn't put together a valid session this time. Please try again.",
+      };
+    }
+
+    if (error instanceof SessionSafetyError) {
+      return {
+        success: false,
+        error: "Generated session exceeded safety limits",
+        code: "SESSION_UNSAFE",
+        issues: error.violations,
+        message:
+          "I couldn't put together a session within safe limits this time. Please try again.",
+      };
+    }
+
+    return null;
+  }
+
+  private writeSseEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
   /**
    * Get wearables data with Redis caching
    * Caches for 5 minutes to avoid repeated DB queries
@@ -163,6 +453,7 @@ export class ChatController {
 
   /**
    * Get wearables data in H2Oasis AI format
+   * Health data is fused across wearables (see HealthFusionService)
    */
   private async getWearablesData(userId: string) {
     try {
@@ -177,6 +468,17 @@ export class ChatController {
         (w: any) => w?.connected,
       );
 
+      // One value per field across wearables, so the AI never sees
+      // contradictory numbers from two devices
+      const fused = user
+        ? await this.healthFusionService.getFusedDay(userId)
+        : null;
+
+      // What the user's own sessions have done for their sleep and recovery
+      const sessionInsights = user
+        ? await this.sessionInsightsService.getContextInsights(userId)
+        : [];
+
       // Return in H2Oasis AI format
       return {
         success: hasConnectedWearables,
@@ -214,44 +516,41 @@ export class ChatController {
               name: "Apple Health",
               type: "sdk",
               connected: wearables.apple?.connected || false,
-              data: wearables.apple?.data || null,
             },
             samsung: {
               id: "samsung",
               name: "Samsung Health",
               type: "sdk",
               connected: wearables.samsung?.connected || false,
-              data: wearables.samsung?.data || null,
             },
             garmin: {
               id: "garmin",
               name: "Garmin",
               type: "api",
               connected: wearables.garmin?.connected || false,
-              data: wearables.garmin?.data || null,
             },
             fitbit: {
               id: "fitbit",
               name: "Fitbit",
               type: "api",
               connected: wearables.fitbit?.connected || false,
-              data: wearables.fitbit?.data || null,
             },
             whoop: {
               id: "whoop",
               name: "Whoop",
               type: "api",
               connected: wearables.whoop?.connected || false,
-              data: wearables.whoop?.data || null,
             },
             oura: {
               id: "oura",
               name: "Oura Ring",
               type: "api",
               connected: wearables.oura?.connected || false,
-              data: wearables.oura?.data || null,
             },
           },
+          healthData: fused?.data || null,
+          healthDataSources: fused?.sources || {},
+          sessionInsights,
           lastSync: new Date().toISOString(),
         },
       };
@@ -277,44 +576,41 @@ export class ChatController {
               name: "Apple Health",
               type: "sdk",
               connected: false,
-              data: null,
             },
             samsung: {
               id: "samsung",
               name: "Samsung Health",
               type: "sdk",
               connected: false,
-              data: null,
             },
             garmin: {
               id: "garmin",
               name: "Garmin",
               type: "api",
               connected: false,
-              data: null,
             },
             fitbit: {
               id: "fitbit",
               name: "Fitbit",
               type: "api",
               connected: false,
-              data: null,
             },
             whoop: {
               id: "whoop",
               name: "Whoop",
               type: "api",
               connected: false,
-              data: null,
             },
             oura: {
               id: "oura",
               name: "Oura Ring",
               type: "api",
               connected: false,
-              data: null,
             },
           },
+          healthData: null,
+          healthDataSources: {},
+          sessionInsights: [],
           lastSync: new Date().toISOString(),
         },
       };
@@ -323,16 +619,172 @@ export class ChatController {
 
   // Removed getHealthContext - we now use getWearablesData() which fetches real data from database
 
-  // Future method to save chat history
+  /**
+   * Persist the user turn and AI reply
+   * Returns the conversationId the exchange was stored under
+   */
   private async saveChatMessage(
     userId: string,
     userMessage: string,
     aiResponse: string,
-  ): Promise<void> {
-    // TODO: Implement database storage for chat history
-    console.log(
-      `Saving chat for user ${userId}: ${userMessage} -> ${aiResponse}`,
-    );
+    options: {
+      conversationId?: string;
+      action?: string;
+      sessionId?: string;
+    } = {},
+  ): Promise<string | undefined> {
+    try {
+      const conversation = await this.chatHistoryService.saveExchange({
+        firebaseUid: userId,
+        conversationId: options.conversationId,
+        userMessage,
+        aiResponse,
+        action: options.action,
+        sessionId: options.sessionId,
+      });
+
+      // Summarize older turns in the background - the reply shouldn't wait on it
+      this.chatContextService.refreshSummary(conversation).catch((error) => {
+        console.warn("⚠️ Failed to refresh conversation summary:", error);
+      });
+
+      return conversation.conversationId;
+    } catch (error) {
+      // Don't fail the chat reply if history storage fails
+      console.error("⚠️ Failed to save chat history:", error);
+      return options.conversationId;
+    }
+  }
+
+  /**
+   * Get paginated chat history for a conversation
+   * GET /api/chat/history/:userId?conversationId=&page=&limit=
+   */
+  getHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = this.resolveHistoryOwner(req, res);
+      if (!firebaseUid) return;
+
+      const conversationId = req.query.conversationId as string | undefined;
+      const page = parseInt(req.query.page as string, 10) || 1;
+      const limit = parseInt(req.query.limit as string, 10) || undefined;
+
+      const history = await this.chatHistoryService.getHistory({
+        firebaseUid,
+        conversationId,
+        page,
+        limit,
+      });
+
+      if (conversationId && !history.conversation) {
+        res.status(404).json({
+          success: false,
+          error: "Conversation not found",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        conversation: history.conversation,
+        history: history.messages,
+        pagination: history.pagination,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch chat history");
+    }
+  };
+
+  /**
+   * List the user's conversations, most recent first
+   * GET /api/chat/history/:userId/conversations?page=&limit=
+   */
+  getConversations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = this.resolveHistoryOwner(req, res);
+      if (!firebaseUid) return;
+
+      const page = parseInt(req.query.page as string, 10) || 1;
+      const limit = parseInt(req.query.limit as string, 10) || undefined;
+
+      const result = await this.chatHistoryService.listConversations(
+        firebaseUid,
+        page,
+        limit,
+      );
+
+      res.json({
+        success: true,
+        conversations: result.conversations,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch conversations");
+    }
+  };
+
+  /**
+   * Delete one conversation (?conversationId=) or all chat history
+   * DELETE /api/chat/history/:userId
+   */
+  deleteHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = this.resolveHistoryOwner(req, res);
+      if (!firebaseUid) return;
+
+      const conversationId = req.query.conversationId as string | undefined;
+
+      if (conversationId) {
+        const deleted = await this.chatHistoryService.deleteConversation(
+          firebaseUid,
+          conversationId,
+        );
+
+        if (!deleted) {
+          res.status(404).json({
+            success: false,
+            error: "Conversation not found",
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          message: "Conversation deleted",
+        });
+        return;
+      }
+
+      const deletedCount =
+        await this.chatHistoryService.deleteAllHistory(firebaseUid);
+
+      res.json({
+        success: true,
+        message: "Chat history cleared",
+        deletedConversations: deletedCount,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to clear chat history");
+    }
+  };
+
+  /**
+   * Users may only access their own history
+   * Sends the error response and returns null when access is denied
+   */
+  private resolveHistoryOwner(req: Request, res: Response): string | null {
+    const firebaseUid = requireUser(req, res);
+    if (!firebaseUid) return null;
+
+    if (paramString(req.params.userId) !== firebaseUid) {
+      res.status(403).json({
+        success: false,
+        error: "You can only access your own chat history",
+      });
+      return null;
+    }
+
+    return firebaseUid;
   }
 
   generatePlan = async (req: Request, res: Response): Promise<void> => {
@@ -340,7 +792,7 @@ export class ChatController {
       const { chatHistory } = req.body;
 
       // Get userId from auth middleware
-      const userId = req.headers["x-firebase-uid"] as string;
+      const userId = (req as AuthenticatedRequest).user?.uid;
 
       if (!userId) {
         res.status(400).json({
@@ -354,22 +806,9 @@ export class ChatController {
       // Fetch user's wearables data from database
       const wearablesData = await this.getWearablesData(userId);
 
-      // Build messages for plan generation
-      const planRequestMessage =
-        "Generate a personalized recovery plan for me based on my health data and goals.";
-
-      const messages = [
-        ...(chatHistory || []),
-        {
-          role: "user" as const,
-          content: planRequestMessage,
-        },
-      ];
-
-      // Call H2Oasis AI API to generate plan
-      const recoveryPlan = await this.h2oasisAI.sendMessage(
-        planRequestMessage,
-        messages,
+      // Generate plan with the configured AI provider
+      const recoveryPlan = await getAIProvider(userId).generatePlan(
+        chatHistory || [],
         wearablesData,
       );
 
@@ -396,7 +835,7 @@ export class ChatController {
   createSession = async (req: Request, res: Response): Promise<void> => {
     try {
       const { tags, goals, mood, customPrompt } = req.body;
-      const userId = req.headers["x-firebase-uid"] as string;
+      const userId = (req as AuthenticatedRequest).user?.uid;
 
       if (!userId) {
         res.status(401).json({
@@ -433,44 +872,30 @@ export class ChatController {
         );
       }
 
-      // Create session via H2Oasis AI
-      const session = await this.h2oasisAI.createSession(wearablesData, {
-        tags,
-        goals: goalsArray,
-        mood: mood || "",
-        customPrompt,
-      });
+      // How recent sessions went and where recovery is heading, so the
+      // new session adapts instead of repeating the last one
+      const personalization =
+        await this.sessionPersonalizationService.buildContext(userId);
 
-      console.log("✅ Session created:", session.SessionName);
-
-      // Use a consistent sessionId per user so it updates instead of creating new
-      const consistentSessionId = `user-${userId}-default-session`;
-      console.log(`🔑 Using consistent sessionId: ${consistentSessionId}`);
+      // Create and validate session via the configured AI provider
+      const session = await this.sessionGenerationService.generateSession(
+        userId,
+        wearablesData,
+        {
+          tags,
+          goals: goalsArray,
+          mood: mood || "",
+          personalization: personalization.summary || undefined,
+          customPrompt,
+        },
+      );
 
-      // Delete all old sessions for this user first
-      try {
-        const existingSessions = await this.sessionService.getUserSessions({
-          firebaseUid: userId,
-        });
-        for (const oldSession of existingSessions) {
-          if (oldSession.sessionId !== consistentSessionId) {
-            await this.sessionService.deleteSession(
-              oldSession.sessionId,
-              userId,
-            );
-          }
-        }
-        if (existingSessions.length > 0) {
-          console.log(`🗑️ Cleaned up old sessions`);
-        }
-      } catch (cleanupError) {
-        console.warn("⚠️ Failed to cleanup old sessions:", cleanupError);
-      }
+      console.log("✅ Session created:", session.SessionName);
 
-      // Save/update session to database (upsert)
+      // Save as a new session in the user's library
+      let savedSessionId: string | undefined;
       try {
-        await this.sessionService.saveSession({
-          sessionId: consistentSessionId,
+        const saved = await this.sessionService.saveSession({
           firebaseUid: userId,
           SessionName: session.SessionName,
           TotalDurationMinutes: session.TotalDurationMinutes,
@@ -479,7 +904,18 @@ export class ChatController {
           Tips: session.Tips,
           StartMessage: session.StartMessage,
           CompletionMessage: session.CompletionMessage,
+          safetyReview: session.safetyReview,
+          generationInputs: {
+            ...SessionPersonalizationUtils.generationInputs(personalization, {
+              tags,
+              goals: goalsArray,
+              mood,
+            }),
+            source: session.source,
+            templateId: session.templateId,
+          },
         });
+        savedSessionId = saved.sessionId;
         console.log("💾 Session saved to database");
       } catch (saveError) {
         console.error("⚠️ Failed to save session to database:", saveError);
@@ -489,10 +925,20 @@ export class ChatController {
       res.status(201).json({
         success: true,
         message: "Session created successfully",
-        session,
+        // SessionId matches the stored session so the client can update it
+        session: savedSessionId
+          ? { ...session, SessionId: savedSessionId }
+          : session,
       });
     } catch (error: any) {
       console.error("❌ Session creation error:", error);
+
+      const sessionErrorBody = this.sessionErrorBody(error);
+      if (sessionErrorBody) {
+        res.status(422).json(sessionErrorBody);
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: "Failed to create session",
@@ -0,0 +1,73 @@
+import { Request, Response } from "express";
+import { DataExportService } from "../services/dataExport.service";
+import { paramString } from "../utils/routeParams";
+import { handleError, requireUser } from "../utils/controller.utils";
+
+export class DataExportController {
+  private dataExportService: DataExportService;
+
+  constructor() {
+    this.dataExportService = new DataExportService();
+  }
+
+  /**
+   * POST /api/profile/export
+   * Start an export of all the user's data. The download link is emailed
+   * when it's ready; an export already in progress is returned instead of
+   * starting another.
+   */
+  requestExport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const result = await this.dataExportService.requestExport(firebaseUid);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: "User not found",
+        });
+        return;
+      }
+
+      res.status(result.created ? 202 : 200).json({
+        success: true,
+        data: result.job,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to request data export");
+    }
+  };
+
+  /**
+   * GET /api/profile/export/:jobId
+   * Status of an export
+   */
+  getExport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const job = await this.dataExportService.getJob(
+        firebaseUid,
+        paramString(req.params.jobId)!,
+      );
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: "Export not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to get data export");
+    }
+  };
+}
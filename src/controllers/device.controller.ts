@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { NotificationService } from "../services/notification.service";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import { paramString } from "../utils/routeParams";
+import { handleError, requireUser } from "../utils/controller.utils";
+import { DEVICE_PLATFORMS, NOTIFICATION_CATEGORIES } from "../constants";
+
+const TimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be in HH:mm format");
+
+const RegisterDeviceSchema = z.object({
+  token: z.string().min(1, "token is required"),
+  platform: z.enum(DEVICE_PLATFORMS),
+  deviceName: z.string().max(100).optional(),
+  appVersion: z.string().max(50).optional(),
+});
+
+const PreferencesSchema = z.object({
+  quietHours: z
+    .object({
+      start: TimeSchema,
+      end: TimeSchema,
+      timeZone: z
+        .string()
+        .refine(SessionStatsUtils.isValidTimeZone, "Invalid timezone"),
+    })
+    .nullable()
+    .optional(),
+  optOuts: z.array(z.enum(NOTIFICATION_CATEGORIES)).optional(),
+});
+
+export class DeviceController {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * POST /api/devices
+   * Register a device's push token (call on every app start)
+   */
+  registerDevice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const input = RegisterDeviceSchema.parse(req.body);
+
+      const device = await this.notificationService.registerDevice(
+        firebaseUid,
+        input,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: device,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to register device");
+    }
+  };
+
+  /**
+   * GET /api/devices
+   */
+  getDevices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const devices = await this.notificationService.listDevices(firebaseUid);
+
+      res.status(200).json({
+        success: true,
+        data: devices,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch devices");
+    }
+  };
+
+  /**
+   * DELETE /api/devices/:token
+   * Stop sending notifications to a device (e.g. on logout)
+   */
+  unregisterDevice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const removed = await this.notificationService.unregisterDevice(
+        firebaseUid,
+        paramString(req.params.token)!,
+      );
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          error: "Device not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Device unregistered successfully",
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to unregister device");
+    }
+  };
+
+  /**
+   * GET /api/devices/preferences
+   * Quiet hours and per-category opt-outs
+   */
+  getPreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const preferences =
+        await this.notificationService.getPreferences(firebaseUid);
+
+      res.status(200).json({
+        success: true,
+        data: preferences,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch notification preferences");
+    }
+  };
+
+  /**
+   * PATCH /api/devices/preferences
+   */
+  updatePreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const updates = PreferencesSchema.parse(req.body);
+
+      const preferences = await this.notificationService.updatePreferences(
+        firebaseUid,
+        updates,
+      );
+
+      if (!preferences) {
+        res.status(404).json({
+          success: false,
+          error: "User not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: preferences,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to update notification preferences");
+    }
+  };
+}
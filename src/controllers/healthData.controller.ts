@@ -1,10 +1,50 @@
 import { Request, Response } from "express";
-import { User } from "../models/User.model";
+import { AuthenticatedRequest } from "../middleware/auth.middleware";
+import { z } from "zod";
+import { IWearableConnection, User } from "../models/User.model";
 import {
   getUserConnections,
   getAllHealthDataForSource,
 } from "../services/rook.service";
 import { IHealthData } from "../models/HealthData.types";
+import { RecoveryScoreService } from "../services/recoveryScore.service";
+import { HealthTrendsService } from "../services/healthTrends.service";
+import { OpenAIService } from "../services/openai.service";
+import {
+  FusedHealthDay,
+  HealthFusionService,
+} from "../services/healthFusion.service";
+import { WearableConnectionService } from "../services/wearableConnection.service";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import redisClient from "../utils/redis";
+import {
+  FUSION_METRICS,
+  HEALTH_TRENDS,
+  RECOVERY_SCORE,
+  ROOK_DATA_SOURCES,
+  TREND_METRICS,
+  TrendMetric,
+  WEARABLE_SOURCES,
+} from "../constants";
+
+const recoveryScoreService = new RecoveryScoreService();
+const healthTrendsService = new HealthTrendsService();
+const healthFusionService = new HealthFusionService();
+const wearableConnectionService = new WearableConnectionService();
+
+const HealthDataPreferencesSchema = z.object({
+  voiceId: z.string().optional(),
+  voiceName: z.string().optional(),
+  units: z.string().optional(),
+  timezone: z
+    .string()
+    .refine(SessionStatsUtils.isValidTimeZone, "Invalid timezone")
+    .optional(),
+  // Preferred wearables per metric; an empty list restores the default order
+  sourcePriority: z
+    .record(z.enum(FUSION_METRICS), z.array(z.enum(WEARABLE_SOURCES)))
+    .optional(),
+});
 
 interface WearableData {
   id: string;
@@ -45,6 +85,7 @@ interface UnifiedHealthData {
     whoop: WearableData;
     oura: WearableData;
   };
+  fused: FusedHealthDay | null; // Today's data across wearables, one value per field
   lastSync: string;
 }
 
@@ -53,7 +94,7 @@ export const getUnifiedHealthData = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
+    const userId = (req as AuthenticatedRequest).user?.uid;
 
     if (!userId) {
       res.status(401).json({
@@ -147,6 +188,7 @@ export const getUnifiedHealthData = async (
           data: wearables.oura?.data || null,
         },
       },
+      fused: user ? await healthFusionService.getFusedDay(userId) : null,
       lastSync: new Date().toISOString(),
     };
 
@@ -170,8 +212,7 @@ export const updateHealthDataPreferences = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
-    const { voiceId, voiceName, units, timezone } = req.body;
+    const userId = (req as AuthenticatedRequest).user?.uid;
 
     if (!userId) {
       res.status(401).json({
@@ -181,30 +222,70 @@ export const updateHealthDataPreferences = async (
       return;
     }
 
+    const updates = HealthDataPreferencesSchema.parse(req.body);
+
     console.log("⚙️ Updating health data preferences for user:", userId);
 
-    // Update user preferences in database
-    await User.findOneAndUpdate(
-      { uid: userId },
-      {
-        $set: {
-          "preferences.voiceId": voiceId,
-          "preferences.voiceName": voiceName,
-          "preferences.units": units,
-          "preferences.timezone": timezone,
-          updatedAt: new Date(),
-        },
-      },
-      { upsert: true, new: true },
-    );
+    // Only touch the fields that were sent
+    const $set: Record<string, unknown> = { updatedAt: new Date() };
+    const $unset: Record<string, 1> = {};
+
+    for (const field of [
+      "voiceId",
+      "voiceName",
+      "units",
+      "timezone",
+    ] as const) {
+      if (updates[field] !== undefined) {
+        $set[`preferences.${field}`] = updates[field];
+      }
+    }
+
+    for (const [metric, sources] of Object.entries(
+      updates.sourcePriority || {},
+    )) {
+      if (sources.length === 0) {
+        $unset[`preferences.sourcePriority.${metric}`] = 1;
+      } else {
+        $set[`preferences.sourcePriority.${metric}`] = [...new Set(sources)];
+      }
+    }
+
+    const user = await User.findOneAndUpdate(
+      { firebaseUid: userId },
+      { $set, $unset },
+      { new: true },
+    )
+      .select("preferences")
+      .lean();
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+      return;
+    }
+
+    // Chat caches the wearables context, which depends on source priority
+    await redisClient.del(`wearables:${userId}`);
 
     console.log("✅ Health data preferences updated");
 
     res.json({
       success: true,
       message: "Preferences updated successfully",
+      data: user.preferences || {},
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: error.errors[0].message,
+      });
+      return;
+    }
+
     console.error("❌ Error updating preferences:", error);
     res.status(500).json({
       success: false,
@@ -218,7 +299,7 @@ export const updateWearableConnection = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
+    const userId = (req as AuthenticatedRequest).user?.uid;
     const { wearableId, wearableName, dataSource, connected, healthData } =
       req.body;
 
@@ -296,7 +377,7 @@ export const getWearableConnections = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
+    const userId = (req as AuthenticatedRequest).user?.uid;
 
     if (!userId) {
       res.status(401).json({
@@ -309,14 +390,28 @@ export const getWearableConnections = async (
     console.log("🔍 Fetching wearable connections for user:", userId);
 
     // Get user's wearable connections
-    const user = await User.findOne({ firebaseUid: userId });
-    const wearables = user?.wearables || {};
-
-    console.log("📊 Wearables found:", wearables);
+    const user = await User.findOne({ firebaseUid: userId })
+      .select("wearables")
+      .lean();
+    const wearables = (user?.wearables || {}) as Record<
+      string,
+      IWearableConnection
+    >;
+
+    console.log("📊 Wearables found:", Object.keys(wearables));
+
+    // needsReauth is always set, so the app knows when to ask the user to
+    // connect a wearable again
+    const connections = Object.fromEntries(
+      Object.entries(wearables).map(([id, connection]) => [
+        id,
+        { ...connection, needsReauth: !!connection.needsReauth },
+      ]),
+    );
 
     res.json({
       success: true,
-      data: wearables,
+      data: connections,
     });
   } catch (error) {
     console.error("❌ Error fetching wearable connections:", error);
@@ -332,8 +427,7 @@ export const syncRookConnections = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
-    const { mongoUserId } = req.body; // The MongoDB user ID used in ROOK
+    const userId = (req as AuthenticatedRequest).user?.uid;
 
     if (!userId) {
       res.status(401).json({
@@ -343,62 +437,48 @@ export const syncRookConnections = async (
       return;
     }
 
+    const user = await User.findOne({ firebaseUid: userId })
+      .select("wearables")
+      .lean();
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+      return;
+    }
+
+    // ROOK knows the user by their MongoDB id - never one sent by the client
+    const rookUserId = String(user._id);
+
     console.log(
-      `🔄 Syncing ROOK connections for user: ${userId}, ROOK User ID: ${mongoUserId}`,
+      `🔄 Syncing ROOK connections for user: ${userId}, ROOK User ID: ${rookUserId}`,
     );
 
     // Fetch connections from ROOK API
-    const rookConnections = await getUserConnections(mongoUserId);
+    const rookConnections = await getUserConnections(rookUserId);
 
     console.log(
       "📡 ROOK API response:",
       JSON.stringify(rookConnections, null, 2),
     );
 
-    // Map ROOK data sources to our wearable names
-    const dataSourceMap: { [key: string]: string } = {
-      oura: "oura",
-      garmin: "garmin",
-      fitbit: "fitbit",
-      whoop: "whoop",
-      apple_health: "apple",
-    };
-
-    // Update our database with ROOK connection statuses
-    const user = await User.findOne({ firebaseUid: userId });
-
-    if (!user) {
-      res.status(404).json({
-        success: false,
-        error: "User not found",
-      });
-      return;
-    }
+    const wearables = (user.wearables || {}) as Record<
+      string,
+      IWearableConnection
+    >;
 
     // Update each wearable connection status
-    for (const [rookSource, ourWearable] of Object.entries(dataSourceMap)) {
+    for (const [rookSource, ourWearable] of Object.entries(ROOK_DATA_SOURCES)) {
       const rookConnection = rookConnections.connections?.[rookSource];
 
       if (rookConnection) {
-        const updateField = `wearables.${ourWearable}`;
-
-        await User.findOneAndUpdate(
-          { firebaseUid: userId },
-          {
-            $set: {
-              [updateField]: {
-                id: ourWearable,
-                name:
-                  ourWearable.charAt(0).toUpperCase() + ourWearable.slice(1),
-                type: "api",
-                connected: rookConnection.connected,
-                lastSync: rookConnection.lastSync || new Date(),
-                connectedAt: rookConnection.connected ? new Date() : null,
-              },
-              updatedAt: new Date(),
-            },
-          },
-          { new: true },
+        await wearableConnectionService.syncConnection(
+          rookUserId,
+          wearables[ourWearable],
+          ourWearable,
+          rookConnection.connected,
         );
 
         console.log(
@@ -409,7 +489,7 @@ export const syncRookConnections = async (
         if (rookConnection.connected) {
           try {
             const healthData = await getAllHealthDataForSource(
-              mongoUserId,
+              rookUserId,
               rookSource,
             );
 
@@ -437,6 +517,8 @@ export const syncRookConnections = async (
       }
     }
 
+    await wearableConnectionService.invalidateCache(userId);
+
     console.log("✅ ROOK connections synced successfully");
 
     res.json({
@@ -460,7 +542,7 @@ export const fetchRookHealthData_DISABLED = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
+    const userId = (req as AuthenticatedRequest).user?.uid;
     const { mongoUserId, dataSource, date } = req.body;
 
     if (!userId) {
@@ -540,17 +622,36 @@ export const getRookAuthURL = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const userId = req.headers["x-firebase-uid"] as string;
-    const { mongoUserId, dataSource } = req.body;
+    const userId = (req as AuthenticatedRequest).user?.uid;
+    const { dataSource } = req.body;
 
-    if (!mongoUserId || !dataSource) {
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+      return;
+    }
+
+    if (!dataSource) {
       res.status(400).json({
         success: false,
-        error: "mongoUserId and dataSource are required",
+        error: "dataSource is required",
       });
       return;
     }
 
+    // ROOK knows the user by their MongoDB id
+    const user = await User.findOne({ firebaseUid: userId }).select("_id");
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+      return;
+    }
+    const mongoUserId = String(user._id);
+
     console.log(`🔐 Generating ROOK auth URL for ${dataSource}...`);
 
     // Get credentials from environment (secure - not exposed to frontend)
@@ -628,3 +729,221 @@ export const getRookAuthURL = async (
     });
   }
 };
+
+/**
+ * Get Recovery Scores
+ * Today's H2Oasis recovery score (recomputed from the latest wearable data)
+ * and the daily history
+ */
+export const getRecoveryScores = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+      return;
+    }
+
+    const days = req.query.days
+      ? Number(req.query.days)
+      : RECOVERY_SCORE.DEFAULT_HISTORY_DAYS;
+    const timeZone =
+      (req.query.timezone as string) || RECOVERY_SCORE.DEFAULT_TIMEZONE;
+
+    if (
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > RECOVERY_SCORE.MAX_HISTORY_DAYS
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `days must be between 1 and ${RECOVERY_SCORE.MAX_HISTORY_DAYS}`,
+      });
+      return;
+    }
+
+    if (!SessionStatsUtils.isValidTimeZone(timeZone)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid timezone",
+      });
+      return;
+    }
+
+    const recovery = await recoveryScoreService.getRecoveryHistory(
+      userId,
+      days,
+      timeZone,
+    );
+
+    res.json({
+      success: true,
+      data: recovery,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching recovery scores:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        (error instanceof Error && error.message) ||
+        "Failed to fetch recovery scores",
+    });
+  }
+};
+
+/**
+ * Get Health Trends
+ * Daily series, rolling averages, personal baseline and anomalous days
+ * for one metric, e.g. ?metric=hrv_rmssd&range=30d
+ */
+export const getHealthTrends = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+      return;
+    }
+
+    const metric = req.query.metric as TrendMetric;
+    const range = (req.query.range as string) || "";
+    const timeZone =
+      (req.query.timezone as string) || HEALTH_TRENDS.DEFAULT_TIMEZONE;
+
+    if (!TREND_METRICS.includes(metric)) {
+      res.status(400).json({
+        success: false,
+        error: `metric must be one of: ${TREND_METRICS.join(", ")}`,
+      });
+      return;
+    }
+
+    const rangeMatch = range ? /^(\d+)d$/.exec(range) : null;
+    const days = rangeMatch
+      ? Number(rangeMatch[1])
+      : range
+        ? NaN
+        : HEALTH_TRENDS.DEFAULT_RANGE_DAYS;
+
+    if (
+      !Number.isInteger(days) ||
+      days < HEALTH_TRENDS.MIN_RANGE_DAYS ||
+      days > HEALTH_TRENDS.MAX_RANGE_DAYS
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `range must be between ${HEALTH_TRENDS.MIN_RANGE_DAYS}d and ${HEALTH_TRENDS.MAX_RANGE_DAYS}d`,
+      });
+      return;
+    }
+
+    if (!SessionStatsUtils.isValidTimeZone(timeZone)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid timezone",
+      });
+      return;
+    }
+
+    const trend = await healthTrendsService.getTrend(
+      userId,
+      metric,
+      days,
+      timeZone,
+    );
+
+    // Optional plain-language summary
+    const analysis =
+      req.query.analyze === "true"
+        ? await new OpenAIService().analyzeHealthTrends([trend])
+        : undefined;
+
+    res.json({
+      success: true,
+      data: analysis ? { ...trend, analysis } : trend,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching health trends:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        (error instanceof Error && error.message) ||
+        "Failed to fetch health trends",
+    });
+  }
+};
+
+/**
+ * Get Fused Health Data
+ * One value per field across all wearables for a day, with the source of each
+ */
+export const getFusedHealthData = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.uid;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+      return;
+    }
+
+    const date = req.query.date as string | undefined;
+    const timeZone = req.query.timezone as string | undefined;
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      res.status(400).json({
+        success: false,
+        error: "date must be in YYYY-MM-DD format",
+      });
+      return;
+    }
+
+    if (timeZone && !SessionStatsUtils.isValidTimeZone(timeZone)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid timezone",
+      });
+      return;
+    }
+
+    const fused = await healthFusionService.getFusedDay(userId, date, timeZone);
+
+    if (!fused) {
+      res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: fused,
+    });
+  } catch (error) {
+    console.error("❌ Error fusing health data:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        (error instanceof Error && error.message) ||
+        "Failed to fetch health data",
+    });
+  }
+};
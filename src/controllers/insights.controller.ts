@@ -0,0 +1,53 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { SessionInsightsService } from "../services/sessionInsights.service";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import { handleError, requireUser } from "../utils/controller.utils";
+
+const InsightsQuerySchema = z.object({
+  timezone: z
+    .string()
+    .refine(SessionStatsUtils.isValidTimeZone, "Invalid timezone")
+    .optional(),
+});
+
+export class InsightsController {
+  private sessionInsightsService: SessionInsightsService;
+
+  constructor() {
+    this.sessionInsightsService = new SessionInsightsService();
+  }
+
+  /**
+   * GET /api/insights
+   * How the user's sessions affect the following night's sleep and recovery
+   */
+  getInsights = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const { timezone } = InsightsQuerySchema.parse(req.query);
+
+      const insights = await this.sessionInsightsService.getInsights(
+        firebaseUid,
+        timezone,
+      );
+
+      if (!insights) {
+        res.status(404).json({
+          success: false,
+          error: "User not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: insights,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to get insights");
+    }
+  };
+}
@@ -1,7 +1,31 @@
 import { Request, Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth.middleware";
+import { z } from "zod";
 import { SessionService } from "../services/session.service";
 import { ISessionStep } from "../models/Session.model";
 import { paramString } from "../utils/routeParams";
+import { SessionValidationUtils } from "../utils/sessionValidation.utils";
+import { SessionSafetyError } from "../utils/sessionSafety.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+
+const CompletionFeedbackSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        stepNumber: z.number().int().positive(),
+        skipped: z.boolean().default(false),
+        actualDurationSeconds: z.number().min(0).optional(),
+      }),
+    )
+    .default([])
+    .refine(
+      (steps) =>
+        new Set(steps.map((step) => step.stepNumber)).size === steps.length,
+      "completionFeedback.steps has duplicate step numbers",
+    ),
+  rating: z.number().int().min(1).max(5).optional(),
+  comment: z.string().max(1000).optional(),
+});
 
 export class SessionController {
   private sessionService: SessionService;
@@ -16,7 +40,7 @@ export class SessionController {
    */
   saveSession = async (req: Request, res: Response): Promise<void> => {
     try {
-      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      const firebaseUid = (req as AuthenticatedRequest).user?.uid;
 
       if (!firebaseUid) {
         res.status(401).json({
@@ -56,6 +80,25 @@ export class SessionController {
         return;
       }
 
+      const validation = SessionValidationUtils.validate({
+        SessionName,
+        TotalDurationMinutes,
+        RecommendedFor,
+        Steps,
+        Tips,
+        StartMessage,
+        CompletionMessage,
+      });
+
+      if (!validation.valid) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid session",
+          issues: validation.issues,
+        });
+        return;
+      }
+
       const session = await this.sessionService.saveSession({
         sessionId,
         firebaseUid,
@@ -74,6 +117,17 @@ export class SessionController {
       });
     } catch (error: any) {
       console.error("❌ Error saving session:", error);
+
+      if (error instanceof SessionSafetyError) {
+        res.status(422).json({
+          success: false,
+          error: "Session exceeds safety limits",
+          code: "SESSION_UNSAFE",
+          issues: error.violations,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: error.message || "Failed to save session",
@@ -83,12 +137,13 @@ export class SessionController {
 
   /**
    * GET /api/sessions
-   * Get all sessions for the authenticated user
-   * Query params: ?favorited=true, ?completed=false
+   * Browse the authenticated user's session library
+   * Query params: ?favorited=true, ?completed=false, ?archived=true|all
+   * Archived sessions are hidden unless requested
    */
   getSessions = async (req: Request, res: Response): Promise<void> => {
     try {
-      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      const firebaseUid = (req as AuthenticatedRequest).user?.uid;
 
       if (!firebaseUid) {
         res.status(401).json({
@@ -105,6 +160,14 @@ export class SessionController {
         filters.isCompleted = req.query.completed === "true";
       }
 
+      if (req.query.favorited !== undefined) {
+        filters.isFavorited = req.query.favorited === "true";
+      }
+
+      if (req.query.archived !== "all") {
+        filters.isArchived = req.query.archived === "true";
+      }
+
       const sessions = await this.sessionService.getUserSessions(filters);
 
       res.status(200).json({
@@ -127,7 +190,7 @@ export class SessionController {
    */
   getSessionById = async (req: Request, res: Response): Promise<void> => {
     try {
-      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      const firebaseUid = (req as AuthenticatedRequest).user?.uid;
       const sessionId = paramString(req.params.sessionId);
 
       if (!firebaseUid) {
@@ -178,7 +241,7 @@ export class SessionController {
    */
   updateSession = async (req: Request, res: Response): Promise<void> => {
     try {
-      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      const firebaseUid = (req as AuthenticatedRequest).user?.uid;
       const sessionId = paramString(req.params.sessionId);
 
       if (!firebaseUid) {
@@ -207,6 +270,9 @@ export class SessionController {
         "StartMessage",
         "CompletionMessage",
         "isCompleted",
+        "completionFeedback",
+        "isFavorited",
+        "isArchived",
       ];
 
       const updates: any = {};
@@ -224,6 +290,61 @@ export class SessionController {
         return;
       }
 
+      if (updates.completionFeedback !== undefined) {
+        if (updates.isCompleted !== true) {
+          res.status(400).json({
+            success: false,
+            error: "completionFeedback is only accepted with isCompleted true",
+          });
+          return;
+        }
+
+        const feedback = CompletionFeedbackSchema.safeParse(
+          updates.completionFeedback,
+        );
+        if (!feedback.success) {
+          res.status(400).json({
+            success: false,
+            error: feedback.error.errors[0].message,
+          });
+          return;
+        }
+        updates.completionFeedback = feedback.data;
+      }
+
+      // The total is derived from the steps, so timers are edited via Steps
+      if (updates.TotalDurationMinutes !== undefined && !updates.Steps) {
+        res.status(400).json({
+          success: false,
+          error: "TotalDurationMinutes can only be updated together with Steps",
+        });
+        return;
+      }
+
+      if (updates.Steps) {
+        if (
+          updates.TotalDurationMinutes === undefined &&
+          Array.isArray(updates.Steps)
+        ) {
+          updates.TotalDurationMinutes =
+            SessionValidationUtils.sumStepDurations(updates.Steps);
+        }
+
+        const issues = SessionValidationUtils.validateSteps(
+          updates.Steps,
+          updates.TotalDurationMinutes,
+        );
+
+        if (issues.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: "Invalid session steps",
+            issues,
+          });
+          return;
+        }
+      }
+
       const session = await this.sessionService.updateSession(
         sessionId,
         firebaseUid,
@@ -244,6 +365,17 @@ export class SessionController {
       });
     } catch (error: any) {
       console.error("❌ Error updating session:", error);
+
+      if (error instanceof SessionSafetyError) {
+        res.status(422).json({
+          success: false,
+          error: "Session exceeds safety limits",
+          code: "SESSION_UNSAFE",
+          issues: error.violations,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: error.message || "Failed to update session",
@@ -257,7 +389,7 @@ export class SessionController {
    */
   deleteSession = async (req: Request, res: Response): Promise<void> => {
     try {
-      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      const firebaseUid = (req as AuthenticatedRequest).user?.uid;
       const sessionId = paramString(req.params.sessionId);
 
       if (!firebaseUid) {
@@ -308,7 +440,7 @@ export class SessionController {
    */
   getSessionStats = async (req: Request, res: Response): Promise<void> => {
     try {
-      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      const firebaseUid = (req as AuthenticatedRequest).user?.uid;
 
       if (!firebaseUid) {
         res.status(401).json({
@@ -318,7 +450,20 @@ export class SessionController {
         return;
       }
 
-      const stats = await this.sessionService.getSessionStats(firebaseUid);
+      const timeZone = req.query.timezone as string | undefined;
+
+      if (timeZone && !SessionStatsUtils.isValidTimeZone(timeZone)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid timezone",
+        });
+        return;
+      }
+
+      const stats = await this.sessionService.getSessionStats(
+        firebaseUid,
+        timeZone,
+      );
 
       res.status(200).json({
         success: true,
@@ -0,0 +1,259 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  SessionRunService,
+  SessionRunStateError,
+} from "../services/sessionRun.service";
+import { paramString } from "../utils/routeParams";
+import { handleError, requireUser } from "../utils/controller.utils";
+
+const RatingSchema = z.object({
+  score: z.number().int().min(1).max(5),
+  comment: z.string().max(1000).optional(),
+});
+
+const StartRunSchema = z.object({
+  startedAt: z.coerce.date().optional(),
+});
+
+const RunEventSchema = z
+  .object({
+    type: z.enum([
+      "step_started",
+      "step_skipped",
+      "step_finished",
+      "paused",
+      "resumed",
+    ]),
+    stepNumber: z.number().int().positive().optional(),
+    at: z.coerce.date().optional(),
+    actualDurationSeconds: z.number().min(0).optional(),
+  })
+  .refine(
+    (event) => !event.type.startsWith("step_") || event.stepNumber,
+    "stepNumber is required for step events",
+  );
+
+const CompleteRunSchema = z.object({
+  at: z.coerce.date().optional(),
+  rating: RatingSchema.optional(),
+});
+
+const AbandonRunSchema = z.object({
+  at: z.coerce.date().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export class SessionRunController {
+  private sessionRunService: SessionRunService;
+
+  constructor() {
+    this.sessionRunService = new SessionRunService();
+  }
+
+  /**
+   * POST /api/sessions/:sessionId/runs
+   * Start performing a session
+   */
+  startRun = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const sessionId = paramString(req.params.sessionId)!;
+      const { startedAt } = StartRunSchema.parse(req.body || {});
+
+      const run = await this.sessionRunService.startRun(
+        firebaseUid,
+        sessionId,
+        startedAt,
+      );
+
+      if (!run) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to start session run");
+    }
+  };
+
+  /**
+   * GET /api/sessions/:sessionId/runs
+   * Runs of a session, most recent first
+   */
+  getRuns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const sessionId = paramString(req.params.sessionId)!;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || undefined;
+
+      const result = await this.sessionRunService.listRuns(
+        firebaseUid,
+        sessionId,
+        page,
+        limit,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.runs,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to fetch session runs");
+    }
+  };
+
+  /**
+   * GET /api/sessions/:sessionId/runs/:runId
+   */
+  getRunById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const run = await this.sessionRunService.getRun(
+        firebaseUid,
+        paramString(req.params.sessionId)!,
+        paramString(req.params.runId)!,
+      );
+
+      this.sendRun(res, run);
+    } catch (error) {
+      this.handleError(res, error, "Failed to fetch session run");
+    }
+  };
+
+  /**
+   * POST /api/sessions/:sessionId/runs/:runId/events
+   * Record step progress, pauses and resumes
+   */
+  recordEvent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const event = RunEventSchema.parse(req.body);
+
+      const run = await this.sessionRunService.recordEvent(
+        firebaseUid,
+        paramString(req.params.sessionId)!,
+        paramString(req.params.runId)!,
+        event,
+      );
+
+      this.sendRun(res, run);
+    } catch (error) {
+      this.handleError(res, error, "Failed to record session run event");
+    }
+  };
+
+  /**
+   * POST /api/sessions/:sessionId/runs/:runId/complete
+   */
+  completeRun = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const options = CompleteRunSchema.parse(req.body || {});
+
+      const run = await this.sessionRunService.completeRun(
+        firebaseUid,
+        paramString(req.params.sessionId)!,
+        paramString(req.params.runId)!,
+        options,
+      );
+
+      this.sendRun(res, run);
+    } catch (error) {
+      this.handleError(res, error, "Failed to complete session run");
+    }
+  };
+
+  /**
+   * POST /api/sessions/:sessionId/runs/:runId/abandon
+   */
+  abandonRun = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const options = AbandonRunSchema.parse(req.body || {});
+
+      const run = await this.sessionRunService.abandonRun(
+        firebaseUid,
+        paramString(req.params.sessionId)!,
+        paramString(req.params.runId)!,
+        options,
+      );
+
+      this.sendRun(res, run);
+    } catch (error) {
+      this.handleError(res, error, "Failed to abandon session run");
+    }
+  };
+
+  /**
+   * POST /api/sessions/:sessionId/runs/:runId/rating
+   * Post-session rating for a completed or abandoned run
+   */
+  rateRun = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const rating = RatingSchema.parse(req.body);
+
+      const run = await this.sessionRunService.rateRun(
+        firebaseUid,
+        paramString(req.params.sessionId)!,
+        paramString(req.params.runId)!,
+        rating,
+      );
+
+      this.sendRun(res, run);
+    } catch (error) {
+      this.handleError(res, error, "Failed to rate session run");
+    }
+  };
+
+  private sendRun(res: Response, run: unknown) {
+    if (!run) {
+      res.status(404).json({
+        success: false,
+        error: "Session run not found",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: run,
+    });
+  }
+
+  private handleError(res: Response, error: unknown, fallbackMessage: string) {
+    if (error instanceof SessionRunStateError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    handleError(res, error, fallbackMessage);
+  }
+}
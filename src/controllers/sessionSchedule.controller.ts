@@ -0,0 +1,206 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  ScheduleValidationError,
+  SessionScheduleService,
+} from "../services/sessionSchedule.service";
+import { paramString } from "../utils/routeParams";
+import { handleError, requireUser } from "../utils/controller.utils";
+import { SESSION_SCHEDULE } from "../constants";
+
+const LocalDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+const ScheduleFieldsSchema = z.object({
+  rrule: z.string().min(1, "rrule is required"),
+  timeZone: z.string().min(1, "timeZone is required"),
+  startDate: LocalDateSchema.optional(),
+  endDate: LocalDateSchema.nullable().optional(),
+  reminderMinutesBefore: z
+    .number()
+    .int()
+    .min(0)
+    .max(SESSION_SCHEDULE.MAX_REMINDER_MINUTES)
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+const CreateScheduleSchema = ScheduleFieldsSchema.extend({
+  sessionId: z.string().min(1, "sessionId is required"),
+});
+
+const UpdateScheduleSchema = ScheduleFieldsSchema.partial();
+
+export class SessionScheduleController {
+  private sessionScheduleService: SessionScheduleService;
+
+  constructor() {
+    this.sessionScheduleService = new SessionScheduleService();
+  }
+
+  /**
+   * POST /api/schedules
+   * Schedule a saved session, e.g. sauna Mon/Wed/Fri at 7am
+   */
+  createSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const input = CreateScheduleSchema.parse(req.body);
+
+      const schedule = await this.sessionScheduleService.createSchedule(
+        firebaseUid,
+        input,
+      );
+
+      if (!schedule) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to create schedule");
+    }
+  };
+
+  /**
+   * GET /api/schedules
+   * All schedules for the user, optionally for one session
+   */
+  getSchedules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const sessionId = req.query.sessionId as string | undefined;
+
+      const schedules = await this.sessionScheduleService.listSchedules(
+        firebaseUid,
+        sessionId,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: schedules,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to fetch schedules");
+    }
+  };
+
+  /**
+   * GET /api/schedules/:scheduleId
+   */
+  getScheduleById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const schedule = await this.sessionScheduleService.getSchedule(
+        firebaseUid,
+        paramString(req.params.scheduleId)!,
+      );
+
+      this.sendSchedule(res, schedule);
+    } catch (error) {
+      this.handleError(res, error, "Failed to fetch schedule");
+    }
+  };
+
+  /**
+   * PATCH /api/schedules/:scheduleId
+   * Change the recurrence, reminder or pause/resume a schedule
+   */
+  updateSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const updates = UpdateScheduleSchema.parse(req.body);
+
+      if (Object.keys(updates).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: "No valid fields to update",
+        });
+        return;
+      }
+
+      const schedule = await this.sessionScheduleService.updateSchedule(
+        firebaseUid,
+        paramString(req.params.scheduleId)!,
+        updates,
+      );
+
+      this.sendSchedule(res, schedule);
+    } catch (error) {
+      this.handleError(res, error, "Failed to update schedule");
+    }
+  };
+
+  /**
+   * DELETE /api/schedules/:scheduleId
+   */
+  deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const deleted = await this.sessionScheduleService.deleteSchedule(
+        firebaseUid,
+        paramString(req.params.scheduleId)!,
+      );
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: "Schedule not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Schedule deleted successfully",
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to delete schedule");
+    }
+  };
+
+  private sendSchedule(res: Response, schedule: unknown) {
+    if (!schedule) {
+      res.status(404).json({
+        success: false,
+        error: "Schedule not found",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: schedule,
+    });
+  }
+
+  private handleError(res: Response, error: unknown, fallbackMessage: string) {
+    if (error instanceof ScheduleValidationError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    handleError(res, error, fallbackMessage);
+  }
+}
@@ -0,0 +1,301 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  SessionTemplateService,
+  SessionTemplateValidationError,
+} from "../services/sessionTemplate.service";
+import { SessionSafetyError } from "../utils/sessionSafety.utils";
+import { SessionStepSchema } from "../utils/sessionValidation.utils";
+import { paramString } from "../utils/routeParams";
+import { handleError, requireUser } from "../utils/controller.utils";
+import {
+  FOCUS_GOAL_KEYS,
+  PRODUCT_TYPES,
+  SESSION_INTENSITIES,
+} from "../constants";
+
+const ListTemplatesQuerySchema = z.object({
+  product: z.enum(PRODUCT_TYPES).optional(),
+  goal: z.enum(FOCUS_GOAL_KEYS).optional(),
+  intensity: z.enum(SESSION_INTENSITIES).optional(),
+  maxDuration: z.coerce.number().positive().optional(),
+});
+
+const SelectTemplateSchema = z.object({
+  tags: z.array(z.string()).min(1, "At least one tag is required"),
+  goals: z.array(z.string()).optional(),
+  mood: z.string().optional(),
+});
+
+const TemplateSchema = z.object({
+  templateId: z
+    .string()
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      "templateId must be lowercase words separated by dashes",
+    )
+    .optional(),
+  name: z.string().trim().min(1, "name is required"),
+  description: z.string().trim().min(1, "description is required"),
+  productTypes: z
+    .array(z.enum(PRODUCT_TYPES))
+    .min(1, "At least one product type is required"),
+  goals: z.array(z.enum(FOCUS_GOAL_KEYS)).default([]),
+  intensity: z.enum(SESSION_INTENSITIES).default("moderate"),
+  steps: z
+    .array(SessionStepSchema.extend({ TemperatureF: z.number().optional() }))
+    .min(1, "At least one step is required"),
+  tips: z.array(z.string()).default([]),
+  startMessage: z.string().trim().min(1, "startMessage is required"),
+  completionMessage: z.string().trim().min(1, "completionMessage is required"),
+  isPublished: z.boolean().optional(),
+});
+
+const UpdateTemplateSchema = TemplateSchema.omit({ templateId: true })
+  .partial()
+  .refine(
+    (updates) => Object.keys(updates).length > 0,
+    "No valid fields to update",
+  );
+
+export class SessionTemplateController {
+  private sessionTemplateService: SessionTemplateService;
+
+  constructor() {
+    this.sessionTemplateService = new SessionTemplateService();
+  }
+
+  /**
+   * GET /api/session-templates
+   * Browse published routines
+   */
+  listTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const query = ListTemplatesQuerySchema.parse(req.query);
+
+      const templates = await this.sessionTemplateService.listTemplates({
+        product: query.product,
+        goal: query.goal,
+        intensity: query.intensity,
+        maxDurationMinutes: query.maxDuration,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+        count: templates.length,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to list session templates");
+    }
+  };
+
+  /**
+   * GET /api/session-templates/:templateId
+   */
+  getTemplate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const template = await this.sessionTemplateService.getTemplate(
+        paramString(req.params.templateId)!,
+      );
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          error: "Session template not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to get session template");
+    }
+  };
+
+  /**
+   * POST /api/session-templates/select
+   * Preview the session the template fallback would build for these inputs
+   */
+  selectTemplate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const firebaseUid = requireUser(req, res);
+      if (!firebaseUid) return;
+
+      const options = SelectTemplateSchema.parse(req.body);
+
+      const session = await this.sessionTemplateService.selectSession(
+        firebaseUid,
+        options,
+      );
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: "No session template matches these tags",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        session,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to select session template");
+    }
+  };
+
+  // ==================== ADMIN ====================
+
+  /**
+   * GET /api/admin/session-templates
+   * Every stored template, including unpublished ones
+   */
+  listAllTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const templates = await this.sessionTemplateService.listAllTemplates();
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+        count: templates.length,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to list session templates");
+    }
+  };
+
+  /**
+   * POST /api/admin/session-templates
+   */
+  createTemplate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = TemplateSchema.parse(req.body);
+
+      if (
+        data.templateId &&
+        (await this.sessionTemplateService.templateExists(data.templateId))
+      ) {
+        res.status(409).json({
+          success: false,
+          error: "A session template with this templateId already exists",
+        });
+        return;
+      }
+
+      const template = await this.sessionTemplateService.createTemplate(data);
+
+      res.status(201).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to create session template");
+    }
+  };
+
+  /**
+   * PATCH /api/admin/session-templates/:templateId
+   */
+  updateTemplate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const updates = UpdateTemplateSchema.parse(req.body);
+
+      const template = await this.sessionTemplateService.updateTemplate(
+        paramString(req.params.templateId)!,
+        updates,
+      );
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          error: "Session template not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to update session template");
+    }
+  };
+
+  /**
+   * DELETE /api/admin/session-templates/:templateId
+   */
+  deleteTemplate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await this.sessionTemplateService.deleteTemplate(
+        paramString(req.params.templateId)!,
+      );
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: "Session template not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Session template deleted",
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to delete session template");
+    }
+  };
+
+  /**
+   * POST /api/admin/session-templates/seed
+   * Copy the built-in templates into the collection
+   */
+  seedTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const added = await this.sessionTemplateService.seedDefaults();
+
+      res.status(200).json({
+        success: true,
+        added,
+      });
+    } catch (error) {
+      this.handleError(res, error, "Failed to seed session templates");
+    }
+  };
+
+  private handleError(res: Response, error: unknown, fallbackMessage: string) {
+    if (error instanceof SessionTemplateValidationError) {
+      res.status(400).json({
+        success: false,
+        error: "Template steps are invalid or exceed safety limits",
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof SessionSafetyError) {
+      res.status(422).json({
+        success: false,
+        error: "Session exceeded safety limits",
+        code: "SESSION_UNSAFE",
+        issues: error.violations,
+      });
+      return;
+    }
+
+    handleError(res, error, fallbackMessage);
+  }
+}
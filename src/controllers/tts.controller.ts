@@ -53,6 +53,7 @@ export class TTSController {
         text,
         voiceId: voice.id,
         speed: speed || 1.0,
+        ownerUid: req.user.uid,
       });
 
       if (result.success) {
@@ -117,7 +118,10 @@ export class TTSController {
       const fileName = paramString(req.params.fileName);
 
       // Validate filename (security)
-      if (!fileName || !/^tts_\d+_[a-z0-9]+\.mp3$/.test(fileName)) {
+      if (
+        !fileName ||
+        !/^tts_(?:[a-f0-9]{16}_)?\d+_[a-z0-9]+\.mp3$/.test(fileName)
+      ) {
         res.status(400).json({
           success: false,
           error: "Invalid audio file name",
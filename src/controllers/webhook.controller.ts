@@ -1,8 +1,11 @@
 import { Request, Response } from "express";
 import crypto from "crypto";
-import { User } from "../models/User.model";
-import { sendToQueue } from "../config/sqs"; // SQS Producer
+import { sendToQueue } from "../config/queue"; // Queue producer
 import { RawWebhook } from "../models/RawWebhook.model"; // Store raw webhooks
+import { WearableConnectionService } from "../services/wearableConnection.service";
+import { HealthDataMerger } from "../services/healthData.merger.service";
+
+const wearableConnectionService = new WearableConnectionService();
 
 /**
  * ROOK Webhook Controller
@@ -140,23 +143,7 @@ export const handleRookHealthDataWebhook = async (
     const data_structure = webhookData.data_structure;
 
     // Extract data source from metadata or root level
-    let data_source = webhookData.data_source;
-    if (!data_source) {
-      // Look for data source in metadata.sources_of_data_array (real ROOK format)
-      const metadata =
-        webhookData.body_health?.summary?.body_summary?.metadata ||
-        webhookData.physical_health?.summary?.physical_summary?.metadata ||
-        webhookData.sleep_health?.summary?.sleep_summary?.metadata;
-
-      if (
-        metadata?.sources_of_data_array &&
-        metadata.sources_of_data_array.length > 0
-      ) {
-        data_source = metadata.sources_of_data_array[0]; // Use first source
-      } else {
-        data_source = "unknown";
-      }
-    }
+    const data_source = HealthDataMerger.getDataSource(webhookData);
 
     console.log("📊 Processing health data for user:", user_id);
     console.log("🔍 Data source:", data_source);
@@ -176,21 +163,9 @@ export const handleRookHealthDataWebhook = async (
     console.log(`💾 Raw webhook stored: ${rawWebhook._id}`);
 
     // Map ROOK data source to our wearable names
-    const dataSourceMap: { [key: string]: string } = {
-      oura: "oura",
-      garmin: "garmin",
-      fitbit: "fitbit",
-      whoop: "whoop",
-      apple_health: "apple",
-      "apple health": "apple",
-      samsung_health: "samsung",
-      "samsung health": "samsung",
-      polar: "polar",
-    };
-
-    const wearableName = dataSourceMap[data_source.toLowerCase()] || "unknown";
+    const wearableName = HealthDataMerger.mapSourceToWearable(data_source);
 
-    // Step 2: Send to SQS queue for async processing
+    // Step 2: Send to the queue for async processing
     const messageBody = {
       rawWebhookId: (rawWebhook._id as any).toString(),
       userId: user_id,
@@ -201,9 +176,9 @@ export const handleRookHealthDataWebhook = async (
 
     try {
       const messageId = await sendToQueue(messageBody);
-      console.log(`📤 Webhook queued to SQS: ${messageId}`);
+      console.log(`📤 Webhook queued: ${messageId}`);
 
-      // Update raw webhook with SQS message ID
+      // Update raw webhook with the queue message ID
       await RawWebhook.findByIdAndUpdate(rawWebhook._id, {
         sqsMessageId: messageId,
       });
@@ -263,7 +238,7 @@ export const handleRookNotificationWebhook = async (
     // Extract fields
     const client_uuid = notificationData.client_uuid;
     const user_id = notificationData.user_id;
-    const action = notificationData.action;
+    const action = notificationData.action ?? notificationData.event_type;
     const data_source = notificationData.data_source;
     const level = notificationData.level;
     const message = notificationData.message;
@@ -284,74 +259,20 @@ export const handleRookNotificationWebhook = async (
     console.log("⚠️ Level:", level);
     console.log("💬 Message:", message);
 
-    // Validate MongoDB ObjectId format (24 hex characters)
-    const hasValidUserId =
-      user_id && user_id.length === 24 && /^[0-9a-fA-F]{24}$/.test(user_id);
-
-    // Map data source to wearable name
-    const dataSourceMap: { [key: string]: string } = {
-      oura: "oura",
-      garmin: "garmin",
-      fitbit: "fitbit",
-      whoop: "whoop",
-      apple_health: "apple",
-      polar: "polar",
-    };
+    // Connection lifecycle: connected state, reauth flag and history
+    const { transition, sources } =
+      await wearableConnectionService.handleRookNotification({
+        userId: user_id,
+        action,
+        dataSource: data_source,
+        level,
+        message,
+      });
 
-    const wearableName = dataSourceMap[data_source?.toLowerCase()];
-
-    // Handle different notification types
-    switch (action) {
-      case "user_connected":
-      case "connection_established":
-        if (wearableName && hasValidUserId) {
-          await User.findByIdAndUpdate(user_id, {
-            $set: {
-              [`wearables.${wearableName}.connected`]: true,
-              [`wearables.${wearableName}.connectedAt`]: new Date(),
-              [`wearables.${wearableName}.lastSync`]: new Date(),
-              updatedAt: new Date(),
-            },
-          });
-          console.log(
-            `✅ ${wearableName} connection established for user ${user_id}`,
-          );
-        } else if (!hasValidUserId) {
-          console.warn(
-            `⚠️ Invalid user_id for connection_established: ${user_id}`,
-          );
-        }
-        break;
-
-      case "user_disconnected":
-      case "connection_revoked":
-        if (wearableName && hasValidUserId) {
-          await User.findByIdAndUpdate(user_id, {
-            $set: {
-              [`wearables.${wearableName}.connected`]: false,
-              [`wearables.${wearableName}.revokedAt`]: new Date(),
-              updatedAt: new Date(),
-            },
-          });
-          console.log(
-            `❌ ${wearableName} connection revoked for user ${user_id}`,
-          );
-        } else if (!hasValidUserId) {
-          console.warn(`⚠️ Invalid user_id for connection_revoked: ${user_id}`);
-        }
-        break;
-
-      case "user_created":
-        console.log(`👤 ROOK user created: ${user_id}`);
-        break;
-
-      case "user_deleted":
-        console.log(`🗑️ ROOK user deleted: ${user_id}`);
-        break;
-
-      default:
-        console.log(`ℹ️ Unknown notification action: ${action}`);
-    }
+    console.log(
+      `🔗 Notification ${action} for ${user_id}: ${transition}`,
+      sources,
+    );
 
     // Return success response
     res.status(200).json({
@@ -359,6 +280,7 @@ export const handleRookNotificationWebhook = async (
       message: "Notification processed successfully",
       action: action,
       user_id: user_id,
+      transition,
       processed_at: new Date().toISOString(),
     });
   } catch (error) {
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "./auth.middleware";
+import { AdminAuditService } from "../services/adminAudit.service";
+
+const adminAuditService = new AdminAuditService();
+
+/**
+ * Middleware that writes an audit entry for an admin route, used after
+ * requireRole. The request is refused if the entry can't be stored.
+ * Route params are only known per route, so add this to each admin route
+ * rather than to the whole router.
+ */
+export const auditAdminAction =
+  (action: string) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const user = (req as AuthenticatedRequest).user;
+    const params = req.params as Record<string, string>;
+
+    let entryId: string;
+    try {
+      const entry = await adminAuditService.record({
+        actorUid: user.uid,
+        actorEmail: user.email || undefined,
+        actorRole: user.role!,
+        action,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        targetUid: params.firebaseUid,
+        params,
+        query: req.query as Record<string, unknown>,
+        body: ["POST", "PUT", "PATCH"].includes(req.method)
+          ? req.body
+          : undefined,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+      entryId = entry.id;
+    } catch (error) {
+      console.error("❌ Failed to write admin audit entry:", error);
+      res.status(503).json({
+        success: false,
+        error: "Audit log unavailable, please try again",
+      });
+      return;
+    }
+
+    res.on("finish", () => {
+      void adminAuditService.complete(entryId, res.statusCode);
+    });
+
+    next();
+  };
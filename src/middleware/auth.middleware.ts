@@ -2,6 +2,9 @@
 // ============================================
 import { Request, Response, NextFunction } from "express";
 import * as admin from "firebase-admin";
+import { ADMIN_ROLES, AdminRole } from "../constants";
+import { getAuthTestSecret, isAuthTestMode } from "../config/auth";
+import { TestAuthTokenUtils } from "../utils/testAuthToken.utils";
 
 // Extend Express Request type to include user data
 export interface AuthenticatedRequest extends Request {
@@ -11,12 +14,18 @@ export interface AuthenticatedRequest extends Request {
     name?: string;
     picture?: string;
     provider: string;
+    role?: AdminRole; // Staff role from the Firebase custom claim `role`
   };
 }
 
+const roleFromClaims = (
+  claims: admin.auth.DecodedIdToken,
+): AdminRole | undefined => ADMIN_ROLES.find((role) => role === claims.role);
+
 /**
  * Middleware to verify Firebase JWT tokens
- * For testing: Also accepts custom tokens and firebaseUid in headers
+ * In auth test mode (see config/auth) it also accepts locally signed test
+ * tokens and the x-firebase-uid header
  */
 export const verifyFirebaseToken = async (
   req: Request,
@@ -24,22 +33,51 @@ export const verifyFirebaseToken = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    // Method 1: Check for firebaseUid in headers (for testing)
-    const firebaseUid = req.headers["x-firebase-uid"] as string;
-    if (firebaseUid) {
-      (req as AuthenticatedRequest).user = {
-        uid: firebaseUid,
-        email: "",
-        name: "",
-        picture: "",
-        provider: "test",
-      };
-      return next();
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith("Bearer ")
+      ? authHeader.split("Bearer ")[1]
+      : undefined;
+
+    if (isAuthTestMode()) {
+      // Signed test token (integration tests)
+      if (token && TestAuthTokenUtils.isTestToken(token)) {
+        const secret = getAuthTestSecret();
+        const claims = secret ? TestAuthTokenUtils.verify(token, secret) : null;
+
+        if (!claims) {
+          res.status(401).json({
+            success: false,
+            error: "Unauthorized",
+            message: "Invalid or expired test token",
+          });
+          return;
+        }
+
+        (req as AuthenticatedRequest).user = {
+          uid: claims.uid,
+          email: claims.email,
+          name: claims.name,
+          provider: "test",
+          role: claims.role,
+        };
+        return next();
+      }
+
+      // firebaseUid header (local development)
+      const firebaseUid = req.headers["x-firebase-uid"] as string;
+      if (firebaseUid && !token) {
+        (req as AuthenticatedRequest).user = {
+          uid: firebaseUid,
+          email: "",
+          name: "",
+          picture: "",
+          provider: "test",
+        };
+        return next();
+      }
     }
 
-    // Method 2: Extract token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    if (!token) {
       res.status(401).json({
         success: false,
         error: "Unauthorized",
@@ -48,8 +86,6 @@ export const verifyFirebaseToken = async (
       return;
     }
 
-    const token = authHeader.split("Bearer ")[1];
-
     try {
       // Try to verify as ID token first
       const decodedToken = await admin.auth().verifyIdToken(token);
@@ -60,6 +96,7 @@ export const verifyFirebaseToken = async (
         name: decodedToken.name,
         picture: decodedToken.picture,
         provider: decodedToken.firebase.sign_in_provider,
+        role: roleFromClaims(decodedToken),
       };
 
       next();
@@ -76,6 +113,7 @@ export const verifyFirebaseToken = async (
           name: decodedCustomToken.name,
           picture: decodedCustomToken.picture,
           provider: "custom",
+          role: roleFromClaims(decodedCustomToken),
         };
 
         next();
@@ -97,3 +135,34 @@ export const verifyFirebaseToken = async (
     });
   }
 };
+
+/**
+ * Middleware for staff routes, used after verifyFirebaseToken: the user's
+ * `role` claim must be one of `roles` (admins are always allowed).
+ * Users authenticated with the x-firebase-uid header never have a role.
+ */
+export const requireRole =
+  (...roles: AdminRole[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: "Unauthorized",
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    if (!user.role || (user.role !== "admin" && !roles.includes(user.role))) {
+      res.status(403).json({
+        success: false,
+        error: "Forbidden",
+        message: "You don't have permission to do this",
+      });
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ACCOUNT_DELETION_STATUSES, AccountDeletionStatus } from "../constants";
+
+// What one purge step removed from a store
+export interface IAccountDeletionStep {
+  store: string; // e.g. "mongo.sessions", "redis", "rook"
+  deletedCount: number;
+  completedAt: Date;
+}
+
+// A requested account deletion. Once completed it is kept as a tombstone
+// proving when and from where the user's data was removed; it holds no
+// personal data apart from the ids.
+export interface IAccountDeletion extends Document {
+  deletionId: string;
+  firebaseUid: string;
+  userId: string; // MongoDB id of the user (ROOK's user id)
+  status: AccountDeletionStatus;
+  requestedAt: Date;
+  scheduledFor: Date; // End of the grace period
+  restoredAt?: Date;
+  purgeStartedAt?: Date;
+  completedAt?: Date;
+  attempts: number;
+  lastError?: string;
+  steps: IAccountDeletionStep[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountDeletionStepSchema = new Schema<IAccountDeletionStep>(
+  {
+    store: { type: String, required: true },
+    deletedCount: { type: Number, required: true },
+    completedAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
+const AccountDeletionSchema = new Schema<IAccountDeletion>(
+  {
+    deletionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ACCOUNT_DELETION_STATUSES,
+      required: true,
+      default: "scheduled",
+    },
+    requestedAt: {
+      type: Date,
+      required: true,
+    },
+    scheduledFor: {
+      type: Date,
+      required: true,
+    },
+    restoredAt: {
+      type: Date,
+    },
+    purgeStartedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: String,
+    },
+    steps: {
+      type: [AccountDeletionStepSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Deletion worker: due deletions
+AccountDeletionSchema.index({ status: 1, scheduledFor: 1 });
+// History for a user
+AccountDeletionSchema.index({ firebaseUid: 1, createdAt: -1 });
+
+export const AccountDeletion = mongoose.model<IAccountDeletion>(
+  "AccountDeletion",
+  AccountDeletionSchema,
+);
@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ADMIN_ROLES, AdminRole } from "../constants";
+
+// One admin API request. Written before the action runs; the status code
+// is filled in once the response is sent.
+export interface IAdminAuditLog extends Document {
+  actorUid: string;
+  actorEmail?: string;
+  actorRole: AdminRole;
+  action: string; // e.g. "users.deactivate"
+  method: string;
+  path: string;
+  targetUid?: string; // User the action concerns, if any
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body?: unknown; // Request body of changes
+  statusCode?: number; // Missing if the request never completed
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const AdminAuditLogSchema = new Schema<IAdminAuditLog>(
+  {
+    actorUid: {
+      type: String,
+      required: true,
+    },
+    actorEmail: {
+      type: String,
+    },
+    actorRole: {
+      type: String,
+      enum: ADMIN_ROLES,
+      required: true,
+    },
+    action: {
+      type: String,
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    targetUid: {
+      type: String,
+    },
+    params: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    query: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    body: {
+      type: Schema.Types.Mixed,
+    },
+    statusCode: {
+      type: Number,
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    // Entries are never edited apart from the status code
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  },
+);
+
+// What a staff member did, and what was done to a user
+AdminAuditLogSchema.index({ actorUid: 1, createdAt: -1 });
+AdminAuditLogSchema.index({ targetUid: 1, createdAt: -1 });
+AdminAuditLogSchema.index({ action: 1, createdAt: -1 });
+
+export const AdminAuditLog = mongoose.model<IAdminAuditLog>(
+  "AdminAuditLog",
+  AdminAuditLogSchema,
+);
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Chat Conversation Model
+ *
+ * One document per conversation thread. The individual turns live in the
+ * ChatMessage collection so they can be paginated without loading the
+ * whole thread.
+ */
+export interface IChatConversation extends Document {
+  conversationId: string; // UUID exposed to the client
+  firebaseUid: string; // User who owns this conversation
+
+  title: string; // Derived from the first user message
+  messageCount: number;
+  lastMessageAt: Date;
+
+  // Rolling summary of the oldest turns (keeps AI context within budget)
+  summary?: string;
+  summarizedMessageCount: number; // How many of the oldest messages the summary covers
+  summaryUpdatedAt?: Date;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChatConversationSchema = new Schema<IChatConversation>(
+  {
+    conversationId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120,
+    },
+    messageCount: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    lastMessageAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    summary: {
+      type: String,
+      required: false,
+    },
+    summarizedMessageCount: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    summaryUpdatedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Most recent conversations first for a user
+ChatConversationSchema.index({ firebaseUid: 1, lastMessageAt: -1 });
+
+export const ChatConversation = mongoose.model<IChatConversation>(
+  "ChatConversation",
+  ChatConversationSchema,
+);
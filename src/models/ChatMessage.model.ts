@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const CHAT_MESSAGE_ROLES = ["user", "assistant"] as const;
+export type ChatMessageRole = (typeof CHAT_MESSAGE_ROLES)[number];
+
+/**
+ * Chat Message Model
+ * A single turn (user message or AI reply) within a ChatConversation
+ */
+export interface IChatMessage extends Document {
+  conversationId: string;
+  firebaseUid: string;
+  role: ChatMessageRole;
+  content: string;
+
+  // Structured action returned alongside the reply (e.g. CREATE_SESSION)
+  action?: string;
+  sessionId?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChatMessageSchema = new Schema<IChatMessage>(
+  {
+    conversationId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: CHAT_MESSAGE_ROLES,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      required: false,
+    },
+    sessionId: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Paginate a conversation in chronological order
+ChatMessageSchema.index({ conversationId: 1, createdAt: 1 });
+ChatMessageSchema.index({ firebaseUid: 1, createdAt: -1 });
+
+export const ChatMessage = mongoose.model<IChatMessage>(
+  "ChatMessage",
+  ChatMessageSchema,
+);
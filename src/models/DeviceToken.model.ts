@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { DEVICE_PLATFORMS, DevicePlatform } from "../constants";
+
+// FCM registration token for one of a user's devices
+export interface IDeviceToken extends Document {
+  token: string;
+  firebaseUid: string;
+  platform: DevicePlatform;
+  deviceName?: string;
+  appVersion?: string;
+  lastSeenAt: Date; // Refreshed every time the app registers
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeviceTokenSchema = new Schema<IDeviceToken>(
+  {
+    token: {
+      type: String,
+      required: true,
+      unique: true, // A token belongs to whoever registered it last
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    platform: {
+      type: String,
+      enum: DEVICE_PLATFORMS,
+      required: true,
+    },
+    deviceName: {
+      type: String,
+      trim: true,
+    },
+    appVersion: {
+      type: String,
+      trim: true,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+export const DeviceToken = mongoose.model<IDeviceToken>(
+  "DeviceToken",
+  DeviceTokenSchema,
+);
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { EXPORT_JOB_STATUSES, ExportJobStatus } from "../constants";
+
+// A requested export of all of a user's data (GDPR/CCPA access request)
+export interface IExportJob extends Document {
+  jobId: string;
+  firebaseUid: string;
+  status: ExportJobStatus;
+  email?: string; // Where the download link was sent
+  blobUrl?: string; // Plain blob URL of the zip (private, never returned)
+  fileSizeBytes?: number;
+  recordCounts?: Record<string, number>; // Records per exported file
+  linkExpiresAt?: Date;
+  attempts: number; // Times the job was started
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExportJobSchema = new Schema<IExportJob>(
+  {
+    jobId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: EXPORT_JOB_STATUSES,
+      required: true,
+      default: "pending",
+    },
+    email: {
+      type: String,
+    },
+    blobUrl: {
+      type: String,
+      select: false,
+    },
+    fileSizeBytes: {
+      type: Number,
+    },
+    recordCounts: {
+      type: Schema.Types.Mixed,
+    },
+    linkExpiresAt: {
+      type: Date,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Latest exports for a user
+ExportJobSchema.index({ firebaseUid: 1, createdAt: -1 });
+// Lost jobs and lapsed download links, for the data export worker
+ExportJobSchema.index({ status: 1, updatedAt: 1 });
+ExportJobSchema.index({ status: 1, linkExpiresAt: 1 });
+
+export const ExportJob = mongoose.model<IExportJob>(
+  "ExportJob",
+  ExportJobSchema,
+);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  IActivityEvent,
+  IBodyData,
+  IPhysicalData,
+  ISleepData,
+} from "./HealthData.types";
+import { HEALTH_DATA_TYPES, HealthDataType } from "../constants";
+
+// One day of one data type from one wearable.
+// The User document only keeps the latest snapshot; this is the history.
+export interface IHealthDailySummary extends Document {
+  firebaseUid: string;
+  source: string; // Wearable name, e.g. "oura"
+  date: string; // YYYY-MM-DD, the day the data describes
+  dataType: HealthDataType;
+  data: ISleepData | IPhysicalData | IBodyData | IActivityEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HealthDailySummarySchema = new Schema<IHealthDailySummary>(
+  {
+    firebaseUid: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      required: true,
+    },
+    date: {
+      type: String,
+      required: true,
+      match: /^\d{4}-\d{2}-\d{2}$/,
+    },
+    dataType: {
+      type: String,
+      enum: HEALTH_DATA_TYPES,
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One summary per user, source, data type and day
+HealthDailySummarySchema.index(
+  { firebaseUid: 1, source: 1, dataType: 1, date: 1 },
+  { unique: true },
+);
+// History across sources: trends, AI context
+HealthDailySummarySchema.index({ firebaseUid: 1, dataType: 1, date: 1 });
+
+export const HealthDailySummary = mongoose.model<IHealthDailySummary>(
+  "HealthDailySummary",
+  HealthDailySummarySchema,
+);
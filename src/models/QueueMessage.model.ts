@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { QUEUE_MESSAGE_STATUSES, QueueMessageStatus } from "../constants";
+
+// A message in the MongoDB-backed queue (QUEUE_BACKEND=mongo)
+export interface IQueueMessage extends Document {
+  messageId: string;
+  queue: string;
+  body: unknown;
+  status: QueueMessageStatus;
+  visibleAt: Date; // Receivable from this time; pushed back while locked
+  deliveryCount: number;
+  lockToken?: string; // Current delivery; settling needs a matching token
+  deadLetterReason?: string;
+  deadLetteredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QueueMessageSchema = new Schema<IQueueMessage>(
+  {
+    messageId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    queue: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: QUEUE_MESSAGE_STATUSES,
+      required: true,
+      default: "pending",
+    },
+    visibleAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    deliveryCount: {
+      type: Number,
+      default: 0,
+    },
+    lockToken: {
+      type: String,
+    },
+    deadLetterReason: {
+      type: String,
+    },
+    deadLetteredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Next receivable message, oldest first
+QueueMessageSchema.index({ queue: 1, status: 1, visibleAt: 1 });
+
+export const QueueMessage = mongoose.model<IQueueMessage>(
+  "QueueMessage",
+  QueueMessageSchema,
+);
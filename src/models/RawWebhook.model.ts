@@ -34,6 +34,10 @@ export interface IRawWebhook extends Document {
   // SQS tracking
   sqsMessageId?: string; // SQS message ID (for correlation)
 
+  // Replay tracking
+  replayCount: number; // Times re-enqueued by the replay tooling
+  lastReplayedAt?: Date;
+
   // Metadata
   userAgent?: string; // ROOK's user agent
   ipAddress?: string; // ROOK's IP address
@@ -81,6 +85,13 @@ const RawWebhookSchema = new Schema<IRawWebhook>(
     sqsMessageId: {
       type: String,
     },
+    replayCount: {
+      type: Number,
+      default: 0,
+    },
+    lastReplayedAt: {
+      type: Date,
+    },
     userAgent: {
       type: String,
     },
@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { RECOVERY_SCORE_METHODS, RecoveryScoreMethod } from "../constants";
+
+// Raw readings the score was computed from (also used as the personal baseline)
+export interface IRecoveryMetrics {
+  hrvMs?: number;
+  restingHeartRateBpm?: number;
+  sleepMinutes?: number;
+  sleepEfficiency?: number; // Percentage
+  activityLoad?: number; // 0-100, from Whoop strain or intensity minutes
+  strain?: number; // Whoop strain (0-21)
+}
+
+// Each raw metric mapped to 0-100 (higher is better recovered)
+export interface IRecoveryComponents {
+  hrv?: number;
+  restingHeartRate?: number;
+  sleep?: number;
+  activityLoad?: number;
+}
+
+export interface IVendorScore {
+  wearable: string;
+  source: "oura_readiness" | "whoop_recovery" | "garmin_body_battery";
+  score: number; // 0-100
+}
+
+// H2Oasis recovery score for one day
+export interface IRecoveryScore extends Document {
+  firebaseUid: string;
+  date: string; // YYYY-MM-DD
+  score: number; // 0-100
+  method: RecoveryScoreMethod; // Vendor scores win when available
+  components: IRecoveryComponents;
+  metrics: IRecoveryMetrics;
+  vendorScores: IVendorScore[];
+  wearables: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VendorScoreSchema = new Schema<IVendorScore>(
+  {
+    wearable: { type: String, required: true },
+    source: {
+      type: String,
+      enum: ["oura_readiness", "whoop_recovery", "garmin_body_battery"],
+      required: true,
+    },
+    score: { type: Number, required: true, min: 0, max: 100 },
+  },
+  { _id: false },
+);
+
+const RecoveryScoreSchema = new Schema<IRecoveryScore>(
+  {
+    firebaseUid: {
+      type: String,
+      required: true,
+    },
+    date: {
+      type: String,
+      required: true,
+      match: /^\d{4}-\d{2}-\d{2}$/,
+    },
+    score: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100,
+    },
+    method: {
+      type: String,
+      enum: RECOVERY_SCORE_METHODS,
+      required: true,
+    },
+    components: {
+      hrv: Number,
+      restingHeartRate: Number,
+      sleep: Number,
+      activityLoad: Number,
+    },
+    metrics: {
+      hrvMs: Number,
+      restingHeartRateBpm: Number,
+      sleepMinutes: Number,
+      sleepEfficiency: Number,
+      activityLoad: Number,
+      strain: Number,
+    },
+    vendorScores: {
+      type: [VendorScoreSchema],
+      default: [],
+    },
+    wearables: {
+      type: [String],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One score per user per day; also serves history queries by date
+RecoveryScoreSchema.index({ firebaseUid: 1, date: 1 }, { unique: true });
+
+export const RecoveryScore = mongoose.model<IRecoveryScore>(
+  "RecoveryScore",
+  RecoveryScoreSchema,
+);
@@ -1,4 +1,12 @@
 import mongoose, { Document, Schema } from "mongoose";
+import {
+  PRODUCT_TYPES,
+  ProductType,
+  RECOVERY_TRENDS,
+  RecoveryTrend,
+  SESSION_SOURCES,
+  SessionSource,
+} from "../constants";
 
 // Step within a session
 export interface ISessionStep {
@@ -9,6 +17,54 @@ export interface ISessionStep {
   Message?: string;
   TimerStartMessage?: string;
   TimerEndMessage?: string;
+  TemperatureF?: number; // Target temperature when the AI provides one
+}
+
+// A change made by the safety guardrails
+export interface ISessionSafetyModification {
+  rule: string; // e.g. STEP_DURATION_CLAMPED, REST_INSERTED
+  stepNumber: number; // Step number before the review renumbered steps
+  message: string;
+  before?: number;
+  after?: number;
+}
+
+// Result of the last safety review of the steps
+export interface ISessionSafetyReview {
+  rulesVersion: number;
+  reviewedAt: Date;
+  productType?: ProductType;
+  userAge?: number; // Age used to tighten limits, if known
+  modifications: ISessionSafetyModification[];
+}
+
+// How one step went, reported when the session is completed
+export interface ISessionStepFeedback {
+  stepNumber: number;
+  skipped: boolean;
+  actualDurationSeconds?: number; // From the client timer, excludes pauses
+}
+
+// How a completed session went (for sessions performed without a run)
+export interface ISessionCompletionFeedback {
+  steps: ISessionStepFeedback[];
+  rating?: number; // 1-5
+  comment?: string;
+  recordedAt: Date;
+}
+
+// What an AI-generated session was personalized with
+export interface ISessionGenerationInputs {
+  tags: string[];
+  goals: string[];
+  mood?: string;
+  productType?: ProductType;
+  recentSessionIds: string[]; // Sessions summarized for the AI, newest first
+  recoveryScore?: number; // Latest H2Oasis recovery score
+  recoveryTrend?: RecoveryTrend;
+  personalization?: string; // Summary passed to the AI
+  source?: SessionSource; // "template" when the AI failed and a template was used
+  templateId?: string;
 }
 
 // Main session document
@@ -25,16 +81,27 @@ export interface ISession extends Document {
   StartMessage: string;
   CompletionMessage: string;
 
+  // Safety guardrails
+  productType?: ProductType; // User's selected product when the session was reviewed
+  safetyReview?: ISessionSafetyReview;
+
+  // Personalization
+  generationInputs?: ISessionGenerationInputs;
+  completionFeedback?: ISessionCompletionFeedback;
+
   // User interaction metadata
   isCompleted: boolean;
   completedAt?: Date;
+  isFavorited: boolean;
+  isArchived: boolean;
+  archivedAt?: Date;
 
   // Timestamps
   createdAt: Date;
   updatedAt: Date;
 }
 
-const SessionStepSchema = new Schema<ISessionStep>(
+export const SessionStepSchema = new Schema<ISessionStep>(
   {
     StepNumber: {
       type: Number,
@@ -64,10 +131,106 @@ const SessionStepSchema = new Schema<ISessionStep>(
       type: String,
       required: false,
     },
+    TemperatureF: {
+      type: Number,
+      required: false,
+    },
   },
   { _id: false }, // Don't create _id for subdocuments
 );
 
+const SessionSafetyReviewSchema = new Schema<ISessionSafetyReview>(
+  {
+    rulesVersion: {
+      type: Number,
+      required: true,
+    },
+    reviewedAt: {
+      type: Date,
+      required: true,
+    },
+    productType: {
+      type: String,
+      enum: PRODUCT_TYPES,
+    },
+    userAge: {
+      type: Number,
+    },
+    modifications: {
+      type: [
+        new Schema<ISessionSafetyModification>(
+          {
+            rule: { type: String, required: true },
+            stepNumber: { type: Number, required: true },
+            message: { type: String, required: true },
+            before: Number,
+            after: Number,
+          },
+          { _id: false },
+        ),
+      ],
+      default: [],
+    },
+  },
+  { _id: false },
+);
+
+const SessionCompletionFeedbackSchema = new Schema<ISessionCompletionFeedback>(
+  {
+    steps: {
+      type: [
+        new Schema<ISessionStepFeedback>(
+          {
+            stepNumber: { type: Number, required: true },
+            skipped: { type: Boolean, required: true, default: false },
+            actualDurationSeconds: { type: Number, min: 0 },
+          },
+          { _id: false },
+        ),
+      ],
+      default: [],
+    },
+    rating: {
+      type: Number,
+      min: 1,
+      max: 5,
+    },
+    comment: {
+      type: String,
+    },
+    recordedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
+const SessionGenerationInputsSchema = new Schema<ISessionGenerationInputs>(
+  {
+    tags: { type: [String], default: [] },
+    goals: { type: [String], default: [] },
+    mood: String,
+    productType: {
+      type: String,
+      enum: PRODUCT_TYPES,
+    },
+    recentSessionIds: { type: [String], default: [] },
+    recoveryScore: Number,
+    recoveryTrend: {
+      type: String,
+      enum: RECOVERY_TRENDS,
+    },
+    personalization: String,
+    source: {
+      type: String,
+      enum: SESSION_SOURCES,
+    },
+    templateId: String,
+  },
+  { _id: false },
+);
+
 const SessionSchema = new Schema<ISession>(
   {
     sessionId: {
@@ -110,6 +273,23 @@ const SessionSchema = new Schema<ISession>(
       type: String,
       required: true,
     },
+    productType: {
+      type: String,
+      enum: PRODUCT_TYPES,
+      required: false,
+    },
+    safetyReview: {
+      type: SessionSafetyReviewSchema,
+      required: false,
+    },
+    generationInputs: {
+      type: SessionGenerationInputsSchema,
+      required: false,
+    },
+    completionFeedback: {
+      type: SessionCompletionFeedbackSchema,
+      required: false,
+    },
     isCompleted: {
       type: Boolean,
       required: true,
@@ -119,6 +299,20 @@ const SessionSchema = new Schema<ISession>(
       type: Date,
       required: false,
     },
+    isFavorited: {
+      type: Boolean,
+      required: true,
+      default: false,
+    },
+    isArchived: {
+      type: Boolean,
+      required: true,
+      default: false,
+    },
+    archivedAt: {
+      type: Date,
+      required: false,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -128,5 +322,6 @@ const SessionSchema = new Schema<ISession>(
 // Compound index for efficient queries
 SessionSchema.index({ firebaseUid: 1, createdAt: -1 });
 SessionSchema.index({ firebaseUid: 1, isCompleted: 1 });
+SessionSchema.index({ firebaseUid: 1, isFavorited: 1, isArchived: 1 });
 
 export const Session = mongoose.model<ISession>("Session", SessionSchema);
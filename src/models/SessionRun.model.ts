@@ -0,0 +1,177 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const SESSION_RUN_STATUSES = [
+  "in_progress",
+  "completed",
+  "abandoned",
+] as const;
+export type SessionRunStatus = (typeof SESSION_RUN_STATUSES)[number];
+
+export const RUN_STEP_STATUSES = [
+  "pending",
+  "started",
+  "skipped",
+  "completed",
+] as const;
+export type RunStepStatus = (typeof RUN_STEP_STATUSES)[number];
+
+// Progress of one session step within a run
+export interface ISessionRunStep {
+  stepNumber: number;
+  activity: string;
+  plannedDurationMinutes: number; // Snapshot of the step when the run started
+  status: RunStepStatus;
+  startedAt?: Date;
+  endedAt?: Date;
+  actualDurationSeconds?: number; // Reported by the client timer, excludes pauses
+}
+
+export interface ISessionRunPause {
+  stepNumber?: number;
+  pausedAt: Date;
+  resumedAt?: Date;
+}
+
+export interface ISessionRunRating {
+  score: number; // 1-5
+  comment?: string;
+  ratedAt: Date;
+}
+
+// One attempt at performing a guided session
+export interface ISessionRun extends Document {
+  runId: string;
+  sessionId: string;
+  firebaseUid: string;
+  status: SessionRunStatus;
+  startedAt: Date;
+  endedAt?: Date;
+  steps: ISessionRunStep[];
+  pauses: ISessionRunPause[];
+  totalActiveSeconds: number; // Sum of reported step durations
+  abandonReason?: string;
+  rating?: ISessionRunRating;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionRunStepSchema = new Schema<ISessionRunStep>(
+  {
+    stepNumber: {
+      type: Number,
+      required: true,
+    },
+    activity: {
+      type: String,
+      required: true,
+    },
+    plannedDurationMinutes: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: RUN_STEP_STATUSES,
+      required: true,
+      default: "pending",
+    },
+    startedAt: {
+      type: Date,
+    },
+    endedAt: {
+      type: Date,
+    },
+    actualDurationSeconds: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false },
+);
+
+const SessionRunPauseSchema = new Schema<ISessionRunPause>(
+  {
+    stepNumber: {
+      type: Number,
+    },
+    pausedAt: {
+      type: Date,
+      required: true,
+    },
+    resumedAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+const SessionRunSchema = new Schema<ISessionRun>(
+  {
+    runId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: SESSION_RUN_STATUSES,
+      required: true,
+      default: "in_progress",
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    steps: {
+      type: [SessionRunStepSchema],
+      default: [],
+    },
+    pauses: {
+      type: [SessionRunPauseSchema],
+      default: [],
+    },
+    totalActiveSeconds: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    abandonReason: {
+      type: String,
+      trim: true,
+    },
+    rating: {
+      type: new Schema<ISessionRunRating>(
+        {
+          score: { type: Number, required: true, min: 1, max: 5 },
+          comment: { type: String, trim: true },
+          ratedAt: { type: Date, required: true },
+        },
+        { _id: false },
+      ),
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Runs of a session, and a user's recent activity
+SessionRunSchema.index({ firebaseUid: 1, sessionId: 1, startedAt: -1 });
+SessionRunSchema.index({ firebaseUid: 1, startedAt: -1 });
+
+export const SessionRun = mongoose.model<ISessionRun>(
+  "SessionRun",
+  SessionRunSchema,
+);
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A recurring plan to perform a saved session, with reminders
+export interface ISessionSchedule extends Document {
+  scheduleId: string;
+  firebaseUid: string;
+  sessionId: string;
+  rrule: string; // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=7;BYMINUTE=0
+  timeZone: string; // IANA timezone the rule is evaluated in
+  startDate: string; // YYYY-MM-DD local date the schedule begins
+  endDate?: string; // YYYY-MM-DD local date, inclusive
+  reminderMinutesBefore: number;
+  isActive: boolean;
+  nextOccurrenceAt?: Date; // Unset once the schedule has ended
+  nextReminderAt?: Date;
+  lastRemindedAt?: Date;
+  lastReminderOccurrenceAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LOCAL_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const SessionScheduleSchema = new Schema<ISessionSchedule>(
+  {
+    scheduleId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    firebaseUid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    rrule: {
+      type: String,
+      required: true,
+    },
+    timeZone: {
+      type: String,
+      required: true,
+    },
+    startDate: {
+      type: String,
+      required: true,
+      match: LOCAL_DATE_PATTERN,
+    },
+    endDate: {
+      type: String,
+      match: LOCAL_DATE_PATTERN,
+    },
+    reminderMinutesBefore: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    nextOccurrenceAt: {
+      type: Date,
+    },
+    nextReminderAt: {
+      type: Date,
+    },
+    lastRemindedAt: {
+      type: Date,
+    },
+    lastReminderOccurrenceAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Scheduler worker: due reminders
+SessionScheduleSchema.index({ isActive: 1, nextReminderAt: 1 });
+// Schedules of a session
+SessionScheduleSchema.index({ firebaseUid: 1, sessionId: 1 });
+
+export const SessionSchedule = mongoose.model<ISessionSchedule>(
+  "SessionSchedule",
+  SessionScheduleSchema,
+);
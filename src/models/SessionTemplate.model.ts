@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ISessionStep, SessionStepSchema } from "./Session.model";
+import {
+  FOCUS_GOAL_KEYS,
+  FocusGoalKey,
+  PRODUCT_TYPES,
+  ProductType,
+  SESSION_INTENSITIES,
+  SessionIntensity,
+} from "../constants";
+
+// A vetted routine: browsable catalogue and fallback when AI generation fails
+export interface ISessionTemplate extends Document {
+  templateId: string;
+  name: string;
+  description: string;
+  productTypes: ProductType[]; // Products the steps use
+  goals: FocusGoalKey[];
+  intensity: SessionIntensity;
+  durationMinutes: number; // Sum of the step durations
+  steps: ISessionStep[];
+  tips: string[];
+  startMessage: string;
+  completionMessage: string;
+  isPublished: boolean; // Unpublished templates are only visible to admins
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionTemplateSchema = new Schema<ISessionTemplate>(
+  {
+    templateId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    productTypes: {
+      type: [{ type: String, enum: PRODUCT_TYPES }],
+      default: [],
+    },
+    goals: {
+      type: [{ type: String, enum: FOCUS_GOAL_KEYS }],
+      default: [],
+    },
+    intensity: {
+      type: String,
+      enum: SESSION_INTENSITIES,
+      required: true,
+      default: "moderate",
+    },
+    durationMinutes: {
+      type: Number,
+      required: true,
+    },
+    steps: {
+      type: [SessionStepSchema],
+      required: true,
+      default: [],
+    },
+    tips: {
+      type: [String],
+      default: [],
+    },
+    startMessage: {
+      type: String,
+      required: true,
+    },
+    completionMessage: {
+      type: String,
+      required: true,
+    },
+    isPublished: {
+      type: Boolean,
+      required: true,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Catalogue browsing and template selection
+SessionTemplateSchema.index({ isPublished: 1, productTypes: 1, goals: 1 });
+
+export const SessionTemplate = mongoose.model<ISessionTemplate>(
+  "SessionTemplate",
+  SessionTemplateSchema,
+);
@@ -1,16 +1,51 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { IHealthData } from "./HealthData.types";
+import {
+  FusionMetric,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  WearableConnectionEvent,
+  WearableSource,
+} from "../constants";
+
+export interface IWearableConnectionHistoryEntry {
+  event: WearableConnectionEvent;
+  reason?: string; // ROOK action or message, or "sync"
+  at: Date;
+}
 
 export interface IWearableConnection {
   id: string;
   name: string;
   type: "sdk" | "api";
   connected: boolean;
+  needsReauth?: boolean; // Access was lost; the user must connect it again
   lastSync?: Date;
   connectedAt?: Date;
+  revokedAt?: Date;
+  lastError?: { message: string; at: Date };
+  history?: IWearableConnectionHistoryEntry[]; // Oldest first, capped
   data: IHealthData | null;
 }
 
+export interface INotificationPreferences {
+  quietHours?: {
+    start: string; // HH:mm local time, e.g. "22:00"
+    end: string; // HH:mm, may be earlier than start (overnight)
+    timeZone: string;
+  };
+  optOuts: NotificationCategory[];
+}
+
+export interface IUserPreferences {
+  voiceId?: string;
+  voiceName?: string;
+  units?: string;
+  timezone?: string; // IANA timezone
+  // Preferred wearables per metric, most trusted first (see DEFAULT_SOURCE_PRIORITY)
+  sourcePriority?: Partial<Record<FusionMetric, WearableSource[]>>;
+}
+
 export interface IUser extends Document {
   firebaseUid: string;
   email: string;
@@ -28,6 +63,8 @@ export interface IUser extends Document {
   updatedAt: Date;
   lastLoginAt: Date;
   isActive: boolean;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date; // Data is purged after this, unless restored
   onboardingCompleted: boolean;
   profileCompleted: boolean;
   wearables?: Record<string, IWearableConnection>;
@@ -45,6 +82,8 @@ export interface IUser extends Document {
     customText?: string;
     selectedAt: Date;
   };
+  notificationPreferences?: INotificationPreferences;
+  preferences?: IUserPreferences;
 }
 
 const UserSchema = new Schema<IUser>(
@@ -135,6 +174,8 @@ const UserSchema = new Schema<IUser>(
       type: Boolean,
       default: true,
     },
+    deletionRequestedAt: { type: Date },
+    deletionScheduledFor: { type: Date },
     onboardingCompleted: { type: Boolean, default: false },
     profileCompleted: {
       type: Boolean,
@@ -170,6 +211,29 @@ const UserSchema = new Schema<IUser>(
       customText: String,
       selectedAt: { type: Date, default: Date.now },
     },
+    notificationPreferences: {
+      quietHours: {
+        type: new Schema(
+          {
+            start: { type: String, required: true, match: /^\d{2}:\d{2}$/ },
+            end: { type: String, required: true, match: /^\d{2}:\d{2}$/ },
+            timeZone: { type: String, required: true },
+          },
+          { _id: false },
+        ),
+      },
+      optOuts: {
+        type: [{ type: String, enum: NOTIFICATION_CATEGORIES }],
+        default: [],
+      },
+    },
+    preferences: {
+      voiceId: String,
+      voiceName: String,
+      units: String,
+      timezone: String,
+      sourcePriority: Schema.Types.Mixed,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,625 @@
+import { Router } from "express";
+import { AdminController } from "../controllers/admin.controller";
+import { SessionTemplateController } from "../controllers/sessionTemplate.controller";
+import {
+  requireRole,
+  verifyFirebaseToken,
+} from "../middleware/auth.middleware";
+import { auditAdminAction } from "../middleware/adminAudit.middleware";
+
+const router = Router();
+const adminController = new AdminController();
+const sessionTemplateController = new SessionTemplateController();
+
+// Staff only: a Firebase ID token with the `role` custom claim is required.
+// Every route is audited with auditAdminAction.
+router.use(verifyFirebaseToken);
+
+// ==================== USERS ====================
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     summary: Search users (support)
+ *     description: Matches email, name or phone (case-insensitive, partial) or an exact firebaseUid. Newest accounts first.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Matching users with pagination
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Requires the support or admin role
+ */
+router.get(
+  "/users",
+  requireRole("support"),
+  auditAdminAction("users.search"),
+  adminController.searchUsers,
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{firebaseUid}:
+ *   get:
+ *     summary: Get a user (support)
+ *     description: Profile without credentials, staff role and counts of sessions, runs, schedules, devices and webhooks.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: firebaseUid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User details
+ *       403:
+ *         description: Requires the support or admin role
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/users/:firebaseUid",
+  requireRole("support"),
+  auditAdminAction("users.get"),
+  adminController.getUser,
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{firebaseUid}/wearables:
+ *   get:
+ *     summary: Inspect wearable connections (support)
+ *     description: Stored connections with the newest daily summary per source, the ROOK user id and webhook counts by status with the last webhook received.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: firebaseUid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wearable connections
+ *       403:
+ *         description: Requires the support or admin role
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/users/:firebaseUid/wearables",
+  requireRole("support"),
+  auditAdminAction("users.wearables"),
+  adminController.getWearables,
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{firebaseUid}/sessions:
+ *   get:
+ *     summary: List a user's sessions (support)
+ *     description: Newest first, without steps. Use /api/admin/sessions/{sessionId} for the full session and its runs.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: firebaseUid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Sessions with pagination
+ *       403:
+ *         description: Requires the support or admin role
+ */
+router.get(
+  "/users/:firebaseUid/sessions",
+  requireRole("support"),
+  auditAdminAction("users.sessions"),
+  adminController.listSessions,
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{firebaseUid}/deactivate:
+ *   post:
+ *     summary: Deactivate an account (admin)
+ *     description: Marks the user inactive and disables them in Firebase Auth. Their data is kept.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: firebaseUid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User deactivated
+ *       403:
+ *         description: Requires the admin role
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  "/users/:firebaseUid/deactivate",
+  requireRole("admin"),
+  auditAdminAction("users.deactivate"),
+  adminController.deactivateUser,
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{firebaseUid}/role:
+ *   put:
+ *     summary: Set a staff role (admin)
+ *     description: Sets or clears (null) the `role` custom claim. It applies once the user's ID token refreshes (at most an hour). The first admin has to be set with the Firebase Admin SDK.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: firebaseUid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, support]
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Invalid role
+ *       403:
+ *         description: Requires the admin role
+ *       404:
+ *         description: User not found
+ */
+router.put(
+  "/users/:firebaseUid/role",
+  requireRole("admin"),
+  auditAdminAction("users.role"),
+  adminController.setRole,
+);
+
+// ==================== SESSIONS ====================
+
+/**
+ * @swagger
+ * /api/admin/sessions/{sessionId}:
+ *   get:
+ *     summary: Inspect a session (support)
+ *     description: The full session, including safety review and generation inputs, with all of its runs.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session and runs
+ *       403:
+ *         description: Requires the support or admin role
+ *       404:
+ *         description: Session not found
+ */
+router.get(
+  "/sessions/:sessionId",
+  requireRole("support"),
+  auditAdminAction("sessions.get"),
+  adminController.getSession,
+);
+
+// ==================== WEBHOOKS ====================
+
+/**
+ * @swagger
+ * /api/admin/webhooks:
+ *   get:
+ *     summary: Browse raw webhooks (support)
+ *     description: Newest first, without payloads.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: firebaseUid
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processed, failed]
+ *       - in: query
+ *         name: dataStructure
+ *         schema:
+ *           type: string
+ *           example: sleep_summary
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhooks with pagination
+ *       403:
+ *         description: Requires the support or admin role
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/webhooks",
+  requireRole("support"),
+  auditAdminAction("webhooks.list"),
+  adminController.listWebhooks,
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{webhookId}:
+ *   get:
+ *     summary: Get a raw webhook with its payload (support)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook
+ *       403:
+ *         description: Requires the support or admin role
+ *       404:
+ *         description: Webhook not found
+ */
+router.get(
+  "/webhooks/:webhookId",
+  requireRole("support"),
+  auditAdminAction("webhooks.get"),
+  adminController.getWebhook,
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/replay:
+ *   post:
+ *     summary: Replay raw webhooks (admin)
+ *     description: Re-enqueues matching raw webhooks for the webhook worker, oldest first, and increments their replayCount. Use after fixing a transformation bug. With dryRun (the default) nothing is queued; each payload is transformed with the current code and compared with the user's stored wearables data.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firebaseUid:
+ *                 type: string
+ *               externalUserId:
+ *                 type: string
+ *                 description: ROOK user id (MongoDB user id); not with firebaseUid
+ *               dataStructure:
+ *                 type: string
+ *                 example: sleep_summary
+ *               status:
+ *                 type: string
+ *                 enum: [pending, processed, failed]
+ *               errorContains:
+ *                 type: string
+ *                 example: No data extracted
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *               limit:
+ *                 type: integer
+ *                 default: 100
+ *                 maximum: 1000
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Dry run with the changes each webhook would make
+ *       202:
+ *         description: Webhooks queued for processing
+ *       400:
+ *         description: Invalid filters
+ *       403:
+ *         description: Requires the admin role
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  "/webhooks/replay",
+  requireRole("admin"),
+  auditAdminAction("webhooks.replay"),
+  adminController.replayWebhooks,
+);
+
+// ==================== AUDIT LOG ====================
+
+/**
+ * @swagger
+ * /api/admin/audit-log:
+ *   get:
+ *     summary: Browse the admin audit log (admin)
+ *     description: Every admin API request with who made it, the target user, parameters and response status. Newest first.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorUid
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: targetUid
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: users.deactivate
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Audit entries with pagination
+ *       403:
+ *         description: Requires the admin role
+ */
+router.get(
+  "/audit-log",
+  requireRole("admin"),
+  auditAdminAction("audit-log.list"),
+  adminController.listAuditLog,
+);
+
+// ==================== SESSION TEMPLATES ====================
+
+/**
+ * @swagger
+ * /api/admin/session-templates:
+ *   get:
+ *     summary: List all session templates (admin)
+ *     description: Every stored template, including unpublished ones.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Stored templates
+ *       403:
+ *         description: Requires the admin role
+ *   post:
+ *     summary: Create a session template (admin)
+ *     description: Steps must be valid and within the adult safety limits without adjustment. The total duration is computed from the steps.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - description
+ *               - productTypes
+ *               - steps
+ *               - startMessage
+ *               - completionMessage
+ *             properties:
+ *               templateId:
+ *                 type: string
+ *                 example: sauna-evening-rounds
+ *                 description: Generated when omitted
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               productTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [cold-plunge, hot-tub, sauna]
+ *               goals:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["stress-relief"]
+ *               intensity:
+ *                 type: string
+ *                 enum: [gentle, moderate, intense]
+ *               steps:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               tips:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               startMessage:
+ *                 type: string
+ *               completionMessage:
+ *                 type: string
+ *               isPublished:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Invalid template or steps outside safety limits
+ *       403:
+ *         description: Requires the admin role
+ *       409:
+ *         description: templateId already exists
+ */
+router.get(
+  "/session-templates",
+  requireRole("admin"),
+  auditAdminAction("session-templates.list"),
+  sessionTemplateController.listAllTemplates,
+);
+router.post(
+  "/session-templates",
+  requireRole("admin"),
+  auditAdminAction("session-templates.create"),
+  sessionTemplateController.createTemplate,
+);
+
+/**
+ * @swagger
+ * /api/admin/session-templates/seed:
+ *   post:
+ *     summary: Seed the built-in session templates (admin)
+ *     description: Copies the built-in templates into the database so they can be edited. Templates that already exist are left unchanged.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of templates added
+ *       403:
+ *         description: Requires the admin role
+ */
+router.post(
+  "/session-templates/seed",
+  requireRole("admin"),
+  auditAdminAction("session-templates.seed"),
+  sessionTemplateController.seedTemplates,
+);
+
+/**
+ * @swagger
+ * /api/admin/session-templates/{templateId}:
+ *   patch:
+ *     summary: Update a session template (admin)
+ *     description: Any template field except templateId. Set isPublished to false to hide a template from users and the fallback.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       400:
+ *         description: Invalid update or steps outside safety limits
+ *       403:
+ *         description: Requires the admin role
+ *       404:
+ *         description: Session template not found
+ *   delete:
+ *     summary: Delete a session template (admin)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       403:
+ *         description: Requires the admin role
+ *       404:
+ *         description: Session template not found
+ */
+router.patch(
+  "/session-templates/:templateId",
+  requireRole("admin"),
+  auditAdminAction("session-templates.update"),
+  sessionTemplateController.updateTemplate,
+);
+router.delete(
+  "/session-templates/:templateId",
+  requireRole("admin"),
+  auditAdminAction("session-templates.delete"),
+  sessionTemplateController.deleteTemplate,
+);
+
+export default router;
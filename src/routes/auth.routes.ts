@@ -43,6 +43,8 @@ const router = Router();
  *         description: User registered successfully
  *       400:
  *         description: Invalid input or user already exists
+ *       409:
+ *         description: Email already registered, or the account is scheduled for deletion (code ACCOUNT_PENDING_DELETION)
  */
 router.post("/register", asyncHandler(AuthController.register));
 
@@ -196,13 +198,13 @@ router.post("/request-otp", asyncHandler(AuthController.requestOTP));
  * /api/auth/delete-account:
  *   delete:
  *     summary: Delete user account
- *     description: Permanently delete user account and all associated data
+ *     description: Deactivates the account and schedules it for deletion after a 14-day grace period, during which the user can sign in and restore it with /api/auth/restore-account. After that, the account and all associated data (sessions, chat history, health and wearable data, ROOK registration, profile photo, data exports, caches) are permanently deleted.
  *     tags: [Authentication]
  *     security:
  *       - FirebaseAuth: []
  *     responses:
  *       200:
- *         description: Account deleted successfully
+ *         description: Account scheduled for deletion, with deletionScheduledFor
  *       401:
  *         description: Unauthorized
  *       404:
@@ -214,6 +216,29 @@ router.delete(
   asyncHandler(AuthController.deleteAccount),
 );
 
+/**
+ * @swagger
+ * /api/auth/restore-account:
+ *   post:
+ *     summary: Restore an account scheduled for deletion
+ *     description: Cancels a pending account deletion during its grace period and reactivates the account
+ *     tags: [Authentication]
+ *     security:
+ *       - FirebaseAuth: []
+ *     responses:
+ *       200:
+ *         description: Account restored
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No scheduled account deletion to cancel
+ */
+router.post(
+  "/restore-account",
+  verifyFirebaseToken,
+  asyncHandler(AuthController.restoreAccount),
+);
+
 /**
  * @swagger
  * /api/auth/forgot-password:
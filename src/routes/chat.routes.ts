@@ -1,9 +1,12 @@
 import { Router, Request, Response } from "express";
 import { ChatController } from "../controllers/chat.controller";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
 
 const router = Router();
 const chatController = new ChatController();
 
+router.use(verifyFirebaseToken);
+
 /**
  * @swagger
  * /api/chat/message:
@@ -24,6 +27,9 @@ const chatController = new ChatController();
  *               message:
  *                 type: string
  *                 example: How was my sleep last night?
+ *               conversationId:
+ *                 type: string
+ *                 description: Continue an existing conversation. The AI context (recent turns plus a rolling summary of older ones) is built from the stored conversation; client-provided chatHistory is ignored. A new conversation is started when omitted.
  *               userId:
  *                 type: string
  *                 description: Firebase UID
@@ -47,16 +53,63 @@ const chatController = new ChatController();
  *                 response:
  *                   type: string
  *                   description: AI text response
+ *                 conversationId:
+ *                   type: string
+ *                   description: Conversation the exchange was saved to
  *                 audioUrl:
  *                   type: string
  *                   description: URL to audio file (if useVoice is true)
  *       400:
  *         description: Invalid request
+ *       422:
+ *         description: The AI generated a session that failed validation (code SESSION_INVALID) or safety limits (code SESSION_UNSAFE) even after one repair attempt. Steps that only run long are shortened automatically and recorded in session.safetyReview.
  */
 router.post("/message", async (req: Request, res: Response) => {
   await chatController.sendMessage(req as any, res);
 });
 
+/**
+ * @swagger
+ * /api/chat/message/stream:
+ *   post:
+ *     summary: Stream AI assistant reply
+ *     description: Same as POST /api/chat/message but the reply is streamed as Server-Sent Events. `token` events carry text chunks, a `status` event is sent instead of tokens when the AI is generating a session, and a final `done` event carries the same payload as the non-streaming endpoint. An `error` event is sent if generation fails mid-stream. Closing the connection stops generation.
+ *     tags: [Chat]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *             properties:
+ *               message:
+ *                 type: string
+ *                 example: How was my sleep last night?
+ *               conversationId:
+ *                 type: string
+ *                 description: Continue an existing conversation
+ *     responses:
+ *       200:
+ *         description: Event stream of the AI reply
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: token
+ *                 data: {"content":"You slept"}
+ *
+ *                 event: done
+ *                 data: {"success":true,"response":"You slept 7h 20m.","conversationId":"..."}
+ *       400:
+ *         description: Invalid request
+ */
+router.post("/message/stream", async (req: Request, res: Response) => {
+  await chatController.streamMessage(req, res);
+});
+
 // Removed /health-context/:userId endpoint - now using real data from /api/health-data
 
 /**
@@ -104,7 +157,7 @@ router.post("/generate-plan", async (req: Request, res: Response) => {
  * /api/chat/create-session:
  *   post:
  *     summary: Create a guided wellness session
- *     description: Creates a personalized wellness session with timed steps based on user's health data and selected products
+ *     description: Creates a personalized wellness session with timed steps based on user's health data and selected products. Generation also takes into account the user's last sessions (skipped steps, ratings, actual durations) and recovery trend; what was used is stored on the session as generationInputs. If the AI provider fails, the session is built from the closest session template instead (source "template" with its templateId, see /api/session-templates/select). Each session is added to the user's library (oldest non-favorited sessions are removed once SESSION_RETENTION_LIMIT is exceeded); the returned SessionId is the stored sessionId.
  *     tags: [Chat]
  *     security:
  *       - bearerAuth: []
@@ -184,6 +237,8 @@ router.post("/generate-plan", async (req: Request, res: Response) => {
  *         description: Invalid request - missing tags
  *       401:
  *         description: Authentication required
+ *       422:
+ *         description: Generated session failed validation (code SESSION_INVALID) or safety limits (code SESSION_UNSAFE) even after one repair attempt. Steps that only run long are shortened automatically and recorded in session.safetyReview.
  *       500:
  *         description: Failed to create session
  */
@@ -195,8 +250,8 @@ router.post("/create-session", async (req: Request, res: Response) => {
  * @swagger
  * /api/chat/history/{userId}:
  *   get:
- *     summary: Get chat history (Coming Soon)
- *     description: Retrieve chat conversation history for a user
+ *     summary: Get chat history
+ *     description: Retrieve paginated messages for a conversation. Page 1 is the most recent page; messages within a page are oldest first. Without conversationId the latest conversation is returned.
  *     tags: [Chat]
  *     parameters:
  *       - in: path
@@ -204,25 +259,66 @@ router.post("/create-session", async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: conversationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
  *     responses:
  *       200:
- *         description: Chat history (feature coming soon)
+ *         description: Chat history page
+ *       403:
+ *         description: Cannot access another user's history
+ *       404:
+ *         description: Conversation not found
  */
-router.get("/history/:userId", async (req: Request, res: Response) => {
-  // TODO: Implement chat history retrieval
-  res.json({
-    success: true,
-    history: [],
-    message: "Chat history feature coming soon",
-  });
-});
+router.get("/history/:userId", chatController.getHistory);
+
+/**
+ * @swagger
+ * /api/chat/history/{userId}/conversations:
+ *   get:
+ *     summary: List chat conversations
+ *     description: List the user's conversations, most recently active first
+ *     tags: [Chat]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Conversation list
+ *       403:
+ *         description: Cannot access another user's history
+ */
+router.get("/history/:userId/conversations", chatController.getConversations);
 
 /**
  * @swagger
  * /api/chat/history/{userId}:
  *   delete:
- *     summary: Clear chat history (Coming Soon)
- *     description: Delete all chat conversation history for a user
+ *     summary: Clear chat history
+ *     description: Delete a single conversation when conversationId is given, otherwise all chat history for the user
  *     tags: [Chat]
  *     parameters:
  *       - in: path
@@ -230,16 +326,18 @@ router.get("/history/:userId", async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: conversationId
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Chat history cleared
+ *       403:
+ *         description: Cannot delete another user's history
+ *       404:
+ *         description: Conversation not found
  */
-router.delete("/history/:userId", async (req: Request, res: Response) => {
-  // TODO: Implement chat history clearing
-  res.json({
-    success: true,
-    message: "Chat history cleared",
-  });
-});
+router.delete("/history/:userId", chatController.deleteHistory);
 
 export default router;
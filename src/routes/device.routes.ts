@@ -0,0 +1,153 @@
+import { Router } from "express";
+import { DeviceController } from "../controllers/device.controller";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
+
+const router = Router();
+const deviceController = new DeviceController();
+
+router.use(verifyFirebaseToken);
+
+/**
+ * @swagger
+ * /api/devices:
+ *   post:
+ *     summary: Register a device for push notifications
+ *     description: Save or refresh the device's FCM registration token. Call on every app start - tokens rotate. A token moves to the latest user who registers it.
+ *     tags: [Devices]
+ *     security:
+ *       - FirebaseAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - platform
+ *             properties:
+ *               token:
+ *                 type: string
+ *               platform:
+ *                 type: string
+ *                 enum: [ios, android, web]
+ *               deviceName:
+ *                 type: string
+ *               appVersion:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Device registered
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/", deviceController.registerDevice);
+
+/**
+ * @swagger
+ * /api/devices:
+ *   get:
+ *     summary: List registered devices
+ *     tags: [Devices]
+ *     security:
+ *       - FirebaseAuth: []
+ *     responses:
+ *       200:
+ *         description: Devices, most recently seen first
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/", deviceController.getDevices);
+
+/**
+ * @swagger
+ * /api/devices/preferences:
+ *   get:
+ *     summary: Get notification preferences
+ *     description: Quiet hours and the notification categories the user opted out of
+ *     tags: [Devices]
+ *     security:
+ *       - FirebaseAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification preferences
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/preferences", deviceController.getPreferences);
+
+/**
+ * @swagger
+ * /api/devices/preferences:
+ *   patch:
+ *     summary: Update notification preferences
+ *     description: Set quiet hours (send null to remove them) and opt out of categories. Nothing but session reminders is sent during quiet hours.
+ *     tags: [Devices]
+ *     security:
+ *       - FirebaseAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quietHours:
+ *                 type: object
+ *                 nullable: true
+ *                 properties:
+ *                   start:
+ *                     type: string
+ *                     example: "22:00"
+ *                   end:
+ *                     type: string
+ *                     example: "07:00"
+ *                   timeZone:
+ *                     type: string
+ *                     example: America/New_York
+ *               optOuts:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [session_reminders, wearable_alerts, recovery_nudges, announcements]
+ *     responses:
+ *       200:
+ *         description: Updated preferences
+ *       400:
+ *         description: Invalid preferences
+ *       404:
+ *         description: User not found
+ *       401:
+ *         description: Authentication required
+ */
+router.patch("/preferences", deviceController.updatePreferences);
+
+/**
+ * @swagger
+ * /api/devices/{token}:
+ *   delete:
+ *     summary: Unregister a device
+ *     description: Stop sending push notifications to a device, e.g. on logout
+ *     tags: [Devices]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: FCM registration token (URL-encoded)
+ *     responses:
+ *       200:
+ *         description: Device unregistered
+ *       404:
+ *         description: Device not found
+ *       401:
+ *         description: Authentication required
+ */
+router.delete("/:token", deviceController.unregisterDevice);
+
+export default router;
@@ -7,10 +7,16 @@ import {
   syncRookConnections,
   // fetchRookHealthData, // DISABLED - using webhooks instead
   getRookAuthURL,
+  getRecoveryScores,
+  getHealthTrends,
+  getFusedHealthData,
 } from "../controllers/healthData.controller";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
 
 const router = Router();
 
+router.use(verifyFirebaseToken);
+
 /**
  * @swagger
  * /api/health-data:
@@ -107,6 +113,286 @@ router.get("/", getUnifiedHealthData);
  */
 router.get("/unified/:userId", getUnifiedHealthData);
 
+/**
+ * @swagger
+ * /api/health-data/fused:
+ *   get:
+ *     summary: Get fused health data for a day
+ *     description: |
+ *       One canonical set of health data built from all connected wearables. Each metric comes
+ *       from the user's preferred source (see sourcePriority in preferences, or the defaults);
+ *       a source whose data is much older than another's loses priority, and fields the preferred
+ *       source lacks are filled from the next one. `sources` maps every field to its wearable.
+ *     tags: [Health Data]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-firebase-uid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Day to fuse (YYYY-MM-DD), defaults to today
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *         description: IANA timezone, defaults to the user's preference or UTC
+ *     responses:
+ *       200:
+ *         description: Fused health data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     date:
+ *                       type: string
+ *                       example: 2025-10-02
+ *                     timeZone:
+ *                       type: string
+ *                     data:
+ *                       $ref: '#/components/schemas/HealthData'
+ *                     sources:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: string
+ *                       example:
+ *                         sleep.duration_minutes: oura
+ *                         physical.steps: apple
+ *                     wearables:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid date or timezone
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: User not found
+ */
+router.get("/fused", getFusedHealthData);
+
+/**
+ * @swagger
+ * /api/health-data/recovery:
+ *   get:
+ *     summary: Get daily recovery scores
+ *     description: |
+ *       H2Oasis recovery score (0-100) computed from all connected wearables.
+ *       Vendor scores (Oura readiness, Whoop recovery, Garmin body battery) are used when available;
+ *       otherwise the score is built from HRV, resting heart rate, sleep and activity load.
+ *       Today's score is recomputed from the latest data on every request.
+ *     tags: [Health Data]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-firebase-uid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 90
+ *           default: 30
+ *         description: Number of days of history to return
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *         description: IANA timezone used for day boundaries
+ *     responses:
+ *       200:
+ *         description: Recovery scores
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     timeZone:
+ *                       type: string
+ *                     today:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         date:
+ *                           type: string
+ *                           example: 2025-10-02
+ *                         score:
+ *                           type: number
+ *                           example: 72
+ *                         method:
+ *                           type: string
+ *                           enum: [vendor, metrics]
+ *                         components:
+ *                           type: object
+ *                           properties:
+ *                             hrv:
+ *                               type: number
+ *                             restingHeartRate:
+ *                               type: number
+ *                             sleep:
+ *                               type: number
+ *                             activityLoad:
+ *                               type: number
+ *                         wearables:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                     history:
+ *                       type: array
+ *                       description: Daily scores, oldest first
+ *                       items:
+ *                         type: object
+ *       400:
+ *         description: Invalid days or timezone
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/recovery", getRecoveryScores);
+
+/**
+ * @swagger
+ * /api/health-data/trends:
+ *   get:
+ *     summary: Get health metric trends
+ *     description: |
+ *       Daily series for one metric with 7- and 28-day rolling averages, a personal baseline
+ *       (mean and standard deviation over the last 28 days) and flags for anomalous days
+ *       (2+ standard deviations from the baseline of the days before).
+ *     tags: [Health Data]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-firebase-uid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: metric
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [sleep_duration, sleep_efficiency, hrv_rmssd, resting_hr, steps, strain, body_battery]
+ *       - in: query
+ *         name: range
+ *         schema:
+ *           type: string
+ *           default: 30d
+ *         description: Number of days ending today, from 7d to 365d
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *         description: IANA timezone used for day boundaries
+ *       - in: query
+ *         name: analyze
+ *         schema:
+ *           type: boolean
+ *         description: Include a short AI-written summary of the trend
+ *     responses:
+ *       200:
+ *         description: Metric trend
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     metric:
+ *                       type: string
+ *                       example: hrv_rmssd
+ *                     unit:
+ *                       type: string
+ *                       example: ms
+ *                     from:
+ *                       type: string
+ *                     to:
+ *                       type: string
+ *                     series:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                           value:
+ *                             type: number
+ *                             nullable: true
+ *                           average7d:
+ *                             type: number
+ *                             nullable: true
+ *                           average28d:
+ *                             type: number
+ *                             nullable: true
+ *                           zScore:
+ *                             type: number
+ *                             nullable: true
+ *                           anomaly:
+ *                             type: boolean
+ *                     baseline:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         mean:
+ *                           type: number
+ *                         standardDeviation:
+ *                           type: number
+ *                         days:
+ *                           type: integer
+ *                     latest:
+ *                       type: object
+ *                       nullable: true
+ *                     direction:
+ *                       type: string
+ *                       enum: [up, down, flat]
+ *                       nullable: true
+ *                     improving:
+ *                       type: boolean
+ *                       nullable: true
+ *                     anomalies:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     analysis:
+ *                       type: string
+ *                       description: Only when analyze=true
+ *       400:
+ *         description: Invalid metric, range or timezone
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/trends", getHealthTrends);
+
 /**
  * @swagger
  * /api/health-data/preferences:
@@ -131,11 +417,45 @@ router.get("/unified/:userId", getUnifiedHealthData);
  *                 type: string
  *               timezone:
  *                 type: string
+ *                 example: America/New_York
+ *               sourcePriority:
+ *                 type: object
+ *                 description: |
+ *                   Preferred wearables per metric, most trusted first. Used when fusing data from
+ *                   several wearables. An empty list restores the default order.
+ *                 properties:
+ *                   sleep:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: [apple, samsung, garmin, fitbit, whoop, oura, polar]
+ *                   heart_rate:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   hrv:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   activity:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   body:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                 example:
+ *                   sleep: [oura, apple]
  *     responses:
  *       200:
  *         description: Preferences updated successfully
+ *       400:
+ *         description: Invalid timezone or source priority
  *       401:
  *         description: Authentication required
+ *       404:
+ *         description: User not found
  */
 router.put("/preferences", updateHealthDataPreferences);
 
@@ -188,7 +508,7 @@ router.post("/wearable-connection", updateWearableConnection);
  * /api/health-data/wearable-connections:
  *   get:
  *     summary: Get all wearable connections
- *     description: Retrieve connection status for all wearable devices
+ *     description: Retrieve connection status for all wearable devices. needsReauth is true when a wearable lost access (revoked, or ROOK reported an error) and must be connected again; history lists recent connection events with timestamps and reasons.
  *     tags: [Health Data]
  *     security:
  *       - FirebaseAuth: []
@@ -205,28 +525,17 @@ router.get("/wearable-connections", getWearableConnections);
  * /api/health-data/sync-rook:
  *   post:
  *     summary: Sync connections from ROOK API
- *     description: Fetch wearable connection statuses from ROOK API and sync to database
+ *     description: Fetch the signed-in user's wearable connection statuses from ROOK API and sync to database. Changes are added to each wearable's connection history.
  *     tags: [Health Data]
  *     security:
  *       - FirebaseAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - mongoUserId
- *             properties:
- *               mongoUserId:
- *                 type: string
- *                 description: MongoDB User ID used in ROOK
- *                 example: 68da80c9ffda7e51bd9ac167
  *     responses:
  *       200:
  *         description: ROOK connections synced successfully
  *       401:
  *         description: Authentication required
+ *       404:
+ *         description: User not found
  */
 router.post("/sync-rook", syncRookConnections);
 
@@ -246,13 +555,8 @@ router.post("/sync-rook", syncRookConnections);
  *           schema:
  *             type: object
  *             required:
- *               - mongoUserId
  *               - dataSource
  *             properties:
- *               mongoUserId:
- *                 type: string
- *                 description: MongoDB User ID used in ROOK
- *                 example: 68da80c9ffda7e51bd9ac167
  *               dataSource:
  *                 type: string
  *                 description: Wearable data source
@@ -279,6 +583,8 @@ router.post("/sync-rook", syncRookConnections);
  *                       type: boolean
  *       401:
  *         description: Authentication required
+ *       404:
+ *         description: User not found
  */
 router.post("/rook-auth-url", getRookAuthURL);
 
@@ -298,13 +604,8 @@ router.post("/rook-auth-url", getRookAuthURL);
  *           schema:
  *             type: object
  *             required:
- *               - mongoUserId
  *               - dataSource
  *             properties:
- *               mongoUserId:
- *                 type: string
- *                 description: MongoDB User ID used in ROOK
- *                 example: 68da80c9ffda7e51bd9ac167
  *               dataSource:
  *                 type: string
  *                 description: Wearable data source
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { InsightsController } from "../controllers/insights.controller";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
+
+const router = Router();
+const insightsController = new InsightsController();
+
+router.use(verifyFirebaseToken);
+
+/**
+ * @swagger
+ * /api/insights:
+ *   get:
+ *     summary: Get session insights
+ *     description: Compares the night after days with completed sessions (per product, and any session) with nights after days without one, over the last 90 days. Each effect has the difference in means, a 95% interval, sample sizes and a confidence level. Effects with fewer than 3 nights on either side are left out. Cached for an hour.
+ *     tags: [Insights]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *           example: Europe/Amsterdam
+ *         description: IANA timezone for day boundaries (defaults to the user's preference, then UTC)
+ *     responses:
+ *       200:
+ *         description: Effects, most confident and strongest first
+ *       400:
+ *         description: Invalid timezone
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: User not found
+ */
+router.get("/", insightsController.getInsights);
+
+export default router;
@@ -1,10 +1,12 @@
 import { Router } from "express";
 import { ProfileController } from "../controllers/profile.controller";
+import { DataExportController } from "../controllers/dataExport.controller";
 import { verifyFirebaseToken } from "../middleware/auth.middleware";
 import { asyncHandler } from "../middleware/essential.middleware";
 import upload from "../utils/blobStorage";
 
 const router = Router();
+const dataExportController = new DataExportController();
 
 // Update profile fields (fullName, dateOfBirth, gender)
 router.patch(
@@ -28,4 +30,53 @@ router.delete(
   asyncHandler(ProfileController.deleteProfilePicture),
 );
 
+/**
+ * @swagger
+ * /api/profile/export:
+ *   post:
+ *     summary: Export all of the user's data
+ *     description: Starts a background export of the profile, focus goal and product selections, wearable connections and data (including raw wearable webhooks), sessions and chat history as a zip of JSON and CSV files. A time-limited download link is emailed to the user when it is ready. While an export is in progress it is returned instead of starting another.
+ *     tags: [Profile]
+ *     security:
+ *       - FirebaseAuth: []
+ *     responses:
+ *       202:
+ *         description: Export started
+ *       200:
+ *         description: An export is already in progress
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: User not found
+ */
+router.post("/export", verifyFirebaseToken, dataExportController.requestExport);
+
+/**
+ * @swagger
+ * /api/profile/export/{jobId}:
+ *   get:
+ *     summary: Get the status of a data export
+ *     tags: [Profile]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export status (pending, processing, completed, failed or expired), record counts and link expiry
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Export not found
+ */
+router.get(
+  "/export/:jobId",
+  verifyFirebaseToken,
+  dataExportController.getExport,
+);
+
 export default router;
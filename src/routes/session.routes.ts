@@ -1,9 +1,13 @@
 import { Router } from "express";
 import { SessionController } from "../controllers/session.controller";
+import sessionRunRoutes from "./sessionRun.routes";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
 
 const router = Router();
 const sessionController = new SessionController();
 
+router.use(verifyFirebaseToken);
+
 /**
  * @swagger
  * /api/sessions:
@@ -56,7 +60,9 @@ const sessionController = new SessionController();
  *       201:
  *         description: Session saved successfully
  *       400:
- *         description: Missing required fields
+ *         description: Missing required fields, or the session failed validation (step numbering, durations, total, exposure limits)
+ *       422:
+ *         description: A step temperature is outside the safe range for its product (code SESSION_UNSAFE). Over-long steps are shortened and rest is added between cold and heat instead; those changes are recorded in safetyReview.
  *       401:
  *         description: Authentication required
  */
@@ -67,7 +73,7 @@ router.post("/", sessionController.saveSession);
  * /api/sessions:
  *   get:
  *     summary: Get all sessions for user
- *     description: Retrieve all sessions for the authenticated user with optional filters
+ *     description: Browse the user's session library with optional filters. Archived sessions are excluded unless `archived` is set.
  *     tags: [Sessions]
  *     security:
  *       - FirebaseAuth: []
@@ -82,6 +88,13 @@ router.post("/", sessionController.saveSession);
  *         schema:
  *           type: boolean
  *         description: Filter by completion status
+ *       - in: query
+ *         name: archived
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false", "all"]
+ *           default: "false"
+ *         description: Show only archived sessions (true), only active ones (false), or both (all)
  *     responses:
  *       200:
  *         description: List of sessions
@@ -95,13 +108,23 @@ router.get("/", sessionController.getSessions);
  * /api/sessions/stats:
  *   get:
  *     summary: Get session statistics
- *     description: Get statistics about user's sessions (total, favorited, completed, pending)
+ *     description: Get statistics about user's sessions - library counts (total, completed, pending, favorited, archived), current and longest daily streak, minutes per week and month, breakdown by product type and activity, and average run rating
  *     tags: [Sessions]
  *     security:
  *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *           example: America/New_York
+ *         description: IANA timezone used for day, week and month boundaries
  *     responses:
  *       200:
  *         description: Session statistics
+ *       400:
+ *         description: Invalid timezone
  *       401:
  *         description: Authentication required
  */
@@ -160,15 +183,46 @@ router.get("/:sessionId", sessionController.getSessionById);
  *                 type: string
  *               TotalDurationMinutes:
  *                 type: number
+ *                 description: Only accepted together with Steps; recalculated from Steps when omitted
  *               Steps:
  *                 type: array
  *               isFavorited:
  *                 type: boolean
+ *               isArchived:
+ *                 type: boolean
+ *                 description: Archive or restore a session. Archived sessions are pruned first when the library exceeds the retention limit.
  *               isCompleted:
  *                 type: boolean
+ *               completionFeedback:
+ *                 type: object
+ *                 description: How the session went, sent with isCompleted true. Used for stats and to personalize the next generated session.
+ *                 properties:
+ *                   steps:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       required:
+ *                         - stepNumber
+ *                       properties:
+ *                         stepNumber:
+ *                           type: integer
+ *                         skipped:
+ *                           type: boolean
+ *                         actualDurationSeconds:
+ *                           type: number
+ *                   rating:
+ *                     type: integer
+ *                     minimum: 1
+ *                     maximum: 5
+ *                   comment:
+ *                     type: string
  *     responses:
  *       200:
  *         description: Session updated successfully
+ *       400:
+ *         description: No valid fields, the edited steps failed validation, or invalid completion feedback
+ *       422:
+ *         description: An edited step temperature is outside the safe range for its product (code SESSION_UNSAFE)
  *       404:
  *         description: Session not found
  *       401:
@@ -181,7 +235,7 @@ router.patch("/:sessionId", sessionController.updateSession);
  * /api/sessions/{sessionId}:
  *   delete:
  *     summary: Delete a session
- *     description: Delete a session for the authenticated user
+ *     description: Delete a session and its runs and schedules for the authenticated user
  *     tags: [Sessions]
  *     security:
  *       - FirebaseAuth: []
@@ -202,4 +256,7 @@ router.patch("/:sessionId", sessionController.updateSession);
  */
 router.delete("/:sessionId", sessionController.deleteSession);
 
+// Runs of a session (start, step progress, completion, rating)
+router.use("/:sessionId/runs", sessionRunRoutes);
+
 export default router;
@@ -0,0 +1,303 @@
+import { Router } from "express";
+import { SessionRunController } from "../controllers/sessionRun.controller";
+
+// Mounted under /api/sessions/:sessionId/runs
+const router = Router({ mergeParams: true });
+const sessionRunController = new SessionRunController();
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs:
+ *   post:
+ *     summary: Start a session run
+ *     description: Start performing a session. The session steps are copied onto the run so later edits don't change its history. A session can have many runs.
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startedAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Device time the run started, defaults to now
+ *     responses:
+ *       201:
+ *         description: Run started
+ *       404:
+ *         description: Session not found
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/", sessionRunController.startRun);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs:
+ *   get:
+ *     summary: List session runs
+ *     description: Runs of a session, most recent first
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated list of runs
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/", sessionRunController.getRuns);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs/{runId}:
+ *   get:
+ *     summary: Get a session run
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Run details with per-step progress
+ *       404:
+ *         description: Run not found
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/:runId", sessionRunController.getRunById);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs/{runId}/events:
+ *   post:
+ *     summary: Record a run event
+ *     description: Record a step being started, skipped or finished, or the run being paused or resumed. When a finished step has no actualDurationSeconds it is measured from its start, excluding pauses.
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [step_started, step_skipped, step_finished, paused, resumed]
+ *               stepNumber:
+ *                 type: integer
+ *                 description: Required for step events
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Device time of the event, defaults to now
+ *               actualDurationSeconds:
+ *                 type: number
+ *                 description: Time actually spent on the step, from the client timer
+ *     responses:
+ *       200:
+ *         description: Updated run
+ *       400:
+ *         description: Invalid event
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is no longer in progress, the step is not in the run, or the pause state doesn't match
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/:runId/events", sessionRunController.recordEvent);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs/{runId}/complete:
+ *   post:
+ *     summary: Complete a session run
+ *     description: Finish the run, optionally with a rating. The session is marked as completed.
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *               rating:
+ *                 type: object
+ *                 properties:
+ *                   score:
+ *                     type: integer
+ *                     minimum: 1
+ *                     maximum: 5
+ *                   comment:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Run completed
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is no longer in progress
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/:runId/complete", sessionRunController.completeRun);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs/{runId}/abandon:
+ *   post:
+ *     summary: Abandon a session run
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *                 example: Felt too cold
+ *     responses:
+ *       200:
+ *         description: Run abandoned
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is no longer in progress
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/:runId/abandon", sessionRunController.abandonRun);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/runs/{runId}/rating:
+ *   post:
+ *     summary: Rate a session run
+ *     description: Post-session rating for a completed or abandoned run. Replaces any earlier rating.
+ *     tags: [Session Runs]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - score
+ *             properties:
+ *               score:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rating saved
+ *       400:
+ *         description: Invalid rating
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is still in progress
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/:runId/rating", sessionRunController.rateRun);
+
+export default router;
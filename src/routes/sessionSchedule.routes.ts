@@ -0,0 +1,185 @@
+import { Router } from "express";
+import { SessionScheduleController } from "../controllers/sessionSchedule.controller";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
+
+const router = Router();
+const sessionScheduleController = new SessionScheduleController();
+
+router.use(verifyFirebaseToken);
+
+/**
+ * @swagger
+ * /api/schedules:
+ *   post:
+ *     summary: Schedule a session
+ *     description: |
+ *       Plan a saved session on a recurring schedule with a reminder before each occurrence.
+ *       Recurrence uses an RRULE subset (FREQ=DAILY|WEEKLY, INTERVAL, BYDAY, BYHOUR, BYMINUTE)
+ *       evaluated in the given timezone.
+ *     tags: [Schedules]
+ *     security:
+ *       - FirebaseAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionId
+ *               - rrule
+ *               - timeZone
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *               rrule:
+ *                 type: string
+ *                 example: FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=7;BYMINUTE=0
+ *               timeZone:
+ *                 type: string
+ *                 example: America/New_York
+ *               startDate:
+ *                 type: string
+ *                 example: "2026-10-19"
+ *                 description: Local date the schedule begins, defaults to today
+ *               endDate:
+ *                 type: string
+ *                 example: "2026-12-31"
+ *                 description: Last local date of the schedule (inclusive)
+ *               reminderMinutesBefore:
+ *                 type: integer
+ *                 default: 15
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Schedule created, with its next occurrence and reminder time
+ *       400:
+ *         description: Invalid rule, timezone or dates, or too many schedules
+ *       404:
+ *         description: Session not found
+ *       401:
+ *         description: Authentication required
+ */
+router.post("/", sessionScheduleController.createSchedule);
+
+/**
+ * @swagger
+ * /api/schedules:
+ *   get:
+ *     summary: List schedules
+ *     description: All schedules for the user, soonest next occurrence first
+ *     tags: [Schedules]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sessionId
+ *         schema:
+ *           type: string
+ *         description: Only schedules for this session
+ *     responses:
+ *       200:
+ *         description: List of schedules
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/", sessionScheduleController.getSchedules);
+
+/**
+ * @swagger
+ * /api/schedules/{scheduleId}:
+ *   get:
+ *     summary: Get a schedule
+ *     tags: [Schedules]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule details
+ *       404:
+ *         description: Schedule not found
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/:scheduleId", sessionScheduleController.getScheduleById);
+
+/**
+ * @swagger
+ * /api/schedules/{scheduleId}:
+ *   patch:
+ *     summary: Update a schedule
+ *     description: Change the recurrence, timezone, dates or reminder, or pause with isActive false. The next occurrence is recalculated. Send endDate null to remove the end date.
+ *     tags: [Schedules]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rrule:
+ *                 type: string
+ *               timeZone:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *               endDate:
+ *                 type: string
+ *                 nullable: true
+ *               reminderMinutesBefore:
+ *                 type: integer
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       400:
+ *         description: Invalid rule, timezone or dates
+ *       404:
+ *         description: Schedule not found
+ *       401:
+ *         description: Authentication required
+ */
+router.patch("/:scheduleId", sessionScheduleController.updateSchedule);
+
+/**
+ * @swagger
+ * /api/schedules/{scheduleId}:
+ *   delete:
+ *     summary: Delete a schedule
+ *     tags: [Schedules]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule deleted
+ *       404:
+ *         description: Schedule not found
+ *       401:
+ *         description: Authentication required
+ */
+router.delete("/:scheduleId", sessionScheduleController.deleteSchedule);
+
+export default router;
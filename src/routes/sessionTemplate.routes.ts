@@ -0,0 +1,120 @@
+import { Router } from "express";
+import { SessionTemplateController } from "../controllers/sessionTemplate.controller";
+import { verifyFirebaseToken } from "../middleware/auth.middleware";
+
+const router = Router();
+const sessionTemplateController = new SessionTemplateController();
+
+router.use(verifyFirebaseToken);
+
+/**
+ * @swagger
+ * /api/session-templates:
+ *   get:
+ *     summary: Browse session templates
+ *     description: Published, vetted routines, shortest first. The built-in templates are returned until templates are added to the database.
+ *     tags: [Session Templates]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: product
+ *         schema:
+ *           type: string
+ *           enum: [cold-plunge, hot-tub, sauna]
+ *       - in: query
+ *         name: goal
+ *         schema:
+ *           type: string
+ *           example: stress-relief
+ *         description: Focus goal key
+ *       - in: query
+ *         name: intensity
+ *         schema:
+ *           type: string
+ *           enum: [gentle, moderate, intense]
+ *       - in: query
+ *         name: maxDuration
+ *         schema:
+ *           type: number
+ *         description: Longest total duration in minutes
+ *     responses:
+ *       200:
+ *         description: Matching templates
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/", sessionTemplateController.listTemplates);
+
+/**
+ * @swagger
+ * /api/session-templates/select:
+ *   post:
+ *     summary: Preview a session built from a template
+ *     description: Picks the template that best matches the tags, goals and mood - the same inputs as /api/chat/create-session - and builds a session from it, exactly as the fallback does when AI generation fails. The same inputs always pick the same template. The session is not saved.
+ *     tags: [Session Templates]
+ *     security:
+ *       - FirebaseAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["Sauna", "Cold Plunge"]
+ *               goals:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["Training Recovery"]
+ *               mood:
+ *                 type: string
+ *                 example: "energized"
+ *     responses:
+ *       200:
+ *         description: Session built from the template, with source "template" and its templateId
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: No template uses the requested products
+ *       422:
+ *         description: Session exceeded safety limits for this user
+ */
+router.post("/select", sessionTemplateController.selectTemplate);
+
+/**
+ * @swagger
+ * /api/session-templates/{templateId}:
+ *   get:
+ *     summary: Get a session template
+ *     tags: [Session Templates]
+ *     security:
+ *       - FirebaseAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Session template not found
+ */
+router.get("/:templateId", sessionTemplateController.getTemplate);
+
+export default router;
@@ -83,7 +83,7 @@ router.post("/health-data", handleRookHealthDataWebhook);
  * /api/webhooks/rook/notifications:
  *   post:
  *     summary: ROOK Notification Webhook
- *     description: Receives connection status updates and user lifecycle events from ROOK
+ *     description: Receives connection status updates and user lifecycle events from ROOK. Connection events set wearables.<source>.connected and needsReauth and are added to the wearable's connection history; error-level notifications flag the wearable for reauthorization; user_deleted disconnects every ROOK wearable. The user's wearables cache is cleared on every change.
  *     tags: [Webhooks]
  *     security: []
  *     parameters:
@@ -106,9 +106,18 @@ router.post("/health-data", handleRookHealthDataWebhook);
  *               data_source:
  *                 type: string
  *                 description: Wearable data source
- *               event_type:
+ *               action:
  *                 type: string
  *                 enum: [connection_established, connection_revoked, user_created, user_deleted]
+ *               event_type:
+ *                 type: string
+ *                 description: Accepted in place of action
+ *               level:
+ *                 type: string
+ *                 description: Notification level; "error" flags the wearable for reauthorization
+ *               message:
+ *                 type: string
+ *                 description: Recorded as the reason in the connection history
  *               timestamp:
  *                 type: string
  *                 format: date-time
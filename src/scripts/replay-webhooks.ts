@@ -0,0 +1,138 @@
+/**
+ * Replay Raw Webhooks
+ *
+ * Re-enqueues stored ROOK webhooks for the webhook worker, e.g. after
+ * fixing a bug in TransformerUtils. Dry run by default: payloads are
+ * transformed with the current code and compared with the stored user
+ * data, and nothing is queued. Pass --execute to queue them.
+ *
+ * USAGE:
+ *   npm run webhooks:replay:dev -- --data-structure sleep_summary \
+ *     --from 2026-01-01 --status failed
+ *   npm run webhooks:replay:dev -- --firebase-uid <uid> --execute
+ *
+ * OPTIONS:
+ *   --firebase-uid <uid>      Webhooks of one user
+ *   --user-id <id>            Webhooks of one ROOK user (MongoDB user id)
+ *   --data-structure <name>   e.g. sleep_summary, physical_summary
+ *   --status <status>         pending | processed | failed
+ *   --error <text>            Stored error contains text (case-insensitive)
+ *   --from <date>             Received at or after (ISO date)
+ *   --to <date>               Received at or before (ISO date)
+ *   --limit <n>               Max webhooks, oldest first (default 100)
+ *   --execute                 Queue the webhooks instead of a dry run
+ *   --json                    Print the full result as JSON
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from "dotenv";
+dotenv.config();
+
+import { parseArgs } from "util";
+import { z } from "zod";
+import { DatabaseService } from "../utils/database";
+import { closeQueue } from "../config/queue";
+import { WebhookReplayService } from "../services/webhookReplay.service";
+import { WebhookReplayRequestSchema } from "../utils/webhookReplay.utils";
+
+const MAX_PRINTED_CHANGES = 10;
+
+function parseRequest(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      "firebase-uid": { type: "string" },
+      "user-id": { type: "string" },
+      "data-structure": { type: "string" },
+      status: { type: "string" },
+      error: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      limit: { type: "string" },
+      execute: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const request = WebhookReplayRequestSchema.parse({
+    firebaseUid: values["firebase-uid"],
+    externalUserId: values["user-id"],
+    dataStructure: values["data-structure"],
+    status: values.status,
+    errorContains: values.error,
+    from: values.from,
+    to: values.to,
+    limit: values.limit,
+    dryRun: !values.execute,
+  });
+
+  return { request, json: values.json };
+}
+
+async function main(): Promise<void> {
+  const { request, json } = parseRequest(process.argv.slice(2));
+  const { dryRun, ...filters } = request;
+
+  await DatabaseService.connect();
+
+  try {
+    const result = await new WebhookReplayService().replay(filters, dryRun);
+
+    if (!result) {
+      console.error(`❌ User not found: ${filters.firebaseUid}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log(
+      `\n🔁 ${dryRun ? "DRY RUN - nothing queued" : "REPLAY"}: ${result.matched} webhook(s) matched\n`,
+    );
+
+    for (const item of result.webhooks) {
+      const receivedAt = new Date(item.receivedAt).toISOString();
+      console.log(
+        `${item.webhookId} ${receivedAt} ${item.dataStructure} ${item.wearableName} user=${item.externalUserId} replays=${item.replayCount} → ${item.outcome}${item.reason ? ` (${item.reason})` : ""}`,
+      );
+
+      if (item.changes) {
+        if (item.changes.length === 0) {
+          console.log("   no changes");
+        }
+        for (const change of item.changes.slice(0, MAX_PRINTED_CHANGES)) {
+          console.log(
+            `   ${item.dataType}.${change.field}: ${JSON.stringify(change.current)} → ${JSON.stringify(change.replayed)}`,
+          );
+        }
+        if (item.changes.length > MAX_PRINTED_CHANGES) {
+          console.log(
+            `   ... ${item.changes.length - MAX_PRINTED_CHANGES} more (use --json)`,
+          );
+        }
+      }
+    }
+
+    if (!dryRun) {
+      console.log(`\n📤 Queued ${result.queued} of ${result.matched}`);
+      if (result.queued < result.matched) process.exitCode = 1;
+    }
+  } finally {
+    await closeQueue();
+    await DatabaseService.disconnect();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    if (error instanceof z.ZodError) {
+      console.error(`❌ ${error.errors[0].message}`);
+    } else {
+      console.error("💥 Webhook replay failed:", error);
+    }
+    process.exit(1);
+  });
+}
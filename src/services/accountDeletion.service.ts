@@ -0,0 +1,341 @@
+import { v4 as uuidv4 } from "uuid";
+import { ACCOUNT_DELETION } from "../constants";
+import {
+  AccountDeletion,
+  IAccountDeletion,
+} from "../models/AccountDeletion.model";
+import { ChatConversation } from "../models/ChatConversation.model";
+import { ChatMessage } from "../models/ChatMessage.model";
+import { DeviceToken } from "../models/DeviceToken.model";
+import { ExportJob } from "../models/ExportJob.model";
+import { HealthDailySummary } from "../models/HealthDailySummary.model";
+import { PasswordReset } from "../models/PasswordReset.model";
+import { QueueMessage } from "../models/QueueMessage.model";
+import { RawWebhook } from "../models/RawWebhook.model";
+import { RecoveryScore } from "../models/RecoveryScore.model";
+import { Session } from "../models/Session.model";
+import { SessionRun } from "../models/SessionRun.model";
+import { SessionSchedule } from "../models/SessionSchedule.model";
+import { User } from "../models/User.model";
+import { deleteFromAzureBlob, isAzureBlobUrl } from "../utils/blobStorage";
+import { admin } from "../utils/firebase";
+import redisClient from "../utils/redis";
+import { deleteRookUser } from "./rook.service";
+import { ttsService } from "./tts.service";
+
+/**
+ * Account Deletion Service
+ *
+ * Deleting an account first deactivates it for a grace period, during which
+ * the user can sign in and restore it. Afterwards the account deletion
+ * worker purges the user from every store and keeps the AccountDeletion
+ * record as a tombstone listing what was removed.
+ *
+ * Every purge step is idempotent, so a failed purge is simply run again.
+ * Admin audit log entries about the user are kept.
+ */
+export class AccountDeletionService {
+  /**
+   * Deactivate the account and schedule its purge.
+   * Asking again while a deletion is scheduled returns the existing one.
+   * Returns null if the user doesn't exist.
+   */
+  async scheduleDeletion(
+    firebaseUid: string,
+    now: Date = new Date(),
+  ): Promise<IAccountDeletion | null> {
+    const user = await User.findOne({ firebaseUid });
+    if (!user) return null;
+
+    const pending = await this.getPendingDeletion(firebaseUid);
+    if (pending) return pending;
+
+    const scheduledFor = new Date(
+      now.getTime() + ACCOUNT_DELETION.GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const deletion = await AccountDeletion.create({
+      deletionId: uuidv4(),
+      firebaseUid,
+      userId: String(user._id),
+      status: "scheduled",
+      requestedAt: now,
+      scheduledFor,
+    });
+
+    user.isActive = false;
+    user.deletionRequestedAt = now;
+    user.deletionScheduledFor = scheduledFor;
+    await user.save();
+
+    await redisClient.del(`user:${user.email.toLowerCase()}`).catch(() => {});
+
+    // Sign out every device; the user can still sign in again to restore
+    try {
+      await admin.auth().revokeRefreshTokens(firebaseUid);
+    } catch (error) {
+      console.error(`⚠️ Failed to revoke tokens for ${firebaseUid}:`, error);
+    }
+
+    console.log(
+      `🗑️ Account ${firebaseUid} scheduled for deletion on ${scheduledFor.toISOString()}`,
+    );
+    return deletion;
+  }
+
+  /**
+   * Cancel a scheduled deletion and reactivate the account.
+   * Returns null if no deletion is waiting (never requested, or the purge
+   * has already started).
+   */
+  async restoreAccount(firebaseUid: string): Promise<IAccountDeletion | null> {
+    const deletion = await AccountDeletion.findOneAndUpdate(
+      { firebaseUid, status: "scheduled", purgeStartedAt: { $exists: false } },
+      { status: "restored", restoredAt: new Date() },
+      { new: true },
+    );
+    if (!deletion) return null;
+
+    await User.updateOne(
+      { firebaseUid },
+      {
+        isActive: true,
+        $unset: { deletionRequestedAt: "", deletionScheduledFor: "" },
+      },
+    );
+
+    console.log(`♻️ Account ${firebaseUid} restored`);
+    return deletion;
+  }
+
+  /**
+   * The user's deletion that is still in its grace period, if any
+   */
+  async getPendingDeletion(
+    firebaseUid: string,
+  ): Promise<IAccountDeletion | null> {
+    return AccountDeletion.findOne({ firebaseUid, status: "scheduled" });
+  }
+
+  /**
+   * Deletions whose grace period is over, plus purges that stalled
+   */
+  async getDueDeletions(now: Date = new Date()): Promise<IAccountDeletion[]> {
+    const staleBefore = new Date(
+      now.getTime() - ACCOUNT_DELETION.STALE_PURGE_MINUTES * 60 * 1000,
+    );
+
+    return AccountDeletion.find({
+      $or: [
+        { status: "scheduled", scheduledFor: { $lte: now } },
+        { status: "purging", purgeStartedAt: { $lte: staleBefore } },
+      ],
+    })
+      .sort({ scheduledFor: 1 })
+      .limit(ACCOUNT_DELETION.BATCH_SIZE);
+  }
+
+  /**
+   * Claim a due deletion for purging.
+   * Conditional on the record being unchanged since it was read, so only
+   * one worker purges a given account.
+   */
+  async claimDeletion(
+    deletion: IAccountDeletion,
+  ): Promise<IAccountDeletion | null> {
+    return AccountDeletion.findOneAndUpdate(
+      {
+        deletionId: deletion.deletionId,
+        status: deletion.status,
+        updatedAt: deletion.updatedAt,
+      },
+      {
+        status: "purging",
+        purgeStartedAt: new Date(),
+        steps: [],
+        $inc: { attempts: 1 },
+      },
+      { new: true },
+    );
+  }
+
+  /**
+   * Remove the user from every store, recording each step on the
+   * tombstone. On failure the deletion stays "purging" - the account is
+   * partly gone and can't be restored - and is retried as a stale purge,
+   * up to MAX_ATTEMPTS times. The error is rethrown.
+   */
+  async purgeAccount(deletion: IAccountDeletion): Promise<void> {
+    const { deletionId, firebaseUid, userId } = deletion;
+
+    const step = async (
+      store: string,
+      run: () => Promise<number>,
+    ): Promise<void> => {
+      const deletedCount = await run();
+      await AccountDeletion.updateOne(
+        { deletionId },
+        { $push: { steps: { store, deletedCount, completedAt: new Date() } } },
+      );
+    };
+
+    try {
+      const user = await User.findOne({ firebaseUid })
+        .select("email photoURL")
+        .lean();
+      const email = user?.email.toLowerCase();
+
+      // External stores first, while we still know what to delete
+      await step("rook", async () => ((await deleteRookUser(userId)) ? 1 : 0));
+
+      await step("blob.profile-photo", async () => {
+        if (!user?.photoURL || !isAzureBlobUrl(user.photoURL)) return 0;
+        await deleteFromAzureBlob(user.photoURL, true);
+        return 1;
+      });
+
+      await step("blob.exports", async () => {
+        const jobs = await ExportJob.find({ firebaseUid })
+          .select("+blobUrl")
+          .lean();
+        const blobUrls = jobs
+          .map((job) => job.blobUrl)
+          .filter((url): url is string => !!url && isAzureBlobUrl(url));
+
+        for (const url of blobUrls) {
+          await deleteFromAzureBlob(url, true);
+        }
+        return blobUrls.length;
+      });
+
+      await step("tts-audio", async () =>
+        ttsService.deleteUserAudio(firebaseUid),
+      );
+
+      await step("redis", () =>
+        this.deleteCacheKeys(
+          [
+            ...(email ? [`user:${email}`] : []),
+            `wearables:${firebaseUid}`,
+            `wearables:${userId}`,
+            `user:${firebaseUid}:sessions`,
+          ],
+          [
+            `user:${firebaseUid}:session:*`,
+            `insights:${firebaseUid}:*`,
+            `notifications:low-recovery:${firebaseUid}:*`,
+          ],
+        ),
+      );
+
+      const collections: [string, () => Promise<{ deletedCount: number }>][] = [
+        ["mongo.sessions", () => Session.deleteMany({ firebaseUid })],
+        ["mongo.session-runs", () => SessionRun.deleteMany({ firebaseUid })],
+        [
+          "mongo.session-schedules",
+          () => SessionSchedule.deleteMany({ firebaseUid }),
+        ],
+        [
+          "mongo.chat-conversations",
+          () => ChatConversation.deleteMany({ firebaseUid }),
+        ],
+        ["mongo.chat-messages", () => ChatMessage.deleteMany({ firebaseUid })],
+        ["mongo.device-tokens", () => DeviceToken.deleteMany({ firebaseUid })],
+        [
+          "mongo.health-daily-summaries",
+          () => HealthDailySummary.deleteMany({ firebaseUid }),
+        ],
+        [
+          "mongo.recovery-scores",
+          () => RecoveryScore.deleteMany({ firebaseUid }),
+        ],
+        // ROOK identifies users by their MongoDB id
+        [
+          "mongo.raw-webhooks",
+          () => RawWebhook.deleteMany({ externalUserId: userId }),
+        ],
+        // Queued and dead-lettered webhooks (QUEUE_BACKEND=mongo) carry the
+        // raw webhook body
+        [
+          "mongo.queue-messages",
+          () => QueueMessage.deleteMany({ "body.userId": userId }),
+        ],
+        ["mongo.export-jobs", () => ExportJob.deleteMany({ firebaseUid })],
+        [
+          "mongo.password-resets",
+          async () =>
+            email ? PasswordReset.deleteMany({ email }) : { deletedCount: 0 },
+        ],
+      ];
+
+      for (const [store, remove] of collections) {
+        await step(store, async () => (await remove()).deletedCount);
+      }
+
+      await step("firebase-auth", async () => {
+        try {
+          await admin.auth().deleteUser(firebaseUid);
+          return 1;
+        } catch (error) {
+          const code = (error as { code?: string }).code;
+          if (code === "auth/user-not-found") return 0;
+          throw error;
+        }
+      });
+
+      // Last, so a retry can still find the user's details
+      await step(
+        "mongo.users",
+        async () => (await User.deleteOne({ firebaseUid })).deletedCount,
+      );
+
+      await AccountDeletion.updateOne(
+        { deletionId },
+        {
+          status: "completed",
+          completedAt: new Date(),
+          $unset: { lastError: "" },
+        },
+      );
+
+      console.log(`✅ Account ${firebaseUid} purged (deletion ${deletionId})`);
+    } catch (error) {
+      const gaveUp = deletion.attempts >= ACCOUNT_DELETION.MAX_ATTEMPTS;
+
+      await AccountDeletion.updateOne(
+        { deletionId },
+        {
+          status: gaveUp ? "failed" : "purging",
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the given keys and every key matching the patterns
+   * @returns number of keys deleted
+   */
+  private async deleteCacheKeys(
+    keys: string[],
+    patterns: string[],
+  ): Promise<number> {
+    let deleted = await redisClient.del(keys);
+
+    // Not available when Redis is disabled, in which case nothing is cached
+    if (typeof redisClient.scanIterator !== "function") return deleted;
+
+    for (const pattern of patterns) {
+      for await (const batch of redisClient.scanIterator({
+        MATCH: pattern,
+        COUNT: 100,
+      })) {
+        if (batch.length > 0) deleted += await redisClient.del(batch);
+      }
+    }
+
+    return deleted;
+  }
+}
@@ -0,0 +1,309 @@
+import mongoose from "mongoose";
+import * as admin from "firebase-admin";
+import { IUser, User } from "../models/User.model";
+import { ISession, Session } from "../models/Session.model";
+import { ISessionRun, SessionRun } from "../models/SessionRun.model";
+import { SessionSchedule } from "../models/SessionSchedule.model";
+import { DeviceToken } from "../models/DeviceToken.model";
+import { HealthDailySummary } from "../models/HealthDailySummary.model";
+import { IRawWebhook, RawWebhook } from "../models/RawWebhook.model";
+import { AuthService } from "./auth.service";
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  WEBHOOK_STATUSES,
+  WebhookStatus,
+} from "../constants";
+
+export interface Pagination {
+  page: number; // 1-based
+  limit: number;
+}
+
+export interface WearableConnectionSummary {
+  id: string;
+  name: string;
+  type: "sdk" | "api";
+  connected: boolean;
+  connectedAt?: Date;
+  lastSync?: Date;
+  hasData: boolean;
+  latestSummaryDate: string | null; // Newest daily summary from this source
+}
+
+export interface AdminWebhookFilters extends Pagination {
+  firebaseUid?: string;
+  status?: WebhookStatus;
+  dataStructure?: string;
+}
+
+// Never returned to staff
+const PRIVATE_USER_FIELDS = "-password -emailOtp -emailOtpExpiry -wearables";
+
+const SEARCH_USER_FIELDS =
+  "firebaseUid email fullName displayName phone provider isActive isEmailVerified onboardingCompleted lastLoginAt createdAt";
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const WEBHOOK_STATUS_QUERIES: Record<WebhookStatus, object> = {
+  pending: { processed: false },
+  processed: { processed: true, error: { $in: [null, ""] } },
+  failed: { processed: true, error: { $exists: true, $nin: [null, ""] } },
+};
+
+/**
+ * Admin Service
+ *
+ * Read access to users, wearable connections, webhooks and sessions for
+ * support staff, plus account deactivation and staff role assignment.
+ * Route-level auditing is done by the auditAdminAction middleware.
+ */
+export class AdminService {
+  /**
+   * Users whose email, name or phone contains `query`, or whose
+   * firebaseUid is exactly `query`. Newest accounts first.
+   */
+  async searchUsers(
+    filters: Pagination & { query?: string; isActive?: boolean },
+  ): Promise<{ users: IUser[]; total: number }> {
+    const conditions: object[] = [];
+
+    if (filters.query) {
+      const pattern = new RegExp(escapeRegex(filters.query), "i");
+      conditions.push({
+        $or: [
+          { firebaseUid: filters.query },
+          { email: pattern },
+          { fullName: pattern },
+          { displayName: pattern },
+          { phone: pattern },
+        ],
+      });
+    }
+    if (filters.isActive !== undefined) {
+      conditions.push({ isActive: filters.isActive });
+    }
+
+    const query = conditions.length > 0 ? { $and: conditions } : {};
+
+    const [users, total] = await Promise.all([
+      User.find(query)
+        .select(SEARCH_USER_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit)
+        .lean<IUser[]>(),
+      User.countDocuments(query),
+    ]);
+
+    return { users, total };
+  }
+
+  /**
+   * Profile, staff role and record counts. Null if the user doesn't exist.
+   */
+  async getUser(firebaseUid: string) {
+    const user = await User.findOne({ firebaseUid })
+      .select(PRIVATE_USER_FIELDS)
+      .lean<IUser>();
+    if (!user) return null;
+
+    const [sessions, runs, schedules, devices, webhooks, role] =
+      await Promise.all([
+        Session.countDocuments({ firebaseUid }),
+        SessionRun.countDocuments({ firebaseUid }),
+        SessionSchedule.countDocuments({ firebaseUid }),
+        DeviceToken.countDocuments({ firebaseUid }),
+        RawWebhook.countDocuments({ externalUserId: String(user._id) }),
+        this.getRole(firebaseUid),
+      ]);
+
+    return {
+      user,
+      role,
+      counts: { sessions, runs, schedules, devices, webhooks },
+    };
+  }
+
+  /**
+   * Stored wearable connections with their latest data, and a summary of
+   * the ROOK webhooks received for the user. Null if the user doesn't exist.
+   */
+  async getWearables(firebaseUid: string) {
+    const user = await User.findOne({ firebaseUid })
+      .select("wearables")
+      .lean<IUser>();
+    if (!user) return null;
+
+    const [latestSummaries, webhookStats, lastWebhook] = await Promise.all([
+      HealthDailySummary.aggregate<{ _id: string; date: string }>([
+        { $match: { firebaseUid } },
+        { $group: { _id: "$source", date: { $max: "$date" } } },
+      ]),
+      this.getWebhookCounts(String(user._id)),
+      RawWebhook.findOne({ externalUserId: String(user._id) })
+        .sort({ receivedAt: -1 })
+        .select("dataStructure receivedAt processed error")
+        .lean<IRawWebhook>(),
+    ]);
+
+    const latestBySource = new Map(
+      latestSummaries.map((summary) => [summary._id, summary.date]),
+    );
+
+    const connections: WearableConnectionSummary[] = Object.entries(
+      user.wearables || {},
+    ).map(([key, connection]) => ({
+      id: connection.id || key,
+      name: connection.name,
+      type: connection.type,
+      connected: connection.connected,
+      connectedAt: connection.connectedAt,
+      lastSync: connection.lastSync,
+      hasData: !!connection.data,
+      latestSummaryDate: latestBySource.get(key) || null,
+    }));
+
+    return {
+      rookUserId: String(user._id),
+      connections,
+      webhooks: { ...webhookStats, last: lastWebhook },
+    };
+  }
+
+  /**
+   * Raw webhooks newest first, without payloads
+   */
+  async listWebhooks(
+    filters: AdminWebhookFilters,
+  ): Promise<{ webhooks: IRawWebhook[]; total: number } | null> {
+    let externalUserId: string | undefined;
+    if (filters.firebaseUid) {
+      const user = await User.findOne({ firebaseUid: filters.firebaseUid })
+        .select("_id")
+        .lean();
+      if (!user) return null;
+      externalUserId = String(user._id);
+    }
+
+    const query = {
+      ...(externalUserId && { externalUserId }),
+      ...(filters.status && WEBHOOK_STATUS_QUERIES[filters.status]),
+      ...(filters.dataStructure && { dataStructure: filters.dataStructure }),
+    };
+
+    const [webhooks, total] = await Promise.all([
+      RawWebhook.find(query)
+        .select("-payload")
+        .sort({ receivedAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit)
+        .lean<IRawWebhook[]>(),
+      RawWebhook.countDocuments(query),
+    ]);
+
+    return { webhooks, total };
+  }
+
+  /**
+   * A raw webhook including its payload
+   */
+  async getWebhook(id: string): Promise<IRawWebhook | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return RawWebhook.findById(id).lean<IRawWebhook>();
+  }
+
+  /**
+   * A user's sessions, newest first, without steps
+   */
+  async listSessions(
+    firebaseUid: string,
+    pagination: Pagination,
+  ): Promise<{ sessions: ISession[]; total: number }> {
+    const [sessions, total] = await Promise.all([
+      Session.find({ firebaseUid })
+        .select("-Steps -Tips -StartMessage -CompletionMessage")
+        .sort({ createdAt: -1 })
+        .skip((pagination.page - 1) * pagination.limit)
+        .limit(pagination.limit)
+        .lean<ISession[]>(),
+      Session.countDocuments({ firebaseUid }),
+    ]);
+
+    return { sessions, total };
+  }
+
+  /**
+   * A session with all of its runs, newest first
+   */
+  async getSession(
+    sessionId: string,
+  ): Promise<{ session: ISession; runs: ISessionRun[] } | null> {
+    const session = await Session.findOne({ sessionId }).lean<ISession>();
+    if (!session) return null;
+
+    const runs = await SessionRun.find({ sessionId })
+      .sort({ startedAt: -1 })
+      .lean<ISessionRun[]>();
+
+    return { session, runs };
+  }
+
+  /**
+   * Deactivate the account in MongoDB and Firebase Auth.
+   * Returns false if the user doesn't exist.
+   */
+  async deactivateUser(firebaseUid: string): Promise<boolean> {
+    const exists = await User.exists({ firebaseUid });
+    if (!exists) return false;
+
+    await AuthService.deactivateUser(firebaseUid);
+    console.log(`🚫 User deactivated by admin: ${firebaseUid}`);
+    return true;
+  }
+
+  /**
+   * Set or clear the staff role claim, keeping other custom claims.
+   * Takes effect when the user's ID token is next refreshed.
+   */
+  async setRole(firebaseUid: string, role: AdminRole | null): Promise<boolean> {
+    const exists = await User.exists({ firebaseUid });
+    if (!exists) return false;
+
+    const { customClaims } = await admin.auth().getUser(firebaseUid);
+    const claims = { ...customClaims };
+    delete claims.role;
+    if (role) claims.role = role;
+
+    await admin.auth().setCustomUserClaims(firebaseUid, claims);
+
+    console.log(`🔑 Staff role for ${firebaseUid} set to ${role || "none"}`);
+    return true;
+  }
+
+  private async getRole(firebaseUid: string): Promise<AdminRole | null> {
+    try {
+      const { customClaims } = await admin.auth().getUser(firebaseUid);
+      return ADMIN_ROLES.find((role) => role === customClaims?.role) || null;
+    } catch {
+      console.warn(`⚠️ Could not read Firebase claims for ${firebaseUid}`);
+      return null;
+    }
+  }
+
+  private async getWebhookCounts(
+    externalUserId: string,
+  ): Promise<Record<WebhookStatus, number>> {
+    const [pending, processed, failed] = await Promise.all(
+      WEBHOOK_STATUSES.map((status) =>
+        RawWebhook.countDocuments({
+          externalUserId,
+          ...WEBHOOK_STATUS_QUERIES[status],
+        }),
+      ),
+    );
+
+    return { pending, processed, failed };
+  }
+}
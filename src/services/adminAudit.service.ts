@@ -0,0 +1,76 @@
+import { AdminAuditLog, IAdminAuditLog } from "../models/AdminAuditLog.model";
+import { AdminRole } from "../constants";
+
+export interface AdminAuditEntry {
+  actorUid: string;
+  actorEmail?: string;
+  actorRole: AdminRole;
+  action: string;
+  method: string;
+  path: string;
+  targetUid?: string;
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body?: unknown;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AdminAuditFilters {
+  actorUid?: string;
+  targetUid?: string;
+  action?: string;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Admin Audit Service
+ *
+ * Records every admin API request (who, what, on whom, outcome) so staff
+ * access to user data can be reviewed.
+ */
+export class AdminAuditService {
+  /**
+   * Write the entry before the action runs. Throws if it can't be stored,
+   * so the action is never performed unaudited.
+   */
+  async record(entry: AdminAuditEntry): Promise<IAdminAuditLog> {
+    return AdminAuditLog.create(entry);
+  }
+
+  /**
+   * Fill in the response status once the action has finished
+   */
+  async complete(id: string, statusCode: number): Promise<void> {
+    try {
+      await AdminAuditLog.updateOne({ _id: id }, { statusCode });
+    } catch (error) {
+      console.error("❌ Failed to update admin audit entry:", error);
+    }
+  }
+
+  /**
+   * Entries matching the filters, newest first
+   */
+  async list(
+    filters: AdminAuditFilters,
+  ): Promise<{ entries: IAdminAuditLog[]; total: number }> {
+    const query = {
+      ...(filters.actorUid && { actorUid: filters.actorUid }),
+      ...(filters.targetUid && { targetUid: filters.targetUid }),
+      ...(filters.action && { action: filters.action }),
+    };
+
+    const [entries, total] = await Promise.all([
+      AdminAuditLog.find(query)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit)
+        .lean<IAdminAuditLog[]>(),
+      AdminAuditLog.countDocuments(query),
+    ]);
+
+    return { entries, total };
+  }
+}
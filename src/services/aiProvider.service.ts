@@ -0,0 +1,354 @@
+/**
+ * AI Provider
+ *
+ * Common interface for the AI backends (H2Oasis custom GPT, OpenAI) so the
+ * rest of the app doesn't depend on a specific client.
+ *
+ * Configuration (env):
+ *   AI_PROVIDER               - primary provider: "h2oasis" (default) | "openai"
+ *   AI_FALLBACK_PROVIDER      - provider used when the primary errors or times out
+ *                               (defaults to "openai" when OPENAI_API_KEY is set, "none" to disable)
+ *   AI_PROVIDER_TIMEOUT_MS    - per-attempt timeout before failing over
+ *   AI_EXPERIMENT_PROVIDER    - provider for the A/B test group
+ *   AI_EXPERIMENT_PERCENT     - share of users (0-100) routed to the experiment provider
+ */
+
+import { createHash } from "crypto";
+import { H2OasisAIService, Session } from "./h2oasis-ai.service";
+import { OpenAIService } from "./openai.service";
+import { AI_PROVIDER_CONFIG } from "../constants";
+
+export const AI_PROVIDER_NAMES = ["h2oasis", "openai"] as const;
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export interface AIChatMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+}
+
+export interface AIChatOptions {
+  tags?: string[];
+  goals?: string[];
+  mood?: string;
+  isNewSession?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface AISessionOptions {
+  tags: string[];
+  goals?: string[];
+  mood?: string;
+  personalization?: string; // Recent sessions and recovery, see SessionPersonalizationService
+  customPrompt?: string;
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  readonly name: string;
+
+  /**
+   * Reply to the latest user message given the conversation context
+   */
+  chat(
+    userInput: string,
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): Promise<string>;
+
+  /**
+   * Same as chat, yielding the reply in chunks as it's generated
+   */
+  streamChat(
+    userInput: string,
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): AsyncGenerator<string>;
+
+  /**
+   * Generate a guided wellness session
+   */
+  createSession(
+    wearablesData: unknown,
+    options: AISessionOptions,
+  ): Promise<Session>;
+
+  /**
+   * Generate a recovery plan as assistant text
+   */
+  generatePlan(
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): Promise<string>;
+}
+
+export class AIProviderTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`AI provider ${provider} timed out after ${timeoutMs}ms`);
+    this.name = "AIProviderTimeoutError";
+  }
+}
+
+/**
+ * Wraps a primary provider and retries on a fallback provider when the
+ * primary throws or doesn't answer within the timeout.
+ */
+export class FailoverAIProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly primary: AIProvider,
+    private readonly fallback: AIProvider | null,
+    private readonly timeoutMs: number,
+  ) {
+    this.name = fallback ? `${primary.name}+${fallback.name}` : primary.name;
+  }
+
+  chat(
+    userInput: string,
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): Promise<string> {
+    return this.withFailover("chat", options?.signal, (provider, signal) =>
+      provider.chat(userInput, messages, wearablesData, {
+        ...options,
+        signal,
+      }),
+    );
+  }
+
+  async *streamChat(
+    userInput: string,
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): AsyncGenerator<string> {
+    const providers = [this.primary, this.fallback].filter(
+      (p): p is AIProvider => p !== null,
+    );
+
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
+      const isLast = i === providers.length - 1;
+
+      // The timeout only covers the wait for the first chunk
+      const controller = new AbortController();
+      const unlink = this.linkSignal(options?.signal, controller);
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+      let started = false;
+
+      try {
+        for await (const chunk of provider.streamChat(
+          userInput,
+          messages,
+          wearablesData,
+          { ...options, signal: controller.signal },
+        )) {
+          if (!started) {
+            started = true;
+            clearTimeout(timer);
+          }
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        // Can't fail over once text has reached the client
+        if (started || isLast || options?.signal?.aborted) {
+          throw controller.signal.aborted && !options?.signal?.aborted
+            ? new AIProviderTimeoutError(provider.name, this.timeoutMs)
+            : error;
+        }
+        this.logFailover("streamChat", provider, error);
+      } finally {
+        clearTimeout(timer);
+        unlink();
+      }
+    }
+  }
+
+  createSession(
+    wearablesData: unknown,
+    options: AISessionOptions,
+  ): Promise<Session> {
+    return this.withFailover(
+      "createSession",
+      options.signal,
+      (provider, signal) =>
+        provider.createSession(wearablesData, { ...options, signal }),
+    );
+  }
+
+  generatePlan(
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): Promise<string> {
+    return this.withFailover(
+      "generatePlan",
+      options?.signal,
+      (provider, signal) =>
+        provider.generatePlan(messages, wearablesData, { ...options, signal }),
+    );
+  }
+
+  private async withFailover<T>(
+    operation: string,
+    parentSignal: AbortSignal | undefined,
+    call: (provider: AIProvider, signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await this.callWithTimeout(this.primary, parentSignal, call);
+    } catch (error) {
+      if (!this.fallback || parentSignal?.aborted) {
+        throw error;
+      }
+
+      this.logFailover(operation, this.primary, error);
+      return this.callWithTimeout(this.fallback, parentSignal, call);
+    }
+  }
+
+  private async callWithTimeout<T>(
+    provider: AIProvider,
+    parentSignal: AbortSignal | undefined,
+    call: (provider: AIProvider, signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const controller = new AbortController();
+    const unlink = this.linkSignal(parentSignal, controller);
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Reject before aborting so the race settles with the timeout error
+        reject(new AIProviderTimeoutError(provider.name, this.timeoutMs));
+        controller.abort();
+      }, this.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call(provider, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+      unlink();
+    }
+  }
+
+  /**
+   * Abort the attempt when the caller aborts (e.g. client disconnected)
+   */
+  private linkSignal(
+    parentSignal: AbortSignal | undefined,
+    controller: AbortController,
+  ): () => void {
+    if (!parentSignal) return () => {};
+
+    const onAbort = () => controller.abort();
+    if (parentSignal.aborted) controller.abort();
+    parentSignal.addEventListener("abort", onAbort);
+    return () => parentSignal.removeEventListener("abort", onAbort);
+  }
+
+  private logFailover(operation: string, provider: AIProvider, error: unknown) {
+    console.warn(
+      `⚠️ AI provider ${provider.name} failed on ${operation}, failing over to ${this.fallback?.name}:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+}
+
+// Provider clients are created on first use - OpenAI needs an API key at construction
+const providerInstances = new Map<AIProviderName, AIProvider>();
+const chainInstances = new Map<string, AIProvider>();
+
+function parseProviderName(
+  value: string | undefined,
+  envName: string,
+): AIProviderName | null {
+  if (!value || value === "none") return null;
+
+  const name = value.toLowerCase() as AIProviderName;
+  if (!AI_PROVIDER_NAMES.includes(name)) {
+    console.warn(`⚠️ Unknown ${envName} "${value}", ignoring`);
+    return null;
+  }
+  return name;
+}
+
+export function createAIProvider(name: AIProviderName): AIProvider {
+  let provider = providerInstances.get(name);
+
+  if (!provider) {
+    provider = name === "openai" ? new OpenAIService() : new H2OasisAIService();
+    providerInstances.set(name, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Deterministic 0-99 bucket so a user always lands in the same A/B group
+ */
+export function getExperimentBucket(firebaseUid: string): number {
+  const hash = createHash("sha256").update(firebaseUid).digest();
+  return hash.readUInt32BE(0) % 100;
+}
+
+/**
+ * Resolve the provider chain for a request based on environment config.
+ * Pass the user's firebaseUid to take part in the provider A/B test.
+ */
+export function getAIProvider(firebaseUid?: string): AIProvider {
+  const defaultName =
+    parseProviderName(process.env.AI_PROVIDER, "AI_PROVIDER") || "h2oasis";
+  // Without explicit config, fail over to OpenAI whenever it's configured
+  const fallbackName =
+    process.env.AI_FALLBACK_PROVIDER === undefined
+      ? process.env.OPENAI_API_KEY
+        ? "openai"
+        : null
+      : parseProviderName(
+          process.env.AI_FALLBACK_PROVIDER,
+          "AI_FALLBACK_PROVIDER",
+        );
+  const experimentName = parseProviderName(
+    process.env.AI_EXPERIMENT_PROVIDER,
+    "AI_EXPERIMENT_PROVIDER",
+  );
+  const experimentPercent = Number(process.env.AI_EXPERIMENT_PERCENT) || 0;
+  const timeoutMs =
+    Number(process.env.AI_PROVIDER_TIMEOUT_MS) ||
+    AI_PROVIDER_CONFIG.DEFAULT_TIMEOUT_MS;
+
+  let primaryName = defaultName;
+  if (
+    firebaseUid &&
+    experimentName &&
+    getExperimentBucket(firebaseUid) < experimentPercent
+  ) {
+    primaryName = experimentName;
+  }
+
+  // Experiment users fall back to the default provider if no other fallback applies
+  let secondaryName = fallbackName;
+  if (!secondaryName || secondaryName === primaryName) {
+    secondaryName = primaryName !== defaultName ? defaultName : null;
+  }
+
+  const key = `${primaryName}:${secondaryName || "none"}:${timeoutMs}`;
+  let chain = chainInstances.get(key);
+
+  if (!chain) {
+    chain = new FailoverAIProvider(
+      createAIProvider(primaryName),
+      secondaryName ? createAIProvider(secondaryName) : null,
+      timeoutMs,
+    );
+    chainInstances.set(key, chain);
+    console.log(`🤖 AI provider chain ready: ${chain.name}`);
+  }
+
+  return chain;
+}
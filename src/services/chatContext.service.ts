@@ -0,0 +1,152 @@
+import { IChatConversation } from "../models/ChatConversation.model";
+import { ChatMessage, IChatMessage } from "../models/ChatMessage.model";
+import { AIProvider, getAIProvider } from "./aiProvider.service";
+import { ChatContextUtils, ContextMessage } from "../utils/chatContext.utils";
+import { CHAT_CONTEXT } from "../constants";
+
+/**
+ * Chat Context Service
+ *
+ * Builds the `messages` array for the AI from the stored conversation
+ * instead of trusting client-provided history.
+ *
+ * Context layout:
+ *   [system: rolling summary of older turns] + [recent turns within budget] + [new user message]
+ */
+export class ChatContextService {
+  private aiProvider: AIProvider;
+
+  constructor(aiProvider?: AIProvider) {
+    this.aiProvider = aiProvider || getAIProvider();
+  }
+
+  /**
+   * Assemble the AI context for a new user message
+   */
+  async buildMessages(
+    conversation: IChatConversation,
+    userMessage: string,
+  ): Promise<ContextMessage[]> {
+    const newMessage: ContextMessage = { role: "user", content: userMessage };
+
+    const summaryMessage: ContextMessage | null = conversation.summary
+      ? {
+          role: "system",
+          content: `Summary of the earlier conversation with this user:\n${conversation.summary}`,
+        }
+      : null;
+
+    // Budget left for history after the summary and the new message
+    let budget = CHAT_CONTEXT.MAX_CONTEXT_TOKENS;
+    budget -= ChatContextUtils.estimateMessageTokens(newMessage);
+    if (summaryMessage) {
+      budget -= ChatContextUtils.estimateMessageTokens(summaryMessage);
+    }
+
+    const unsummarized = await this.getUnsummarizedMessages(conversation);
+    const history = ChatContextUtils.selectWithinBudget(
+      unsummarized.map((m) => ({ role: m.role, content: m.content })),
+      Math.max(budget, 0),
+    );
+
+    if (history.length < unsummarized.length) {
+      console.log(
+        `✂️ Context truncated: ${history.length}/${unsummarized.length} recent messages fit the token budget`,
+      );
+    }
+
+    return [
+      ...(summaryMessage ? [summaryMessage] : []),
+      ...history,
+      newMessage,
+    ];
+  }
+
+  /**
+   * Fold older turns into the rolling summary once enough have accumulated.
+   * Safe to call after every exchange - it's a no-op below the threshold.
+   */
+  async refreshSummary(conversation: IChatConversation): Promise<void> {
+    const unsummarized = await this.getUnsummarizedMessages(conversation);
+
+    if (unsummarized.length < CHAT_CONTEXT.SUMMARY_TRIGGER_MESSAGES) {
+      return;
+    }
+
+    const toSummarize = unsummarized.slice(
+      0,
+      unsummarized.length - CHAT_CONTEXT.RECENT_MESSAGES_TO_KEEP,
+    );
+
+    if (toSummarize.length === 0) return;
+
+    console.log(
+      `📝 Summarizing ${toSummarize.length} older messages in conversation ${conversation.conversationId}`,
+    );
+
+    const summary = await this.summarize(conversation.summary, toSummarize);
+
+    conversation.summary = summary;
+    conversation.summarizedMessageCount += toSummarize.length;
+    conversation.summaryUpdatedAt = new Date();
+    await conversation.save();
+  }
+
+  private async getUnsummarizedMessages(
+    conversation: IChatConversation,
+  ): Promise<IChatMessage[]> {
+    return ChatMessage.find({
+      conversationId: conversation.conversationId,
+      firebaseUid: conversation.firebaseUid,
+    })
+      .sort({ createdAt: 1 })
+      .skip(conversation.summarizedMessageCount || 0)
+      .lean<IChatMessage[]>();
+  }
+
+  /**
+   * Ask the AI to merge the previous summary with the older turns.
+   * Falls back to an extractive summary if the AI call fails.
+   */
+  private async summarize(
+    previousSummary: string | undefined,
+    messages: IChatMessage[],
+  ): Promise<string> {
+    const transcript = ChatContextUtils.toTranscript(messages);
+
+    const prompt = `Summarize this wellness coaching conversation so it can be used as memory for future replies.
+Keep the user's goals, health concerns, preferences, products used and any sessions created.
+Write at most ${Math.floor(CHAT_CONTEXT.MAX_SUMMARY_CHARS / 6)} words of plain text, no lists or markdown.
+
+${previousSummary ? `EXISTING SUMMARY:\n${previousSummary}\n\n` : ""}NEW MESSAGES:\n${transcript}`;
+
+    try {
+      const summary = await this.aiProvider.chat(
+        prompt,
+        [{ role: "user", content: prompt }],
+        null,
+      );
+      return ChatContextUtils.truncate(
+        summary.trim(),
+        CHAT_CONTEXT.MAX_SUMMARY_CHARS,
+      );
+    } catch (error) {
+      console.warn(
+        "⚠️ AI summarization failed, using extractive summary:",
+        error,
+      );
+
+      const userPoints = messages
+        .filter((m) => m.role === "user")
+        .map((m) => m.content.replace(/\s+/g, " ").trim())
+        .join(" | ");
+
+      return ChatContextUtils.truncate(
+        [previousSummary, `User previously said: ${userPoints}`]
+          .filter(Boolean)
+          .join("\n"),
+        CHAT_CONTEXT.MAX_SUMMARY_CHARS,
+      );
+    }
+  }
+}
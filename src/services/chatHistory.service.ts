@@ -0,0 +1,244 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ChatConversation,
+  IChatConversation,
+} from "../models/ChatConversation.model";
+import { ChatMessage, IChatMessage } from "../models/ChatMessage.model";
+
+interface SaveExchangeInput {
+  firebaseUid: string;
+  conversationId?: string; // Optional - a new conversation is started if missing
+  userMessage: string;
+  aiResponse: string;
+  action?: string;
+  sessionId?: string;
+}
+
+interface HistoryQuery {
+  firebaseUid: string;
+  conversationId?: string;
+  page?: number;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const TITLE_MAX_LENGTH = 60;
+
+export class ChatHistoryService {
+  /**
+   * Find a conversation owned by the user
+   */
+  async findConversation(
+    firebaseUid: string,
+    conversationId: string,
+  ): Promise<IChatConversation | null> {
+    return ChatConversation.findOne({ conversationId, firebaseUid });
+  }
+
+  /**
+   * Find a conversation owned by the user, or start a new one
+   */
+  async getOrCreateConversation(
+    firebaseUid: string,
+    conversationId: string | undefined,
+    firstMessage: string,
+  ): Promise<IChatConversation> {
+    if (conversationId) {
+      const existing = await this.findConversation(firebaseUid, conversationId);
+
+      if (existing) {
+        return existing;
+      }
+
+      console.warn(
+        `⚠️ Conversation ${conversationId} not found for user ${firebaseUid}, starting a new one`,
+      );
+    }
+
+    const conversation = await ChatConversation.create({
+      conversationId: uuidv4(),
+      firebaseUid,
+      title: this.buildTitle(firstMessage),
+      messageCount: 0,
+      lastMessageAt: new Date(),
+    });
+
+    console.log(`🆕 Conversation started: ${conversation.conversationId}`);
+    return conversation;
+  }
+
+  /**
+   * Persist one user turn and the AI reply to it
+   */
+  async saveExchange(input: SaveExchangeInput): Promise<IChatConversation> {
+    const conversation = await this.getOrCreateConversation(
+      input.firebaseUid,
+      input.conversationId,
+      input.userMessage,
+    );
+
+    const now = Date.now();
+
+    // Give the reply a later timestamp so ordering is stable within the exchange
+    await ChatMessage.insertMany([
+      {
+        conversationId: conversation.conversationId,
+        firebaseUid: input.firebaseUid,
+        role: "user",
+        content: input.userMessage,
+        createdAt: new Date(now),
+      },
+      {
+        conversationId: conversation.conversationId,
+        firebaseUid: input.firebaseUid,
+        role: "assistant",
+        content: input.aiResponse,
+        action: input.action,
+        sessionId: input.sessionId,
+        createdAt: new Date(now + 1),
+      },
+    ]);
+
+    conversation.messageCount += 2;
+    conversation.lastMessageAt = new Date(now + 1);
+    await conversation.save();
+
+    console.log(
+      `💾 Chat exchange saved to conversation ${conversation.conversationId}`,
+    );
+
+    return conversation;
+  }
+
+  /**
+   * Get paginated messages for a conversation (oldest first within the page).
+   * Page 1 is the most recent page so clients can scroll backwards.
+   * Without a conversationId, the user's latest conversation is used.
+   */
+  async getHistory(query: HistoryQuery) {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    const page = Math.max(query.page || 1, 1);
+
+    const conversation = query.conversationId
+      ? await ChatConversation.findOne({
+          conversationId: query.conversationId,
+          firebaseUid: query.firebaseUid,
+        }).lean<IChatConversation>()
+      : await ChatConversation.findOne({ firebaseUid: query.firebaseUid })
+          .sort({ lastMessageAt: -1 })
+          .lean<IChatConversation>();
+
+    if (!conversation) {
+      return {
+        conversation: null,
+        messages: [] as IChatMessage[],
+        pagination: { page, limit, total: 0, hasMore: false },
+      };
+    }
+
+    const filter = {
+      conversationId: conversation.conversationId,
+      firebaseUid: query.firebaseUid,
+    };
+
+    const [total, newestFirst] = await Promise.all([
+      ChatMessage.countDocuments(filter),
+      ChatMessage.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<IChatMessage[]>(),
+    ]);
+
+    return {
+      conversation,
+      messages: newestFirst.reverse(),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: page * limit < total,
+      },
+    };
+  }
+
+  /**
+   * List a user's conversations, most recently active first
+   */
+  async listConversations(
+    firebaseUid: string,
+    page: number = 1,
+    limit: number = DEFAULT_PAGE_SIZE,
+  ) {
+    const safeLimit = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const safePage = Math.max(page, 1);
+
+    const [total, conversations] = await Promise.all([
+      ChatConversation.countDocuments({ firebaseUid }),
+      ChatConversation.find({ firebaseUid })
+        .sort({ lastMessageAt: -1 })
+        .skip((safePage - 1) * safeLimit)
+        .limit(safeLimit)
+        .lean<IChatConversation[]>(),
+    ]);
+
+    return {
+      conversations,
+      pagination: {
+        page: safePage,
+        limit: safeLimit,
+        total,
+        hasMore: safePage * safeLimit < total,
+      },
+    };
+  }
+
+  /**
+   * Delete a single conversation and its messages
+   */
+  async deleteConversation(
+    firebaseUid: string,
+    conversationId: string,
+  ): Promise<boolean> {
+    const result = await ChatConversation.deleteOne({
+      conversationId,
+      firebaseUid,
+    });
+
+    if (result.deletedCount === 0) {
+      console.warn(`⚠️ Conversation not found for deletion: ${conversationId}`);
+      return false;
+    }
+
+    await ChatMessage.deleteMany({ conversationId, firebaseUid });
+    console.log(`🗑️ Conversation deleted: ${conversationId}`);
+    return true;
+  }
+
+  /**
+   * Delete every conversation and message for a user
+   */
+  async deleteAllHistory(firebaseUid: string): Promise<number> {
+    const [conversations] = await Promise.all([
+      ChatConversation.deleteMany({ firebaseUid }),
+      ChatMessage.deleteMany({ firebaseUid }),
+    ]);
+
+    console.log(
+      `🗑️ Deleted ${conversations.deletedCount} conversations for user ${firebaseUid}`,
+    );
+    return conversations.deletedCount;
+  }
+
+  private buildTitle(message: string): string {
+    const singleLine = message.replace(/\s+/g, " ").trim();
+    if (singleLine.length <= TITLE_MAX_LENGTH) {
+      return singleLine || "New conversation";
+    }
+    return `${singleLine.substring(0, TITLE_MAX_LENGTH - 1)}…`;
+  }
+}
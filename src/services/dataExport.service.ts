@@ -0,0 +1,435 @@
+import { v4 as uuidv4 } from "uuid";
+import { DATA_EXPORT } from "../constants";
+import { ChatConversation } from "../models/ChatConversation.model";
+import { ChatMessage } from "../models/ChatMessage.model";
+import { DeviceToken } from "../models/DeviceToken.model";
+import { ExportJob, IExportJob } from "../models/ExportJob.model";
+import { HealthDailySummary } from "../models/HealthDailySummary.model";
+import { RawWebhook } from "../models/RawWebhook.model";
+import { RecoveryScore } from "../models/RecoveryScore.model";
+import { Session } from "../models/Session.model";
+import { SessionRun } from "../models/SessionRun.model";
+import { SessionSchedule } from "../models/SessionSchedule.model";
+import { User } from "../models/User.model";
+import {
+  deleteFromAzureBlob,
+  getBlobSasUrl,
+  uploadToAzureBlob,
+} from "../utils/blobStorage";
+import { DataExportUtils, ExportSection } from "../utils/dataExport.utils";
+import { sendEmail } from "./email.service";
+
+// Export job as returned to the user (never includes the blob URL)
+export interface ExportJobSummary {
+  jobId: string;
+  status: IExportJob["status"];
+  email?: string;
+  fileSizeBytes?: number;
+  recordCounts?: Record<string, number>;
+  linkExpiresAt?: Date;
+  createdAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+/**
+ * Data Export Service
+ * Collects everything stored about a user into a zip, uploads it to blob
+ * storage and emails them a time-limited download link.
+ * Jobs run in the background of the API; clients poll the job for its
+ * status. The data export worker retries lost jobs and deletes the zips
+ * once their link has lapsed.
+ */
+export class DataExportService {
+  /**
+   * Start an export for the user, or return the one already running.
+   * Returns null if the user doesn't exist.
+   */
+  async requestExport(
+    firebaseUid: string,
+  ): Promise<{ job: ExportJobSummary; created: boolean } | null> {
+    const user = await User.findOne({ firebaseUid }).select("email");
+    if (!user) return null;
+
+    const staleBefore = new Date(
+      Date.now() - DATA_EXPORT.STALE_JOB_MINUTES * 60 * 1000,
+    );
+    const activeJob = await ExportJob.findOne({
+      firebaseUid,
+      status: { $in: ["pending", "processing"] },
+      updatedAt: { $gte: staleBefore },
+    }).sort({ createdAt: -1 });
+
+    if (activeJob) {
+      return { job: this.toSummary(activeJob), created: false };
+    }
+
+    const job = await ExportJob.create({
+      jobId: uuidv4(),
+      firebaseUid,
+      email: user.email,
+      status: "pending",
+    });
+
+    console.log(`📦 Data export ${job.jobId} requested by ${firebaseUid}`);
+
+    // Runs in the background; failures are recorded on the job
+    void this.processJob(job.jobId);
+
+    return { job: this.toSummary(job), created: true };
+  }
+
+  /**
+   * Get one of the user's export jobs
+   */
+  async getJob(
+    firebaseUid: string,
+    jobId: string,
+  ): Promise<ExportJobSummary | null> {
+    const job = await ExportJob.findOne({ firebaseUid, jobId });
+    return job ? this.toSummary(job) : null;
+  }
+
+  /**
+   * Build, upload and email the export. Never throws.
+   * Runs in the API process with no retry of its own: a job lost to a
+   * restart is run again by the data export worker once it is stale.
+   */
+  async processJob(jobId: string): Promise<void> {
+    let job: IExportJob | null = null;
+    let blobUrl: string | undefined;
+
+    try {
+      job = await ExportJob.findOneAndUpdate(
+        { jobId, status: "pending" },
+        { status: "processing", startedAt: new Date(), $inc: { attempts: 1 } },
+        { new: true },
+      );
+      if (!job) return;
+
+      if (!job.email) {
+        throw new Error("No email address to send the export to");
+      }
+
+      const exportedAt = new Date();
+      const sections = await this.collectSections(job.firebaseUid);
+      const { buffer, recordCounts } = await DataExportUtils.buildArchive(
+        sections,
+        exportedAt,
+      );
+
+      blobUrl = await uploadToAzureBlob(
+        buffer,
+        `${DATA_EXPORT.BLOB_PREFIX}/${job.firebaseUid}/${job.jobId}.zip`,
+        "application/zip",
+      );
+
+      const downloadUrl = await getBlobSasUrl(
+        blobUrl,
+        DATA_EXPORT.LINK_EXPIRY_HOURS,
+      );
+      if (downloadUrl === blobUrl) {
+        // The container is private, so the plain URL wouldn't work
+        throw new Error("Could not create a download link");
+      }
+
+      const linkExpiresAt = new Date(
+        exportedAt.getTime() + DATA_EXPORT.LINK_EXPIRY_HOURS * 60 * 60 * 1000,
+      );
+
+      job.blobUrl = blobUrl;
+      job.fileSizeBytes = buffer.length;
+      job.recordCounts = recordCounts;
+      job.linkExpiresAt = linkExpiresAt;
+      await job.save();
+
+      const fullName = await User.findOne({ firebaseUid: job.firebaseUid })
+        .select("fullName")
+        .lean();
+
+      await sendEmail({
+        to: job.email,
+        subject: "Your H2Oasis data export is ready",
+        html: getExportEmailTemplate(
+          fullName?.fullName,
+          downloadUrl,
+          linkExpiresAt,
+        ),
+      });
+
+      job.status = "completed";
+      job.completedAt = new Date();
+      await job.save();
+
+      console.log(
+        `✅ Data export ${job.jobId} completed (${buffer.length} bytes)`,
+      );
+    } catch (error) {
+      console.error(`❌ Data export ${jobId} failed:`, error);
+
+      // Not claimed - the job stays pending and the worker retries it
+      if (!job) return;
+
+      // Nobody got a working link, so don't keep the zip around
+      if (blobUrl) {
+        await deleteFromAzureBlob(blobUrl).catch((deleteError) => {
+          console.error(
+            `❌ Failed to delete data export ${jobId} blob:`,
+            deleteError,
+          );
+        });
+        job.blobUrl = undefined;
+      }
+
+      job.status = "failed";
+      job.completedAt = new Date();
+      job.error = error instanceof Error ? error.message : "Export failed";
+      await job.save().catch((saveError) => {
+        console.error(
+          `❌ Failed to record data export ${jobId} failure:`,
+          saveError,
+        );
+      });
+    }
+  }
+
+  /**
+   * Unfinished jobs that haven't moved in STALE_JOB_MINUTES, e.g. because
+   * the API restarted mid-export
+   */
+  async getStaleJobs(now: Date = new Date()): Promise<IExportJob[]> {
+    const staleBefore = new Date(
+      now.getTime() - DATA_EXPORT.STALE_JOB_MINUTES * 60 * 1000,
+    );
+
+    return ExportJob.find({
+      status: { $in: ["pending", "processing"] },
+      updatedAt: { $lte: staleBefore },
+    })
+      .sort({ updatedAt: 1 })
+      .limit(DATA_EXPORT.BATCH_SIZE);
+  }
+
+  /**
+   * Run a stale job again, or fail it once it has been started
+   * MAX_ATTEMPTS times. Conditional on the job being unchanged since it
+   * was read, so only one worker retries it.
+   * @returns whether the job was run again
+   */
+  async retryStaleJob(job: IExportJob): Promise<boolean> {
+    const unchanged = {
+      jobId: job.jobId,
+      status: job.status,
+      updatedAt: job.updatedAt,
+    };
+
+    if (job.attempts >= DATA_EXPORT.MAX_ATTEMPTS) {
+      await ExportJob.updateOne(unchanged, {
+        status: "failed",
+        completedAt: new Date(),
+        error: "Export did not finish",
+      });
+      return false;
+    }
+
+    const requeued = await ExportJob.findOneAndUpdate(unchanged, {
+      status: "pending",
+    });
+    if (!requeued) return false;
+
+    await this.processJob(job.jobId);
+    return true;
+  }
+
+  /**
+   * Delete the zips of completed exports whose download link has lapsed
+   * @returns number of exports expired
+   */
+  async expireDownloads(now: Date = new Date()): Promise<number> {
+    const jobs = await ExportJob.find({
+      status: "completed",
+      linkExpiresAt: { $lte: now },
+    })
+      .select("+blobUrl")
+      .limit(DATA_EXPORT.BATCH_SIZE);
+
+    for (const job of jobs) {
+      if (job.blobUrl) {
+        await deleteFromAzureBlob(job.blobUrl, true);
+      }
+
+      job.status = "expired";
+      job.blobUrl = undefined;
+      await job.save();
+    }
+
+    return jobs.length;
+  }
+
+  private async collectSections(firebaseUid: string): Promise<ExportSection[]> {
+    const user = await User.findOne({ firebaseUid })
+      .select("-password -emailOtp -emailOtpExpiry")
+      .lean();
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const [
+      dailySummaries,
+      recoveryScores,
+      rawWebhooks,
+      sessions,
+      sessionRuns,
+      sessionSchedules,
+      conversations,
+      messages,
+      devices,
+    ] = await Promise.all([
+      HealthDailySummary.find({ firebaseUid }).sort({ date: 1 }).lean(),
+      RecoveryScore.find({ firebaseUid }).sort({ date: 1 }).lean(),
+      // ROOK identifies users by their MongoDB id
+      RawWebhook.find({ externalUserId: String(user._id) })
+        .sort({ receivedAt: 1 })
+        .lean(),
+      Session.find({ firebaseUid }).sort({ createdAt: 1 }).lean(),
+      SessionRun.find({ firebaseUid }).sort({ startedAt: 1 }).lean(),
+      SessionSchedule.find({ firebaseUid }).sort({ createdAt: 1 }).lean(),
+      ChatConversation.find({ firebaseUid }).sort({ createdAt: 1 }).lean(),
+      ChatMessage.find({ firebaseUid }).sort({ createdAt: 1 }).lean(),
+      // Push tokens are credentials, not personal data
+      DeviceToken.find({ firebaseUid }).select("-token").lean(),
+    ]);
+
+    return [
+      {
+        name: "profile",
+        description: "Your account details and preferences",
+        records: [user],
+        csv: false,
+      },
+      {
+        name: "selections",
+        description: "Your focus goal and selected product",
+        records: [
+          { focusGoal: user.focusGoal, selectedProduct: user.selectedProduct },
+        ],
+        csv: false,
+      },
+      {
+        name: "wearables/connections",
+        description: "Connected wearables and their latest synced data",
+        records: Object.values(user.wearables ?? {}),
+        csv: true,
+      },
+      {
+        name: "wearables/raw-webhooks",
+        description: "Data received from your wearables, as delivered",
+        records: rawWebhooks,
+        csv: false,
+      },
+      {
+        name: "health/daily-summaries",
+        description: "Daily health metrics per wearable",
+        records: dailySummaries,
+        csv: true,
+      },
+      {
+        name: "health/recovery-scores",
+        description: "Daily recovery scores",
+        records: recoveryScores,
+        csv: true,
+      },
+      {
+        name: "sessions/sessions",
+        description: "Generated and saved sessions",
+        records: sessions,
+        csv: true,
+      },
+      {
+        name: "sessions/runs",
+        description: "Sessions you started, with progress and ratings",
+        records: sessionRuns,
+        csv: true,
+      },
+      {
+        name: "sessions/schedules",
+        description: "Scheduled sessions and reminders",
+        records: sessionSchedules,
+        csv: true,
+      },
+      {
+        name: "chat/conversations",
+        description: "Chat conversations",
+        records: conversations,
+        csv: true,
+      },
+      {
+        name: "chat/messages",
+        description: "Chat messages",
+        records: messages,
+        csv: true,
+      },
+      {
+        name: "devices",
+        description: "Devices registered for notifications",
+        records: devices,
+        csv: true,
+      },
+    ];
+  }
+
+  private toSummary(job: IExportJob): ExportJobSummary {
+    return {
+      jobId: job.jobId,
+      status: job.status,
+      email: job.email,
+      fileSizeBytes: job.fileSizeBytes,
+      recordCounts: job.recordCounts,
+      linkExpiresAt: job.linkExpiresAt,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      error: job.error,
+    };
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const getExportEmailTemplate = (
+  fullName: string | undefined,
+  downloadUrl: string,
+  linkExpiresAt: Date,
+): string => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; background-color: #f4f4f4; padding: 20px; }
+        .container { max-width: 500px; margin: 0 auto; background: white; padding: 30px; border-radius: 10px; }
+        .button { display: inline-block; font-weight: bold; color: white; background: #00A3C7; padding: 14px 24px; border-radius: 8px; text-decoration: none; }
+        .action { text-align: center; margin: 20px 0; }
+        .footer { color: #888; font-size: 12px; margin-top: 30px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>Your data export is ready</h1>
+        <p>Hi ${escapeHtml(fullName || "there")},</p>
+        <p>Here is a copy of everything H2Oasis stores about you: your profile, wearable and health data, sessions and chat history.</p>
+        <div class="action"><a class="button" href="${escapeHtml(downloadUrl)}">Download your data</a></div>
+        <p>The link works until <strong>${linkExpiresAt.toUTCString()}</strong>. After that you can request a new export in the app.</p>
+        <div class="footer">
+          <p>If you didn't request this export, please contact support.</p>
+          <p>© 2025 H2Oasis. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+};
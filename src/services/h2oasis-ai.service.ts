@@ -3,10 +3,12 @@
  * Simple wrapper to call the H2Oasis Chat API
  */
 
-interface ChatMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
-}
+import type {
+  AIChatMessage as ChatMessage,
+  AIChatOptions as ChatOptions,
+  AIProvider,
+  AISessionOptions,
+} from "./aiProvider.service";
 
 interface H2OasisChatRequest {
   stream: boolean;
@@ -66,7 +68,20 @@ interface H2OasisChatResponse {
   }>;
 }
 
-export class H2OasisAIService {
+interface H2OasisStreamChunk {
+  choices?: Array<{
+    index: number;
+    delta?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+}
+
+export class H2OasisAIService implements AIProvider {
+  readonly name = "h2oasis";
+
   private readonly apiUrl: string;
   private readonly apiKey: string;
 
@@ -84,30 +99,20 @@ export class H2OasisAIService {
   /**
    * Send chat message to H2Oasis AI API
    */
-  async sendMessage(
+  async chat(
     userInput: string,
     chatHistory: ChatMessage[],
-    wearablesData: any,
-    options?: {
-      tags?: string[];
-      goals?: string[];
-      mood?: string;
-      isNewSession?: boolean;
-    },
+    wearablesData: unknown,
+    options?: ChatOptions,
   ): Promise<string> {
     try {
-      const payload: H2OasisChatRequest = {
-        stream: false,
-        model: "gpt-4o",
-        temperature: 0,
-        messages: chatHistory,
-        tags: options?.tags || [],
-        goals: options?.goals || [],
-        mood: options?.mood || "",
-        user_input: userInput,
-        wearables: wearablesData,
-        ...(options?.isNewSession && { session_event: "create" }),
-      };
+      const payload = this.buildChatPayload(
+        userInput,
+        chatHistory,
+        wearablesData,
+        options,
+        false,
+      );
 
       console.log("📤 Sending request to H2Oasis AI API...");
 
@@ -117,6 +122,7 @@ export class H2OasisAIService {
           "Content-Type": "application/json",
         },
         body: JSON.stringify(payload),
+        signal: options?.signal,
       });
 
       if (!response.ok) {
@@ -145,21 +151,151 @@ export class H2OasisAIService {
     }
   }
 
+  /**
+   * Stream a chat reply from H2Oasis AI API, yielding text chunks as they arrive.
+   * Falls back to yielding the full reply at once if the API answers with
+   * a regular JSON body instead of an event stream.
+   */
+  async *streamChat(
+    userInput: string,
+    chatHistory: ChatMessage[],
+    wearablesData: unknown,
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    const payload = this.buildChatPayload(
+      userInput,
+      chatHistory,
+      wearablesData,
+      options,
+      true,
+    );
+
+    console.log("📤 Streaming request to H2Oasis AI API...");
+
+    const response = await fetch(`${this.apiUrl}?key=${this.apiKey}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify(payload),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("❌ H2Oasis AI API Error:", errorText);
+      throw new Error(
+        `H2Oasis AI API returned ${response.status}: ${errorText}`,
+      );
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      const data: H2OasisChatResponse = await response.json();
+      const assistantMessage = data.choices[0]?.message?.content;
+
+      if (!assistantMessage) {
+        throw new Error("No response content from H2Oasis AI");
+      }
+
+      yield assistantMessage;
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE lines - keep the last (possibly partial) line in the buffer
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === "[DONE]") return;
+
+          try {
+            const chunk: H2OasisStreamChunk = JSON.parse(data);
+            const content = chunk.choices?.[0]?.delta?.content;
+            if (content) yield content;
+          } catch (e) {
+            console.warn("⚠️ Skipping malformed stream chunk:", data);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Generate a recovery plan as assistant text
+   */
+  async generatePlan(
+    chatHistory: ChatMessage[],
+    wearablesData: unknown,
+    options?: ChatOptions,
+  ): Promise<string> {
+    const planRequestMessage =
+      "Generate a personalized recovery plan for me based on my health data and goals.";
+
+    return this.chat(
+      planRequestMessage,
+      [...chatHistory, { role: "user", content: planRequestMessage }],
+      wearablesData,
+      options,
+    );
+  }
+
+  private buildChatPayload(
+    userInput: string,
+    chatHistory: ChatMessage[],
+    wearablesData: unknown,
+    options: ChatOptions | undefined,
+    stream: boolean,
+  ): H2OasisChatRequest {
+    return {
+      stream,
+      model: "gpt-4o",
+      temperature: 0,
+      messages: chatHistory,
+      tags: options?.tags || [],
+      goals: options?.goals || [],
+      mood: options?.mood || "",
+      user_input: userInput,
+      wearables: wearablesData,
+      ...(options?.isNewSession && { session_event: "create" }),
+    };
+  }
+
   /**
    * Create a guided wellness session
    * Uses session_event: "create" and createSession: true
    */
   async createSession(
-    wearablesData: any,
-    options: {
-      tags: string[];
-      goals?: string[];
-      mood?: string;
-      customPrompt?: string;
-    },
+    wearablesData: unknown,
+    options: AISessionOptions,
   ): Promise<Session> {
     try {
-      const { tags, goals = [], mood = "relaxed", customPrompt } = options;
+      const {
+        tags,
+        goals = [],
+        mood = "relaxed",
+        personalization,
+        customPrompt,
+      } = options;
 
       // Build the session creation prompt
       const devicesList = tags.join(", ").toLowerCase() || "spa";
@@ -173,7 +309,7 @@ export class H2OasisAIService {
 • Devices to use: ${devicesList}
 • Primary goal: ${goalsList}
 • Desired mood: ${mood}
-
+${personalization ? `\n${personalization}\n` : ""}
 OUTPUT FORMAT RULES - STRICTLY FOLLOW:
 1. Return ONLY valid JSON
 2. Include session name, duration, steps, and tips
@@ -206,6 +342,7 @@ OUTPUT FORMAT RULES - STRICTLY FOLLOW:
           "Content-Type": "application/json",
         },
         body: JSON.stringify(payload),
+        signal: options.signal,
       });
 
       if (!response.ok) {
@@ -6,12 +6,25 @@ import {
   IHealthData,
 } from "../models/HealthData.types";
 import { MergerUtils } from "../utils/merger.utils";
+import { HealthDataType } from "../constants";
+
+interface SummaryWithSources {
+  metadata?: { sources_of_data_array?: string[] };
+}
+
+// The parts of a ROOK webhook that name the wearable it came from
+interface WebhookSourceFields {
+  data_source?: string;
+  body_health?: { summary?: { body_summary?: SummaryWithSources } };
+  physical_health?: { summary?: { physical_summary?: SummaryWithSources } };
+  sleep_health?: { summary?: { sleep_summary?: SummaryWithSources } };
+}
 
 export class HealthDataMerger {
   static mergeHealthData(
     existingData: IHealthData | undefined,
     newData: ISleepData | IPhysicalData | IBodyData | IActivityEvent[] | null,
-    dataType: "sleep" | "physical" | "body" | "activity_events",
+    dataType: HealthDataType,
   ): IHealthData {
     const currentData: IHealthData = existingData || {};
 
@@ -55,9 +68,7 @@ export class HealthDataMerger {
     return currentData;
   }
 
-  static getDataType(
-    dataStructure: string,
-  ): "sleep" | "physical" | "body" | "activity_events" | null {
+  static getDataType(dataStructure: string): HealthDataType | null {
     switch (dataStructure) {
       case "sleep_summary":
         return "sleep";
@@ -78,6 +89,21 @@ export class HealthDataMerger {
     }
   }
 
+  /**
+   * The data source of a ROOK webhook: data_source at the root, or the
+   * first entry of the summary's metadata.sources_of_data_array
+   */
+  static getDataSource(payload: WebhookSourceFields): string {
+    if (payload.data_source) return payload.data_source;
+
+    const metadata =
+      payload.body_health?.summary?.body_summary?.metadata ||
+      payload.physical_health?.summary?.physical_summary?.metadata ||
+      payload.sleep_health?.summary?.sleep_summary?.metadata;
+
+    return metadata?.sources_of_data_array?.[0] || "unknown";
+  }
+
   static mapSourceToWearable(source: string): string {
     const sourceMap: { [key: string]: string } = {
       fitbit: "fitbit",
@@ -85,8 +111,10 @@ export class HealthDataMerger {
       oura: "oura",
       whoop: "whoop",
       "apple health": "apple",
+      apple_health: "apple",
       apple: "apple",
       "samsung health": "samsung",
+      samsung_health: "samsung",
       samsung: "samsung",
       polar: "polar",
     };
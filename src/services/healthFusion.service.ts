@@ -0,0 +1,128 @@
+import { User } from "../models/User.model";
+import { IHealthData } from "../models/HealthData.types";
+import { HealthHistoryService } from "./healthHistory.service";
+import {
+  FusedHealthData,
+  FusionSource,
+  HealthFusionUtils,
+} from "../utils/healthFusion.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import { HEALTH_FUSION } from "../constants";
+
+export interface FusedHealthDay extends FusedHealthData {
+  date: string; // YYYY-MM-DD
+  timeZone: string;
+  wearables: string[]; // Sources that contributed at least one field
+}
+
+/**
+ * Health Fusion Service
+ *
+ * One canonical view of a user's health data per day, so users with
+ * several wearables don't get contradictory numbers. Sources are picked
+ * per metric from the user's preferences (or the defaults).
+ */
+export class HealthFusionService {
+  private healthHistoryService: HealthHistoryService;
+
+  constructor() {
+    this.healthHistoryService = new HealthHistoryService();
+  }
+
+  /**
+   * Fuse a day's data (defaults to today in the user's timezone)
+   * Returns null if the user doesn't exist
+   */
+  async getFusedDay(
+    firebaseUid: string,
+    date?: string,
+    timeZone?: string,
+  ): Promise<FusedHealthDay | null> {
+    const user = await User.findOne({ firebaseUid })
+      .select("wearables preferences")
+      .lean();
+
+    if (!user) return null;
+
+    const zone =
+      timeZone ||
+      (user.preferences?.timezone &&
+      SessionStatsUtils.isValidTimeZone(user.preferences.timezone)
+        ? user.preferences.timezone
+        : HEALTH_FUSION.DEFAULT_TIMEZONE);
+    const today = SessionStatsUtils.toLocalDate(new Date(), zone);
+    const day = date || today;
+
+    const summaries = await this.healthHistoryService.getSummaries(
+      firebaseUid,
+      { from: day, to: day },
+    );
+
+    const bySource = new Map<string, IHealthData>();
+    for (const summary of summaries) {
+      const data = bySource.get(summary.source) || {};
+      (data as Record<string, unknown>)[summary.dataType] = summary.data;
+      bySource.set(summary.source, data);
+    }
+
+    // Today also uses the latest snapshot: SDK wearables (Apple, Samsung)
+    // and vendor scores only live there
+    if (day === today) {
+      for (const [source, connection] of Object.entries(user.wearables || {})) {
+        if (!connection?.connected || !connection.data) continue;
+
+        const data = bySource.get(source) || {};
+        for (const [section, value] of Object.entries(connection.data)) {
+          if (section in data || !value) continue;
+
+          if (section === "activity_events") {
+            const events = connection.data.activity_events!.filter(
+              (event) => event.start_time?.slice(0, 10) === day,
+            );
+            if (events.length > 0) data.activity_events = events;
+          } else if (this.describesDay(value, connection.lastSync, day, zone)) {
+            (data as Record<string, unknown>)[section] = value;
+          }
+        }
+        if (Object.keys(data).length > 0) bySource.set(source, data);
+      }
+    }
+
+    const inputs: FusionSource[] = [...bySource.entries()].map(
+      ([source, data]) => ({ source, data }),
+    );
+    const fused = HealthFusionUtils.fuse(
+      inputs,
+      user.preferences?.sourcePriority,
+    );
+
+    return {
+      date: day,
+      timeZone: zone,
+      ...fused,
+      wearables: [...new Set(Object.values(fused.sources))].sort(),
+    };
+  }
+
+  /**
+   * Whether a snapshot section holds data for the given local day
+   */
+  private describesDay(
+    section: unknown,
+    lastSync: Date | undefined,
+    day: string,
+    timeZone: string,
+  ): boolean {
+    const lastUpdated = (section as { last_updated?: string }).last_updated;
+
+    // ROOK datetimes carry the wearer's UTC offset: the prefix is the local day
+    if (lastUpdated && /^\d{4}-\d{2}-\d{2}/.test(lastUpdated)) {
+      return lastUpdated.slice(0, 10) === day;
+    }
+
+    return (
+      !!lastSync &&
+      SessionStatsUtils.toLocalDate(new Date(lastSync), timeZone) === day
+    );
+  }
+}
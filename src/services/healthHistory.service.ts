@@ -0,0 +1,120 @@
+import {
+  HealthDailySummary,
+  IHealthDailySummary,
+} from "../models/HealthDailySummary.model";
+import {
+  IActivityEvent,
+  IBodyData,
+  IPhysicalData,
+  ISleepData,
+} from "../models/HealthData.types";
+import { HealthDataMerger } from "./healthData.merger.service";
+import { HealthDataType } from "../constants";
+
+type SummaryData = ISleepData | IPhysicalData | IBodyData | IActivityEvent[];
+
+export interface HealthHistoryQuery {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  dataType?: HealthDataType;
+  source?: string;
+}
+
+const LOCAL_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Health History Service
+ *
+ * Keeps one HealthDailySummary per user, wearable, data type and day,
+ * so data isn't lost when the next day's webhook replaces the snapshot
+ * on the User document.
+ */
+export class HealthHistoryService {
+  /**
+   * Merge transformed webhook data into the daily summaries it belongs to
+   * @returns number of days updated
+   */
+  async recordSummary(
+    firebaseUid: string,
+    source: string,
+    dataType: HealthDataType,
+    data: SummaryData,
+  ): Promise<number> {
+    const days = this.groupByDay(dataType, data);
+
+    for (const [date, dayData] of days) {
+      const key = { firebaseUid, source, dataType, date };
+      const existing = await HealthDailySummary.findOne(key)
+        .select("data")
+        .lean<Pick<IHealthDailySummary, "data">>();
+
+      // Same merge rules as the snapshot (newer readings win)
+      const merged = HealthDataMerger.mergeHealthData(
+        existing ? { [dataType]: existing.data } : undefined,
+        dayData,
+        dataType,
+      )[dataType];
+
+      await HealthDailySummary.updateOne(
+        key,
+        { $set: { data: merged } },
+        { upsert: true },
+      );
+    }
+
+    console.log(
+      `🗓️ Stored ${dataType} history from ${source} for user ${firebaseUid} (${[...days.keys()].join(", ")})`,
+    );
+    return days.size;
+  }
+
+  /**
+   * Daily summaries in a date range, oldest first
+   */
+  async getSummaries(
+    firebaseUid: string,
+    query: HealthHistoryQuery,
+  ): Promise<IHealthDailySummary[]> {
+    const filter: Record<string, unknown> = {
+      firebaseUid,
+      date: { $gte: query.from, $lte: query.to },
+    };
+    if (query.dataType) filter.dataType = query.dataType;
+    if (query.source) filter.source = query.source;
+
+    return HealthDailySummary.find(filter)
+      .sort({ date: 1, source: 1 })
+      .lean<IHealthDailySummary[]>();
+  }
+
+  /**
+   * Split data by the day it describes. ROOK datetimes carry the wearer's
+   * UTC offset, so their date prefix is the local day.
+   */
+  private groupByDay(
+    dataType: HealthDataType,
+    data: SummaryData,
+  ): Map<string, SummaryData> {
+    const days = new Map<string, SummaryData>();
+
+    if (dataType === "activity_events") {
+      for (const event of data as IActivityEvent[]) {
+        const date = this.toDate(event.start_time ?? event.last_updated);
+        const events = (days.get(date) as IActivityEvent[] | undefined) || [];
+        days.set(date, [...events, event]);
+      }
+      return days;
+    }
+
+    // Sleep belongs to the day the user woke up
+    const summary = data as ISleepData & IPhysicalData & IBodyData;
+    days.set(this.toDate(summary.sleep_end ?? summary.last_updated), data);
+    return days;
+  }
+
+  private toDate(datetime?: string): string {
+    return datetime && LOCAL_DATE_PREFIX.test(datetime)
+      ? datetime.slice(0, 10)
+      : new Date().toISOString().slice(0, 10);
+  }
+}
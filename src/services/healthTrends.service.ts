@@ -0,0 +1,53 @@
+import { HealthHistoryService } from "./healthHistory.service";
+import { RecoveryScoreService } from "./recoveryScore.service";
+import { HealthTrend, HealthTrendsUtils } from "../utils/healthTrends.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import { HEALTH_TRENDS, TrendMetric } from "../constants";
+
+/**
+ * Health Trends Service
+ *
+ * Builds metric trends from the daily health history, with the recovery
+ * score history filling in vendor metrics (strain, body battery) and days
+ * without a daily summary.
+ */
+export class HealthTrendsService {
+  private healthHistoryService: HealthHistoryService;
+  private recoveryScoreService: RecoveryScoreService;
+
+  constructor() {
+    this.healthHistoryService = new HealthHistoryService();
+    this.recoveryScoreService = new RecoveryScoreService();
+  }
+
+  /**
+   * Trend of one metric over the last `days` days, ending today
+   */
+  async getTrend(
+    firebaseUid: string,
+    metric: TrendMetric,
+    days: number = HEALTH_TRENDS.DEFAULT_RANGE_DAYS,
+    timeZone: string = HEALTH_TRENDS.DEFAULT_TIMEZONE,
+  ): Promise<HealthTrend> {
+    const to = SessionStatsUtils.toLocalDate(new Date(), timeZone);
+    const from = SessionStatsUtils.addDays(to, -(days - 1));
+
+    // Earlier days feed the first days' averages and baselines
+    const lookbackFrom = SessionStatsUtils.addDays(
+      from,
+      -HEALTH_TRENDS.BASELINE_DAYS,
+    );
+
+    const [summaries, scores] = await Promise.all([
+      this.healthHistoryService.getSummaries(firebaseUid, {
+        from: lookbackFrom,
+        to,
+      }),
+      this.recoveryScoreService.getScores(firebaseUid, lookbackFrom, to),
+    ]);
+
+    const values = HealthTrendsUtils.dailyValues(metric, summaries, scores);
+
+    return HealthTrendsUtils.compute(metric, values, { from, to });
+  }
+}
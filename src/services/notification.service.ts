@@ -0,0 +1,333 @@
+import { admin, initializeFirebaseAdmin } from "../utils/firebase";
+import redisClient from "../utils/redis";
+import { DeviceToken, IDeviceToken } from "../models/DeviceToken.model";
+import { INotificationPreferences, User } from "../models/User.model";
+import { NotificationUtils, SkipReason } from "../utils/notification.utils";
+import {
+  DevicePlatform,
+  NOTIFICATION_CONFIG,
+  NotificationCategory,
+} from "../constants";
+
+export interface PushMessage {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data?: Record<string, string>; // FCM data values must be strings
+}
+
+export interface PushResult {
+  sent: number;
+  failed: number;
+  skipped?: SkipReason | "no_devices";
+}
+
+export interface RegisterDeviceInput {
+  token: string;
+  platform: DevicePlatform;
+  deviceName?: string;
+  appVersion?: string;
+}
+
+export interface PreferencesUpdate {
+  quietHours?: INotificationPreferences["quietHours"] | null;
+  optOuts?: NotificationCategory[];
+}
+
+// FCM errors that mean the token will never work again
+const STALE_TOKEN_ERRORS = [
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+];
+
+/**
+ * Notification Service
+ *
+ * Push notifications through Firebase Cloud Messaging.
+ * Keeps the registry of device tokens and applies each user's
+ * per-category opt-outs and quiet hours before sending.
+ */
+export class NotificationService {
+  /**
+   * Register (or refresh) a device for push notifications
+   */
+  async registerDevice(
+    firebaseUid: string,
+    input: RegisterDeviceInput,
+  ): Promise<IDeviceToken> {
+    const device = await DeviceToken.findOneAndUpdate(
+      { token: input.token },
+      {
+        $set: {
+          firebaseUid,
+          platform: input.platform,
+          deviceName: input.deviceName,
+          appVersion: input.appVersion,
+          lastSeenAt: new Date(),
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    );
+
+    await this.trimDevices(firebaseUid);
+
+    const preferences = await this.getPreferences(firebaseUid);
+    if (!preferences.optOuts.includes("announcements")) {
+      await this.setTopicSubscription(
+        [input.token],
+        NOTIFICATION_CONFIG.ANNOUNCEMENTS_TOPIC,
+        true,
+      );
+    }
+
+    console.log(
+      `📱 Device registered for user ${firebaseUid} (${input.platform})`,
+    );
+    return device;
+  }
+
+  /**
+   * Remove a device (e.g. on logout)
+   */
+  async unregisterDevice(firebaseUid: string, token: string): Promise<boolean> {
+    const result = await DeviceToken.deleteOne({ token, firebaseUid });
+
+    if (result.deletedCount === 0) {
+      console.warn(`⚠️ Device not found for user ${firebaseUid}`);
+      return false;
+    }
+
+    await this.setTopicSubscription(
+      [token],
+      NOTIFICATION_CONFIG.ANNOUNCEMENTS_TOPIC,
+      false,
+    );
+
+    console.log(`📴 Device unregistered for user ${firebaseUid}`);
+    return true;
+  }
+
+  async listDevices(firebaseUid: string): Promise<IDeviceToken[]> {
+    return DeviceToken.find({ firebaseUid })
+      .sort({ lastSeenAt: -1 })
+      .lean<IDeviceToken[]>();
+  }
+
+  async getPreferences(firebaseUid: string): Promise<INotificationPreferences> {
+    const user = await User.findOne({ firebaseUid })
+      .select("notificationPreferences")
+      .lean();
+
+    return {
+      quietHours: user?.notificationPreferences?.quietHours,
+      optOuts: user?.notificationPreferences?.optOuts || [],
+    };
+  }
+
+  /**
+   * Update quiet hours and opt-outs
+   * Returns null if the user doesn't exist
+   */
+  async updatePreferences(
+    firebaseUid: string,
+    updates: PreferencesUpdate,
+  ): Promise<INotificationPreferences | null> {
+    const previous = await this.getPreferences(firebaseUid);
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+
+    if (updates.quietHours === null) {
+      $unset["notificationPreferences.quietHours"] = 1;
+    } else if (updates.quietHours) {
+      $set["notificationPreferences.quietHours"] = updates.quietHours;
+    }
+    if (updates.optOuts) {
+      $set["notificationPreferences.optOuts"] = [...new Set(updates.optOuts)];
+    }
+
+    const user = await User.findOneAndUpdate(
+      { firebaseUid },
+      { $set, $unset },
+      { new: true },
+    )
+      .select("notificationPreferences")
+      .lean();
+
+    if (!user) return null;
+
+    // Keep the announcements topic in line with the opt-out
+    const wasOptedOut = previous.optOuts.includes("announcements");
+    const isOptedOut = !!updates.optOuts?.includes("announcements");
+    if (updates.optOuts && wasOptedOut !== isOptedOut) {
+      const devices = await this.listDevices(firebaseUid);
+      await this.setTopicSubscription(
+        devices.map((device) => device.token),
+        NOTIFICATION_CONFIG.ANNOUNCEMENTS_TOPIC,
+        !isOptedOut,
+      );
+    }
+
+    return {
+      quietHours: user.notificationPreferences?.quietHours,
+      optOuts: user.notificationPreferences?.optOuts || [],
+    };
+  }
+
+  /**
+   * Send a notification to all of a user's devices
+   * Skipped when the user opted out of the category or is in quiet hours
+   */
+  async sendToUser(
+    firebaseUid: string,
+    message: PushMessage,
+    options: { ignoreQuietHours?: boolean } = {},
+  ): Promise<PushResult> {
+    const preferences = await this.getPreferences(firebaseUid);
+    const skipped = NotificationUtils.getSkipReason(
+      preferences,
+      message.category,
+      options,
+    );
+
+    if (skipped) {
+      console.log(
+        `🔕 ${message.category} notification skipped for user ${firebaseUid} (${skipped})`,
+      );
+      return { sent: 0, failed: 0, skipped };
+    }
+
+    const devices = await this.listDevices(firebaseUid);
+    if (devices.length === 0) {
+      return { sent: 0, failed: 0, skipped: "no_devices" };
+    }
+
+    const response = await this.messaging().sendEachForMulticast({
+      tokens: devices.map((device) => device.token),
+      notification: { title: message.title, body: message.body },
+      data: { category: message.category, ...message.data },
+    });
+
+    // Drop tokens FCM no longer accepts
+    const staleTokens = response.responses
+      .map((result, index) =>
+        result.error && STALE_TOKEN_ERRORS.includes(result.error.code)
+          ? devices[index].token
+          : null,
+      )
+      .filter((token): token is string => token !== null);
+
+    if (staleTokens.length > 0) {
+      await DeviceToken.deleteMany({ token: { $in: staleTokens } });
+      console.log(`🧹 Removed ${staleTokens.length} stale device token(s)`);
+    }
+
+    console.log(
+      `🔔 ${message.category} notification sent to user ${firebaseUid}: ${response.successCount} delivered, ${response.failureCount} failed`,
+    );
+
+    return { sent: response.successCount, failed: response.failureCount };
+  }
+
+  /**
+   * Send a notification to every device subscribed to a topic
+   * @returns FCM message id
+   */
+  async sendToTopic(topic: string, message: PushMessage): Promise<string> {
+    const messageId = await this.messaging().send({
+      topic,
+      notification: { title: message.title, body: message.body },
+      data: { category: message.category, ...message.data },
+    });
+
+    console.log(`📣 Notification sent to topic ${topic}: ${messageId}`);
+    return messageId;
+  }
+
+  /**
+   * Let a user know a wearable stopped sharing data
+   */
+  async notifyWearableRevoked(
+    firebaseUid: string,
+    wearableName: string,
+  ): Promise<PushResult> {
+    const name = wearableName.charAt(0).toUpperCase() + wearableName.slice(1);
+
+    return this.sendToUser(firebaseUid, {
+      category: "wearable_alerts",
+      title: `${name} disconnected`,
+      body: `H2Oasis can no longer read your ${name} data. Reconnect it to keep your sessions personalized.`,
+      data: { wearable: wearableName },
+    });
+  }
+
+  /**
+   * Nudge a user towards a gentle session when their recovery is low.
+   * Sent at most once per day.
+   */
+  async notifyLowRecovery(
+    firebaseUid: string,
+    score: number,
+  ): Promise<PushResult | null> {
+    if (score >= NOTIFICATION_CONFIG.LOW_RECOVERY_THRESHOLD) return null;
+
+    const day = new Date().toISOString().slice(0, 10);
+    const key = `notifications:low-recovery:${firebaseUid}:${day}`;
+
+    if (await redisClient.get(key)) return null;
+
+    const result = await this.sendToUser(firebaseUid, {
+      category: "recovery_nudges",
+      title: "Your recovery is low today",
+      body: "Your body could use a break. Try a short, gentle session to help it recover.",
+      data: { score: String(Math.round(score)) },
+    });
+
+    if (result.sent > 0) {
+      await redisClient.set(key, "1", { EX: 24 * 60 * 60 });
+    }
+
+    return result;
+  }
+
+  /**
+   * Keep only the most recently seen devices
+   */
+  private async trimDevices(firebaseUid: string): Promise<void> {
+    const extra = await DeviceToken.find({ firebaseUid })
+      .sort({ lastSeenAt: -1 })
+      .skip(NOTIFICATION_CONFIG.MAX_DEVICES_PER_USER)
+      .select("token")
+      .lean<Pick<IDeviceToken, "token">[]>();
+
+    if (extra.length === 0) return;
+
+    await DeviceToken.deleteMany({
+      token: { $in: extra.map((device) => device.token) },
+    });
+  }
+
+  private async setTopicSubscription(
+    tokens: string[],
+    topic: string,
+    subscribed: boolean,
+  ): Promise<void> {
+    if (tokens.length === 0) return;
+
+    try {
+      if (subscribed) {
+        await this.messaging().subscribeToTopic(tokens, topic);
+      } else {
+        await this.messaging().unsubscribeFromTopic(tokens, topic);
+      }
+    } catch (error) {
+      // Topic membership is best effort - direct sends still work
+      console.warn(`⚠️ Failed to update ${topic} topic subscription:`, error);
+    }
+  }
+
+  private messaging() {
+    initializeFirebaseAdmin();
+    return admin.messaging();
+  }
+}
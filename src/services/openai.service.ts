@@ -1,4 +1,14 @@
 import OpenAI from "openai";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  AIChatMessage,
+  AIChatOptions,
+  AIProvider,
+  AISessionOptions,
+} from "./aiProvider.service";
+import type { Session } from "./h2oasis-ai.service";
+import type { HealthTrend } from "../utils/healthTrends.utils";
+import { AI_PROVIDER_CONFIG } from "../constants";
 
 interface HealthData {
   // New unified format
@@ -56,133 +66,209 @@ interface ChatContext {
   userId: string;
 }
 
-export class OpenAIService {
+// Same JSON shape the H2Oasis API returns for sessions
+const SESSION_JSON_FORMAT = `{
+  "SessionId": "string",
+  "SessionName": "string",
+  "TotalDurationMinutes": number,
+  "RecommendedFor": "string",
+  "Steps": [
+    {
+      "StepNumber": number,
+      "Activity": "string",
+      "DurationMinutes": number,
+      "Instructions": "string",
+      "Message": "string",
+      "TimerStartMessage": "string",
+      "TimerEndMessage": "string"
+    }
+  ],
+  "StartMessage": "string",
+  "CompletionMessage": "string",
+  "Tips": ["string"],
+  "CreatedAt": "ISO date string"
+}`;
+
+export class OpenAIService implements AIProvider {
+  readonly name = "openai";
   private openai: OpenAI;
+  private readonly model: string;
 
   constructor() {
     this.openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
     });
+    this.model = process.env.OPENAI_MODEL || AI_PROVIDER_CONFIG.OPENAI_MODEL;
   }
 
-  async generateResponse(context: ChatContext): Promise<string> {
-    try {
-      // Detect if user is asking for a plan
-      const userMessage = context.userMessage.toLowerCase();
-      const isPlanRequest =
-        userMessage.includes("plan") ||
-        userMessage.includes("create") ||
-        userMessage.includes("make") ||
-        userMessage.includes("generate") ||
-        userMessage.includes("personalized") ||
-        userMessage.includes("routine") ||
-        userMessage.includes("schedule");
-
-      const systemPrompt = this.buildSystemPrompt(context, isPlanRequest);
-      const userPrompt = this.buildUserPrompt(context);
-
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-      ];
-
-      // Add chat history if available
-      if (context.chatHistory && context.chatHistory.length > 0) {
-        const historyMessages = context.chatHistory.slice(-10).map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        }));
-        messages.push(...historyMessages);
-      }
+  /**
+   * Reply to the latest user message (AIProvider)
+   * `messages` already ends with the user's message
+   */
+  async chat(
+    userInput: string,
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): Promise<string> {
+    const completion = await this.openai.chat.completions.create(
+      {
+        model: this.model,
+        messages: this.buildProviderMessages(messages, wearablesData, options),
+        temperature: 0.7,
+      },
+      { signal: options?.signal },
+    );
 
-      // Add current user message
-      messages.push({
-        role: "user",
-        content: userPrompt,
-      });
+    const content = completion.choices[0]?.message?.content;
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4",
-        messages: messages,
-        max_tokens: 150, // Increased for plan suggestions
-        temperature: 0.7,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
-      });
+    if (!content) {
+      throw new Error("No response content from OpenAI");
+    }
 
-      let response =
-        completion.choices[0]?.message?.content ||
-        "I apologize, but I'm having trouble generating a response right now. Please try again.";
+    return content;
+  }
 
-      // If user asked for a plan, append special marker
-      if (isPlanRequest) {
-        response += "\n\n[ACTION:CREATE_PLAN]";
-      }
+  /**
+   * Stream the reply to the latest user message (AIProvider)
+   */
+  async *streamChat(
+    userInput: string,
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): AsyncGenerator<string> {
+    const stream = await this.openai.chat.completions.create(
+      {
+        model: this.model,
+        messages: this.buildProviderMessages(messages, wearablesData, options),
+        temperature: 0.7,
+        stream: true,
+      },
+      { signal: options?.signal },
+    );
 
-      return response;
-    } catch (error) {
-      console.error("OpenAI Service Error:", error);
-      throw new Error("Failed to generate AI response");
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) yield content;
     }
   }
 
-  private buildSystemPrompt(
-    context: ChatContext,
-    isPlanRequest: boolean = false,
-  ): string {
-    const { productContext, healthData } = context;
+  /**
+   * Generate a guided wellness session (AIProvider)
+   */
+  async createSession(
+    wearablesData: unknown,
+    options: AISessionOptions,
+  ): Promise<Session> {
+    const {
+      tags,
+      goals = [],
+      mood = "relaxed",
+      personalization,
+      customPrompt,
+    } = options;
+
+    const prompt =
+      customPrompt ||
+      `Create a guided wellness session with these specifications:
+
+• Devices to use: ${tags.join(", ").toLowerCase() || "spa"}
+• Primary goal: ${goals.length > 0 ? goals.join(", ") : "overall wellness"}
+• Desired mood: ${mood}${personalization ? `\n\n${personalization}` : ""}`;
+
+    console.log("🧘 Creating session with OpenAI...");
+
+    const completion = await this.openai.chat.completions.create(
+      {
+        model: this.model,
+        messages: [
+          {
+            role: "system",
+            content: `You are Evy, an H2Oasis wellness coach. Respond ONLY with a JSON object in this format:\n${SESSION_JSON_FORMAT}\n\nUser health data:\n${this.formatWearablesData(wearablesData)}`,
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0,
+        response_format: { type: "json_object" },
+      },
+      { signal: options.signal },
+    );
 
-    const planInstructions = isPlanRequest
-      ? `
+    const sessionContent = completion.choices[0]?.message?.content;
 
-PLAN GENERATION REQUEST DETECTED:
-The user is asking for a personalized recovery plan. Respond with:
-1. A brief acknowledgment (1 sentence)
-2. Tell them you'll create a personalized plan based on their health data and ${productContext.productName}
-3. Keep it under 2 sentences total
+    if (!sessionContent) {
+      throw new Error("No session content in OpenAI response");
+    }
 
-Example: "I'll create a personalized recovery plan based on your activity data and Cold Plunge. This will optimize your recovery and performance!"`
-      : "";
+    let session: Session;
+    try {
+      session = JSON.parse(sessionContent);
+    } catch (parseError) {
+      console.error("Failed to parse session JSON:", sessionContent);
+      throw new Error("Invalid session format from OpenAI");
+    }
 
-    return `You are Evy, an expert AI health recovery specialist with deep knowledge in contrast therapy, specifically cold plunge, hot tubs, saunas, and recovery protocols. You work for H2Oasis, a company that creates premium recovery products.
+    session.SessionId = session.SessionId || uuidv4();
+    session.CreatedAt = session.CreatedAt || new Date().toISOString();
 
-EXPERTISE AREAS:
-- Cold water therapy and cold plunge protocols
-- Heat therapy including saunas and hot tubs
-- Contrast therapy (alternating hot/cold)
-- Recovery optimization and muscle repair
-- Sleep enhancement through temperature therapy
-- Stress reduction and mental wellness
-- Athletic performance and recovery
-- Cardiovascular health benefits
-- Hormone optimization through temperature exposure
+    console.log("🎉 Session created:", session.SessionName);
+    return session;
+  }
 
-USER'S PRODUCT: ${productContext.productName} (${productContext.productType})
-${productContext.features ? `Features: ${productContext.features.join(", ")}` : ""}
+  /**
+   * Generate a recovery plan as assistant text (AIProvider)
+   */
+  async generatePlan(
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): Promise<string> {
+    const planRequestMessage =
+      "Generate a personalized recovery plan for me based on my health data and goals.";
+
+    return this.chat(
+      planRequestMessage,
+      [...messages, { role: "user", content: planRequestMessage }],
+      wearablesData,
+      options,
+    );
+  }
 
-CURRENT HEALTH DATA:
-${this.formatHealthData(healthData)}
+  private buildProviderMessages(
+    messages: AIChatMessage[],
+    wearablesData: unknown,
+    options?: AIChatOptions,
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const sessionInstructions = options?.isNewSession
+      ? `\n\nThe user wants a guided session. Reply ONLY with a JSON object in this format:\n${SESSION_JSON_FORMAT}`
+      : "";
 
-PERSONALITY & STYLE:
-- Keep responses to 1-2 sentences maximum
-- Be direct and actionable
-- Use the user's health data to personalize recommendations
+    const systemPrompt = `You are Evy, an expert AI health recovery specialist for H2Oasis, covering cold plunge, hot tubs, saunas and contrast therapy.
+Keep responses short, direct and actionable, personalize them with the user's health data and always prioritize safety.
 
-GUIDELINES:
-1. Keep responses to 1-2 sentences maximum
-2. Be direct and actionable  
-3. Use health data for personalized advice
-4. Always prioritize safety
+USER'S PRODUCTS: ${options?.tags?.join(", ") || "not specified"}
+GOALS: ${options?.goals?.join(", ") || "overall wellness"}
+MOOD: ${options?.mood || "not specified"}
 
-IMPORTANT: Always keep responses very short (1-2 sentences only). No paragraphs.${planInstructions}
+HEALTH DATA:
+${this.formatWearablesData(wearablesData)}${sessionInstructions}`;
 
-Remember: You're helping them optimize their recovery and wellness journey with their H2Oasis product. Keep it short!`;
+    return [
+      { role: "system", content: systemPrompt },
+      ...messages.map((m) => ({ role: m.role, content: m.content })),
+    ];
   }
 
-  private buildUserPrompt(context: ChatContext): string {
-    return `Based on my current health data and my ${context.productContext.productName}, here's my question: ${context.userMessage}`;
+  private formatWearablesData(wearablesData: unknown): string {
+    if (!wearablesData) {
+      return "No health data available";
+    }
+
+    const json = JSON.stringify(wearablesData);
+    return json.length > AI_PROVIDER_CONFIG.MAX_WEARABLES_CONTEXT_CHARS
+      ? `${json.substring(0, AI_PROVIDER_CONFIG.MAX_WEARABLES_CONTEXT_CHARS)}…`
+      : json;
   }
 
   private formatHealthData(healthData: HealthData): string {
@@ -261,9 +347,75 @@ Remember: You're helping them optimize their recovery and wellness journey with
       : "No current health data available - providing general recovery advice";
   }
 
-  async analyzeHealthTrends(healthData: HealthData[]): Promise<string> {
-    // Future enhancement: analyze health trends over time
-    return "Health trend analysis coming soon";
+  /**
+   * Short plain-language summary of health trends
+   * Falls back to the raw trend facts if OpenAI fails
+   */
+  async analyzeHealthTrends(trends: HealthTrend[]): Promise<string> {
+    const withData = trends.filter((trend) => trend.latest);
+
+    if (withData.length === 0) {
+      return "Not enough health data yet to spot trends - keep your wearable connected.";
+    }
+
+    const facts = withData
+      .map((trend) => this.formatHealthTrend(trend))
+      .join("\n");
+
+    try {
+      const completion = await this.openai.chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are Evy, an H2Oasis recovery specialist. Summarize the user's health trends in 2-3 short, encouraging sentences. Say which metrics are improving or declining and mention unusual days. Never diagnose medical conditions.",
+          },
+          { role: "user", content: facts },
+        ],
+        temperature: 0.5,
+        max_tokens: 200,
+      });
+
+      const content = completion.choices[0]?.message?.content;
+
+      if (!content) {
+        throw new Error("No response content from OpenAI");
+      }
+
+      return content.trim();
+    } catch (error) {
+      console.error("Analyze Health Trends Error:", error);
+      return facts;
+    }
+  }
+
+  private formatHealthTrend(trend: HealthTrend): string {
+    const parts = [`latest ${trend.latest!.value} on ${trend.latest!.date}`];
+
+    const lastPoint = trend.series[trend.series.length - 1];
+    if (lastPoint?.average7d !== null && lastPoint?.average7d !== undefined) {
+      parts.push(`7-day average ${lastPoint.average7d}`);
+    }
+    if (trend.baseline) {
+      parts.push(
+        `baseline ${trend.baseline.mean} ± ${trend.baseline.standardDeviation}`,
+      );
+    }
+    if (trend.direction) {
+      const improving =
+        trend.improving === null
+          ? ""
+          : trend.improving
+            ? " (improving)"
+            : " (declining)";
+      parts.push(`trend ${trend.direction}${improving}`);
+    }
+    if (trend.anomalies.length > 0) {
+      parts.push(`unusual days: ${trend.anomalies.join(", ")}`);
+    }
+
+    return `${trend.metric} (${trend.unit}) from ${trend.from} to ${trend.to}: ${parts.join(", ")}`;
   }
 
   async generateRecoveryPlan(context: ChatContext): Promise<any> {
@@ -0,0 +1,113 @@
+import { User } from "../models/User.model";
+import { IRecoveryScore, RecoveryScore } from "../models/RecoveryScore.model";
+import { RecoveryScoreUtils } from "../utils/recoveryScore.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import { RECOVERY_SCORE } from "../constants";
+
+export interface RecoveryHistory {
+  timeZone: string;
+  today: IRecoveryScore | null;
+  history: IRecoveryScore[]; // Oldest first
+}
+
+/**
+ * Recovery Score Service
+ *
+ * Computes the H2Oasis recovery score from the user's connected wearables
+ * and keeps one score per day, so users get comparable numbers whatever
+ * device they wear.
+ */
+export class RecoveryScoreService {
+  /**
+   * (Re)compute today's score from the latest wearable data
+   * Returns null if the user has no fresh data to score
+   */
+  async updateDailyScore(
+    firebaseUid: string,
+    timeZone: string = RECOVERY_SCORE.DEFAULT_TIMEZONE,
+    now: Date = new Date(),
+  ): Promise<IRecoveryScore | null> {
+    const user = await User.findOne({ firebaseUid }).select("wearables").lean();
+
+    if (!user?.wearables) return null;
+
+    const inputs = RecoveryScoreUtils.extractInputs(user.wearables, now);
+    const date = SessionStatsUtils.toLocalDate(now, timeZone);
+
+    const previous = await RecoveryScore.find({
+      firebaseUid,
+      date: {
+        $gte: SessionStatsUtils.addDays(date, -RECOVERY_SCORE.BASELINE_DAYS),
+        $lt: date,
+      },
+    })
+      .select("metrics")
+      .lean<Pick<IRecoveryScore, "metrics">[]>();
+
+    const result = RecoveryScoreUtils.compute(
+      inputs,
+      RecoveryScoreUtils.baseline(previous.map((score) => score.metrics)),
+    );
+
+    if (!result) return null;
+
+    const score = await RecoveryScore.findOneAndUpdate(
+      { firebaseUid, date },
+      {
+        $set: {
+          ...result,
+          metrics: inputs.metrics,
+          vendorScores: inputs.vendorScores,
+          wearables: inputs.wearables,
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    );
+
+    console.log(
+      `💚 Recovery score ${result.score} (${result.method}) for user ${firebaseUid} on ${date}`,
+    );
+    return score;
+  }
+
+  /**
+   * Today's score (refreshed) and the daily history
+   */
+  async getRecoveryHistory(
+    firebaseUid: string,
+    days: number = RECOVERY_SCORE.DEFAULT_HISTORY_DAYS,
+    timeZone: string = RECOVERY_SCORE.DEFAULT_TIMEZONE,
+  ): Promise<RecoveryHistory> {
+    const now = new Date();
+    const today = await this.updateDailyScore(firebaseUid, timeZone, now);
+    const todayDate = SessionStatsUtils.toLocalDate(now, timeZone);
+
+    const history = await this.getScores(
+      firebaseUid,
+      SessionStatsUtils.addDays(todayDate, -(days - 1)),
+      todayDate,
+    );
+
+    return {
+      timeZone,
+      today: today ?? history.find((score) => score.date === todayDate) ?? null,
+      history,
+    };
+  }
+
+  /**
+   * Stored daily scores in a date range (inclusive), oldest first
+   */
+  async getScores(
+    firebaseUid: string,
+    from: string,
+    to: string,
+  ): Promise<IRecoveryScore[]> {
+    return RecoveryScore.find({
+      firebaseUid,
+      date: { $gte: from, $lte: to },
+    })
+      .sort({ date: 1 })
+      .lean<IRecoveryScore[]>();
+  }
+}
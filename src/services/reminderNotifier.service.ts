@@ -0,0 +1,146 @@
+import { sendEmail } from "./email.service";
+import { NotificationService } from "./notification.service";
+
+/**
+ * A due reminder for a scheduled session
+ */
+export interface SessionReminder {
+  firebaseUid: string;
+  email?: string;
+  fullName?: string;
+  scheduleId: string;
+  sessionId: string;
+  sessionName: string;
+  totalDurationMinutes: number;
+  occurrenceAt: Date;
+  timeZone: string;
+}
+
+/**
+ * Delivery channel for session reminders.
+ * The scheduler worker only talks to this interface, so new channels
+ * can be added without touching the worker.
+ */
+export interface ReminderNotifier {
+  readonly name: string;
+  send(reminder: SessionReminder): Promise<void>;
+}
+
+export class EmailReminderNotifier implements ReminderNotifier {
+  readonly name = "email";
+
+  async send(reminder: SessionReminder): Promise<void> {
+    if (!reminder.email) {
+      console.warn(
+        `⚠️ No email address for user ${reminder.firebaseUid}, skipping reminder`,
+      );
+      return;
+    }
+
+    const time = new Intl.DateTimeFormat("en-US", {
+      timeZone: reminder.timeZone,
+      weekday: "long",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(reminder.occurrenceAt);
+
+    await sendEmail({
+      to: reminder.email,
+      subject: `Reminder: ${reminder.sessionName} at ${time}`,
+      html: getReminderEmailTemplate(reminder, time),
+    });
+  }
+}
+
+/**
+ * Push notification to the user's devices.
+ * Users without a registered device get the fallback (email) instead.
+ */
+export class PushReminderNotifier implements ReminderNotifier {
+  readonly name = "push";
+  private notificationService = new NotificationService();
+
+  constructor(private fallback: ReminderNotifier | null = null) {}
+
+  async send(reminder: SessionReminder): Promise<void> {
+    const time = new Intl.DateTimeFormat("en-US", {
+      timeZone: reminder.timeZone,
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(reminder.occurrenceAt);
+
+    // The user picked this time, so quiet hours don't apply
+    const result = await this.notificationService.sendToUser(
+      reminder.firebaseUid,
+      {
+        category: "session_reminders",
+        title: `${reminder.sessionName} at ${time}`,
+        body: `Your ${Math.round(reminder.totalDurationMinutes)} minute session is coming up. Tap to get ready.`,
+        data: {
+          sessionId: reminder.sessionId,
+          scheduleId: reminder.scheduleId,
+        },
+      },
+      { ignoreQuietHours: true },
+    );
+
+    if (result.skipped === "no_devices" && this.fallback) {
+      await this.fallback.send(reminder);
+    }
+  }
+}
+
+/**
+ * Notifier selected by REMINDER_NOTIFIER (defaults to push with email fallback)
+ */
+export function createReminderNotifier(
+  name: string = process.env.REMINDER_NOTIFIER || "push",
+): ReminderNotifier {
+  switch (name) {
+    case "push":
+      return new PushReminderNotifier(new EmailReminderNotifier());
+    case "email":
+      return new EmailReminderNotifier();
+    default:
+      throw new Error(`Unknown reminder notifier: ${name}`);
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const getReminderEmailTemplate = (
+  reminder: SessionReminder,
+  time: string,
+): string => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; background-color: #f4f4f4; padding: 20px; }
+        .container { max-width: 500px; margin: 0 auto; background: white; padding: 30px; border-radius: 10px; }
+        .session { font-size: 22px; font-weight: bold; color: #00A3C7; text-align: center; padding: 20px; background: #f0f9fb; border-radius: 8px; margin: 20px 0; }
+        .footer { color: #888; font-size: 12px; margin-top: 30px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>Time for your session</h1>
+        <p>Hi ${escapeHtml(reminder.fullName || "there")},</p>
+        <p>You planned this session for <strong>${time}</strong>:</p>
+        <div class="session">${escapeHtml(reminder.sessionName)}</div>
+        <p>It takes about <strong>${Math.round(reminder.totalDurationMinutes)} minutes</strong>. Open the H2Oasis app when you're ready to start.</p>
+        <div class="footer">
+          <p>You're receiving this because you scheduled this session in H2Oasis.</p>
+          <p>© 2025 H2Oasis. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+};
@@ -306,3 +306,34 @@ export const getAllHealthDataForSource = async (
   console.log(`✅ Health data fetch complete for ${dataSource}`);
   return results;
 };
+
+/**
+ * Delete a user and all their data from ROOK
+ * API: DELETE /api/v1/user_id/{user_id}
+ * @returns false if ROOK didn't know the user
+ */
+export const deleteRookUser = async (userId: string): Promise<boolean> => {
+  try {
+    await axios.delete(`${ROOK_BASE_URL}/api/v1/user_id/${userId}`, {
+      headers: {
+        "User-Agent": "H2Oasis/1.0.0",
+        Authorization: `Basic ${Buffer.from(`${ROOK_CLIENT_UUID}:${ROOK_SECRET_KEY}`).toString("base64")}`,
+        Accept: "application/json",
+      },
+    });
+
+    console.log(`🗑️ Deleted ROOK user ${userId}`);
+    return true;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      console.log(`ℹ️ ROOK user ${userId} not found, nothing to delete`);
+      return false;
+    }
+
+    console.error(
+      "❌ Error deleting ROOK user:",
+      error.response?.data || error.message,
+    );
+    throw error;
+  }
+};
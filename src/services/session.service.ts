@@ -1,6 +1,22 @@
-import { Session, ISession, ISessionStep } from "../models/Session.model";
+import mongoose from "mongoose";
+import {
+  Session,
+  ISession,
+  ISessionStep,
+  ISessionSafetyReview,
+  ISessionCompletionFeedback,
+  ISessionGenerationInputs,
+} from "../models/Session.model";
+import { ISessionRun, SessionRun } from "../models/SessionRun.model";
+import { SessionSchedule } from "../models/SessionSchedule.model";
 import { v4 as uuidv4 } from "uuid";
 import { sessionCacheService } from "./sessionCache.service";
+import { SessionSafetyService } from "./sessionSafety.service";
+import { ProductType, SESSION_LIBRARY, SESSION_STATS } from "../constants";
+import {
+  CompletionRecord,
+  SessionStatsUtils,
+} from "../utils/sessionStats.utils";
 
 interface CreateSessionInput {
   sessionId?: string; // Optional - generated if not provided
@@ -12,6 +28,8 @@ interface CreateSessionInput {
   Tips: string[];
   StartMessage: string;
   CompletionMessage: string;
+  safetyReview?: ISessionSafetyReview; // Review from generation, kept on record
+  generationInputs?: ISessionGenerationInputs;
 }
 
 interface UpdateSessionInput {
@@ -24,35 +42,65 @@ interface UpdateSessionInput {
   CompletionMessage?: string;
   isCompleted?: boolean;
   completedAt?: Date;
+  isFavorited?: boolean;
+  isArchived?: boolean;
+  archivedAt?: Date | null;
+  productType?: ProductType;
+  safetyReview?: ISessionSafetyReview;
+  completionFeedback?: Omit<ISessionCompletionFeedback, "recordedAt"> & {
+    recordedAt?: Date;
+  };
 }
 
 interface SessionFilters {
   firebaseUid: string;
   isCompleted?: boolean;
+  isFavorited?: boolean;
+  isArchived?: boolean;
 }
 
 export class SessionService {
+  private sessionSafetyService: SessionSafetyService;
+
+  constructor() {
+    this.sessionSafetyService = new SessionSafetyService();
+  }
+
   /**
    * Save or update a session (upsert operation)
+   * Steps go through the safety guardrails first (throws SessionSafetyError)
    */
   async saveSession(input: CreateSessionInput): Promise<ISession> {
     console.log(`💾 saveSession called with sessionId: ${input.sessionId}`);
 
+    const reviewed = await this.sessionSafetyService.reviewSteps(
+      input.firebaseUid,
+      input.Steps,
+      input.safetyReview?.modifications,
+    );
+
     // Check if session already exists for this user
-    const existingSession = await Session.findOne({
-      firebaseUid: input.firebaseUid,
-      sessionId: input.sessionId,
-    });
+    const existingSession = input.sessionId
+      ? await Session.findOne({
+          firebaseUid: input.firebaseUid,
+          sessionId: input.sessionId,
+        })
+      : null;
 
     if (existingSession) {
       // Update existing session in MongoDB
       existingSession.SessionName = input.SessionName;
-      existingSession.TotalDurationMinutes = input.TotalDurationMinutes;
+      existingSession.TotalDurationMinutes = reviewed.TotalDurationMinutes;
       existingSession.RecommendedFor = input.RecommendedFor;
-      existingSession.Steps = input.Steps;
+      existingSession.Steps = reviewed.Steps;
       existingSession.Tips = input.Tips;
       existingSession.StartMessage = input.StartMessage;
       existingSession.CompletionMessage = input.CompletionMessage;
+      existingSession.productType = reviewed.productType;
+      existingSession.safetyReview = reviewed.safetyReview;
+      if (input.generationInputs) {
+        existingSession.generationInputs = input.generationInputs;
+      }
 
       await existingSession.save();
       console.log(
@@ -73,12 +121,15 @@ export class SessionService {
       sessionId: input.sessionId || uuidv4(),
       firebaseUid: input.firebaseUid,
       SessionName: input.SessionName,
-      TotalDurationMinutes: input.TotalDurationMinutes,
+      TotalDurationMinutes: reviewed.TotalDurationMinutes,
       RecommendedFor: input.RecommendedFor,
-      Steps: input.Steps,
+      Steps: reviewed.Steps,
       Tips: input.Tips,
       StartMessage: input.StartMessage,
       CompletionMessage: input.CompletionMessage,
+      productType: reviewed.productType,
+      safetyReview: reviewed.safetyReview,
+      generationInputs: input.generationInputs,
       isCompleted: false,
     };
 
@@ -95,54 +146,121 @@ export class SessionService {
       session.toObject() as ISession,
     );
 
+    await this.enforceRetentionLimit(input.firebaseUid, session.sessionId);
+
     return session;
   }
 
   /**
-   * Get all sessions for a user with optional filters
-   * Uses Redis cache for faster reads, falls back to MongoDB
+   * Get the user's session library with optional filters
+   * The full library is cached in Redis and filtered in memory,
+   * falling back to MongoDB on a cache miss
    */
   async getUserSessions(filters: SessionFilters): Promise<ISession[]> {
-    // Only use cache for unfiltered requests (most common case)
-    if (filters.isCompleted === undefined) {
-      // Try Redis cache first
-      const cachedSessions = await sessionCacheService.getUserSessions(
-        filters.firebaseUid,
-      );
-
-      if (cachedSessions) {
-        // Cache hit - return immediately
-        return cachedSessions;
-      }
-    }
-
-    // Cache miss or filtered request - query MongoDB
-    const query: any = { firebaseUid: filters.firebaseUid };
+    const sessions = await this.getSessionLibrary(filters.firebaseUid);
+
+    return sessions.filter(
+      (session) =>
+        (filters.isCompleted === undefined ||
+          session.isCompleted === filters.isCompleted) &&
+        (filters.isFavorited === undefined ||
+          !!session.isFavorited === filters.isFavorited) &&
+        (filters.isArchived === undefined ||
+          !!session.isArchived === filters.isArchived),
+    );
+  }
 
-    // Add optional filters
-    if (filters.isCompleted !== undefined) {
-      query.isCompleted = filters.isCompleted;
+  /**
+   * All sessions for a user, most recent first (cache first)
+   */
+  private async getSessionLibrary(firebaseUid: string): Promise<ISession[]> {
+    // Try Redis cache first
+    const cachedSessions =
+      await sessionCacheService.getUserSessions(firebaseUid);
+
+    if (cachedSessions) {
+      // Cache hit - return immediately
+      return cachedSessions;
     }
 
-    const sessions = await Session.find(query)
+    // Cache miss - query MongoDB
+    const sessions = await Session.find({ firebaseUid })
       .sort({ createdAt: -1 }) // Most recent first
       .lean<ISession[]>();
 
     console.log(
-      `📋 Found ${sessions.length} sessions for user ${filters.firebaseUid} (from MongoDB)`,
+      `📋 Found ${sessions.length} sessions for user ${firebaseUid} (from MongoDB)`,
     );
 
-    // Populate cache for unfiltered requests
-    if (filters.isCompleted === undefined) {
-      await sessionCacheService.cacheUserSessions(
-        filters.firebaseUid,
-        sessions,
-      );
-    }
+    await sessionCacheService.cacheUserSessions(firebaseUid, sessions);
 
     return sessions;
   }
 
+  /**
+   * Keep the library within the retention limit by deleting the oldest
+   * non-favorited sessions (archived ones first). Favorites and sessions
+   * with an active schedule are never pruned.
+   * @param keepSessionId session that must survive (e.g. the one just saved)
+   */
+  async enforceRetentionLimit(
+    firebaseUid: string,
+    keepSessionId?: string,
+  ): Promise<number> {
+    const limit =
+      Number(process.env.SESSION_RETENTION_LIMIT) ||
+      SESSION_LIBRARY.DEFAULT_RETENTION_LIMIT;
+
+    const total = await Session.countDocuments({ firebaseUid });
+    const excess = total - limit;
+
+    if (excess <= 0) return 0;
+
+    const scheduledSessionIds = await SessionSchedule.distinct("sessionId", {
+      firebaseUid,
+      isActive: true,
+    });
+    const protectedSessionIds = keepSessionId
+      ? [...scheduledSessionIds, keepSessionId]
+      : scheduledSessionIds;
+
+    const candidates = await Session.find({
+      firebaseUid,
+      isFavorited: { $ne: true },
+      sessionId: { $nin: protectedSessionIds },
+    })
+      .sort({ isArchived: -1, updatedAt: 1 })
+      .limit(excess)
+      .select("sessionId")
+      .lean<Pick<ISession, "sessionId">[]>();
+
+    if (candidates.length === 0) return 0;
+
+    const sessionIds = candidates.map((s) => s.sessionId);
+    const result = await Session.deleteMany({
+      firebaseUid,
+      sessionId: { $in: sessionIds },
+    });
+    await SessionRun.deleteMany({
+      firebaseUid,
+      sessionId: { $in: sessionIds },
+    });
+    await SessionSchedule.deleteMany({
+      firebaseUid,
+      sessionId: { $in: sessionIds },
+    });
+
+    console.log(
+      `🧹 Retention limit (${limit}) reached - removed ${result.deletedCount} old sessions for user ${firebaseUid}`,
+    );
+
+    for (const sessionId of sessionIds) {
+      await sessionCacheService.invalidateSession(firebaseUid, sessionId);
+    }
+
+    return result.deletedCount;
+  }
+
   /**
    * Get a single session by ID
    */
@@ -165,23 +283,47 @@ export class SessionService {
 
   /**
    * Update a session (for editing timers, favoriting, marking complete)
+   * Edited steps go through the safety guardrails (throws SessionSafetyError)
    */
   async updateSession(
     sessionId: string,
     firebaseUid: string,
     updates: UpdateSessionInput,
   ): Promise<ISession | null> {
+    if (updates.Steps) {
+      const reviewed = await this.sessionSafetyService.reviewSteps(
+        firebaseUid,
+        updates.Steps,
+      );
+      updates.Steps = reviewed.Steps;
+      updates.TotalDurationMinutes = reviewed.TotalDurationMinutes;
+      updates.productType = reviewed.productType;
+      updates.safetyReview = reviewed.safetyReview;
+    }
+
     // If marking as completed, set completedAt timestamp
     if (updates.isCompleted === true && !updates.completedAt) {
       updates.completedAt = new Date();
     }
 
-    // Try to find by MongoDB _id first, then fall back to sessionId field
-    let session = await Session.findOneAndUpdate(
-      { _id: sessionId, firebaseUid },
-      { $set: updates },
-      { new: true }, // Return updated document
-    );
+    if (updates.completionFeedback) {
+      updates.completionFeedback.recordedAt = new Date();
+    }
+
+    // Track when a session was archived, clear it when restored
+    if (updates.isArchived !== undefined) {
+      updates.archivedAt = updates.isArchived ? new Date() : null;
+    }
+
+    // Try to find by MongoDB _id first, then fall back to sessionId field.
+    // Session ids are UUIDs, which would fail the ObjectId cast
+    let session = mongoose.isValidObjectId(sessionId)
+      ? await Session.findOneAndUpdate(
+          { _id: sessionId, firebaseUid },
+          { $set: updates },
+          { new: true }, // Return updated document
+        )
+      : null;
 
     // If not found by _id, try by sessionId field
     if (!session) {
@@ -224,6 +366,10 @@ export class SessionService {
 
     console.log(`🗑️ Session deleted: ${sessionId}`);
 
+    // Runs and schedules belong to the session
+    await SessionRun.deleteMany({ sessionId, firebaseUid });
+    await SessionSchedule.deleteMany({ sessionId, firebaseUid });
+
     // Remove from cache
     await sessionCacheService.removeSessionFromCache(firebaseUid, sessionId);
 
@@ -233,16 +379,82 @@ export class SessionService {
   /**
    * Get session statistics for a user
    */
-  async getSessionStats(firebaseUid: string) {
-    const [total, completed] = await Promise.all([
-      Session.countDocuments({ firebaseUid }),
-      Session.countDocuments({ firebaseUid, isCompleted: true }),
-    ]);
+  async getSessionStats(
+    firebaseUid: string,
+    timeZone: string = SESSION_STATS.DEFAULT_TIMEZONE,
+  ) {
+    const [total, completed, favorited, archived, runs, completedSessions] =
+      await Promise.all([
+        Session.countDocuments({ firebaseUid }),
+        Session.countDocuments({ firebaseUid, isCompleted: true }),
+        Session.countDocuments({ firebaseUid, isFavorited: true }),
+        Session.countDocuments({ firebaseUid, isArchived: true }),
+        SessionRun.find({ firebaseUid, status: { $ne: "in_progress" } })
+          .select("sessionId status startedAt endedAt steps rating")
+          .lean<ISessionRun[]>(),
+        Session.find({ firebaseUid, isCompleted: true })
+          .select("sessionId completedAt updatedAt Steps completionFeedback")
+          .lean<ISession[]>(),
+      ]);
+
+    const completions = this.toCompletions(runs, completedSessions);
+
+    // Ratings sent on completion count for sessions without a rated run
+    const ratedRuns = runs.filter((run) => run.rating);
+    const ratedSessionIds = new Set(ratedRuns.map((run) => run.sessionId));
+    const ratings = [
+      ...ratedRuns.map((run) => run.rating!.score),
+      ...completedSessions
+        .filter(
+          (session) =>
+            session.completionFeedback?.rating &&
+            !ratedSessionIds.has(session.sessionId),
+        )
+        .map((session) => session.completionFeedback!.rating!),
+    ];
 
     return {
       total,
       completed,
       pending: total - completed,
+      favorited,
+      archived,
+      ...SessionStatsUtils.compute(completions, ratings, { timeZone }),
     };
   }
+
+  /**
+   * Every completed session as a completion record (tracked runs, plus
+   * sessions marked complete without one)
+   */
+  async getCompletions(firebaseUid: string): Promise<CompletionRecord[]> {
+    const [runs, completedSessions] = await Promise.all([
+      SessionRun.find({ firebaseUid, status: "completed" })
+        .select("sessionId status startedAt endedAt steps")
+        .lean<ISessionRun[]>(),
+      Session.find({ firebaseUid, isCompleted: true })
+        .select("sessionId completedAt updatedAt Steps completionFeedback")
+        .lean<ISession[]>(),
+    ]);
+
+    return this.toCompletions(runs, completedSessions);
+  }
+
+  private toCompletions(
+    runs: ISessionRun[],
+    completedSessions: ISession[],
+  ): CompletionRecord[] {
+    const completedRuns = runs.filter((run) => run.status === "completed");
+    const trackedSessionIds = new Set(
+      completedRuns.map((run) => run.sessionId),
+    );
+
+    // Sessions marked complete without a tracked run still count, using planned durations
+    return [
+      ...completedRuns.map((run) => SessionStatsUtils.fromRun(run)),
+      ...completedSessions
+        .filter((session) => !trackedSessionIds.has(session.sessionId))
+        .map((session) => SessionStatsUtils.fromSession(session)),
+    ];
+  }
 }
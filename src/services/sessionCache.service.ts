@@ -217,10 +217,9 @@ export class SessionCacheService {
         // Re-cache the updated list
         await this.cacheUserSessions(userId, updatedSessions);
         console.log(`📝 Updated sessions cache with "${session.SessionName}"`);
-      } else {
-        // No cached list exists, just cache this single session
-        await this.cacheUserSessions(userId, [session]);
       }
+      // No cached list - don't cache a partial library, the next read
+      // rebuilds the full list from MongoDB
     } catch (error) {
       console.error("❌ Failed to add session to cache:", error);
     }
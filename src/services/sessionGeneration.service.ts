@@ -0,0 +1,186 @@
+import { Session } from "./h2oasis-ai.service";
+import { AISessionOptions, getAIProvider } from "./aiProvider.service";
+import {
+  SessionValidationError,
+  SessionValidationUtils,
+} from "../utils/sessionValidation.utils";
+import { SessionSafetyError } from "../utils/sessionSafety.utils";
+import { SessionSafetyService } from "./sessionSafety.service";
+import { SessionTemplateService } from "./sessionTemplate.service";
+import { ISessionSafetyReview } from "../models/Session.model";
+import { ProductType, SESSION_LIMITS, SessionSource } from "../constants";
+
+// Validated session with the safety review of its steps
+export type GeneratedSession = Session & {
+  productType?: ProductType;
+  safetyReview: ISessionSafetyReview;
+  source: SessionSource;
+  templateId?: string; // Set when built from a session template
+};
+
+/**
+ * Session Generation Service
+ *
+ * Makes sure AI-generated sessions match the schema before they reach the
+ * database or the client timer screen, and that steps pass the product
+ * safety guardrails. Failing output gets one repair re-prompt; if that still
+ * fails a SessionValidationError or SessionSafetyError is thrown.
+ * When the AI provider itself fails, a session is built from the closest
+ * session template instead.
+ */
+export class SessionGenerationService {
+  private sessionSafetyService: SessionSafetyService;
+  private sessionTemplateService: SessionTemplateService;
+
+  constructor() {
+    this.sessionSafetyService = new SessionSafetyService();
+    this.sessionTemplateService = new SessionTemplateService();
+  }
+
+  /**
+   * Generate a session with the user's AI provider and validate it
+   */
+  async generateSession(
+    firebaseUid: string,
+    wearablesData: unknown,
+    options: AISessionOptions,
+  ): Promise<GeneratedSession> {
+    let session: unknown;
+    try {
+      session = await getAIProvider(firebaseUid).createSession(
+        wearablesData,
+        options,
+      );
+    } catch (error) {
+      // Nobody is waiting for a cancelled request
+      if (options.signal?.aborted) throw error;
+
+      console.error(
+        "❌ AI session generation failed, falling back to templates:",
+        error,
+      );
+
+      const fallback = await this.sessionTemplateService.selectSession(
+        firebaseUid,
+        options,
+      );
+      if (!fallback) throw error;
+      return fallback;
+    }
+
+    return this.ensureValidSession(
+      firebaseUid,
+      session,
+      wearablesData,
+      options,
+    );
+  }
+
+  /**
+   * Validate a session produced by the AI and run the safety guardrails,
+   * repairing it once if either check fails
+   */
+  async ensureValidSession(
+    firebaseUid: string,
+    candidate: unknown,
+    wearablesData: unknown,
+    options: AISessionOptions,
+  ): Promise<GeneratedSession> {
+    const first = await this.check(firebaseUid, candidate);
+
+    if (!(first instanceof Error)) {
+      return first;
+    }
+
+    const issues = this.issuesOf(first);
+    console.warn(
+      `⚠️ AI session failed checks (${issues.length} issues), requesting repair`,
+    );
+
+    let repaired: unknown;
+    try {
+      repaired = await getAIProvider(firebaseUid).createSession(wearablesData, {
+        ...options,
+        customPrompt: this.buildRepairPrompt(candidate, issues),
+      });
+    } catch (error) {
+      console.error("❌ Session repair request failed:", error);
+      throw first;
+    }
+
+    const second = await this.check(firebaseUid, repaired);
+
+    if (second instanceof Error) {
+      console.error(
+        "❌ Repaired session still invalid:",
+        this.issuesOf(second),
+      );
+      throw second;
+    }
+
+    console.log("🔧 Session repaired successfully");
+    return second;
+  }
+
+  /**
+   * Schema validation followed by the safety review.
+   * Returns the failure instead of throwing so the caller can repair.
+   */
+  private async check(
+    firebaseUid: string,
+    candidate: unknown,
+  ): Promise<GeneratedSession | SessionValidationError | SessionSafetyError> {
+    const result = SessionValidationUtils.validate(candidate);
+
+    if (!result.valid) {
+      return new SessionValidationError(result.issues);
+    }
+
+    try {
+      const reviewed = await this.sessionSafetyService.reviewSteps(
+        firebaseUid,
+        result.session.Steps,
+      );
+
+      return {
+        ...(result.session as Session),
+        Steps: reviewed.Steps as Session["Steps"],
+        TotalDurationMinutes: reviewed.TotalDurationMinutes,
+        productType: reviewed.productType,
+        safetyReview: reviewed.safetyReview,
+        source: "ai",
+      };
+    } catch (error) {
+      if (error instanceof SessionSafetyError) {
+        return error;
+      }
+      throw error;
+    }
+  }
+
+  private issuesOf(error: SessionValidationError | SessionSafetyError) {
+    return error instanceof SessionValidationError
+      ? error.issues
+      : error.violations;
+  }
+
+  private buildRepairPrompt(candidate: unknown, issues: string[]): string {
+    return `The guided wellness session JSON below is invalid.
+
+PROBLEMS:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+RULES:
+1. Steps are numbered 1, 2, 3... in order
+2. Every DurationMinutes is a positive number
+3. TotalDurationMinutes equals the sum of all step durations
+4. Cold exposure steps are at most ${SESSION_LIMITS.MAX_COLD_STEP_MINUTES} minutes, heat exposure steps at most ${SESSION_LIMITS.MAX_HEAT_STEP_MINUTES} minutes
+5. The whole session is at most ${SESSION_LIMITS.MAX_TOTAL_MINUTES} minutes
+6. Temperatures stay within safe limits for each product
+
+Fix the problems and return ONLY the corrected JSON with the same structure.
+
+SESSION:
+${JSON.stringify(candidate)}`;
+  }
+}
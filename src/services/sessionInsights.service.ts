@@ -0,0 +1,136 @@
+import { User } from "../models/User.model";
+import { ISleepData } from "../models/HealthData.types";
+import { SessionService } from "./session.service";
+import { HealthHistoryService } from "./healthHistory.service";
+import { RecoveryScoreService } from "./recoveryScore.service";
+import redisClient from "../utils/redis";
+import { FusionSource, HealthFusionUtils } from "../utils/healthFusion.utils";
+import {
+  SessionInsights,
+  SessionInsightsUtils,
+} from "../utils/sessionInsights.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import { SESSION_INSIGHTS } from "../constants";
+
+/**
+ * Session Insights Service
+ *
+ * Shows users what their cold plunge, hot tub and sauna sessions do for
+ * them: completed sessions are joined with the following night's sleep,
+ * HRV and recovery score, and compared with nights after rest days.
+ */
+export class SessionInsightsService {
+  private sessionService: SessionService;
+  private healthHistoryService: HealthHistoryService;
+  private recoveryScoreService: RecoveryScoreService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+    this.healthHistoryService = new HealthHistoryService();
+    this.recoveryScoreService = new RecoveryScoreService();
+  }
+
+  /**
+   * Effects over the last LOOKBACK_DAYS (cached for an hour)
+   * Returns null if the user doesn't exist
+   */
+  async getInsights(
+    firebaseUid: string,
+    timeZone?: string,
+  ): Promise<SessionInsights | null> {
+    const user = await User.findOne({ firebaseUid })
+      .select("preferences")
+      .lean();
+
+    if (!user) return null;
+
+    const zone =
+      timeZone ||
+      (user.preferences?.timezone &&
+      SessionStatsUtils.isValidTimeZone(user.preferences.timezone)
+        ? user.preferences.timezone
+        : SESSION_INSIGHTS.DEFAULT_TIMEZONE);
+    const cacheKey = `insights:${firebaseUid}:${zone}`;
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) return JSON.parse(cached);
+    } catch (error) {
+      console.warn("⚠️ Redis cache read failed, computing insights:", error);
+    }
+
+    // The night after today hasn't happened yet: stop at yesterday
+    const today = SessionStatsUtils.toLocalDate(new Date(), zone);
+    const to = SessionStatsUtils.addDays(today, -1);
+    const from = SessionStatsUtils.addDays(
+      today,
+      -SESSION_INSIGHTS.LOOKBACK_DAYS,
+    );
+
+    const [completions, summaries, scores] = await Promise.all([
+      this.sessionService.getCompletions(firebaseUid),
+      this.healthHistoryService.getSummaries(firebaseUid, {
+        from: SessionStatsUtils.addDays(from, 1),
+        to: today,
+        dataType: "sleep",
+      }),
+      this.recoveryScoreService.getScores(
+        firebaseUid,
+        SessionStatsUtils.addDays(from, 1),
+        today,
+      ),
+    ]);
+
+    // One sleep record per night, fused across wearables
+    const byDate = new Map<string, FusionSource[]>();
+    for (const summary of summaries) {
+      byDate.set(summary.date, [
+        ...(byDate.get(summary.date) || []),
+        { source: summary.source, data: { sleep: summary.data as ISleepData } },
+      ]);
+    }
+    const sleepByDate = new Map<string, ISleepData>();
+    for (const [date, inputs] of byDate) {
+      const { data } = HealthFusionUtils.fuse(
+        inputs,
+        user.preferences?.sourcePriority,
+      );
+      if (data.sleep) sleepByDate.set(date, data.sleep);
+    }
+
+    const sessionDays = SessionInsightsUtils.sessionDays(completions, zone);
+    const nights = SessionInsightsUtils.nightlyMetrics(sleepByDate, scores);
+
+    const insights: SessionInsights = {
+      timeZone: zone,
+      from,
+      to,
+      sessionDays: [...sessionDays.keys()].filter(
+        (date) => date >= from && date <= to,
+      ).length,
+      effects: SessionInsightsUtils.compute(sessionDays, nights, { from, to }),
+    };
+
+    try {
+      await redisClient.set(cacheKey, JSON.stringify(insights), {
+        EX: SESSION_INSIGHTS.CACHE_TTL_SECONDS,
+      });
+    } catch (error) {
+      console.warn("⚠️ Redis cache write failed:", error);
+    }
+
+    return insights;
+  }
+
+  /**
+   * The strongest reportable effects as sentences for the AI context
+   */
+  async getContextInsights(firebaseUid: string): Promise<string[]> {
+    const insights = await this.getInsights(firebaseUid);
+
+    return (insights?.effects || [])
+      .filter((effect) => effect.confidence !== "low")
+      .slice(0, SESSION_INSIGHTS.MAX_CONTEXT_INSIGHTS)
+      .map((effect) => effect.summary);
+  }
+}
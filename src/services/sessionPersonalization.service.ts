@@ -0,0 +1,115 @@
+import { User } from "../models/User.model";
+import { ISession, Session } from "../models/Session.model";
+import { ISessionRun, SessionRun } from "../models/SessionRun.model";
+import { RecoveryScoreService } from "./recoveryScore.service";
+import {
+  RecentSessionSummary,
+  SessionPersonalizationContext,
+  SessionPersonalizationUtils,
+} from "../utils/sessionPersonalization.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+import {
+  ProductType,
+  RECOVERY_SCORE,
+  SESSION_PERSONALIZATION,
+} from "../constants";
+
+/**
+ * Session Personalization Service
+ *
+ * Builds the context passed to session generation: how the user's recent
+ * sessions went (skipped steps, ratings, actual durations), their
+ * recovery trend and product.
+ */
+export class SessionPersonalizationService {
+  private recoveryScoreService: RecoveryScoreService;
+
+  constructor() {
+    this.recoveryScoreService = new RecoveryScoreService();
+  }
+
+  async buildContext(
+    firebaseUid: string,
+  ): Promise<SessionPersonalizationContext> {
+    const user = await User.findOne({ firebaseUid })
+      .select("selectedProduct preferences")
+      .lean();
+
+    const timeZone =
+      user?.preferences?.timezone &&
+      SessionStatsUtils.isValidTimeZone(user.preferences.timezone)
+        ? user.preferences.timezone
+        : RECOVERY_SCORE.DEFAULT_TIMEZONE;
+    const today = SessionStatsUtils.toLocalDate(new Date(), timeZone);
+
+    const [recentSessions, scores] = await Promise.all([
+      this.getRecentSessions(firebaseUid),
+      this.recoveryScoreService.getScores(
+        firebaseUid,
+        SessionStatsUtils.addDays(
+          today,
+          -(SESSION_PERSONALIZATION.RECOVERY_DAYS - 1),
+        ),
+        today,
+      ),
+    ]);
+
+    return SessionPersonalizationUtils.build(
+      recentSessions,
+      SessionPersonalizationUtils.recovery(scores),
+      (user?.selectedProduct?.type as ProductType | undefined) || null,
+    );
+  }
+
+  /**
+   * Latest finished runs and sessions completed without a run, newest first
+   */
+  private async getRecentSessions(
+    firebaseUid: string,
+  ): Promise<RecentSessionSummary[]> {
+    const limit = SESSION_PERSONALIZATION.RECENT_SESSIONS;
+
+    const [runs, completedSessions] = await Promise.all([
+      SessionRun.find({
+        firebaseUid,
+        status: { $in: ["completed", "abandoned"] },
+      })
+        .sort({ startedAt: -1 })
+        .limit(limit)
+        .select("sessionId status startedAt endedAt steps rating")
+        .lean<ISessionRun[]>(),
+      Session.find({ firebaseUid, isCompleted: true })
+        .sort({ completedAt: -1 })
+        .limit(limit)
+        .select(
+          "sessionId SessionName productType Steps completedAt updatedAt completionFeedback",
+        )
+        .lean<ISession[]>(),
+    ]);
+
+    const runSessions = await Session.find({
+      firebaseUid,
+      sessionId: { $in: [...new Set(runs.map((run) => run.sessionId))] },
+    })
+      .select("sessionId SessionName productType")
+      .lean<ISession[]>();
+    const sessionsById = new Map(
+      runSessions.map((session) => [session.sessionId, session]),
+    );
+    const trackedSessionIds = new Set(runs.map((run) => run.sessionId));
+
+    return [
+      ...runs.map((run) =>
+        SessionPersonalizationUtils.fromRun(
+          run,
+          sessionsById.get(run.sessionId),
+        ),
+      ),
+      ...completedSessions
+        .filter((session) => !trackedSessionIds.has(session.sessionId))
+        .map((session) => SessionPersonalizationUtils.fromSession(session)),
+    ]
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, limit);
+  }
+}
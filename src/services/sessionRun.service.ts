@@ -0,0 +1,318 @@
+import { v4 as uuidv4 } from "uuid";
+import { Session } from "../models/Session.model";
+import {
+  ISessionRun,
+  ISessionRunStep,
+  SessionRun,
+} from "../models/SessionRun.model";
+import { SessionService } from "./session.service";
+
+export type RunEventType =
+  "step_started" | "step_skipped" | "step_finished" | "paused" | "resumed";
+
+export interface RunEventInput {
+  type: RunEventType;
+  stepNumber?: number; // Required for step events
+  at?: Date; // When it happened on the device - defaults to now
+  actualDurationSeconds?: number;
+}
+
+interface RunRatingInput {
+  score: number;
+  comment?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Thrown when an event doesn't fit the run's current state
+ * (e.g. a step event on a finished run)
+ */
+export class SessionRunStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionRunStateError";
+  }
+}
+
+export class SessionRunService {
+  private sessionService: SessionService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+  }
+
+  /**
+   * Start a new run of a session
+   * Returns null if the session doesn't exist for this user
+   */
+  async startRun(
+    firebaseUid: string,
+    sessionId: string,
+    startedAt: Date = new Date(),
+  ): Promise<ISessionRun | null> {
+    const session = await Session.findOne({ sessionId, firebaseUid }).lean();
+
+    if (!session) {
+      console.warn(`⚠️ Session not found for run: ${sessionId}`);
+      return null;
+    }
+
+    // Snapshot the steps so later edits to the session don't change history
+    const run = await SessionRun.create({
+      runId: uuidv4(),
+      sessionId,
+      firebaseUid,
+      status: "in_progress",
+      startedAt,
+      steps: session.Steps.map((step) => ({
+        stepNumber: step.StepNumber,
+        activity: step.Activity,
+        plannedDurationMinutes: step.DurationMinutes,
+        status: "pending",
+      })),
+    });
+
+    console.log(
+      `▶️ Session run started: ${run.runId} (${session.SessionName})`,
+    );
+    return run;
+  }
+
+  /**
+   * Runs of a session, most recent first
+   */
+  async listRuns(
+    firebaseUid: string,
+    sessionId: string,
+    page: number = 1,
+    limit: number = DEFAULT_PAGE_SIZE,
+  ) {
+    const safeLimit = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const safePage = Math.max(page, 1);
+    const filter = { firebaseUid, sessionId };
+
+    const [total, runs] = await Promise.all([
+      SessionRun.countDocuments(filter),
+      SessionRun.find(filter)
+        .sort({ startedAt: -1 })
+        .skip((safePage - 1) * safeLimit)
+        .limit(safeLimit)
+        .lean<ISessionRun[]>(),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        page: safePage,
+        limit: safeLimit,
+        total,
+        hasMore: safePage * safeLimit < total,
+      },
+    };
+  }
+
+  async getRun(
+    firebaseUid: string,
+    sessionId: string,
+    runId: string,
+  ): Promise<ISessionRun | null> {
+    return SessionRun.findOne({ runId, sessionId, firebaseUid });
+  }
+
+  /**
+   * Record step progress or a pause/resume on an in-progress run
+   */
+  async recordEvent(
+    firebaseUid: string,
+    sessionId: string,
+    runId: string,
+    event: RunEventInput,
+  ): Promise<ISessionRun | null> {
+    const run = await this.getRun(firebaseUid, sessionId, runId);
+    if (!run) return null;
+
+    this.assertInProgress(run);
+    const at = event.at || new Date();
+
+    switch (event.type) {
+      case "paused": {
+        if (this.getOpenPause(run)) {
+          throw new SessionRunStateError("Run is already paused");
+        }
+        run.pauses.push({ stepNumber: event.stepNumber, pausedAt: at });
+        break;
+      }
+
+      case "resumed": {
+        const openPause = this.getOpenPause(run);
+        if (!openPause) {
+          throw new SessionRunStateError("Run is not paused");
+        }
+        openPause.resumedAt = at;
+        break;
+      }
+
+      default: {
+        const step = this.getStep(run, event.stepNumber);
+
+        if (event.type === "step_started") {
+          step.status = "started";
+          step.startedAt = at;
+          break;
+        }
+
+        step.status = event.type === "step_skipped" ? "skipped" : "completed";
+        step.endedAt = at;
+        step.actualDurationSeconds =
+          event.actualDurationSeconds ?? this.measureStepSeconds(run, step, at);
+        break;
+      }
+    }
+
+    run.totalActiveSeconds = run.steps.reduce(
+      (sum, step) => sum + (step.actualDurationSeconds || 0),
+      0,
+    );
+    run.markModified("steps");
+    run.markModified("pauses");
+    await run.save();
+
+    return run;
+  }
+
+  /**
+   * Finish a run, optionally with the post-session rating
+   * Also marks the session itself as completed
+   */
+  async completeRun(
+    firebaseUid: string,
+    sessionId: string,
+    runId: string,
+    options: { at?: Date; rating?: RunRatingInput } = {},
+  ): Promise<ISessionRun | null> {
+    const run = await this.getRun(firebaseUid, sessionId, runId);
+    if (!run) return null;
+
+    this.assertInProgress(run);
+    const at = options.at || new Date();
+
+    this.closeOpenPause(run, at);
+    run.status = "completed";
+    run.endedAt = at;
+    if (options.rating) {
+      run.rating = { ...options.rating, ratedAt: new Date() };
+    }
+    await run.save();
+
+    await this.sessionService.updateSession(sessionId, firebaseUid, {
+      isCompleted: true,
+      completedAt: at,
+    });
+
+    console.log(`✅ Session run completed: ${runId}`);
+    return run;
+  }
+
+  /**
+   * Stop a run before the end
+   */
+  async abandonRun(
+    firebaseUid: string,
+    sessionId: string,
+    runId: string,
+    options: { at?: Date; reason?: string } = {},
+  ): Promise<ISessionRun | null> {
+    const run = await this.getRun(firebaseUid, sessionId, runId);
+    if (!run) return null;
+
+    this.assertInProgress(run);
+    const at = options.at || new Date();
+
+    this.closeOpenPause(run, at);
+    run.status = "abandoned";
+    run.endedAt = at;
+    run.abandonReason = options.reason;
+    await run.save();
+
+    console.log(`⏹️ Session run abandoned: ${runId}`);
+    return run;
+  }
+
+  /**
+   * Rate a finished run (can be sent after the completion screen)
+   */
+  async rateRun(
+    firebaseUid: string,
+    sessionId: string,
+    runId: string,
+    rating: RunRatingInput,
+  ): Promise<ISessionRun | null> {
+    const run = await this.getRun(firebaseUid, sessionId, runId);
+    if (!run) return null;
+
+    if (run.status === "in_progress") {
+      throw new SessionRunStateError("Only finished runs can be rated");
+    }
+
+    run.rating = { ...rating, ratedAt: new Date() };
+    await run.save();
+
+    return run;
+  }
+
+  private assertInProgress(run: ISessionRun) {
+    if (run.status !== "in_progress") {
+      throw new SessionRunStateError(`Run is already ${run.status}`);
+    }
+  }
+
+  private getStep(
+    run: ISessionRun,
+    stepNumber: number | undefined,
+  ): ISessionRunStep {
+    const step = run.steps.find((s) => s.stepNumber === stepNumber);
+
+    if (!step) {
+      throw new SessionRunStateError(`Step ${stepNumber} is not in this run`);
+    }
+
+    return step;
+  }
+
+  private getOpenPause(run: ISessionRun) {
+    return run.pauses.find((pause) => !pause.resumedAt);
+  }
+
+  private closeOpenPause(run: ISessionRun, at: Date) {
+    const openPause = this.getOpenPause(run);
+    if (openPause) {
+      openPause.resumedAt = at;
+      run.markModified("pauses");
+    }
+  }
+
+  /**
+   * Step time from start to end, minus pauses during the step.
+   * Used when the client doesn't report the duration itself.
+   */
+  private measureStepSeconds(
+    run: ISessionRun,
+    step: ISessionRunStep,
+    endedAt: Date,
+  ): number {
+    if (!step.startedAt) return 0;
+
+    const start = step.startedAt.getTime();
+    const end = endedAt.getTime();
+
+    const pausedMs = run.pauses.reduce((sum, pause) => {
+      const pauseStart = Math.max(pause.pausedAt.getTime(), start);
+      const pauseEnd = Math.min((pause.resumedAt || endedAt).getTime(), end);
+      return sum + Math.max(pauseEnd - pauseStart, 0);
+    }, 0);
+
+    return Math.max(Math.round((end - start - pausedMs) / 1000), 0);
+  }
+}
@@ -0,0 +1,90 @@
+import { User } from "../models/User.model";
+import {
+  ISessionSafetyModification,
+  ISessionSafetyReview,
+  ISessionStep,
+} from "../models/Session.model";
+import {
+  SessionSafetyError,
+  SessionSafetyUtils,
+} from "../utils/sessionSafety.utils";
+import { PRODUCT_TYPES, ProductType, SESSION_SAFETY_RULES } from "../constants";
+
+export interface ReviewedSteps {
+  Steps: ISessionStep[];
+  TotalDurationMinutes: number;
+  productType?: ProductType;
+  safetyReview: ISessionSafetyReview;
+}
+
+/**
+ * Session Safety Service
+ *
+ * Runs the product safety guardrails against a user's session steps.
+ * Limits are tightened with the user's age and every automatic change is
+ * returned as a safety review to store on the session document.
+ */
+export class SessionSafetyService {
+  /**
+   * Review steps for a user
+   * @param previousModifications changes already made earlier in the same flow
+   *   (e.g. at generation time) so they stay on record
+   * @throws SessionSafetyError when a limit is broken that can't be clamped
+   */
+  async reviewSteps(
+    firebaseUid: string,
+    steps: ISessionStep[],
+    previousModifications: ISessionSafetyModification[] = [],
+  ): Promise<ReviewedSteps> {
+    const { age, productType } = await this.getUserContext(firebaseUid);
+
+    const result = SessionSafetyUtils.apply(steps, { age });
+
+    if (result.violations.length > 0) {
+      console.warn(
+        `⛔ Session rejected by safety guardrails for user ${firebaseUid}:`,
+        result.violations,
+      );
+      throw new SessionSafetyError(result.violations);
+    }
+
+    if (result.modifications.length > 0) {
+      console.log(
+        `🛡️ Safety guardrails adjusted ${result.modifications.length} step(s) for user ${firebaseUid}`,
+      );
+    }
+
+    return {
+      Steps: result.steps,
+      TotalDurationMinutes: result.totalDurationMinutes,
+      productType,
+      safetyReview: {
+        rulesVersion: SESSION_SAFETY_RULES.VERSION,
+        reviewedAt: new Date(),
+        productType,
+        userAge: age,
+        modifications: [...previousModifications, ...result.modifications],
+      },
+    };
+  }
+
+  private async getUserContext(
+    firebaseUid: string,
+  ): Promise<{ age?: number; productType?: ProductType }> {
+    const user = await User.findOne({ firebaseUid })
+      .select("dateOfBirth selectedProduct")
+      .lean();
+
+    const age = user?.dateOfBirth
+      ? SessionSafetyUtils.calculateAge(new Date(user.dateOfBirth))
+      : undefined;
+
+    const selectedType = user?.selectedProduct?.type as ProductType | undefined;
+    const productType =
+      selectedType && PRODUCT_TYPES.includes(selectedType)
+        ? selectedType
+        : undefined;
+
+    return { age, productType };
+  }
+}
@@ -0,0 +1,304 @@
+import { v4 as uuidv4 } from "uuid";
+import { Session } from "../models/Session.model";
+import {
+  ISessionSchedule,
+  SessionSchedule,
+} from "../models/SessionSchedule.model";
+import { SESSION_SCHEDULE } from "../constants";
+import {
+  RecurrenceRuleError,
+  RecurrenceUtils,
+} from "../utils/recurrence.utils";
+import { SessionStatsUtils } from "../utils/sessionStats.utils";
+
+export interface ScheduleInput {
+  sessionId: string;
+  rrule: string;
+  timeZone: string;
+  startDate?: string;
+  endDate?: string | null;
+  reminderMinutesBefore?: number;
+  isActive?: boolean;
+}
+
+export type ScheduleUpdates = Partial<Omit<ScheduleInput, "sessionId">>;
+
+interface ScheduleFields {
+  rrule: string;
+  timeZone: string;
+  startDate: string;
+  endDate?: string;
+  reminderMinutesBefore: number;
+  isActive: boolean;
+}
+
+interface ScheduleTiming {
+  nextOccurrenceAt?: Date;
+  nextReminderAt?: Date;
+}
+
+/**
+ * Thrown when a schedule can't be saved as requested
+ */
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleValidationError";
+  }
+}
+
+/**
+ * Session Schedule Service
+ *
+ * Recurring plans for saved sessions. Each schedule keeps its next
+ * occurrence and reminder time precomputed so the scheduler worker only
+ * needs an indexed query to find due reminders.
+ */
+export class SessionScheduleService {
+  /**
+   * Create a schedule for one of the user's sessions
+   * Returns null if the session doesn't exist
+   * @throws ScheduleValidationError
+   */
+  async createSchedule(
+    firebaseUid: string,
+    input: ScheduleInput,
+  ): Promise<ISessionSchedule | null> {
+    const session = await Session.exists({
+      sessionId: input.sessionId,
+      firebaseUid,
+    });
+    if (!session) {
+      console.warn(`⚠️ Session not found for schedule: ${input.sessionId}`);
+      return null;
+    }
+
+    const count = await SessionSchedule.countDocuments({ firebaseUid });
+    if (count >= SESSION_SCHEDULE.MAX_SCHEDULES_PER_USER) {
+      throw new ScheduleValidationError(
+        `A user can have at most ${SESSION_SCHEDULE.MAX_SCHEDULES_PER_USER} schedules`,
+      );
+    }
+
+    const fields = this.normalize({
+      rrule: input.rrule,
+      timeZone: input.timeZone,
+      startDate: input.startDate,
+      endDate: input.endDate || undefined,
+      reminderMinutesBefore:
+        input.reminderMinutesBefore ??
+        SESSION_SCHEDULE.DEFAULT_REMINDER_MINUTES,
+      isActive: input.isActive ?? true,
+    });
+
+    const schedule = await SessionSchedule.create({
+      scheduleId: uuidv4(),
+      firebaseUid,
+      sessionId: input.sessionId,
+      ...fields,
+      ...this.computeTiming(fields, new Date()),
+    });
+
+    console.log(
+      `📅 Schedule created: ${schedule.scheduleId} (${schedule.rrule}, ${schedule.timeZone})`,
+    );
+    return schedule;
+  }
+
+  async listSchedules(
+    firebaseUid: string,
+    sessionId?: string,
+  ): Promise<ISessionSchedule[]> {
+    return SessionSchedule.find({
+      firebaseUid,
+      ...(sessionId && { sessionId }),
+    })
+      .sort({ nextOccurrenceAt: 1 })
+      .lean<ISessionSchedule[]>();
+  }
+
+  async getSchedule(
+    firebaseUid: string,
+    scheduleId: string,
+  ): Promise<ISessionSchedule | null> {
+    return SessionSchedule.findOne({
+      scheduleId,
+      firebaseUid,
+    }).lean<ISessionSchedule>();
+  }
+
+  /**
+   * Update a schedule and recompute its next occurrence
+   * @throws ScheduleValidationError
+   */
+  async updateSchedule(
+    firebaseUid: string,
+    scheduleId: string,
+    updates: ScheduleUpdates,
+  ): Promise<ISessionSchedule | null> {
+    const schedule = await SessionSchedule.findOne({ scheduleId, firebaseUid });
+    if (!schedule) return null;
+
+    const fields = this.normalize({
+      rrule: updates.rrule ?? schedule.rrule,
+      timeZone: updates.timeZone ?? schedule.timeZone,
+      startDate: updates.startDate ?? schedule.startDate,
+      // null clears the end date
+      endDate:
+        updates.endDate === null
+          ? undefined
+          : (updates.endDate ?? schedule.endDate),
+      reminderMinutesBefore:
+        updates.reminderMinutesBefore ?? schedule.reminderMinutesBefore,
+      isActive: updates.isActive ?? schedule.isActive,
+    });
+    const timing = this.computeTiming(fields, new Date());
+
+    schedule.set({ ...fields, ...timing });
+    if (!timing.nextOccurrenceAt) {
+      schedule.set({ nextOccurrenceAt: undefined, nextReminderAt: undefined });
+    }
+    await schedule.save();
+
+    console.log(`✅ Schedule updated: ${scheduleId}`);
+    return schedule;
+  }
+
+  async deleteSchedule(
+    firebaseUid: string,
+    scheduleId: string,
+  ): Promise<boolean> {
+    const result = await SessionSchedule.deleteOne({ scheduleId, firebaseUid });
+
+    if (result.deletedCount === 0) {
+      console.warn(`⚠️ Schedule not found for deletion: ${scheduleId}`);
+      return false;
+    }
+
+    console.log(`🗑️ Schedule deleted: ${scheduleId}`);
+    return true;
+  }
+
+  /**
+   * Active schedules whose reminder is due, oldest first
+   */
+  async getDueReminders(
+    now: Date,
+    limit: number = SESSION_SCHEDULE.BATCH_SIZE,
+  ): Promise<ISessionSchedule[]> {
+    return SessionSchedule.find({
+      isActive: true,
+      nextReminderAt: { $lte: now },
+    })
+      .sort({ nextReminderAt: 1 })
+      .limit(limit)
+      .lean<ISessionSchedule[]>();
+  }
+
+  /**
+   * Move a due schedule on to its following occurrence.
+   * The update only applies if the reminder is still the one we read, so
+   * when several workers run only one of them gets to send it.
+   * @returns false if another worker already claimed the reminder
+   */
+  async claimReminder(schedule: ISessionSchedule): Promise<boolean> {
+    const timing = this.computeTiming(schedule, schedule.nextOccurrenceAt!);
+
+    const result = await SessionSchedule.updateOne(
+      {
+        scheduleId: schedule.scheduleId,
+        isActive: true,
+        nextReminderAt: schedule.nextReminderAt,
+      },
+      timing.nextOccurrenceAt
+        ? { $set: timing }
+        : { $unset: { nextOccurrenceAt: 1, nextReminderAt: 1 } },
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  async markReminded(
+    scheduleId: string,
+    occurrenceAt: Date,
+    remindedAt: Date,
+  ): Promise<void> {
+    await SessionSchedule.updateOne(
+      { scheduleId },
+      {
+        $set: {
+          lastRemindedAt: remindedAt,
+          lastReminderOccurrenceAt: occurrenceAt,
+        },
+      },
+    );
+  }
+
+  /**
+   * Next occurrence after a point in time, and when to remind about it
+   */
+  private computeTiming(
+    schedule: Pick<
+      ISessionSchedule,
+      "rrule" | "timeZone" | "startDate" | "endDate" | "reminderMinutesBefore"
+    >,
+    after: Date,
+  ): ScheduleTiming {
+    const rule = RecurrenceUtils.parse(schedule.rrule);
+    const nextOccurrenceAt = RecurrenceUtils.nextOccurrence(
+      rule,
+      schedule,
+      after,
+    );
+
+    if (!nextOccurrenceAt) return {};
+
+    return {
+      nextOccurrenceAt,
+      nextReminderAt: new Date(
+        nextOccurrenceAt.getTime() - schedule.reminderMinutesBefore * 60 * 1000,
+      ),
+    };
+  }
+
+  /**
+   * Validate schedule fields and store the rule in canonical form
+   */
+  private normalize(
+    input: Omit<ScheduleFields, "startDate"> & { startDate?: string },
+  ): ScheduleFields {
+    if (!SessionStatsUtils.isValidTimeZone(input.timeZone)) {
+      throw new ScheduleValidationError(`Invalid timezone "${input.timeZone}"`);
+    }
+
+    // Schedules start today in the user's timezone unless told otherwise
+    const fields = {
+      ...input,
+      startDate:
+        input.startDate ||
+        SessionStatsUtils.toLocalDate(new Date(), input.timeZone),
+    };
+
+    if (fields.endDate && fields.endDate < fields.startDate) {
+      throw new ScheduleValidationError("endDate must not be before startDate");
+    }
+
+    if (fields.reminderMinutesBefore > SESSION_SCHEDULE.MAX_REMINDER_MINUTES) {
+      throw new ScheduleValidationError(
+        `reminderMinutesBefore must be at most ${SESSION_SCHEDULE.MAX_REMINDER_MINUTES}`,
+      );
+    }
+
+    try {
+      return {
+        ...fields,
+        rrule: RecurrenceUtils.format(RecurrenceUtils.parse(fields.rrule)),
+      };
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw new ScheduleValidationError(`Invalid rrule: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
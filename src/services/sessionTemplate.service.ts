@@ -0,0 +1,256 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ISessionTemplate,
+  SessionTemplate,
+} from "../models/SessionTemplate.model";
+import { DEFAULT_SESSION_TEMPLATES } from "../config/sessionTemplates";
+import { SessionSafetyService } from "./sessionSafety.service";
+import { AISessionOptions } from "./aiProvider.service";
+import type { GeneratedSession } from "./sessionGeneration.service";
+import { Session } from "./h2oasis-ai.service";
+import {
+  SessionTemplateData,
+  SessionTemplateUtils,
+} from "../utils/sessionTemplate.utils";
+import { SessionValidationUtils } from "../utils/sessionValidation.utils";
+import { FocusGoalKey, ProductType, SessionIntensity } from "../constants";
+
+export interface SessionTemplateFilters {
+  product?: ProductType;
+  goal?: FocusGoalKey;
+  intensity?: SessionIntensity;
+  maxDurationMinutes?: number;
+}
+
+// Catalogue entry, stored or built-in
+export type SessionTemplateSummary = SessionTemplateData & {
+  durationMinutes: number;
+  isPublished: boolean;
+};
+
+/**
+ * Thrown when template steps aren't schema-valid or wouldn't pass the
+ * safety guardrails unchanged
+ */
+export class SessionTemplateValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid session template: ${issues.join("; ")}`);
+    this.name = "SessionTemplateValidationError";
+  }
+}
+
+/**
+ * Session Template Service
+ *
+ * Curated routines for browsing and for building a session without the AI.
+ * While the collection is empty the built-in DEFAULT_SESSION_TEMPLATES are
+ * served instead.
+ */
+export class SessionTemplateService {
+  private sessionSafetyService: SessionSafetyService;
+
+  constructor() {
+    this.sessionSafetyService = new SessionSafetyService();
+  }
+
+  /**
+   * Published templates matching the filters, shortest first
+   */
+  async listTemplates(
+    filters: SessionTemplateFilters = {},
+  ): Promise<SessionTemplateSummary[]> {
+    const templates = await this.getCatalogue();
+
+    return templates
+      .filter(
+        (template) =>
+          (!filters.product ||
+            template.productTypes.includes(filters.product)) &&
+          (!filters.goal || template.goals.includes(filters.goal)) &&
+          (!filters.intensity || template.intensity === filters.intensity) &&
+          (filters.maxDurationMinutes === undefined ||
+            template.durationMinutes <= filters.maxDurationMinutes),
+      )
+      .sort(
+        (a, b) =>
+          a.durationMinutes - b.durationMinutes ||
+          a.templateId.localeCompare(b.templateId),
+      );
+  }
+
+  async getTemplate(
+    templateId: string,
+  ): Promise<SessionTemplateSummary | null> {
+    const templates = await this.getCatalogue();
+    return (
+      templates.find((template) => template.templateId === templateId) || null
+    );
+  }
+
+  /**
+   * Build a session from the best matching template for the same inputs the
+   * AI gets. Returns null when no template uses the requested products.
+   */
+  async selectSession(
+    firebaseUid: string,
+    options: Pick<AISessionOptions, "tags" | "goals" | "mood">,
+  ): Promise<GeneratedSession | null> {
+    const criteria = SessionTemplateUtils.criteriaFrom(options);
+    const seed = [
+      firebaseUid,
+      options.tags.join(","),
+      (options.goals || []).join(","),
+      options.mood || "",
+    ].join("|");
+
+    const template = SessionTemplateUtils.select(
+      await this.getCatalogue(),
+      criteria,
+      seed,
+    );
+    if (!template) return null;
+
+    const session = SessionTemplateUtils.toSession(template, {
+      sessionId: uuidv4(),
+      intensity: criteria.intensity,
+      goal: options.goals?.[0],
+    });
+
+    const reviewed = await this.sessionSafetyService.reviewSteps(
+      firebaseUid,
+      session.Steps,
+    );
+
+    console.log(
+      `📋 Built session from template ${template.templateId} for user ${firebaseUid}`,
+    );
+
+    return {
+      ...session,
+      Steps: reviewed.Steps as Session["Steps"],
+      TotalDurationMinutes: reviewed.TotalDurationMinutes,
+      productType: reviewed.productType,
+      safetyReview: reviewed.safetyReview,
+      source: "template",
+      templateId: template.templateId,
+    };
+  }
+
+  // ==================== ADMIN ====================
+
+  /**
+   * Every stored template, including unpublished ones
+   */
+  async listAllTemplates(): Promise<ISessionTemplate[]> {
+    return SessionTemplate.find().sort({ templateId: 1 });
+  }
+
+  async templateExists(templateId: string): Promise<boolean> {
+    return !!(await SessionTemplate.exists({ templateId }));
+  }
+
+  async createTemplate(
+    data: Omit<SessionTemplateData, "templateId"> & {
+      templateId?: string;
+      isPublished?: boolean;
+    },
+  ): Promise<ISessionTemplate> {
+    this.assertValidSteps(data.steps);
+
+    const template = new SessionTemplate({
+      ...data,
+      templateId: data.templateId || uuidv4(),
+      durationMinutes: SessionValidationUtils.sumStepDurations(data.steps),
+    });
+
+    await template.save();
+    console.log(`✅ Session template created: ${template.templateId}`);
+    return template;
+  }
+
+  async updateTemplate(
+    templateId: string,
+    updates: Partial<Omit<SessionTemplateData, "templateId">> & {
+      isPublished?: boolean;
+    },
+  ): Promise<ISessionTemplate | null> {
+    const template = await SessionTemplate.findOne({ templateId });
+    if (!template) return null;
+
+    if (updates.steps) {
+      this.assertValidSteps(updates.steps);
+    }
+
+    template.set(updates);
+    template.durationMinutes = SessionValidationUtils.sumStepDurations(
+      template.steps,
+    );
+
+    await template.save();
+    console.log(`✅ Session template updated: ${templateId}`);
+    return template;
+  }
+
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const result = await SessionTemplate.deleteOne({ templateId });
+    if (result.deletedCount > 0) {
+      console.log(`🗑️ Session template deleted: ${templateId}`);
+    }
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Copy the built-in templates into the collection. Templates that already
+   * exist (possibly edited) are left alone. Returns how many were added.
+   */
+  async seedDefaults(): Promise<number> {
+    const result = await SessionTemplate.bulkWrite(
+      DEFAULT_SESSION_TEMPLATES.map((template) => ({
+        updateOne: {
+          filter: { templateId: template.templateId },
+          update: {
+            $setOnInsert: {
+              ...template,
+              durationMinutes: SessionValidationUtils.sumStepDurations(
+                template.steps,
+              ),
+              isPublished: true,
+            },
+          },
+          upsert: true,
+        },
+      })),
+    );
+
+    console.log(`🌱 Seeded ${result.upsertedCount} session template(s)`);
+    return result.upsertedCount;
+  }
+
+  /**
+   * Published stored templates, or the built-ins while none are stored
+   */
+  private async getCatalogue(): Promise<SessionTemplateSummary[]> {
+    const stored = await SessionTemplate.countDocuments();
+
+    if (stored === 0) {
+      return DEFAULT_SESSION_TEMPLATES.map((template) => ({
+        ...template,
+        durationMinutes: SessionValidationUtils.sumStepDurations(
+          template.steps,
+        ),
+        isPublished: true,
+      }));
+    }
+
+    return SessionTemplate.find({ isPublished: true })
+      .select("-_id -__v -createdAt -updatedAt")
+      .lean<SessionTemplateSummary[]>();
+  }
+
+  private assertValidSteps(steps: SessionTemplateData["steps"]): void {
+    const issues = SessionTemplateUtils.reviewSteps(steps);
+    if (issues.length > 0) {
+      throw new SessionTemplateValidationError(issues);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import fetch from "node-fetch";
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 import os from "os";
@@ -8,6 +9,7 @@ interface TTSOptions {
   voiceId: string;
   speed?: number;
   pitch?: number;
+  ownerUid?: string; // User the audio was generated for
 }
 
 interface TTSResponse {
@@ -115,7 +117,10 @@ export class TTSService {
 
       // Save audio file to server
       const audioBuffer = await response.buffer();
-      const fileName = `tts_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.mp3`;
+      const owner = options.ownerUid
+        ? `${this.ownerTag(options.ownerUid)}_`
+        : "";
+      const fileName = `tts_${owner}${Date.now()}_${Math.random().toString(36).substr(2, 9)}.mp3`;
       const filePath = path.join(this.audioDirectory, fileName);
 
       fs.writeFileSync(filePath, audioBuffer);
@@ -174,12 +179,40 @@ export class TTSService {
     }
   }
 
+  /**
+   * Delete all audio generated for a user
+   * @returns number of files deleted
+   */
+  deleteUserAudio(firebaseUid: string): number {
+    const prefix = `tts_${this.ownerTag(firebaseUid)}_`;
+    const files = fs
+      .readdirSync(this.audioDirectory)
+      .filter((file) => file.startsWith(prefix));
+
+    for (const file of files) {
+      fs.unlinkSync(path.join(this.audioDirectory, file));
+    }
+
+    return files.length;
+  }
+
   /**
    * Get file path for serving
    */
   getAudioFilePath(fileName: string): string {
     return path.join(this.audioDirectory, fileName);
   }
+
+  /**
+   * Identifies a user's audio files without putting their uid in the URL
+   */
+  private ownerTag(firebaseUid: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(firebaseUid)
+      .digest("hex")
+      .slice(0, 16);
+  }
 }
 
 // Export singleton instance
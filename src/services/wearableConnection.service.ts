@@ -0,0 +1,300 @@
+import { Types } from "mongoose";
+import {
+  API_WEARABLE_SOURCES,
+  ROOK_DATA_SOURCES,
+  WEARABLE_CONNECTION,
+  WEBHOOK_EVENT_TYPES,
+  WearableConnectionEvent,
+  WearableSource,
+  WebhookEventType,
+} from "../constants";
+import {
+  IWearableConnection,
+  IWearableConnectionHistoryEntry,
+  User,
+} from "../models/User.model";
+import redisClient from "../utils/redis";
+import { NotificationService } from "./notification.service";
+
+// A ROOK notification webhook, as far as connection state is concerned
+export interface RookNotification {
+  userId?: string; // ROOK user id (our MongoDB user id)
+  action?: string;
+  dataSource?: string;
+  level?: string;
+  message?: string;
+}
+
+export type ConnectionTransition =
+  | WearableConnectionEvent
+  | "rook_user_created"
+  | "rook_user_deleted"
+  | "ignored";
+
+export interface ConnectionTransitionResult {
+  transition: ConnectionTransition;
+  firebaseUid?: string;
+  sources: WearableSource[]; // Wearables whose state changed
+}
+
+/**
+ * Wearable Connection Service
+ * Keeps wearables.<source> in step with ROOK: connected state, whether the
+ * user needs to reauthorize, and a capped history of connection events.
+ * The user's wearables cache is cleared after every change.
+ */
+export class WearableConnectionService {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Apply a ROOK notification webhook.
+   * Unknown users, sources and actions are ignored.
+   */
+  async handleRookNotification(
+    notification: RookNotification,
+  ): Promise<ConnectionTransitionResult> {
+    const ignored: ConnectionTransitionResult = {
+      transition: "ignored",
+      sources: [],
+    };
+
+    const { userId, action, level, message } = notification;
+    if (!userId || !Types.ObjectId.isValid(userId)) return ignored;
+
+    const user = await User.findById(userId)
+      .select("firebaseUid wearables")
+      .lean();
+    if (!user) return ignored;
+
+    const source =
+      ROOK_DATA_SOURCES[notification.dataSource?.toLowerCase() ?? ""];
+    const reason = message || action;
+    const now = new Date();
+
+    const changed = async (
+      transition: ConnectionTransition,
+      sources: WearableSource[],
+    ): Promise<ConnectionTransitionResult> => {
+      if (sources.length > 0) await this.invalidateCache(user.firebaseUid);
+      return { transition, firebaseUid: user.firebaseUid, sources };
+    };
+
+    const eventType: WebhookEventType | undefined = WEBHOOK_EVENT_TYPES.find(
+      (type) => type === action,
+    );
+
+    switch (eventType) {
+      case "user_connected":
+      case "connection_established":
+        if (!source) return ignored;
+        await this.markConnected(userId, source, reason, now);
+        return changed("connected", [source]);
+
+      case "user_disconnected":
+      case "connection_revoked":
+        if (!source) return ignored;
+        await this.markRevoked(userId, source, reason, now);
+
+        // Let the user know - a failed push must not fail the webhook
+        try {
+          await this.notificationService.notifyWearableRevoked(
+            user.firebaseUid,
+            source,
+          );
+        } catch (error) {
+          console.warn("⚠️ Failed to send wearable revoked notice:", error);
+        }
+        return changed("revoked", [source]);
+
+      case "user_created":
+        // A new ROOK user has no connections yet; nothing to change
+        return changed("rook_user_created", []);
+
+      case "user_deleted": {
+        // Every wearable read through ROOK is gone with the ROOK user
+        const wearables = (user.wearables ?? {}) as Record<
+          string,
+          IWearableConnection
+        >;
+        const sources = API_WEARABLE_SOURCES.filter(
+          (apiSource) => wearables[apiSource]?.connected,
+        );
+
+        for (const apiSource of sources) {
+          await this.markRevoked(userId, apiSource, reason, now);
+        }
+        return changed("rook_user_deleted", sources);
+      }
+
+      default:
+        // Problems reading a wearable come as error-level notifications
+        if (level?.toLowerCase() !== "error" || !source) return ignored;
+
+        await this.markError(userId, source, reason ?? "Unknown error", now);
+        return changed("error", [source]);
+    }
+  }
+
+  /**
+   * Record a connection status read from the ROOK API.
+   * Only changes of state are added to the history. A wearable ROOK still
+   * reports as connected no longer needs reauthorizing.
+   */
+  async syncConnection(
+    userId: string,
+    current: IWearableConnection | undefined,
+    source: WearableSource,
+    connected: boolean,
+  ): Promise<void> {
+    const now = new Date();
+
+    if (connected && !current?.connected) {
+      await this.markConnected(userId, source, "sync", now);
+    } else if (!connected && current?.connected) {
+      await this.markRevoked(userId, source, "sync", now);
+    } else if (!current) {
+      await User.updateOne(
+        { _id: userId },
+        { $set: { [`wearables.${source}`]: this.baseConnection(source) } },
+      );
+    } else if (connected) {
+      await User.updateOne(
+        { _id: userId },
+        {
+          $set: {
+            [`wearables.${source}.lastSync`]: now,
+            [`wearables.${source}.needsReauth`]: false,
+          },
+          $unset: { [`wearables.${source}.lastError`]: "" },
+        },
+      );
+    } else {
+      await User.updateOne(
+        { _id: userId },
+        { $set: { [`wearables.${source}.lastSync`]: now } },
+      );
+    }
+  }
+
+  /**
+   * Clear the cached wearables data used by chat
+   */
+  async invalidateCache(firebaseUid: string): Promise<void> {
+    try {
+      await redisClient.del(`wearables:${firebaseUid}`);
+    } catch (error) {
+      console.warn("⚠️ Failed to clear wearables cache:", error);
+    }
+  }
+
+  private async markConnected(
+    userId: string,
+    source: WearableSource,
+    reason: string | undefined,
+    now: Date,
+  ): Promise<void> {
+    const base = this.baseConnection(source);
+
+    await this.applyEvent(
+      userId,
+      source,
+      {
+        id: base.id,
+        name: base.name,
+        type: base.type,
+        connected: true,
+        needsReauth: false,
+        connectedAt: now,
+        lastSync: now,
+      },
+      ["lastError", "revokedAt"],
+      { event: "connected", reason, at: now },
+    );
+
+    console.log(`✅ ${source} connection established for user ${userId}`);
+  }
+
+  private async markRevoked(
+    userId: string,
+    source: WearableSource,
+    reason: string | undefined,
+    now: Date,
+  ): Promise<void> {
+    await this.applyEvent(
+      userId,
+      source,
+      { connected: false, needsReauth: true, revokedAt: now },
+      [],
+      { event: "revoked", reason, at: now },
+    );
+
+    console.log(`❌ ${source} connection revoked for user ${userId}`);
+  }
+
+  private async markError(
+    userId: string,
+    source: WearableSource,
+    message: string,
+    now: Date,
+  ): Promise<void> {
+    await this.applyEvent(
+      userId,
+      source,
+      { needsReauth: true, lastError: { message, at: now } },
+      [],
+      { event: "error", reason: message, at: now },
+    );
+
+    console.warn(`⚠️ ${source} error for user ${userId}: ${message}`);
+  }
+
+  private async applyEvent(
+    userId: string,
+    source: WearableSource,
+    set: Partial<IWearableConnection>,
+    unset: (keyof IWearableConnection)[],
+    entry: IWearableConnectionHistoryEntry,
+  ): Promise<void> {
+    const path = `wearables.${source}`;
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: Object.fromEntries(
+          Object.entries(set).map(([field, value]) => [
+            `${path}.${field}`,
+            value,
+          ]),
+        ),
+        ...(unset.length > 0 && {
+          $unset: Object.fromEntries(
+            unset.map((field) => [`${path}.${field}`, ""]),
+          ),
+        }),
+        $push: {
+          [`${path}.history`]: {
+            $each: [
+              entry.reason ? entry : { event: entry.event, at: entry.at },
+            ],
+            $slice: -WEARABLE_CONNECTION.MAX_HISTORY,
+          },
+        },
+      },
+    );
+  }
+
+  private baseConnection(source: WearableSource): IWearableConnection {
+    return {
+      id: source,
+      name: source.charAt(0).toUpperCase() + source.slice(1),
+      type: "api",
+      connected: false,
+      lastSync: new Date(),
+      data: null,
+    };
+  }
+}
@@ -3,6 +3,9 @@ import { HealthDataTransformer } from "./healthData.transformer.service";
 import { HealthDataMerger } from "./healthData.merger.service";
 import { IRookWebhookPayload } from "../models/HealthData.types";
 import redisClient from "../utils/redis";
+import { NotificationService } from "./notification.service";
+import { RecoveryScoreService } from "./recoveryScore.service";
+import { HealthHistoryService } from "./healthHistory.service";
 
 /**
  * Webhook Processor Service
@@ -16,6 +19,8 @@ interface ProcessWebhookResult {
   error?: string;
 }
 
+const healthHistoryService = new HealthHistoryService();
+
 export class WebhookProcessor {
   private static readonly MAX_RETRIES = 3;
   private static readonly RETRY_DELAY_MS = 1000; // 1 second
@@ -76,6 +81,15 @@ export class WebhookProcessor {
 
       console.log(`✅ Found user: ${user.firebaseUid}`);
 
+      // Keep the day's data in the history - the snapshot below only
+      // holds the latest values
+      await healthHistoryService.recordSummary(
+        user.firebaseUid,
+        wearableName,
+        dataType,
+        transformedData,
+      );
+
       // Build atomic update path
       const updateField = `wearables.${wearableName}.data.${dataType}`;
 
@@ -109,6 +123,11 @@ export class WebhookProcessor {
         });
       }
 
+      // Data can still arrive after access was revoked; only the
+      // connection lifecycle reconnects a revoked wearable. Otherwise the
+      // data shows reading works again, so any earlier error is over.
+      const revoked = Boolean(user.wearables?.[wearableName]?.revokedAt);
+
       // Now do the atomic update on the specific data type
       const updateResult = await User.findByIdAndUpdate(
         userId,
@@ -116,9 +135,15 @@ export class WebhookProcessor {
           $set: {
             [updateField]: mergedDataForType,
             [`wearables.${wearableName}.lastSync`]: new Date(),
-            [`wearables.${wearableName}.connected`]: true,
+            ...(!revoked && {
+              [`wearables.${wearableName}.connected`]: true,
+              [`wearables.${wearableName}.needsReauth`]: false,
+            }),
             updatedAt: new Date(),
           },
+          ...(!revoked && {
+            $unset: { [`wearables.${wearableName}.lastError`]: "" },
+          }),
         },
         { new: true },
       );
@@ -128,10 +153,11 @@ export class WebhookProcessor {
       );
 
       // 🔥 INVALIDATE REDIS CACHE - Force fresh data on next chat request
+      // (chat caches by Firebase uid, not the MongoDB id ROOK uses)
       try {
-        const cacheKey = `wearables:${userId}`;
+        const cacheKey = `wearables:${user.firebaseUid}`;
         await redisClient.del(cacheKey);
-        console.log(`🗑️ Cleared Redis cache for user ${userId}`);
+        console.log(`🗑️ Cleared Redis cache for user ${user.firebaseUid}`);
       } catch (error) {
         console.warn("⚠️ Failed to clear Redis cache:", error);
         // Don't fail webhook if cache clear fails
@@ -145,6 +171,8 @@ export class WebhookProcessor {
         savedData ? Object.keys(savedData) : "null",
       );
 
+      await this.updateRecoveryScore(user.firebaseUid);
+
       return {
         success: true,
         message: "Webhook processed successfully",
@@ -179,6 +207,26 @@ export class WebhookProcessor {
     }
   }
 
+  /**
+   * Recompute today's recovery score with the new data and nudge the
+   * user if it's low. Never fails the webhook.
+   */
+  private static async updateRecoveryScore(firebaseUid: string): Promise<void> {
+    try {
+      const recovery = await new RecoveryScoreService().updateDailyScore(
+        firebaseUid,
+      );
+      if (!recovery) return;
+
+      await new NotificationService().notifyLowRecovery(
+        firebaseUid,
+        recovery.score,
+      );
+    } catch (error) {
+      console.warn("⚠️ Failed to update recovery score:", error);
+    }
+  }
+
   /**
    * Check if error is retryable (transient network/database issues)
    */
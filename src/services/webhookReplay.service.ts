@@ -0,0 +1,229 @@
+import mongoose from "mongoose";
+import { IRawWebhook, RawWebhook } from "../models/RawWebhook.model";
+import { IUser, IWearableConnection, User } from "../models/User.model";
+import { sendToQueue } from "../config/queue";
+import { HealthDataTransformer } from "./healthData.transformer.service";
+import { HealthDataMerger } from "./healthData.merger.service";
+import { WEBHOOK_STATUS_QUERIES } from "./admin.service";
+import { FieldChange, WebhookReplayUtils } from "../utils/webhookReplay.utils";
+import { WebhookStatus } from "../constants";
+
+export interface WebhookReplayFilters {
+  firebaseUid?: string;
+  externalUserId?: string; // ROOK user id (our MongoDB user id)
+  dataStructure?: string;
+  status?: WebhookStatus;
+  errorContains?: string; // Case-insensitive match on the stored error
+  from?: Date; // receivedAt, inclusive
+  to?: Date; // receivedAt, inclusive
+  limit: number;
+}
+
+export type WebhookReplayOutcome = "preview" | "queued" | "skipped" | "failed";
+
+export interface WebhookReplayItem {
+  webhookId: string;
+  externalUserId: string;
+  dataStructure: string;
+  wearableName: string;
+  receivedAt: Date;
+  replayCount: number; // Including this replay when queued
+  outcome: WebhookReplayOutcome;
+  reason?: string; // Why it was skipped or failed
+  messageId?: string; // Queue message id when queued
+  dataType?: string; // Dry run: the wearables data type it writes to
+  changes?: FieldChange[]; // Dry run: changes to the stored data
+}
+
+export interface WebhookReplayResult {
+  dryRun: boolean;
+  matched: number;
+  queued: number;
+  webhooks: WebhookReplayItem[];
+}
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Webhook Replay Service
+ *
+ * Re-enqueues stored raw webhooks for the webhook worker, e.g. after a fix
+ * to TransformerUtils. Webhooks are replayed oldest first so the latest
+ * values still win the merge. A dry run transforms each payload with the
+ * current code and reports what it would change in the user's wearables
+ * data without queueing anything; each webhook is compared to the stored
+ * data on its own, not to the result of earlier webhooks in the same run.
+ */
+export class WebhookReplayService {
+  /**
+   * Replay (or preview) the raw webhooks matching the filters.
+   * Null if filtered by a firebaseUid that doesn't exist.
+   */
+  async replay(
+    filters: WebhookReplayFilters,
+    dryRun: boolean,
+  ): Promise<WebhookReplayResult | null> {
+    const query = await this.buildQuery(filters);
+    if (!query) return null;
+
+    const webhooks = await RawWebhook.find(query)
+      .sort({ receivedAt: 1 })
+      .limit(filters.limit)
+      .lean<IRawWebhook[]>();
+
+    const users = new Map<string, IUser | null>();
+    const items: WebhookReplayItem[] = [];
+
+    for (const webhook of webhooks) {
+      items.push(
+        dryRun
+          ? await this.preview(webhook, users)
+          : await this.enqueue(webhook),
+      );
+    }
+
+    const queued = items.filter((item) => item.outcome === "queued").length;
+    console.log(
+      `🔁 Webhook replay${dryRun ? " (dry run)" : ""}: ${webhooks.length} matched, ${queued} queued`,
+    );
+
+    return { dryRun, matched: webhooks.length, queued, webhooks: items };
+  }
+
+  private async buildQuery(
+    filters: WebhookReplayFilters,
+  ): Promise<Record<string, unknown> | null> {
+    let externalUserId = filters.externalUserId;
+    if (filters.firebaseUid) {
+      const user = await User.findOne({ firebaseUid: filters.firebaseUid })
+        .select("_id")
+        .lean();
+      if (!user) return null;
+      externalUserId = String(user._id);
+    }
+
+    const receivedAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    };
+
+    return {
+      ...(externalUserId && { externalUserId }),
+      ...(filters.dataStructure && { dataStructure: filters.dataStructure }),
+      ...(filters.status && WEBHOOK_STATUS_QUERIES[filters.status]),
+      ...(filters.errorContains && {
+        error: { $regex: escapeRegex(filters.errorContains), $options: "i" },
+      }),
+      ...(Object.keys(receivedAt).length > 0 && { receivedAt }),
+    };
+  }
+
+  private async enqueue(webhook: IRawWebhook): Promise<WebhookReplayItem> {
+    const item = this.describe(webhook);
+
+    try {
+      // Same message the webhook controller queues
+      const messageId = await sendToQueue({
+        rawWebhookId: item.webhookId,
+        userId: webhook.externalUserId,
+        wearableName: item.wearableName,
+        dataStructure: webhook.dataStructure,
+        payload: webhook.payload,
+      });
+
+      const now = new Date();
+      await RawWebhook.updateOne(
+        { _id: webhook._id },
+        {
+          $set: {
+            processed: false,
+            sqsMessageId: messageId,
+            lastReplayedAt: now,
+          },
+          $unset: { processedAt: "", error: "" },
+          $inc: { replayCount: 1 },
+        },
+      );
+
+      return {
+        ...item,
+        replayCount: item.replayCount + 1,
+        outcome: "queued",
+        messageId,
+      };
+    } catch (error) {
+      console.error(`❌ Failed to replay webhook ${item.webhookId}:`, error);
+      return {
+        ...item,
+        outcome: "failed",
+        reason: error instanceof Error ? error.message : "Queue error",
+      };
+    }
+  }
+
+  private async preview(
+    webhook: IRawWebhook,
+    users: Map<string, IUser | null>,
+  ): Promise<WebhookReplayItem> {
+    const item = this.describe(webhook);
+    const skipped = (reason: string): WebhookReplayItem => ({
+      ...item,
+      outcome: "skipped",
+      reason,
+    });
+
+    // The same checks the processor makes, in the same order
+    const transformedData = HealthDataTransformer.transform(webhook.payload);
+    if (!transformedData) return skipped("No data extracted from webhook");
+
+    const dataType = HealthDataMerger.getDataType(webhook.dataStructure);
+    if (!dataType) return skipped("Unknown data type");
+
+    const user = await this.findUser(webhook.externalUserId, users);
+    if (!user) return skipped("User not found");
+
+    const wearables = (user.wearables ?? {}) as Record<
+      string,
+      IWearableConnection
+    >;
+    const current = wearables[item.wearableName]?.data?.[dataType];
+
+    return {
+      ...item,
+      outcome: "preview",
+      dataType,
+      changes: WebhookReplayUtils.diffFields(current, transformedData),
+    };
+  }
+
+  private async findUser(
+    userId: string,
+    users: Map<string, IUser | null>,
+  ): Promise<IUser | null> {
+    if (!users.has(userId)) {
+      users.set(
+        userId,
+        mongoose.isValidObjectId(userId)
+          ? await User.findById(userId)
+              .select("firebaseUid wearables")
+              .lean<IUser>()
+          : null,
+      );
+    }
+    return users.get(userId) ?? null;
+  }
+
+  private describe(webhook: IRawWebhook): Omit<WebhookReplayItem, "outcome"> {
+    return {
+      webhookId: String(webhook._id),
+      externalUserId: webhook.externalUserId,
+      dataStructure: webhook.dataStructure,
+      wearableName: HealthDataMerger.mapSourceToWearable(
+        HealthDataMerger.getDataSource(webhook.payload),
+      ),
+      receivedAt: webhook.receivedAt,
+      replayCount: webhook.replayCount ?? 0,
+    };
+  }
+}
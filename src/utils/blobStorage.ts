@@ -83,8 +83,12 @@ export async function uploadToAzureBlob(
  * Delete a blob from Azure Storage
  *
  * @param blobUrl - The full URL of the blob to delete
+ * @param failOnError - Throw instead of logging when the delete fails
  */
-export async function deleteFromAzureBlob(blobUrl: string): Promise<void> {
+export async function deleteFromAzureBlob(
+  blobUrl: string,
+  failOnError: boolean = false,
+): Promise<void> {
   if (!containerClient) {
     throw new Error("Azure Blob Storage not configured.");
   }
@@ -108,18 +112,31 @@ export async function deleteFromAzureBlob(blobUrl: string): Promise<void> {
     await blockBlobClient.deleteIfExists();
     console.log("✅ Deleted from Azure Blob:", blobName);
   } catch (error) {
+    if (failOnError) throw error;
     console.error("⚠️ Error deleting from Azure Blob:", error);
   }
 }
 
+/**
+ * Whether a URL points at a blob in our container
+ * (e.g. profile photos can also be social provider URLs)
+ */
+export function isAzureBlobUrl(url: string): boolean {
+  return !!containerClient && url.startsWith(`${containerClient.url}/`);
+}
+
 /**
  * Generate a Shared Access Signature (SAS) URL for a given blob URL
  * This allows the client to view a private blob temporarily.
  *
  * @param blobUrl - The plain URL of the blob (without SAS token)
- * @returns The SAS URL valid for 24 hours, or the original URL if generation fails
+ * @param expiresInHours - How long the SAS URL stays valid
+ * @returns The SAS URL, or the original URL if generation fails
  */
-export async function getBlobSasUrl(blobUrl: string): Promise<string> {
+export async function getBlobSasUrl(
+  blobUrl: string,
+  expiresInHours: number = 24,
+): Promise<string> {
   if (!containerClient || !blobUrl) return blobUrl;
   
   // If the URL already has a SAS token, return it
@@ -134,10 +151,10 @@ export async function getBlobSasUrl(blobUrl: string): Promise<string> {
 
     const blockBlobClient = containerClient.getBlockBlobClient(blobName);
     
-    // Generate SAS URL valid for 24 hours
+    // Generate read-only SAS URL
     const sasUrl = await blockBlobClient.generateSasUrl({
       permissions: BlobSASPermissions.parse("r"),
-      expiresOn: new Date(new Date().valueOf() + 24 * 60 * 60 * 1000), // 24 hours from now
+      expiresOn: new Date(new Date().valueOf() + expiresInHours * 60 * 60 * 1000),
     });
     
     return sasUrl;
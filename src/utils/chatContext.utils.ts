@@ -0,0 +1,76 @@
+/**
+ * Chat Context Utilities
+ * Token estimation and budget-based truncation for AI conversation context
+ */
+
+export interface ContextMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+}
+
+// Rough average for English text with GPT-style tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role markers and message framing added by the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export class ChatContextUtils {
+  /**
+   * Estimate the token count of a string without a tokenizer
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Estimate the token cost of a single chat message
+   */
+  static estimateMessageTokens(message: ContextMessage): number {
+    return this.estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  /**
+   * Keep the newest messages that fit within the token budget.
+   * Messages are returned in their original (chronological) order.
+   * The history never starts with an assistant turn so the AI doesn't
+   * see a reply without the question that prompted it.
+   */
+  static selectWithinBudget<T extends ContextMessage>(
+    messages: T[],
+    maxTokens: number,
+  ): T[] {
+    const selected: T[] = [];
+    let used = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const cost = this.estimateMessageTokens(messages[i]);
+      if (used + cost > maxTokens) break;
+      selected.unshift(messages[i]);
+      used += cost;
+    }
+
+    while (selected.length > 0 && selected[0].role === "assistant") {
+      selected.shift();
+    }
+
+    return selected;
+  }
+
+  /**
+   * Plain-text transcript used as input for summarization
+   */
+  static toTranscript(messages: ContextMessage[]): string {
+    return messages
+      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+      .join("\n");
+  }
+
+  /**
+   * Trim text to a maximum length on a word boundary
+   */
+  static truncate(text: string, maxChars: number): string {
+    if (text.length <= maxChars) return text;
+    const cut = text.substring(0, maxChars);
+    const lastSpace = cut.lastIndexOf(" ");
+    return `${lastSpace > 0 ? cut.substring(0, lastSpace) : cut}…`;
+  }
+}
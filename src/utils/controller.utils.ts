@@ -0,0 +1,44 @@
+/**
+ * Controller Utilities
+ * Authentication and error responses shared by the API controllers
+ */
+
+import { Request, Response } from "express";
+import { z } from "zod";
+import { AuthenticatedRequest } from "../middleware/auth.middleware";
+
+/** The authenticated user's Firebase uid, or null after sending a 401. */
+export function requireUser(req: Request, res: Response): string | null {
+  const firebaseUid = (req as AuthenticatedRequest).user?.uid;
+
+  if (!firebaseUid) {
+    res.status(401).json({
+      success: false,
+      error: "Authentication required",
+    });
+    return null;
+  }
+
+  return firebaseUid;
+}
+
+/** Send a 400 for invalid input, otherwise log the error and send a 500. */
+export function handleError(
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+): void {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      success: false,
+      error: error.errors[0].message,
+    });
+    return;
+  }
+
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: (error instanceof Error && error.message) || fallbackMessage,
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Data Export Utilities
+ * Turns a user's records into the JSON and CSV files of their data export
+ * and zips them
+ */
+
+import JSZip from "jszip";
+
+// One kind of record, exported as <name>.json and optionally <name>.csv
+export interface ExportSection {
+  name: string; // Path inside the zip without extension, e.g. "health/recovery-scores"
+  description: string; // Listed in README.txt
+  records: unknown[];
+  csv: boolean; // Also write a CSV (flat records only)
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class DataExportUtils {
+  /**
+   * Plain JSON-safe copy of a database document: ObjectIds become strings,
+   * dates ISO strings, and the mongoose version key is dropped
+   */
+  static toPlain<T>(record: T): Record<string, unknown> {
+    const plain = JSON.parse(JSON.stringify(record));
+    delete plain.__v;
+    return plain;
+  }
+
+  /**
+   * CSV with a column for every top-level field seen in any record.
+   * Nested values are written as JSON.
+   */
+  static toCsv(records: Record<string, unknown>[]): string {
+    const columns: string[] = [];
+    for (const record of records) {
+      for (const key of Object.keys(record)) {
+        if (!columns.includes(key)) columns.push(key);
+      }
+    }
+
+    const lines = [
+      columns.map(csvCell).join(","),
+      ...records.map((record) =>
+        columns.map((column) => csvCell(record[column])).join(","),
+      ),
+    ];
+
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Zip with a README plus JSON (and CSV) files for every section.
+   * Returns the zip and the number of records per section.
+   */
+  static async buildArchive(
+    sections: ExportSection[],
+    exportedAt: Date,
+  ): Promise<{ buffer: Buffer; recordCounts: Record<string, number> }> {
+    const zip = new JSZip();
+    const recordCounts: Record<string, number> = {};
+
+    for (const section of sections) {
+      const records = section.records.map((record) => this.toPlain(record));
+      recordCounts[section.name] = records.length;
+
+      zip.file(`${section.name}.json`, JSON.stringify(records, null, 2));
+      if (section.csv) {
+        zip.file(`${section.name}.csv`, this.toCsv(records));
+      }
+    }
+
+    zip.file("README.txt", this.readme(sections, recordCounts, exportedAt));
+
+    const buffer = await zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+    });
+
+    return { buffer, recordCounts };
+  }
+
+  private static readme(
+    sections: ExportSection[],
+    recordCounts: Record<string, number>,
+    exportedAt: Date,
+  ): string {
+    return [
+      "H2Oasis data export",
+      `Created ${exportedAt.toISOString()}`,
+      "",
+      "Every file is JSON; lists of flat records are also included as CSV.",
+      "",
+      ...sections.map(
+        (section) =>
+          `${section.name} (${recordCounts[section.name]} records): ${section.description}`,
+      ),
+      "",
+    ].join("\n");
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Health Fusion Utilities
+ * Builds one canonical IHealthData from several wearables' data for the
+ * same day, recording which source each field came from
+ */
+
+import { IActivityEvent, IHealthData } from "../models/HealthData.types";
+import {
+  DEFAULT_SOURCE_PRIORITY,
+  FusionMetric,
+  HEALTH_FUSION,
+} from "../constants";
+
+export interface FusionSource {
+  source: string; // Wearable name, e.g. "oura"
+  data: IHealthData;
+}
+
+export type SourcePriority = Partial<Record<FusionMetric, string[]>>;
+
+export interface FusedHealthData {
+  data: IHealthData;
+  sources: Record<string, string>; // Field path -> source, e.g. "sleep.duration_minutes": "oura"
+}
+
+// Summary sections fused field by field
+const SUMMARY_SECTIONS = ["sleep", "physical", "body"] as const;
+
+// Vendor-specific sections, taken whole from the freshest source
+const VENDOR_SECTIONS = [
+  "readiness",
+  "recovery",
+  "strain",
+  "body_battery",
+  "stress",
+] as const;
+
+type Leaf = string | number | boolean;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const timestamp = (section: unknown): number => {
+  const lastUpdated = isPlainObject(section) ? section.last_updated : undefined;
+  return typeof lastUpdated === "string"
+    ? new Date(lastUpdated).getTime()
+    : NaN;
+};
+
+export class HealthFusionUtils {
+  /**
+   * Which user-facing metric a field belongs to
+   */
+  static metricFor(path: string): FusionMetric {
+    if (path.startsWith("sleep.hrv.")) return "hrv";
+    if (path.includes(".heart_rate.")) return "heart_rate";
+    if (path.startsWith("sleep.")) return "sleep";
+    if (path.startsWith("body.")) return "body";
+    return "activity";
+  }
+
+  /**
+   * Source order for a metric: the user's picks first, then the defaults,
+   * then anything else alphabetically
+   */
+  static rank(
+    metric: FusionMetric,
+    sources: string[],
+    overrides: SourcePriority = {},
+  ): string[] {
+    const order = [
+      ...(overrides[metric] || []),
+      ...DEFAULT_SOURCE_PRIORITY[metric],
+    ];
+    const position = (source: string) => {
+      const index = order.indexOf(source);
+      return index === -1 ? order.length : index;
+    };
+
+    return [...sources].sort(
+      (a, b) => position(a) - position(b) || a.localeCompare(b),
+    );
+  }
+
+  /**
+   * Fuse one day of data from several sources.
+   *
+   * For each section and metric, sources are tried in priority order
+   * (recency: a source more than STALE_AFTER_HOURS older than the freshest
+   * one drops to the back). The first source with a field provides it, so
+   * gaps in the preferred source are filled from the next (completeness).
+   */
+  static fuse(
+    inputs: FusionSource[],
+    overrides: SourcePriority = {},
+  ): FusedHealthData {
+    const data: Record<string, unknown> = {};
+    const sources: Record<string, string> = {};
+    const staleMs = HEALTH_FUSION.STALE_AFTER_HOURS * 60 * 60 * 1000;
+
+    for (const section of SUMMARY_SECTIONS) {
+      // Leaves of this section per metric per source
+      const byMetric = new Map<FusionMetric, Map<string, [string, Leaf][]>>();
+      const updatedAt = new Map<string, number>();
+
+      for (const input of inputs) {
+        const sectionData = input.data[section];
+        if (!isPlainObject(sectionData)) continue;
+
+        updatedAt.set(input.source, timestamp(sectionData));
+
+        for (const leaf of this.leaves(sectionData, section)) {
+          const metric = this.metricFor(leaf[0]);
+          const metricSources = byMetric.get(metric) || new Map();
+          metricSources.set(input.source, [
+            ...(metricSources.get(input.source) || []),
+            leaf,
+          ]);
+          byMetric.set(metric, metricSources);
+        }
+      }
+
+      let latest = -Infinity;
+
+      for (const [metric, metricSources] of byMetric) {
+        const ranked = this.rank(metric, [...metricSources.keys()], overrides);
+        const freshest = Math.max(
+          ...ranked
+            .map((source) => updatedAt.get(source)!)
+            .filter(Number.isFinite),
+        );
+        const isStale = (source: string) =>
+          updatedAt.get(source)! < freshest - staleMs;
+        const ordered = [
+          ...ranked.filter((source) => !isStale(source)),
+          ...ranked.filter(isStale),
+        ];
+
+        for (const source of ordered) {
+          for (const [path, value] of metricSources.get(source)!) {
+            if (path in sources) continue;
+            this.setPath(data, path, value);
+            sources[path] = source;
+
+            const at = updatedAt.get(source)!;
+            if (Number.isFinite(at)) latest = Math.max(latest, at);
+          }
+        }
+      }
+
+      if (Number.isFinite(latest)) {
+        this.setPath(
+          data,
+          `${section}.last_updated`,
+          new Date(latest).toISOString(),
+        );
+      }
+    }
+
+    for (const section of VENDOR_SECTIONS) {
+      const candidates = inputs
+        .filter((input) => isPlainObject(input.data[section]))
+        .sort(
+          (a, b) =>
+            (timestamp(b.data[section]) || 0) -
+            (timestamp(a.data[section]) || 0),
+        );
+
+      if (candidates.length > 0) {
+        data[section] = candidates[0].data[section];
+        sources[section] = candidates[0].source;
+      }
+    }
+
+    const events = this.fuseActivityEvents(inputs, overrides);
+    if (events.length > 0) {
+      data.activity_events = events.map(({ event }) => event);
+      events.forEach(({ source }, index) => {
+        sources[`activity_events.${index}`] = source;
+      });
+    }
+
+    return { data: data as IHealthData, sources };
+  }
+
+  /**
+   * All sources' workouts, newest first. A workout recorded by several
+   * devices (same start time) is kept once, from the preferred source.
+   */
+  private static fuseActivityEvents(
+    inputs: FusionSource[],
+    overrides: SourcePriority,
+  ): { event: IActivityEvent; source: string }[] {
+    const ranked = this.rank(
+      "activity",
+      inputs.map((input) => input.source),
+      overrides,
+    );
+    const seen = new Set<string>();
+    const events: { event: IActivityEvent; source: string }[] = [];
+
+    for (const source of ranked) {
+      const input = inputs.find((candidate) => candidate.source === source)!;
+      for (const event of input.data.activity_events || []) {
+        const key = event.start_time || JSON.stringify(event);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        events.push({ event, source });
+      }
+    }
+
+    return events.sort((a, b) =>
+      (b.event.start_time || "").localeCompare(a.event.start_time || ""),
+    );
+  }
+
+  private static leaves(
+    value: Record<string, unknown>,
+    prefix: string,
+  ): [string, Leaf][] {
+    const result: [string, Leaf][] = [];
+
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "last_updated") continue;
+      const path = `${prefix}.${key}`;
+
+      if (isPlainObject(child)) {
+        result.push(...this.leaves(child, path));
+      } else if (
+        typeof child === "string" ||
+        typeof child === "number" ||
+        typeof child === "boolean"
+      ) {
+        result.push([path, child]);
+      }
+    }
+
+    return result;
+  }
+
+  private static setPath(
+    target: Record<string, unknown>,
+    path: string,
+    value: unknown,
+  ): void {
+    const keys = path.split(".");
+    let node = target;
+
+    for (const key of keys.slice(0, -1)) {
+      if (!isPlainObject(node[key])) node[key] = {};
+      node = node[key] as Record<string, unknown>;
+    }
+
+    node[keys[keys.length - 1]] = value;
+  }
+}
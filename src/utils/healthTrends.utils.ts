@@ -0,0 +1,283 @@
+/**
+ * Health Trends Utilities
+ * Daily series, rolling averages, personal baselines and anomaly flags
+ * for one health metric
+ */
+
+import { IHealthDailySummary } from "../models/HealthDailySummary.model";
+import { IRecoveryScore } from "../models/RecoveryScore.model";
+import { IPhysicalData, ISleepData } from "../models/HealthData.types";
+import { HEALTH_TRENDS, TrendMetric } from "../constants";
+import { SessionStatsUtils } from "./sessionStats.utils";
+
+export interface DailyValue {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface TrendBaseline {
+  mean: number;
+  standardDeviation: number;
+  days: number; // Days with a reading in the window
+}
+
+export interface TrendPoint {
+  date: string;
+  value: number | null; // null on days without a reading
+  average7d: number | null;
+  average28d: number | null;
+  zScore: number | null; // Against the baseline of the days before
+  anomaly: boolean;
+}
+
+export interface HealthTrend {
+  metric: TrendMetric;
+  unit: string;
+  from: string;
+  to: string;
+  series: TrendPoint[];
+  baseline: TrendBaseline | null; // Trailing window ending on `to`
+  latest: DailyValue | null;
+  direction: "up" | "down" | "flat" | null; // Last week vs. the weeks before
+  improving: boolean | null; // null when there's no trend or no better direction
+  anomalies: string[]; // Dates flagged as anomalous
+}
+
+type SummarySource = Pick<IHealthDailySummary, "date" | "dataType" | "data">;
+type ScoreSource = Pick<IRecoveryScore, "date" | "metrics" | "vendorScores">;
+
+const METRICS: Record<
+  TrendMetric,
+  {
+    unit: string;
+    higherIsBetter: boolean | null;
+    fromSummary?: (summary: SummarySource) => number | undefined;
+    fromScore?: (score: ScoreSource) => number | undefined;
+  }
+> = {
+  sleep_duration: {
+    unit: "minutes",
+    higherIsBetter: true,
+    fromSummary: (summary) =>
+      summary.dataType === "sleep"
+        ? (summary.data as ISleepData).duration_minutes
+        : undefined,
+    fromScore: (score) => score.metrics?.sleepMinutes,
+  },
+  sleep_efficiency: {
+    unit: "%",
+    higherIsBetter: true,
+    fromSummary: (summary) =>
+      summary.dataType === "sleep"
+        ? (summary.data as ISleepData).efficiency_percentage
+        : undefined,
+    fromScore: (score) => score.metrics?.sleepEfficiency,
+  },
+  hrv_rmssd: {
+    unit: "ms",
+    higherIsBetter: true,
+    fromSummary: (summary) =>
+      summary.dataType === "sleep"
+        ? (summary.data as ISleepData).hrv?.rmssd_avg_ms
+        : undefined,
+    fromScore: (score) => score.metrics?.hrvMs,
+  },
+  resting_hr: {
+    unit: "bpm",
+    higherIsBetter: false,
+    fromSummary: (summary) =>
+      summary.dataType === "sleep" || summary.dataType === "physical"
+        ? (summary.data as ISleepData | IPhysicalData).heart_rate?.resting_bpm
+        : undefined,
+    fromScore: (score) => score.metrics?.restingHeartRateBpm,
+  },
+  steps: {
+    unit: "steps",
+    higherIsBetter: true,
+    fromSummary: (summary) =>
+      summary.dataType === "physical"
+        ? (summary.data as IPhysicalData).steps
+        : undefined,
+  },
+  strain: {
+    unit: "strain (0-21)",
+    higherIsBetter: null, // More load isn't better or worse by itself
+    fromScore: (score) => score.metrics?.strain,
+  },
+  body_battery: {
+    unit: "level (0-100)",
+    higherIsBetter: true,
+    fromScore: (score) =>
+      score.vendorScores?.find(
+        (vendor) => vendor.source === "garmin_body_battery",
+      )?.score,
+  },
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+export class HealthTrendsUtils {
+  /**
+   * One value per day for a metric. Daily summaries come first (averaged
+   * across wearables); recovery score history fills in the rest.
+   */
+  static dailyValues(
+    metric: TrendMetric,
+    summaries: SummarySource[],
+    scores: ScoreSource[],
+  ): DailyValue[] {
+    const { fromSummary, fromScore } = METRICS[metric];
+    const byDate = new Map<string, number[]>();
+
+    const add = (date: string, value: number | undefined) => {
+      if (!isNumber(value)) return;
+      byDate.set(date, [...(byDate.get(date) || []), value]);
+    };
+
+    if (fromSummary) {
+      for (const summary of summaries) add(summary.date, fromSummary(summary));
+    }
+
+    if (fromScore) {
+      for (const score of scores) {
+        if (!byDate.has(score.date)) add(score.date, fromScore(score));
+      }
+    }
+
+    return [...byDate.entries()]
+      .map(([date, values]) => ({ date, value: round(average(values)!) }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Mean and standard deviation of the readings in a window
+   * Returns null with fewer than MIN_BASELINE_DAYS readings
+   */
+  static baseline(values: number[]): TrendBaseline | null {
+    if (values.length < HEALTH_TRENDS.MIN_BASELINE_DAYS) return null;
+
+    const mean = average(values)!;
+    const variance = average(values.map((value) => (value - mean) ** 2))!;
+
+    return {
+      mean: round(mean),
+      standardDeviation: round(Math.sqrt(variance)),
+      days: values.length,
+    };
+  }
+
+  /**
+   * Build the trend for `from`..`to` (inclusive). `values` should start
+   * BASELINE_DAYS before `from` so the first days have averages and baselines.
+   */
+  static compute(
+    metric: TrendMetric,
+    values: DailyValue[],
+    range: { from: string; to: string },
+  ): HealthTrend {
+    const byDate = new Map(values.map((day) => [day.date, day.value]));
+
+    // Readings in the `days` days ending on `date` (inclusive)
+    const window = (date: string, days: number): number[] => {
+      const readings: number[] = [];
+      for (let offset = 0; offset < days; offset++) {
+        const value = byDate.get(SessionStatsUtils.addDays(date, -offset));
+        if (value !== undefined) readings.push(value);
+      }
+      return readings;
+    };
+
+    const rolling = (date: string, days: number): number | null => {
+      const mean = average(window(date, days));
+      return mean === null ? null : round(mean);
+    };
+
+    const series: TrendPoint[] = [];
+    for (
+      let date = range.from;
+      date <= range.to;
+      date = SessionStatsUtils.addDays(date, 1)
+    ) {
+      const value = byDate.get(date) ?? null;
+      const prior = this.baseline(
+        window(
+          SessionStatsUtils.addDays(date, -1),
+          HEALTH_TRENDS.BASELINE_DAYS,
+        ),
+      );
+      const zScore =
+        value !== null && prior && prior.standardDeviation > 0
+          ? round((value - prior.mean) / prior.standardDeviation)
+          : null;
+
+      series.push({
+        date,
+        value,
+        average7d: rolling(date, HEALTH_TRENDS.SHORT_AVERAGE_DAYS),
+        average28d: rolling(date, HEALTH_TRENDS.LONG_AVERAGE_DAYS),
+        zScore,
+        anomaly:
+          zScore !== null && Math.abs(zScore) >= HEALTH_TRENDS.ANOMALY_Z_SCORE,
+      });
+    }
+
+    const latestPoint = [...series].reverse().find((p) => p.value !== null);
+    const direction = this.direction(range.to, window);
+    const higherIsBetter = METRICS[metric].higherIsBetter;
+
+    return {
+      metric,
+      unit: METRICS[metric].unit,
+      from: range.from,
+      to: range.to,
+      series,
+      baseline: this.baseline(window(range.to, HEALTH_TRENDS.BASELINE_DAYS)),
+      latest: latestPoint
+        ? { date: latestPoint.date, value: latestPoint.value! }
+        : null,
+      direction,
+      improving:
+        direction === null || direction === "flat" || higherIsBetter === null
+          ? null
+          : (direction === "up") === higherIsBetter,
+      anomalies: series.filter((p) => p.anomaly).map((p) => p.date),
+    };
+  }
+
+  /**
+   * Compare the last week's average with the baseline of the weeks before it
+   */
+  private static direction(
+    to: string,
+    window: (date: string, days: number) => number[],
+  ): HealthTrend["direction"] {
+    const lastWeek = average(window(to, HEALTH_TRENDS.SHORT_AVERAGE_DAYS));
+    const before = this.baseline(
+      window(
+        SessionStatsUtils.addDays(to, -HEALTH_TRENDS.SHORT_AVERAGE_DAYS),
+        HEALTH_TRENDS.BASELINE_DAYS,
+      ),
+    );
+
+    if (lastWeek === null || !before) return null;
+    if (before.standardDeviation === 0) {
+      return lastWeek === before.mean
+        ? "flat"
+        : lastWeek > before.mean
+          ? "up"
+          : "down";
+    }
+
+    const shift = (lastWeek - before.mean) / before.standardDeviation;
+    if (Math.abs(shift) < HEALTH_TRENDS.TREND_Z_SCORE) return "flat";
+    return shift > 0 ? "up" : "down";
+  }
+}
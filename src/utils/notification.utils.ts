@@ -0,0 +1,73 @@
+/**
+ * Notification Utilities
+ * Delivery rules for push notifications (opt-outs and quiet hours)
+ */
+
+import { INotificationPreferences } from "../models/User.model";
+import { NotificationCategory } from "../constants";
+
+export type SkipReason = "opted_out" | "quiet_hours";
+
+export class NotificationUtils {
+  /**
+   * Minutes since local midnight in a timezone
+   */
+  static localMinutes(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).formatToParts(date);
+
+    const get = (type: string) =>
+      Number(parts.find((p) => p.type === type)!.value);
+    return get("hour") * 60 + get("minute");
+  }
+
+  /**
+   * Whether an instant falls inside the user's quiet hours.
+   * Windows that end earlier than they start run overnight (22:00-07:00).
+   */
+  static isWithinQuietHours(
+    quietHours: INotificationPreferences["quietHours"],
+    now: Date = new Date(),
+  ): boolean {
+    if (!quietHours || quietHours.start === quietHours.end) return false;
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(":").map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    const current = this.localMinutes(now, quietHours.timeZone);
+
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  /**
+   * Why a notification shouldn't be delivered, or null if it can be
+   */
+  static getSkipReason(
+    preferences: INotificationPreferences | undefined,
+    category: NotificationCategory,
+    options: { ignoreQuietHours?: boolean; now?: Date } = {},
+  ): SkipReason | null {
+    if (preferences?.optOuts?.includes(category)) {
+      return "opted_out";
+    }
+
+    if (
+      !options.ignoreQuietHours &&
+      this.isWithinQuietHours(preferences?.quietHours, options.now)
+    ) {
+      return "quiet_hours";
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Recovery Score Utilities
+ * Normalizes vendor scores (Oura readiness, Whoop recovery, Garmin body
+ * battery) and raw metrics from every connected wearable into one
+ * H2Oasis recovery score (0-100)
+ */
+
+import { IHealthData } from "../models/HealthData.types";
+import {
+  IRecoveryComponents,
+  IRecoveryMetrics,
+  IVendorScore,
+} from "../models/RecoveryScore.model";
+import { RECOVERY_SCORE, RecoveryScoreMethod } from "../constants";
+
+export interface WearableSnapshot {
+  connected?: boolean;
+  lastSync?: Date;
+  data: IHealthData | null;
+}
+
+export interface RecoveryInputs {
+  vendorScores: IVendorScore[];
+  metrics: IRecoveryMetrics;
+  wearables: string[]; // Wearables that contributed fresh data
+}
+
+// Personal averages from previous days
+export interface RecoveryBaseline {
+  hrvMs?: number;
+  restingHeartRateBpm?: number;
+}
+
+export interface RecoveryScoreResult {
+  score: number;
+  method: RecoveryScoreMethod;
+  components: IRecoveryComponents;
+}
+
+// Population ranges used until there's a personal baseline
+const HRV_RANGE_MS = { low: 20, high: 100 };
+const RESTING_HR_RANGE_BPM = { low: 40, high: 80 };
+const SLEEP_DURATION_RANGE_MINUTES = { low: 300, high: 480 };
+const SLEEP_EFFICIENCY_RANGE = { low: 65, high: 95 };
+const WHOOP_MAX_STRAIN = 21;
+const HIGH_LOAD_INTENSITY_MINUTES = 120; // Vigorous minutes count double
+
+interface Reading {
+  value: number;
+  at: number; // Epoch ms the reading was taken
+}
+
+const clamp = (value: number): number => Math.min(100, Math.max(0, value));
+
+// 0 at `low`, 100 at `high` (works for falling ranges too)
+const scale = (value: number, low: number, high: number): number =>
+  clamp(((value - low) / (high - low)) * 100);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export class RecoveryScoreUtils {
+  /**
+   * Collect today's vendor scores and the freshest raw metrics
+   * across all wearables. Readings older than MAX_DATA_AGE_HOURS are ignored.
+   */
+  static extractInputs(
+    wearables: Record<string, WearableSnapshot | undefined>,
+    now: Date = new Date(),
+  ): RecoveryInputs {
+    const cutoff =
+      now.getTime() - RECOVERY_SCORE.MAX_DATA_AGE_HOURS * 60 * 60 * 1000;
+
+    const vendorScores: IVendorScore[] = [];
+    const readings: Record<keyof IRecoveryMetrics, Reading[]> = {
+      hrvMs: [],
+      restingHeartRateBpm: [],
+      sleepMinutes: [],
+      sleepEfficiency: [],
+      activityLoad: [],
+      strain: [],
+    };
+    const contributors = new Set<string>();
+
+    for (const [wearable, snapshot] of Object.entries(wearables)) {
+      const data = snapshot?.data;
+      if (!data || snapshot.connected === false) continue;
+
+      // Sections without their own timestamp inherit the last sync
+      const freshAt = (lastUpdated?: string): number | null => {
+        const at = lastUpdated
+          ? new Date(lastUpdated).getTime()
+          : snapshot.lastSync
+            ? new Date(snapshot.lastSync).getTime()
+            : NaN;
+        return Number.isFinite(at) && at >= cutoff ? at : null;
+      };
+
+      const add = (
+        metric: keyof IRecoveryMetrics,
+        value: number | undefined,
+        at: number | null,
+      ) => {
+        if (!isNumber(value) || at === null) return;
+        readings[metric].push({ value, at });
+        contributors.add(wearable);
+      };
+
+      const addVendor = (
+        source: IVendorScore["source"],
+        score: number | undefined,
+        lastUpdated?: string,
+      ) => {
+        if (!isNumber(score) || freshAt(lastUpdated) === null) return;
+        vendorScores.push({ wearable, source, score: clamp(score) });
+        contributors.add(wearable);
+      };
+
+      addVendor(
+        "oura_readiness",
+        data.readiness?.score,
+        data.readiness?.last_updated,
+      );
+      addVendor(
+        "whoop_recovery",
+        data.recovery?.score,
+        data.recovery?.last_updated,
+      );
+      addVendor(
+        "garmin_body_battery",
+        data.body_battery?.level,
+        data.body_battery?.last_updated,
+      );
+
+      const sleepAt = freshAt(data.sleep?.last_updated);
+      add("hrvMs", data.sleep?.hrv?.rmssd_avg_ms, sleepAt);
+      add("restingHeartRateBpm", data.sleep?.heart_rate?.resting_bpm, sleepAt);
+      add("sleepMinutes", data.sleep?.duration_minutes, sleepAt);
+      add("sleepEfficiency", data.sleep?.efficiency_percentage, sleepAt);
+
+      const recoveryAt = freshAt(data.recovery?.last_updated);
+      add("hrvMs", data.recovery?.hrv_rmssd_ms, recoveryAt);
+      add(
+        "restingHeartRateBpm",
+        data.recovery?.resting_heart_rate_bpm,
+        recoveryAt,
+      );
+
+      const readinessAt = freshAt(data.readiness?.last_updated);
+      add("hrvMs", data.readiness?.hrv_rmssd_ms, readinessAt);
+      add(
+        "restingHeartRateBpm",
+        data.readiness?.resting_heart_rate_bpm,
+        readinessAt,
+      );
+
+      const physicalAt = freshAt(data.physical?.last_updated);
+      add(
+        "restingHeartRateBpm",
+        data.physical?.heart_rate?.resting_bpm,
+        physicalAt,
+      );
+      add(
+        "activityLoad",
+        this.intensityLoad(
+          data.physical?.moderate_intensity_minutes,
+          data.physical?.vigorous_intensity_minutes,
+        ),
+        physicalAt,
+      );
+
+      const strain = data.strain?.score;
+      const strainAt = freshAt(data.strain?.last_updated);
+      add("strain", strain, strainAt);
+      add(
+        "activityLoad",
+        isNumber(strain) ? clamp((strain / WHOOP_MAX_STRAIN) * 100) : undefined,
+        strainAt,
+      );
+    }
+
+    const metrics: IRecoveryMetrics = {};
+    for (const metric of Object.keys(readings) as (keyof IRecoveryMetrics)[]) {
+      const freshest = readings[metric].sort((a, b) => b.at - a.at)[0];
+      if (freshest) metrics[metric] = freshest.value;
+    }
+
+    return { vendorScores, metrics, wearables: [...contributors].sort() };
+  }
+
+  /**
+   * Average HRV and resting HR over previous days' metrics
+   * Returns null until there are enough days to be meaningful
+   */
+  static baseline(history: IRecoveryMetrics[]): RecoveryBaseline | null {
+    const average = (values: (number | undefined)[]) => {
+      const present = values.filter(isNumber);
+      return present.length >= RECOVERY_SCORE.MIN_BASELINE_DAYS
+        ? present.reduce((sum, value) => sum + value, 0) / present.length
+        : undefined;
+    };
+
+    const baseline: RecoveryBaseline = {
+      hrvMs: average(history.map((metrics) => metrics.hrvMs)),
+      restingHeartRateBpm: average(
+        history.map((metrics) => metrics.restingHeartRateBpm),
+      ),
+    };
+
+    return baseline.hrvMs !== undefined ||
+      baseline.restingHeartRateBpm !== undefined
+      ? baseline
+      : null;
+  }
+
+  /**
+   * Map each raw metric to 0-100 (higher is better recovered)
+   */
+  static components(
+    metrics: IRecoveryMetrics,
+    baseline: RecoveryBaseline | null,
+  ): IRecoveryComponents {
+    const components: IRecoveryComponents = {};
+
+    if (isNumber(metrics.hrvMs)) {
+      // +/-20% around the personal average spans the whole range
+      components.hrv = baseline?.hrvMs
+        ? clamp(50 + (metrics.hrvMs / baseline.hrvMs - 1) * 250)
+        : scale(metrics.hrvMs, HRV_RANGE_MS.low, HRV_RANGE_MS.high);
+    }
+
+    if (isNumber(metrics.restingHeartRateBpm)) {
+      // An elevated resting HR is a strong fatigue signal: +10% scores 0
+      components.restingHeartRate = baseline?.restingHeartRateBpm
+        ? clamp(
+            50 -
+              (metrics.restingHeartRateBpm / baseline.restingHeartRateBpm - 1) *
+                500,
+          )
+        : scale(
+            metrics.restingHeartRateBpm,
+            RESTING_HR_RANGE_BPM.high,
+            RESTING_HR_RANGE_BPM.low,
+          );
+    }
+
+    const sleepParts = [
+      isNumber(metrics.sleepMinutes)
+        ? scale(
+            metrics.sleepMinutes,
+            SLEEP_DURATION_RANGE_MINUTES.low,
+            SLEEP_DURATION_RANGE_MINUTES.high,
+          )
+        : undefined,
+      isNumber(metrics.sleepEfficiency)
+        ? scale(
+            metrics.sleepEfficiency,
+            SLEEP_EFFICIENCY_RANGE.low,
+            SLEEP_EFFICIENCY_RANGE.high,
+          )
+        : undefined,
+    ].filter(isNumber);
+    if (sleepParts.length > 0) {
+      components.sleep =
+        sleepParts.reduce((sum, part) => sum + part, 0) / sleepParts.length;
+    }
+
+    if (isNumber(metrics.activityLoad)) {
+      components.activityLoad = 100 - clamp(metrics.activityLoad);
+    }
+
+    for (const key of Object.keys(
+      components,
+    ) as (keyof IRecoveryComponents)[]) {
+      components[key] = Math.round(components[key]!);
+    }
+
+    return components;
+  }
+
+  /**
+   * Compute the day's score: the average vendor score when there is one,
+   * otherwise a weighted blend of the raw metric components.
+   * Returns null if there's nothing to score (activity load alone isn't enough).
+   */
+  static compute(
+    inputs: RecoveryInputs,
+    baseline: RecoveryBaseline | null,
+  ): RecoveryScoreResult | null {
+    const components = this.components(inputs.metrics, baseline);
+
+    if (inputs.vendorScores.length > 0) {
+      const total = inputs.vendorScores.reduce(
+        (sum, vendor) => sum + vendor.score,
+        0,
+      );
+      return {
+        score: Math.round(total / inputs.vendorScores.length),
+        method: "vendor",
+        components,
+      };
+    }
+
+    if (
+      components.hrv === undefined &&
+      components.restingHeartRate === undefined &&
+      components.sleep === undefined
+    ) {
+      return null;
+    }
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [key, weight] of Object.entries(RECOVERY_SCORE.WEIGHTS)) {
+      const value = components[key as keyof IRecoveryComponents];
+      if (value === undefined) continue;
+      weighted += value * weight;
+      totalWeight += weight;
+    }
+
+    return {
+      score: Math.round(weighted / totalWeight),
+      method: "metrics",
+      components,
+    };
+  }
+
+  private static intensityLoad(
+    moderateMinutes?: number,
+    vigorousMinutes?: number,
+  ): number | undefined {
+    if (!isNumber(moderateMinutes) && !isNumber(vigorousMinutes)) {
+      return undefined;
+    }
+
+    const minutes = (moderateMinutes || 0) + (vigorousMinutes || 0) * 2;
+    return clamp((minutes / HIGH_LOAD_INTENSITY_MINUTES) * 100);
+  }
+}
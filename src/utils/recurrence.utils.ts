@@ -0,0 +1,276 @@
+/**
+ * Recurrence Utilities
+ * A small RRULE subset for session schedules, evaluated in the user's timezone
+ *
+ * Supported parts: FREQ (DAILY | WEEKLY), INTERVAL, BYDAY, BYHOUR, BYMINUTE
+ * e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=7;BYMINUTE=0"
+ */
+
+import { SESSION_SCHEDULE } from "../constants";
+import { SessionStatsUtils } from "./sessionStats.utils";
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY";
+  interval: number;
+  byDay: number[]; // 0 = Sunday ... 6 = Saturday
+  byHour: number[];
+  byMinute: number[];
+}
+
+export interface OccurrenceWindow {
+  timeZone: string;
+  startDate: string; // YYYY-MM-DD, first local day the rule applies
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown for rules outside the supported subset
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
+
+export class RecurrenceUtils {
+  /**
+   * Parse an RRULE string (with or without the "RRULE:" prefix)
+   * @throws RecurrenceRuleError
+   */
+  static parse(rrule: string): RecurrenceRule {
+    const parts = new Map<string, string>();
+
+    for (const part of rrule
+      .trim()
+      .replace(/^RRULE:/i, "")
+      .split(";")) {
+      if (!part) continue;
+      const [key, value] = part.split("=");
+      if (!key || value === undefined) {
+        throw new RecurrenceRuleError(`Invalid rule part "${part}"`);
+      }
+      parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    }
+
+    const unsupported = [...parts.keys()].filter(
+      (key) =>
+        !["FREQ", "INTERVAL", "BYDAY", "BYHOUR", "BYMINUTE"].includes(key),
+    );
+    if (unsupported.length > 0) {
+      throw new RecurrenceRuleError(
+        `Unsupported rule parts: ${unsupported.join(", ")}`,
+      );
+    }
+
+    const freq = parts.get("FREQ");
+    if (freq !== "DAILY" && freq !== "WEEKLY") {
+      throw new RecurrenceRuleError("FREQ must be DAILY or WEEKLY");
+    }
+
+    if (!parts.has("BYHOUR")) {
+      throw new RecurrenceRuleError("BYHOUR is required");
+    }
+
+    const interval = parts.has("INTERVAL")
+      ? this.parseNumbers(parts.get("INTERVAL")!, "INTERVAL", 1, 52)[0]
+      : 1;
+
+    const byDay = parts.has("BYDAY")
+      ? parts
+          .get("BYDAY")!
+          .split(",")
+          .map((day) => {
+            const index = WEEKDAYS.indexOf(day);
+            if (index === -1) {
+              throw new RecurrenceRuleError(`Invalid BYDAY value "${day}"`);
+            }
+            return index;
+          })
+      : [];
+
+    return {
+      freq,
+      interval,
+      byDay: [...new Set(byDay)].sort((a, b) => a - b),
+      byHour: this.parseNumbers(parts.get("BYHOUR")!, "BYHOUR", 0, 23),
+      byMinute: parts.has("BYMINUTE")
+        ? this.parseNumbers(parts.get("BYMINUTE")!, "BYMINUTE", 0, 59)
+        : [0],
+    };
+  }
+
+  /**
+   * Canonical RRULE string for a parsed rule
+   */
+  static format(rule: RecurrenceRule): string {
+    return [
+      `FREQ=${rule.freq}`,
+      rule.interval > 1 && `INTERVAL=${rule.interval}`,
+      rule.byDay.length > 0 &&
+        `BYDAY=${rule.byDay.map((day) => WEEKDAYS[day]).join(",")}`,
+      `BYHOUR=${rule.byHour.join(",")}`,
+      `BYMINUTE=${rule.byMinute.join(",")}`,
+    ]
+      .filter(Boolean)
+      .join(";");
+  }
+
+  /**
+   * First occurrence strictly after the given instant, or null when the
+   * schedule has ended
+   */
+  static nextOccurrence(
+    rule: RecurrenceRule,
+    window: OccurrenceWindow,
+    after: Date,
+  ): Date | null {
+    const times = rule.byHour
+      .flatMap((hour) => rule.byMinute.map((minute) => ({ hour, minute })))
+      .sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+
+    // Start a day early - the local day of `after` may not have started everywhere
+    const afterDate = SessionStatsUtils.addDays(
+      SessionStatsUtils.toLocalDate(after, window.timeZone),
+      -1,
+    );
+    let day = afterDate > window.startDate ? afterDate : window.startDate;
+    const horizon = SESSION_SCHEDULE.SEARCH_HORIZON_DAYS * rule.interval;
+
+    for (let i = 0; i < horizon; i++) {
+      if (window.endDate && day > window.endDate) return null;
+
+      if (this.matchesDay(rule, window.startDate, day)) {
+        for (const { hour, minute } of times) {
+          const occurrence = this.toInstant(day, hour, minute, window.timeZone);
+          if (occurrence > after) return occurrence;
+        }
+      }
+
+      day = SessionStatsUtils.addDays(day, 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * The instant a local wall-clock time happens in a timezone.
+   * Times skipped by a DST change resolve to the hour after; times
+   * repeated when the clocks go back resolve to the first of the two.
+   */
+  static toInstant(
+    localDate: string,
+    hour: number,
+    minute: number,
+    timeZone: string,
+  ): Date {
+    const [year, month, day] = localDate.split("-").map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Offsets either side of any DST change that day
+    const dayMs = 24 * 60 * 60 * 1000;
+    const before = this.offsetMs(new Date(wallClock - dayMs), timeZone);
+    const after = this.offsetMs(new Date(wallClock + dayMs), timeZone);
+
+    for (const offset of [before, after]) {
+      const instant = wallClock - offset;
+      if (this.offsetMs(new Date(instant), timeZone) === offset) {
+        return new Date(instant);
+      }
+    }
+
+    // Skipped: read with the old offset, it lands in the hour after
+    return new Date(wallClock - before);
+  }
+
+  private static matchesDay(
+    rule: RecurrenceRule,
+    startDate: string,
+    day: string,
+  ): boolean {
+    const weekday = this.weekday(day);
+
+    if (rule.freq === "DAILY") {
+      const days = this.daysBetween(startDate, day);
+      return (
+        days % rule.interval === 0 &&
+        (rule.byDay.length === 0 || rule.byDay.includes(weekday))
+      );
+    }
+
+    // Weekly rules without BYDAY repeat on the weekday of the start date
+    const weekdays =
+      rule.byDay.length > 0 ? rule.byDay : [this.weekday(startDate)];
+    const weeks =
+      this.daysBetween(
+        SessionStatsUtils.startOfWeek(startDate),
+        SessionStatsUtils.startOfWeek(day),
+      ) / 7;
+
+    return weeks % rule.interval === 0 && weekdays.includes(weekday);
+  }
+
+  /**
+   * Offset of a timezone from UTC at an instant, in milliseconds
+   */
+  private static offsetMs(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    }).formatToParts(date);
+
+    const get = (type: string) =>
+      Number(parts.find((p) => p.type === type)!.value);
+    const asUtc = Date.UTC(
+      get("year"),
+      get("month") - 1,
+      get("day"),
+      get("hour"),
+      get("minute"),
+      get("second"),
+    );
+
+    return asUtc - (date.getTime() - date.getMilliseconds());
+  }
+
+  private static weekday(localDate: string): number {
+    const [year, month, day] = localDate.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  }
+
+  private static daysBetween(from: string, to: string): number {
+    const toUtc = (date: string) => {
+      const [year, month, day] = date.split("-").map(Number);
+      return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+  }
+
+  private static parseNumbers(
+    value: string,
+    name: string,
+    min: number,
+    max: number,
+  ): number[] {
+    const numbers = value.split(",").map((item) => {
+      const number = Number(item);
+      if (!Number.isInteger(number) || number < min || number > max) {
+        throw new RecurrenceRuleError(
+          `${name} values must be whole numbers from ${min} to ${max}`,
+        );
+      }
+      return number;
+    });
+
+    return [...new Set(numbers)].sort((a, b) => a - b);
+  }
+}
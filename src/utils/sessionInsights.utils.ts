@@ -0,0 +1,340 @@
+/**
+ * Session Insights Utilities
+ * Compares the night after session days with nights after days without a
+ * session, per product, to show users how sessions affect their recovery
+ */
+
+import { ISleepData } from "../models/HealthData.types";
+import { IRecoveryScore } from "../models/RecoveryScore.model";
+import {
+  InsightConfidence,
+  InsightMetric,
+  INSIGHT_METRICS,
+  ProductType,
+  PRODUCT_TYPES,
+  SESSION_INSIGHTS,
+} from "../constants";
+import { CompletionRecord, SessionStatsUtils } from "./sessionStats.utils";
+
+// What a day's sessions included: a product, or any session at all
+export type InsightExposure = ProductType | "any_session";
+
+// Next-night values keyed by the date the night ends (wake-up day)
+export type NightlyMetrics = Map<
+  string,
+  Partial<Record<InsightMetric, number>>
+>;
+
+export interface SessionEffect {
+  exposure: InsightExposure;
+  metric: InsightMetric;
+  unit: string;
+  withSession: { mean: number; nights: number };
+  withoutSession: { mean: number; nights: number };
+  difference: number; // withSession - withoutSession
+  confidenceInterval: [number, number]; // 95% interval of the difference
+  confidence: InsightConfidence;
+  improving: boolean; // Whether the difference is in the better direction
+  summary: string;
+}
+
+export interface SessionInsights {
+  timeZone: string;
+  from: string; // First session day considered (YYYY-MM-DD)
+  to: string; // Last session day considered
+  sessionDays: number;
+  effects: SessionEffect[]; // Strongest first
+}
+
+type ScoreSource = Pick<IRecoveryScore, "date" | "score" | "metrics">;
+
+const METRICS: Record<
+  InsightMetric,
+  {
+    label: string;
+    unit: string;
+    higherIsBetter: boolean;
+    fromSleep?: (sleep: ISleepData) => number | undefined;
+    fromScore?: (score: ScoreSource) => number | undefined;
+  }
+> = {
+  deep_sleep: {
+    label: "deep sleep",
+    unit: "min",
+    higherIsBetter: true,
+    fromSleep: (sleep) => sleep.deep_sleep_minutes,
+  },
+  sleep_duration: {
+    label: "total sleep",
+    unit: "min",
+    higherIsBetter: true,
+    fromSleep: (sleep) => sleep.duration_minutes,
+    fromScore: (score) => score.metrics?.sleepMinutes,
+  },
+  sleep_efficiency: {
+    label: "sleep efficiency",
+    unit: "%",
+    higherIsBetter: true,
+    fromSleep: (sleep) => sleep.efficiency_percentage,
+    fromScore: (score) => score.metrics?.sleepEfficiency,
+  },
+  hrv: {
+    label: "HRV",
+    unit: "ms",
+    higherIsBetter: true,
+    fromSleep: (sleep) => sleep.hrv?.rmssd_avg_ms,
+    fromScore: (score) => score.metrics?.hrvMs,
+  },
+  resting_hr: {
+    label: "resting heart rate",
+    unit: "bpm",
+    higherIsBetter: false,
+    fromSleep: (sleep) => sleep.heart_rate?.resting_bpm,
+    fromScore: (score) => score.metrics?.restingHeartRateBpm,
+  },
+  recovery_score: {
+    label: "recovery score",
+    unit: "pts",
+    higherIsBetter: true,
+    fromScore: (score) => score.score,
+  },
+};
+
+const EXPOSURE_LABELS: Record<InsightExposure, string> = {
+  "cold-plunge": "cold plunge days",
+  "hot-tub": "hot tub days",
+  sauna: "sauna days",
+  any_session: "session days",
+};
+
+const Z_95 = 1.96;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Sample variance (n - 1)
+const variance = (values: number[]): number => {
+  const average = mean(values);
+  return (
+    values.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+    (values.length - 1)
+  );
+};
+
+export class SessionInsightsUtils {
+  /**
+   * What each local day's completed sessions included. Steps that were
+   * skipped (zero minutes) don't count as using the product.
+   */
+  static sessionDays(
+    completions: CompletionRecord[],
+    timeZone: string,
+  ): Map<string, Set<InsightExposure>> {
+    const days = new Map<string, Set<InsightExposure>>();
+
+    for (const completion of completions) {
+      const date = SessionStatsUtils.toLocalDate(
+        new Date(completion.completedAt),
+        timeZone,
+      );
+      const exposures = days.get(date) || new Set<InsightExposure>();
+      exposures.add("any_session");
+
+      for (const step of completion.steps) {
+        if (step.minutes <= 0) continue;
+        const product = SessionStatsUtils.productOf(step.activity);
+        if (product !== "other") exposures.add(product);
+      }
+
+      days.set(date, exposures);
+    }
+
+    return days;
+  }
+
+  /**
+   * Metrics for each night from the (fused) sleep summary dated on its
+   * wake-up day; the recovery score of that morning fills in the rest
+   */
+  static nightlyMetrics(
+    sleepByDate: Map<string, ISleepData>,
+    scores: ScoreSource[],
+  ): NightlyMetrics {
+    const nights: NightlyMetrics = new Map();
+
+    for (const metric of INSIGHT_METRICS) {
+      const { fromSleep, fromScore } = METRICS[metric];
+
+      const add = (date: string, value: number | undefined) => {
+        const night = nights.get(date) || {};
+        if (!isNumber(value) || night[metric] !== undefined) return;
+        night[metric] = value;
+        nights.set(date, night);
+      };
+
+      if (fromSleep) {
+        for (const [date, sleep] of sleepByDate) add(date, fromSleep(sleep));
+      }
+      if (fromScore) {
+        for (const score of scores) add(score.date, fromScore(score));
+      }
+    }
+
+    return nights;
+  }
+
+  /**
+   * Effects of each exposure on the following night, for session days in
+   * `from`..`to` (inclusive). Nights after days without any session are the
+   * comparison group. Effects with fewer than MIN_SAMPLES nights on either
+   * side are left out.
+   */
+  static compute(
+    sessionDays: Map<string, Set<InsightExposure>>,
+    nights: NightlyMetrics,
+    range: { from: string; to: string },
+  ): SessionEffect[] {
+    const exposures: InsightExposure[] = [...PRODUCT_TYPES, "any_session"];
+    const effects: SessionEffect[] = [];
+
+    for (const metric of INSIGHT_METRICS) {
+      const withSession = new Map<InsightExposure, number[]>();
+      const withoutSession: number[] = [];
+
+      for (
+        let date = range.from;
+        date <= range.to;
+        date = SessionStatsUtils.addDays(date, 1)
+      ) {
+        const value = nights.get(SessionStatsUtils.addDays(date, 1))?.[metric];
+        if (value === undefined) continue;
+
+        const dayExposures = sessionDays.get(date);
+        if (!dayExposures) {
+          withoutSession.push(value);
+          continue;
+        }
+        for (const exposure of dayExposures) {
+          withSession.set(exposure, [
+            ...(withSession.get(exposure) || []),
+            value,
+          ]);
+        }
+      }
+
+      for (const exposure of exposures) {
+        const effect = this.effect(
+          exposure,
+          metric,
+          withSession.get(exposure) || [],
+          withoutSession,
+        );
+        if (effect) effects.push(effect);
+      }
+    }
+
+    const rank: Record<InsightConfidence, number> = {
+      high: 2,
+      medium: 1,
+      low: 0,
+    };
+
+    return effects.sort(
+      (a, b) =>
+        rank[b.confidence] - rank[a.confidence] ||
+        this.strength(b) - this.strength(a),
+    );
+  }
+
+  /**
+   * Compare two groups of nights (Welch's t, normal 95% interval)
+   * Returns null when either group is too small
+   */
+  static effect(
+    exposure: InsightExposure,
+    metric: InsightMetric,
+    withSession: number[],
+    withoutSession: number[],
+  ): SessionEffect | null {
+    if (
+      withSession.length < SESSION_INSIGHTS.MIN_SAMPLES ||
+      withoutSession.length < SESSION_INSIGHTS.MIN_SAMPLES
+    ) {
+      return null;
+    }
+
+    const difference = mean(withSession) - mean(withoutSession);
+    const standardError = Math.sqrt(
+      variance(withSession) / withSession.length +
+        variance(withoutSession) / withoutSession.length,
+    );
+    const t =
+      standardError > 0
+        ? Math.abs(difference) / standardError
+        : difference === 0
+          ? 0
+          : Infinity;
+    const nights = Math.min(withSession.length, withoutSession.length);
+
+    const { HIGH_CONFIDENCE, MEDIUM_CONFIDENCE } = SESSION_INSIGHTS;
+    const confidence: InsightConfidence =
+      nights >= HIGH_CONFIDENCE.MIN_SAMPLES && t >= HIGH_CONFIDENCE.MIN_T
+        ? "high"
+        : nights >= MEDIUM_CONFIDENCE.MIN_SAMPLES &&
+            t >= MEDIUM_CONFIDENCE.MIN_T
+          ? "medium"
+          : "low";
+
+    const effect: Omit<SessionEffect, "summary"> = {
+      exposure,
+      metric,
+      unit: METRICS[metric].unit,
+      withSession: {
+        mean: round(mean(withSession)),
+        nights: withSession.length,
+      },
+      withoutSession: {
+        mean: round(mean(withoutSession)),
+        nights: withoutSession.length,
+      },
+      difference: round(difference),
+      confidenceInterval: [
+        round(difference - Z_95 * standardError),
+        round(difference + Z_95 * standardError),
+      ],
+      confidence,
+      improving: difference > 0 === METRICS[metric].higherIsBetter,
+    };
+
+    return { ...effect, summary: this.describe(effect) };
+  }
+
+  /**
+   * e.g. "On sauna days your deep sleep averages +14 min the following
+   * night (12 nights vs. 20 without a session, medium confidence)"
+   */
+  static describe(effect: Omit<SessionEffect, "summary">): string {
+    const { label, unit } = METRICS[effect.metric];
+    const rounded = Math.round(effect.difference);
+    const amount = `${rounded > 0 ? "+" : ""}${rounded}${unit === "%" ? "" : " "}${unit}`;
+
+    return (
+      `On ${EXPOSURE_LABELS[effect.exposure]} your ${label} averages ` +
+      `${amount} the following night (${effect.withSession.nights} nights ` +
+      `vs. ${effect.withoutSession.nights} without a session, ` +
+      `${effect.confidence} confidence)`
+    );
+  }
+
+  // Difference relative to the comparison group's mean
+  private static strength(effect: SessionEffect): number {
+    return effect.withoutSession.mean
+      ? Math.abs(effect.difference / effect.withoutSession.mean)
+      : 0;
+  }
+}
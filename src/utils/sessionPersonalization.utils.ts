@@ -0,0 +1,348 @@
+/**
+ * Session Personalization Utilities
+ * Summarizes how the user's recent sessions went and where their recovery
+ * is heading, so generated sessions adapt instead of repeating themselves
+ */
+
+import { ISession, ISessionGenerationInputs } from "../models/Session.model";
+import { ISessionRun } from "../models/SessionRun.model";
+import { IRecoveryScore } from "../models/RecoveryScore.model";
+import {
+  ProductType,
+  RecoveryTrend,
+  SESSION_PERSONALIZATION,
+} from "../constants";
+
+export interface RecentSessionSummary {
+  sessionId: string;
+  sessionName: string;
+  date: Date; // When it was completed or abandoned
+  outcome: "completed" | "abandoned";
+  productType?: ProductType;
+  plannedMinutes: number;
+  actualMinutes: number | null; // null when no durations were reported
+  skipped: string[]; // Activities skipped
+  shortened: string[]; // Activities stopped well before the planned time
+  rating?: number; // 1-5
+  comment?: string;
+}
+
+export interface RecoverySummary {
+  latest: { date: string; score: number } | null;
+  average: number | null; // Over the RECOVERY_DAYS window
+  trend: RecoveryTrend | null; // Last few days vs. the rest of the window
+}
+
+export interface SessionPersonalizationContext {
+  product: ProductType | null;
+  recentSessions: RecentSessionSummary[]; // Newest first
+  oftenSkipped: string[];
+  averageRating: number | null;
+  recovery: RecoverySummary;
+  summary: string; // Passed to the AI, empty when there's nothing to say
+}
+
+type RunSource = Pick<
+  ISessionRun,
+  "sessionId" | "status" | "startedAt" | "endedAt" | "steps" | "rating"
+>;
+type SessionSource = Pick<
+  ISession,
+  | "sessionId"
+  | "SessionName"
+  | "productType"
+  | "Steps"
+  | "completedAt"
+  | "updatedAt"
+  | "completionFeedback"
+>;
+type ScoreSource = Pick<IRecoveryScore, "date" | "score">;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+export class SessionPersonalizationUtils {
+  /**
+   * A completed or abandoned run. The session (if it still exists) gives
+   * the name and product.
+   */
+  static fromRun(
+    run: RunSource,
+    session?: Pick<ISession, "SessionName" | "productType">,
+  ): RecentSessionSummary {
+    return this.summarize({
+      sessionId: run.sessionId,
+      sessionName: session?.SessionName || "Untitled session",
+      date: run.endedAt || run.startedAt,
+      outcome: run.status === "abandoned" ? "abandoned" : "completed",
+      productType: session?.productType,
+      steps: run.steps.map((step) => ({
+        activity: step.activity,
+        plannedMinutes: step.plannedDurationMinutes,
+        skipped: step.status === "skipped",
+        reached: step.status !== "pending",
+        actualDurationSeconds: step.actualDurationSeconds,
+      })),
+      rating: run.rating?.score,
+      comment: run.rating?.comment,
+    });
+  }
+
+  /**
+   * A session marked complete without a run, with the feedback sent on
+   * completion (if any)
+   */
+  static fromSession(session: SessionSource): RecentSessionSummary {
+    const feedback = new Map(
+      (session.completionFeedback?.steps || []).map((step) => [
+        step.stepNumber,
+        step,
+      ]),
+    );
+
+    return this.summarize({
+      sessionId: session.sessionId,
+      sessionName: session.SessionName,
+      date: session.completedAt || session.updatedAt,
+      outcome: "completed",
+      productType: session.productType,
+      steps: session.Steps.map((step) => ({
+        activity: step.Activity,
+        plannedMinutes: step.DurationMinutes,
+        skipped: feedback.get(step.StepNumber)?.skipped || false,
+        reached: true,
+        actualDurationSeconds: feedback.get(step.StepNumber)
+          ?.actualDurationSeconds,
+      })),
+      rating: session.completionFeedback?.rating,
+      comment: session.completionFeedback?.comment,
+    });
+  }
+
+  /**
+   * Latest score, window average and direction of the recovery score
+   */
+  static recovery(scores: ScoreSource[]): RecoverySummary {
+    const sorted = [...scores].sort((a, b) => a.date.localeCompare(b.date));
+    const latest = sorted[sorted.length - 1];
+
+    const recent = sorted.slice(-SESSION_PERSONALIZATION.RECENT_RECOVERY_DAYS);
+    const before = sorted.slice(
+      0,
+      -SESSION_PERSONALIZATION.RECENT_RECOVERY_DAYS,
+    );
+    const recentAverage = average(recent.map((score) => score.score));
+    const beforeAverage = average(before.map((score) => score.score));
+
+    let trend: RecoveryTrend | null = null;
+    if (recentAverage !== null && beforeAverage !== null) {
+      const change = recentAverage - beforeAverage;
+      trend =
+        Math.abs(change) < SESSION_PERSONALIZATION.RECOVERY_TREND_POINTS
+          ? "flat"
+          : change > 0
+            ? "up"
+            : "down";
+    }
+
+    const windowAverage = average(sorted.map((score) => score.score));
+
+    return {
+      latest: latest ? { date: latest.date, score: latest.score } : null,
+      average: windowAverage === null ? null : Math.round(windowAverage),
+      trend,
+    };
+  }
+
+  /**
+   * Combine recent sessions (newest first) and recovery into the context
+   */
+  static build(
+    recentSessions: RecentSessionSummary[],
+    recovery: RecoverySummary,
+    product: ProductType | null,
+  ): SessionPersonalizationContext {
+    const skipCounts = new Map<string, number>();
+    for (const session of recentSessions) {
+      for (const activity of new Set(session.skipped)) {
+        skipCounts.set(activity, (skipCounts.get(activity) || 0) + 1);
+      }
+    }
+
+    const ratings = recentSessions
+      .filter((session) => session.rating !== undefined)
+      .map((session) => session.rating!);
+    const averageRating = average(ratings);
+
+    const context: Omit<SessionPersonalizationContext, "summary"> = {
+      product,
+      recentSessions,
+      oftenSkipped: [...skipCounts.entries()]
+        .filter(
+          ([, count]) =>
+            count >= SESSION_PERSONALIZATION.OFTEN_SKIPPED_SESSIONS,
+        )
+        .map(([activity]) => activity),
+      averageRating: averageRating === null ? null : round(averageRating),
+      recovery,
+    };
+
+    return { ...context, summary: this.describe(context) };
+  }
+
+  /**
+   * What a generated session was based on, for the saved session
+   */
+  static generationInputs(
+    context: SessionPersonalizationContext,
+    options: { tags: string[]; goals?: string[]; mood?: string },
+  ): ISessionGenerationInputs {
+    return {
+      tags: options.tags,
+      goals: options.goals || [],
+      mood: options.mood || undefined,
+      productType: context.product || undefined,
+      recentSessionIds: context.recentSessions.map(
+        (session) => session.sessionId,
+      ),
+      recoveryScore: context.recovery.latest?.score,
+      recoveryTrend: context.recovery.trend || undefined,
+      personalization: context.summary || undefined,
+    };
+  }
+
+  /**
+   * Plain-text summary for the session prompt
+   */
+  static describe(
+    context: Omit<SessionPersonalizationContext, "summary">,
+  ): string {
+    const { recentSessions, recovery } = context;
+    if (recentSessions.length === 0 && !recovery.latest) return "";
+
+    const lines = ["PERSONALIZATION (adapt to how recent sessions went):"];
+
+    if (context.product) lines.push(`• Product: ${context.product}`);
+
+    if (recovery.latest) {
+      const trend = recovery.trend ? `, trending ${recovery.trend}` : "";
+      lines.push(
+        `• Recovery score: ${recovery.latest.score}/100 on ${recovery.latest.date}${trend} (average ${recovery.average})`,
+      );
+    }
+
+    if (recentSessions.length > 0) {
+      lines.push("• Recent sessions (newest first):");
+      for (const session of recentSessions) {
+        lines.push(`  - ${this.describeSession(session)}`);
+      }
+    }
+
+    if (context.oftenSkipped.length > 0) {
+      lines.push(`• Often skipped: ${context.oftenSkipped.join(", ")}`);
+    }
+    if (context.averageRating !== null) {
+      lines.push(`• Average rating: ${context.averageRating}/5`);
+    }
+
+    lines.push(
+      "Vary the routine from recent sessions, leave out or replace steps the user keeps skipping or cutting short, build on what they rated highly, and keep it gentle when recovery is low or trending down.",
+    );
+
+    return lines.join("\n");
+  }
+
+  private static describeSession(session: RecentSessionSummary): string {
+    const details = [
+      session.productType,
+      session.actualMinutes !== null
+        ? `${session.actualMinutes} of ${session.plannedMinutes} min`
+        : `${session.plannedMinutes} min`,
+      session.outcome === "abandoned" ? "abandoned" : undefined,
+      session.rating !== undefined ? `rated ${session.rating}/5` : undefined,
+    ].filter(Boolean);
+
+    const notes = [
+      session.skipped.length > 0
+        ? `skipped ${session.skipped.join(", ")}`
+        : undefined,
+      session.shortened.length > 0
+        ? `cut short ${session.shortened.join(", ")}`
+        : undefined,
+      session.comment ? `"${session.comment}"` : undefined,
+    ].filter(Boolean);
+
+    const date = new Date(session.date).toISOString().slice(0, 10);
+    return (
+      `${date} "${session.sessionName}" (${details.join(", ")})` +
+      (notes.length > 0 ? `: ${notes.join("; ")}` : "")
+    );
+  }
+
+  private static summarize(input: {
+    sessionId: string;
+    sessionName: string;
+    date: Date;
+    outcome: RecentSessionSummary["outcome"];
+    productType?: ProductType;
+    steps: {
+      activity: string;
+      plannedMinutes: number;
+      skipped: boolean;
+      reached: boolean; // false for steps an abandoned run never got to
+      actualDurationSeconds?: number;
+    }[];
+    rating?: number;
+    comment?: string;
+  }): RecentSessionSummary {
+    const reported = input.steps.some(
+      (step) => step.actualDurationSeconds !== undefined,
+    );
+
+    return {
+      sessionId: input.sessionId,
+      sessionName: input.sessionName,
+      date: input.date,
+      outcome: input.outcome,
+      productType: input.productType,
+      plannedMinutes: round(
+        input.steps.reduce((sum, step) => sum + step.plannedMinutes, 0),
+      ),
+      // Unreported steps that were done count with their planned time
+      actualMinutes: reported
+        ? round(
+            input.steps.reduce(
+              (sum, step) =>
+                sum +
+                (step.skipped || !step.reached
+                  ? 0
+                  : step.actualDurationSeconds !== undefined
+                    ? step.actualDurationSeconds / 60
+                    : step.plannedMinutes),
+              0,
+            ),
+          )
+        : null,
+      skipped: input.steps
+        .filter((step) => step.skipped)
+        .map((step) => step.activity),
+      shortened: input.steps
+        .filter(
+          (step) =>
+            !step.skipped &&
+            step.actualDurationSeconds !== undefined &&
+            step.actualDurationSeconds <
+              step.plannedMinutes *
+                60 *
+                SESSION_PERSONALIZATION.SHORTENED_RATIO,
+        )
+        .map((step) => step.activity),
+      rating: input.rating,
+      comment: input.comment,
+    };
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Session Safety Utilities
+ * Product-aware exposure guardrails applied to session steps
+ */
+
+import {
+  ISessionSafetyModification,
+  ISessionStep,
+} from "../models/Session.model";
+import {
+  PRODUCT_SAFETY_LIMITS,
+  ProductType,
+  SESSION_SAFETY_RULES,
+} from "../constants";
+
+export type ExposureKind = "cold" | "heat" | "rest" | "other";
+
+export interface SafetyLimits {
+  MIN_TEMPERATURE_F: number;
+  MAX_TEMPERATURE_F: number;
+  MAX_STEP_MINUTES: number;
+  MAX_SESSION_EXPOSURE_MINUTES: number;
+}
+
+export interface SafetyContext {
+  age?: number;
+}
+
+export interface SafetyResult {
+  steps: ISessionStep[];
+  totalDurationMinutes: number;
+  modifications: ISessionSafetyModification[];
+  violations: string[]; // Problems that can't be fixed by clamping
+}
+
+export const SAFETY_RULES = {
+  STEP_DURATION_CLAMPED: "STEP_DURATION_CLAMPED",
+  EXPOSURE_LIMIT_CLAMPED: "EXPOSURE_LIMIT_CLAMPED",
+  STEP_REMOVED: "STEP_REMOVED",
+  REST_INSERTED: "REST_INSERTED",
+  REST_EXTENDED: "REST_EXTENDED",
+} as const;
+
+// Checked in order - "Hot Tub Relaxation" is heat, not rest
+const COLD_PATTERN = /\bcold\b|plunge|\bice\b/i;
+const SAUNA_PATTERN = /sauna|steam/i;
+const HOT_TUB_PATTERN = /hot tub|hot-tub|\bspa\b|jacuzzi|\bsoak|warm water/i;
+const REST_PATTERN =
+  /\brest\b|recover|relax|\bbreak\b|dry off|transition|cool down/i;
+
+// "50°F", "10 °C", "104 degrees F"
+const TEMPERATURE_PATTERN =
+  /(-?\d{1,3}(?:\.\d+)?)\s*(?:°|degrees?)\s*([FC])\b/gi;
+
+// Durations are kept in half minutes so timers stay readable
+const DURATION_STEP_MINUTES = 0.5;
+
+/**
+ * Thrown when a session breaks a limit that can't be fixed automatically
+ */
+export class SessionSafetyError extends Error {
+  readonly violations: string[];
+
+  constructor(violations: string[]) {
+    super(`Unsafe session: ${violations.join("; ")}`);
+    this.name = "SessionSafetyError";
+    this.violations = violations;
+  }
+}
+
+export class SessionSafetyUtils {
+  /**
+   * Work out what kind of exposure a step is and which product it uses
+   */
+  static classifyStep(step: ISessionStep): {
+    kind: ExposureKind;
+    product?: ProductType;
+  } {
+    const activity = step.Activity || "";
+
+    if (COLD_PATTERN.test(activity)) {
+      return { kind: "cold", product: "cold-plunge" };
+    }
+    if (SAUNA_PATTERN.test(activity)) {
+      return { kind: "heat", product: "sauna" };
+    }
+    if (HOT_TUB_PATTERN.test(activity)) {
+      return { kind: "heat", product: "hot-tub" };
+    }
+    if (REST_PATTERN.test(activity)) {
+      return { kind: "rest" };
+    }
+    return { kind: "other" };
+  }
+
+  /**
+   * Temperatures (°F) mentioned by a step, explicit or in its text
+   */
+  static extractTemperaturesF(step: ISessionStep): number[] {
+    const temperatures: number[] = [];
+
+    if (typeof step.TemperatureF === "number") {
+      temperatures.push(step.TemperatureF);
+    }
+
+    const text = [step.Activity, step.Instructions, step.Message]
+      .filter(Boolean)
+      .join(" ");
+
+    for (const match of text.matchAll(TEMPERATURE_PATTERN)) {
+      const value = parseFloat(match[1]);
+      const unit = match[2].toUpperCase();
+      temperatures.push(unit === "C" ? value * 1.8 + 32 : value);
+    }
+
+    return temperatures;
+  }
+
+  /**
+   * Product limits, tightened for the user's age when known
+   */
+  static getLimits(product: ProductType, age?: number): SafetyLimits {
+    const base = PRODUCT_SAFETY_LIMITS[product];
+    const adjustment = this.getAgeAdjustment(age);
+
+    if (!adjustment) {
+      return { ...base };
+    }
+
+    const range = base.MAX_TEMPERATURE_F - base.MIN_TEMPERATURE_F;
+    const narrowBy = range * (1 - adjustment.TEMPERATURE_RANGE_FACTOR);
+
+    return {
+      // Cold gets warmer (raise the minimum), heat gets cooler (lower the maximum)
+      MIN_TEMPERATURE_F:
+        product === "cold-plunge"
+          ? base.MIN_TEMPERATURE_F + narrowBy
+          : base.MIN_TEMPERATURE_F,
+      MAX_TEMPERATURE_F:
+        product === "cold-plunge"
+          ? base.MAX_TEMPERATURE_F
+          : base.MAX_TEMPERATURE_F - narrowBy,
+      MAX_STEP_MINUTES: this.roundDown(
+        base.MAX_STEP_MINUTES * adjustment.DURATION_FACTOR,
+      ),
+      MAX_SESSION_EXPOSURE_MINUTES: this.roundDown(
+        base.MAX_SESSION_EXPOSURE_MINUTES * adjustment.DURATION_FACTOR,
+      ),
+    };
+  }
+
+  /**
+   * Age group adjustment that applies to the user, if any
+   */
+  static getAgeAdjustment(age?: number) {
+    if (age === undefined) return undefined;
+
+    return SESSION_SAFETY_RULES.AGE_ADJUSTMENTS.find((adj) =>
+      "MIN_AGE" in adj ? age >= adj.MIN_AGE : age <= adj.MAX_AGE,
+    );
+  }
+
+  /**
+   * Age in whole years on the given date
+   */
+  static calculateAge(dateOfBirth: Date, now: Date = new Date()): number {
+    let age = now.getFullYear() - dateOfBirth.getFullYear();
+    const hadBirthday =
+      now.getMonth() > dateOfBirth.getMonth() ||
+      (now.getMonth() === dateOfBirth.getMonth() &&
+        now.getDate() >= dateOfBirth.getDate());
+    if (!hadBirthday) age--;
+    return age;
+  }
+
+  /**
+   * Apply the guardrails to a list of steps.
+   * Durations are clamped, rest is inserted between cold and heat, and
+   * out-of-range temperatures are reported as violations.
+   * Steps are renumbered and the total recalculated.
+   */
+  static apply(steps: ISessionStep[], context: SafetyContext): SafetyResult {
+    const modifications: ISessionSafetyModification[] = [];
+    const violations: string[] = [];
+    const exposureUsed: Partial<Record<ProductType, number>> = {};
+    const clamped: ISessionStep[] = [];
+
+    for (const original of steps) {
+      const step = { ...original };
+      const { product } = this.classifyStep(step);
+
+      if (!product) {
+        clamped.push(step);
+        continue;
+      }
+
+      const limits = this.getLimits(product, context.age);
+      const ageNote = this.getAgeAdjustment(context.age)
+        ? " (age-adjusted)"
+        : "";
+
+      for (const temperature of this.extractTemperaturesF(step)) {
+        if (
+          temperature < limits.MIN_TEMPERATURE_F ||
+          temperature > limits.MAX_TEMPERATURE_F
+        ) {
+          violations.push(
+            `Step ${step.StepNumber} (${step.Activity}): ${Math.round(temperature)}°F is outside the safe ${product} range of ${Math.round(limits.MIN_TEMPERATURE_F)}-${Math.round(limits.MAX_TEMPERATURE_F)}°F${ageNote}`,
+          );
+        }
+      }
+
+      if (step.DurationMinutes > limits.MAX_STEP_MINUTES) {
+        modifications.push({
+          rule: SAFETY_RULES.STEP_DURATION_CLAMPED,
+          stepNumber: original.StepNumber,
+          message: `${step.Activity} shortened to the ${product} limit of ${limits.MAX_STEP_MINUTES} minutes${ageNote}`,
+          before: step.DurationMinutes,
+          after: limits.MAX_STEP_MINUTES,
+        });
+        step.DurationMinutes = limits.MAX_STEP_MINUTES;
+      }
+
+      // Cap the combined exposure to one product across the session
+      const used = exposureUsed[product] || 0;
+      const remaining = this.roundDown(
+        limits.MAX_SESSION_EXPOSURE_MINUTES - used,
+      );
+
+      if (remaining <= 0) {
+        modifications.push({
+          rule: SAFETY_RULES.STEP_REMOVED,
+          stepNumber: original.StepNumber,
+          message: `${step.Activity} removed - session already reaches the ${product} exposure limit of ${limits.MAX_SESSION_EXPOSURE_MINUTES} minutes${ageNote}`,
+          before: step.DurationMinutes,
+          after: 0,
+        });
+        continue;
+      }
+
+      if (step.DurationMinutes > remaining) {
+        modifications.push({
+          rule: SAFETY_RULES.EXPOSURE_LIMIT_CLAMPED,
+          stepNumber: original.StepNumber,
+          message: `${step.Activity} shortened to stay within the ${product} exposure limit of ${limits.MAX_SESSION_EXPOSURE_MINUTES} minutes per session${ageNote}`,
+          before: step.DurationMinutes,
+          after: remaining,
+        });
+        step.DurationMinutes = remaining;
+      }
+
+      exposureUsed[product] = used + step.DurationMinutes;
+      clamped.push(step);
+    }
+
+    const withRest = this.enforceContrastRest(clamped, modifications);
+
+    const renumbered = withRest.map((step, index) => ({
+      ...step,
+      StepNumber: index + 1,
+    }));
+
+    return {
+      steps: renumbered,
+      totalDurationMinutes: renumbered.reduce(
+        (sum, step) => sum + step.DurationMinutes,
+        0,
+      ),
+      modifications,
+      violations,
+    };
+  }
+
+  /**
+   * Make sure there's enough rest when switching between cold and heat
+   */
+  private static enforceContrastRest(
+    steps: ISessionStep[],
+    modifications: ISessionSafetyModification[],
+  ): ISessionStep[] {
+    const minRest = SESSION_SAFETY_RULES.MIN_REST_BETWEEN_CONTRAST_MINUTES;
+    const result: ISessionStep[] = [];
+    let lastExposure: ExposureKind | null = null;
+    let restSinceExposure = 0;
+
+    for (const step of steps) {
+      const { kind } = this.classifyStep(step);
+
+      if (kind === "rest") {
+        restSinceExposure += step.DurationMinutes;
+        result.push(step);
+        continue;
+      }
+
+      if (kind !== "cold" && kind !== "heat") {
+        result.push(step);
+        continue;
+      }
+
+      const deficit = minRest - restSinceExposure;
+
+      if (lastExposure && lastExposure !== kind && deficit > 0) {
+        const previous = result[result.length - 1];
+
+        if (previous && this.classifyStep(previous).kind === "rest") {
+          modifications.push({
+            rule: SAFETY_RULES.REST_EXTENDED,
+            stepNumber: previous.StepNumber,
+            message: `Rest before ${step.Activity} extended to the ${minRest} minute minimum between cold and heat`,
+            before: previous.DurationMinutes,
+            after: previous.DurationMinutes + deficit,
+          });
+          result[result.length - 1] = {
+            ...previous,
+            DurationMinutes: previous.DurationMinutes + deficit,
+          };
+        } else {
+          modifications.push({
+            rule: SAFETY_RULES.REST_INSERTED,
+            stepNumber: step.StepNumber,
+            message: `${minRest} minute rest added before ${step.Activity} to separate cold and heat`,
+            after: deficit,
+          });
+          result.push({
+            StepNumber: step.StepNumber,
+            Activity: "Rest",
+            DurationMinutes: deficit,
+            Instructions:
+              "Step out, breathe slowly and let your body adjust before the next exposure.",
+            Message: "Take a short break before switching temperatures.",
+          });
+        }
+      }
+
+      lastExposure = kind;
+      restSinceExposure = 0;
+      result.push(step);
+    }
+
+    return result;
+  }
+
+  private static roundDown(minutes: number): number {
+    return Math.floor(minutes / DURATION_STEP_MINUTES) * DURATION_STEP_MINUTES;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Session Stats Utilities
+ * Streaks, minutes and breakdowns computed from completed sessions,
+ * with day boundaries in the user's timezone
+ */
+
+import { ISession } from "../models/Session.model";
+import { ISessionRun } from "../models/SessionRun.model";
+import { ProductType, SESSION_STATS } from "../constants";
+import { SessionSafetyUtils } from "./sessionSafety.utils";
+
+// One completed session, however it was recorded
+export interface CompletionRecord {
+  completedAt: Date;
+  steps: { activity: string; minutes: number }[];
+}
+
+export interface SessionActivityStats {
+  timeZone: string;
+  streaks: {
+    current: number; // Days in a row up to today (or yesterday if not done yet today)
+    longest: number;
+    lastCompletedDate: string | null; // YYYY-MM-DD in the user's timezone
+  };
+  minutes: {
+    total: number;
+    thisWeek: number;
+    thisMonth: number;
+    byWeek: { weekStart: string; minutes: number }[]; // Weeks start on Monday
+    byMonth: { month: string; minutes: number }[]; // YYYY-MM
+  };
+  byProduct: Record<
+    ProductType | "other",
+    { sessions: number; minutes: number }
+  >;
+  byActivity: { activity: string; count: number; minutes: number }[];
+  rating: {
+    average: number | null;
+    count: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SessionStatsUtils {
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Calendar date (YYYY-MM-DD) of an instant in a timezone
+   */
+  static toLocalDate(date: Date, timeZone: string): string {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find((p) => p.type === type)!.value;
+    return `${get("year")}-${get("month")}-${get("day")}`;
+  }
+
+  static addDays(localDate: string, days: number): string {
+    const [year, month, day] = localDate.split("-").map(Number);
+    const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+    return shifted.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Monday of the week containing a local date
+   */
+  static startOfWeek(localDate: string): string {
+    const [year, month, day] = localDate.split("-").map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return this.addDays(localDate, -((weekday + 6) % 7));
+  }
+
+  /**
+   * A completed run as a completion record.
+   * Reported durations are used when present, skipped steps count as zero
+   * and anything else falls back to the planned duration.
+   */
+  static fromRun(
+    run: Pick<ISessionRun, "startedAt" | "endedAt" | "steps">,
+  ): CompletionRecord {
+    return {
+      completedAt: run.endedAt || run.startedAt,
+      steps: run.steps.map((step) => ({
+        activity: step.activity,
+        minutes:
+          step.actualDurationSeconds !== undefined
+            ? step.actualDurationSeconds / 60
+            : step.status === "skipped"
+              ? 0
+              : step.plannedDurationMinutes,
+      })),
+    };
+  }
+
+  /**
+   * A session marked complete without a recorded run. Feedback sent on
+   * completion (skipped steps, timer durations) is used when present,
+   * otherwise the planned durations.
+   */
+  static fromSession(
+    session: Pick<
+      ISession,
+      "completedAt" | "updatedAt" | "Steps" | "completionFeedback"
+    >,
+  ): CompletionRecord {
+    const feedback = new Map(
+      (session.completionFeedback?.steps || []).map((step) => [
+        step.stepNumber,
+        step,
+      ]),
+    );
+
+    return {
+      completedAt: session.completedAt || session.updatedAt,
+      steps: session.Steps.map((step) => {
+        const reported = feedback.get(step.StepNumber);
+        return {
+          activity: step.Activity,
+          minutes: reported?.skipped
+            ? 0
+            : reported?.actualDurationSeconds !== undefined
+              ? reported.actualDurationSeconds / 60
+              : step.DurationMinutes,
+        };
+      }),
+    };
+  }
+
+  static compute(
+    completions: CompletionRecord[],
+    ratings: number[],
+    options: { timeZone: string; now?: Date },
+  ): SessionActivityStats {
+    const { timeZone } = options;
+    const today = this.toLocalDate(options.now || new Date(), timeZone);
+
+    const days = new Set<string>();
+    const minutesByWeek = new Map<string, number>();
+    const minutesByMonth = new Map<string, number>();
+    const byProduct: SessionActivityStats["byProduct"] = {
+      "cold-plunge": { sessions: 0, minutes: 0 },
+      "hot-tub": { sessions: 0, minutes: 0 },
+      sauna: { sessions: 0, minutes: 0 },
+      other: { sessions: 0, minutes: 0 },
+    };
+    const byActivity = new Map<
+      string,
+      { activity: string; count: number; minutes: number }
+    >();
+    let totalMinutes = 0;
+
+    for (const completion of completions) {
+      const localDate = this.toLocalDate(completion.completedAt, timeZone);
+      const week = this.startOfWeek(localDate);
+      const month = localDate.slice(0, 7);
+      const productsUsed = new Set<keyof typeof byProduct>();
+
+      days.add(localDate);
+
+      for (const step of completion.steps) {
+        const product = this.productOf(step.activity);
+        productsUsed.add(product);
+        byProduct[product].minutes += step.minutes;
+
+        const key = step.activity.trim().toLowerCase();
+        const activity = byActivity.get(key) || {
+          activity: step.activity.trim(),
+          count: 0,
+          minutes: 0,
+        };
+        activity.count += 1;
+        activity.minutes += step.minutes;
+        byActivity.set(key, activity);
+
+        totalMinutes += step.minutes;
+        minutesByWeek.set(week, (minutesByWeek.get(week) || 0) + step.minutes);
+        minutesByMonth.set(
+          month,
+          (minutesByMonth.get(month) || 0) + step.minutes,
+        );
+      }
+
+      for (const product of productsUsed) {
+        byProduct[product].sessions += 1;
+      }
+    }
+
+    for (const product of Object.values(byProduct)) {
+      product.minutes = this.round(product.minutes);
+    }
+
+    const currentWeek = this.startOfWeek(today);
+    const byWeek = Array.from({ length: SESSION_STATS.WEEKS }, (_, i) => {
+      const weekStart = this.addDays(
+        currentWeek,
+        -7 * (SESSION_STATS.WEEKS - 1 - i),
+      );
+      return {
+        weekStart,
+        minutes: this.round(minutesByWeek.get(weekStart) || 0),
+      };
+    });
+
+    const byMonth = this.recentMonths(today, SESSION_STATS.MONTHS).map(
+      (month) => ({
+        month,
+        minutes: this.round(minutesByMonth.get(month) || 0),
+      }),
+    );
+
+    const sortedDays = [...days].sort();
+
+    return {
+      timeZone,
+      streaks: {
+        current: this.currentStreak(days, today),
+        longest: this.longestStreak(sortedDays),
+        lastCompletedDate: sortedDays[sortedDays.length - 1] || null,
+      },
+      minutes: {
+        total: this.round(totalMinutes),
+        thisWeek: byWeek[byWeek.length - 1].minutes,
+        thisMonth: byMonth[byMonth.length - 1].minutes,
+        byWeek,
+        byMonth,
+      },
+      byProduct,
+      byActivity: [...byActivity.values()]
+        .sort((a, b) => b.minutes - a.minutes)
+        .slice(0, SESSION_STATS.TOP_ACTIVITIES)
+        .map((a) => ({ ...a, minutes: this.round(a.minutes) })),
+      rating: {
+        average:
+          ratings.length > 0
+            ? this.round(
+                ratings.reduce((sum, r) => sum + r, 0) / ratings.length,
+              )
+            : null,
+        count: ratings.length,
+      },
+    };
+  }
+
+  /**
+   * A streak is still alive until the end of the day after the last session
+   */
+  private static currentStreak(days: Set<string>, today: string): number {
+    let day = days.has(today) ? today : this.addDays(today, -1);
+    let streak = 0;
+
+    while (days.has(day)) {
+      streak++;
+      day = this.addDays(day, -1);
+    }
+
+    return streak;
+  }
+
+  private static longestStreak(sortedDays: string[]): number {
+    let longest = 0;
+    let current = 0;
+    let previous: string | null = null;
+
+    for (const day of sortedDays) {
+      current = previous && this.addDays(previous, 1) === day ? current + 1 : 1;
+      longest = Math.max(longest, current);
+      previous = day;
+    }
+
+    return longest;
+  }
+
+  private static recentMonths(today: string, count: number): string[] {
+    const [year, month] = today.split("-").map(Number);
+
+    return Array.from({ length: count }, (_, i) => {
+      const date = new Date(Date.UTC(year, month - 1 - (count - 1 - i), 1));
+      return date.toISOString().slice(0, 7);
+    });
+  }
+
+  /**
+   * Which product a step's activity uses ("other" for breathwork, rest, etc.)
+   */
+  static productOf(activity: string): ProductType | "other" {
+    const { product } = SessionSafetyUtils.classifyStep({
+      StepNumber: 0,
+      Activity: activity,
+      DurationMinutes: 0,
+      Instructions: "",
+    });
+    return product || "other";
+  }
+
+  private static round(minutes: number): number {
+    return Math.round(minutes * 10) / 10;
+  }
+}
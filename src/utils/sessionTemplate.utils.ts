@@ -0,0 +1,230 @@
+/**
+ * Session Template Utilities
+ * Picks a vetted routine for the same tags/goals/mood inputs the AI gets,
+ * and turns it into a session - deterministically, without any AI call
+ */
+
+import { createHash } from "crypto";
+import { ISessionTemplate } from "../models/SessionTemplate.model";
+import { ISessionStep } from "../models/Session.model";
+import { Session } from "../services/h2oasis-ai.service";
+import {
+  FOCUS_GOAL_KEYS,
+  FocusGoalKey,
+  ProductType,
+  SESSION_TEMPLATES,
+  SessionIntensity,
+} from "../constants";
+import { SessionSafetyUtils } from "./sessionSafety.utils";
+import { SessionValidationUtils } from "./sessionValidation.utils";
+
+// Template fields set by admins (durationMinutes is derived from the steps)
+export type SessionTemplateData = Pick<
+  ISessionTemplate,
+  | "templateId"
+  | "name"
+  | "description"
+  | "productTypes"
+  | "goals"
+  | "intensity"
+  | "steps"
+  | "tips"
+  | "startMessage"
+  | "completionMessage"
+>;
+
+export interface TemplateCriteria {
+  products: ProductType[];
+  goals: FocusGoalKey[];
+  intensity: SessionIntensity;
+}
+
+// Checked in order
+const GENTLE_MOOD_PATTERN =
+  /relax|calm|tired|sleep|stress|anxious|sore|wind down|unwind|gentle|low/i;
+const INTENSE_MOOD_PATTERN =
+  /energ|focus|motivat|alert|pumped|strong|intense|push/i;
+
+const normalize = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export class SessionTemplateUtils {
+  /**
+   * Products named by session tags, e.g. ["Sauna", "Hot Tub"]
+   */
+  static productsFromTags(tags: string[]): ProductType[] {
+    const products = tags
+      .map(
+        (tag) =>
+          SessionSafetyUtils.classifyStep({
+            StepNumber: 0,
+            Activity: tag,
+            DurationMinutes: 0,
+            Instructions: "",
+          }).product,
+      )
+      .filter((product): product is ProductType => !!product);
+
+    return [...new Set(products)];
+  }
+
+  /**
+   * Focus goal keys from goal keys or labels, e.g. "Stress Relief"
+   */
+  static goalsFrom(goals: string[]): FocusGoalKey[] {
+    const keys = goals
+      .map(normalize)
+      .map((goal) =>
+        FOCUS_GOAL_KEYS.find(
+          (key) => key !== "other" && (goal === key || goal.includes(key)),
+        ),
+      )
+      .filter((key): key is FocusGoalKey => !!key);
+
+    return [...new Set(keys)];
+  }
+
+  static intensityFor(mood?: string): SessionIntensity {
+    if (!mood) return "moderate";
+    if (GENTLE_MOOD_PATTERN.test(mood)) return "gentle";
+    if (INTENSE_MOOD_PATTERN.test(mood)) return "intense";
+    return "moderate";
+  }
+
+  static criteriaFrom(options: {
+    tags: string[];
+    goals?: string[];
+    mood?: string;
+  }): TemplateCriteria {
+    return {
+      products: this.productsFromTags(options.tags),
+      goals: this.goalsFrom(options.goals || []),
+      intensity: this.intensityFor(options.mood),
+    };
+  }
+
+  /**
+   * Best matching template. Templates must use one of the requested
+   * products; goal matches count most, then intensity, then covering
+   * every requested product. Ties are broken with a hash of `seed`, so the
+   * same inputs always give the same template.
+   * Returns null when no template uses a requested product.
+   */
+  static select<T extends SessionTemplateData>(
+    templates: T[],
+    criteria: TemplateCriteria,
+    seed: string,
+  ): T | null {
+    const candidates =
+      criteria.products.length > 0
+        ? templates.filter((template) =>
+            template.productTypes.some((product) =>
+              criteria.products.includes(product),
+            ),
+          )
+        : templates;
+
+    if (candidates.length === 0) return null;
+
+    const score = (template: T) =>
+      template.goals.filter((goal) => criteria.goals.includes(goal)).length *
+        4 +
+      (template.intensity === criteria.intensity ? 2 : 0) +
+      (criteria.products.every((product) =>
+        template.productTypes.includes(product),
+      )
+        ? 1
+        : 0);
+
+    const best = Math.max(...candidates.map(score));
+    const tied = candidates
+      .filter((template) => score(template) === best)
+      .sort((a, b) => a.templateId.localeCompare(b.templateId));
+
+    const hash = createHash("sha256").update(seed).digest();
+    return tied[hash.readUInt32BE(0) % tied.length];
+  }
+
+  /**
+   * Turn a template into a session. Exposure steps are shortened for a
+   * gentler mood or lengthened for a harder one than the template's own
+   * intensity (safety guardrails still apply afterwards).
+   */
+  static toSession(
+    template: SessionTemplateData,
+    options: {
+      sessionId: string;
+      intensity: SessionIntensity;
+      goal?: string; // Shown as RecommendedFor
+      createdAt?: Date;
+    },
+  ): Session {
+    const factor = this.durationFactor(template.intensity, options.intensity);
+
+    const steps = template.steps.map((step) => {
+      const exposure =
+        SessionSafetyUtils.classifyStep(step).product !== undefined;
+      const minutes = exposure
+        ? Math.max(1, Math.round(step.DurationMinutes * factor * 2) / 2)
+        : step.DurationMinutes;
+
+      return {
+        StepNumber: step.StepNumber,
+        Activity: step.Activity,
+        DurationMinutes: minutes,
+        Instructions: step.Instructions,
+        Message: step.Message || step.Instructions,
+        TimerStartMessage:
+          step.TimerStartMessage || `Starting ${step.Activity}`,
+        TimerEndMessage: step.TimerEndMessage || `${step.Activity} complete`,
+        ...(step.TemperatureF !== undefined && {
+          TemperatureF: step.TemperatureF,
+        }),
+      };
+    });
+
+    return {
+      SessionId: options.sessionId,
+      SessionName: template.name,
+      TotalDurationMinutes: SessionValidationUtils.sumStepDurations(steps),
+      RecommendedFor: options.goal || template.description,
+      Steps: steps,
+      StartMessage: template.startMessage,
+      CompletionMessage: template.completionMessage,
+      Tips: template.tips,
+      CreatedAt: (options.createdAt || new Date()).toISOString(),
+    };
+  }
+
+  /**
+   * Problems that keep steps from being used as a vetted template: schema
+   * issues, or anything the adult safety guardrails would change
+   */
+  static reviewSteps(steps: ISessionStep[]): string[] {
+    const issues = SessionValidationUtils.validateSteps(
+      steps,
+      SessionValidationUtils.sumStepDurations(steps),
+    );
+    if (issues.length > 0) return issues;
+
+    const result = SessionSafetyUtils.apply(steps, {});
+    return [
+      ...result.violations,
+      ...result.modifications.map((modification) => modification.message),
+    ];
+  }
+
+  private static durationFactor(
+    template: SessionIntensity,
+    requested: SessionIntensity,
+  ): number {
+    if (requested === template) return 1;
+    if (requested === "gentle") return SESSION_TEMPLATES.GENTLE_DURATION_FACTOR;
+    if (requested === "intense")
+      return SESSION_TEMPLATES.INTENSE_DURATION_FACTOR;
+    return 1;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Session Validation Utilities
+ * Schema checks for AI-generated and client-submitted sessions
+ */
+
+import { z } from "zod";
+import { SESSION_LIMITS } from "../constants";
+
+// Activities matched by keyword to apply exposure limits
+const COLD_ACTIVITY_PATTERN = /\bcold\b|plunge|\bice\b/i;
+const HEAT_ACTIVITY_PATTERN = /sauna|hot tub|steam|heat/i;
+
+// Durations are often fractional minutes - allow for float rounding
+const DURATION_TOLERANCE_MINUTES = 0.01;
+
+export const SessionStepSchema = z.object({
+  StepNumber: z.number().int().positive(),
+  Activity: z.string().trim().min(1, "Activity is required"),
+  DurationMinutes: z
+    .number()
+    .positive("DurationMinutes must be positive")
+    .max(SESSION_LIMITS.MAX_STEP_MINUTES),
+  Instructions: z.string().trim().min(1, "Instructions are required"),
+  Message: z.string().optional(),
+  TimerStartMessage: z.string().optional(),
+  TimerEndMessage: z.string().optional(),
+});
+
+const StepsSchema = z
+  .array(SessionStepSchema)
+  .min(SESSION_LIMITS.MIN_STEPS)
+  .max(SESSION_LIMITS.MAX_STEPS)
+  .superRefine((steps, ctx) => {
+    steps.forEach((step, index) => {
+      if (step.StepNumber !== index + 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "StepNumber"],
+          message: `Steps must be numbered 1..${steps.length} in order (expected ${index + 1}, got ${step.StepNumber})`,
+        });
+      }
+
+      if (
+        COLD_ACTIVITY_PATTERN.test(step.Activity) &&
+        step.DurationMinutes > SESSION_LIMITS.MAX_COLD_STEP_MINUTES
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "DurationMinutes"],
+          message: `Cold exposure steps must be at most ${SESSION_LIMITS.MAX_COLD_STEP_MINUTES} minutes`,
+        });
+      } else if (
+        HEAT_ACTIVITY_PATTERN.test(step.Activity) &&
+        step.DurationMinutes > SESSION_LIMITS.MAX_HEAT_STEP_MINUTES
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "DurationMinutes"],
+          message: `Heat exposure steps must be at most ${SESSION_LIMITS.MAX_HEAT_STEP_MINUTES} minutes`,
+        });
+      }
+    });
+  });
+
+export const SessionSchema = z
+  .object({
+    SessionId: z.string().optional(),
+    SessionName: z.string().trim().min(1, "SessionName is required"),
+    TotalDurationMinutes: z
+      .number()
+      .positive("TotalDurationMinutes must be positive")
+      .max(SESSION_LIMITS.MAX_TOTAL_MINUTES),
+    RecommendedFor: z.string().trim().min(1, "RecommendedFor is required"),
+    Steps: StepsSchema,
+    Tips: z.array(z.string()),
+    StartMessage: z.string().trim().min(1, "StartMessage is required"),
+    CompletionMessage: z
+      .string()
+      .trim()
+      .min(1, "CompletionMessage is required"),
+    CreatedAt: z.string().optional(),
+  })
+  .superRefine((session, ctx) => {
+    const stepTotal = SessionValidationUtils.sumStepDurations(session.Steps);
+
+    if (
+      Math.abs(stepTotal - session.TotalDurationMinutes) >
+      DURATION_TOLERANCE_MINUTES
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["TotalDurationMinutes"],
+        message: `TotalDurationMinutes (${session.TotalDurationMinutes}) must equal the sum of step durations (${stepTotal})`,
+      });
+    }
+  });
+
+export type ValidatedSession = z.infer<typeof SessionSchema>;
+
+export type SessionValidationResult =
+  | { valid: true; session: ValidatedSession }
+  | { valid: false; issues: string[] };
+
+/**
+ * Thrown when a session is still invalid after the repair attempt
+ */
+export class SessionValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid session: ${issues.join("; ")}`);
+    this.name = "SessionValidationError";
+    this.issues = issues;
+  }
+}
+
+export class SessionValidationUtils {
+  /**
+   * Validate a full session object
+   */
+  static validate(raw: unknown): SessionValidationResult {
+    const result = SessionSchema.safeParse(raw);
+
+    if (result.success) {
+      return { valid: true, session: result.data };
+    }
+
+    return { valid: false, issues: this.formatIssues(result.error) };
+  }
+
+  /**
+   * Validate an edited steps list against the session total
+   */
+  static validateSteps(steps: unknown, totalDurationMinutes: number): string[] {
+    const result = StepsSchema.safeParse(steps);
+
+    if (!result.success) {
+      return this.formatIssues(result.error, ["Steps"]);
+    }
+
+    const stepTotal = this.sumStepDurations(result.data);
+    if (
+      Math.abs(stepTotal - totalDurationMinutes) > DURATION_TOLERANCE_MINUTES
+    ) {
+      return [
+        `TotalDurationMinutes (${totalDurationMinutes}) must equal the sum of step durations (${stepTotal})`,
+      ];
+    }
+
+    return [];
+  }
+
+  static sumStepDurations(steps: { DurationMinutes: number }[]): number {
+    return steps.reduce((sum, step) => sum + step.DurationMinutes, 0);
+  }
+
+  /**
+   * Human readable "path: message" lines, also used in repair prompts
+   */
+  static formatIssues(
+    error: z.ZodError,
+    pathPrefix: (string | number)[] = [],
+  ): string[] {
+    return error.issues.map((issue) => {
+      const path = [...pathPrefix, ...issue.path].join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Test Auth Token Utilities
+ * Locally signed tokens that stand in for Firebase ID tokens when
+ * AUTH_TEST_MODE is on, so tests never need real Firebase credentials
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { AdminRole } from "../constants";
+
+export interface TestTokenClaims {
+  uid: string;
+  email?: string;
+  name?: string;
+  role?: AdminRole;
+}
+
+// Distinguishes test tokens from Firebase JWTs
+const TOKEN_PREFIX = "h2test";
+const DEFAULT_EXPIRY_SECONDS = 60 * 60;
+
+const signature = (payload: string, secret: string): string =>
+  createHmac("sha256", secret).update(payload).digest("base64url");
+
+export class TestAuthTokenUtils {
+  static isTestToken(token: string): boolean {
+    return token.startsWith(`${TOKEN_PREFIX}.`);
+  }
+
+  static sign(
+    claims: TestTokenClaims,
+    secret: string,
+    expiresInSeconds: number = DEFAULT_EXPIRY_SECONDS,
+  ): string {
+    const payload = Buffer.from(
+      JSON.stringify({
+        ...claims,
+        exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+      }),
+    ).toString("base64url");
+
+    return `${TOKEN_PREFIX}.${payload}.${signature(payload, secret)}`;
+  }
+
+  /**
+   * Claims of a correctly signed, unexpired token, otherwise null
+   */
+  static verify(token: string, secret: string): TestTokenClaims | null {
+    const [prefix, payload, provided] = token.split(".");
+    if (prefix !== TOKEN_PREFIX || !payload || !provided) return null;
+
+    const expected = Buffer.from(signature(payload, secret));
+    const actual = Buffer.from(provided);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const { exp, ...claims } = JSON.parse(
+        Buffer.from(payload, "base64url").toString("utf8"),
+      );
+      if (typeof claims.uid !== "string" || !claims.uid) return null;
+      if (typeof exp !== "number" || exp * 1000 < Date.now()) return null;
+      return claims as TestTokenClaims;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Webhook Replay Utilities
+ * Request validation shared by the admin API and the CLI, and pure helpers
+ * for previewing what replaying a raw webhook would change
+ */
+
+import { z } from "zod";
+import { WEBHOOK_REPLAY, WEBHOOK_STATUSES } from "../constants";
+
+// A replay request: which raw webhooks to replay, and whether to only preview
+export const WebhookReplayRequestSchema = z
+  .object({
+    firebaseUid: z.string().min(1).optional(),
+    externalUserId: z.string().min(1).optional(),
+    dataStructure: z.string().min(1).optional(),
+    status: z.enum(WEBHOOK_STATUSES).optional(),
+    errorContains: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .positive()
+      .max(
+        WEBHOOK_REPLAY.MAX_LIMIT,
+        `limit must be at most ${WEBHOOK_REPLAY.MAX_LIMIT}`,
+      )
+      .default(WEBHOOK_REPLAY.DEFAULT_LIMIT),
+    dryRun: z.boolean().default(true),
+  })
+  .refine((request) => !(request.firebaseUid && request.externalUserId), {
+    message: "Use either firebaseUid or externalUserId, not both",
+  })
+  .refine(
+    (request) => !request.from || !request.to || request.from <= request.to,
+    { message: "from must be before to" },
+  );
+
+export type WebhookReplayRequest = z.infer<typeof WebhookReplayRequestSchema>;
+
+export interface FieldChange {
+  field: string; // Dotted path within the data type, e.g. "scores.sleep_score"
+  current: unknown; // undefined when the field isn't stored yet
+  replayed: unknown;
+}
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export class WebhookReplayUtils {
+  /**
+   * Changes a replay would make to the stored data for one data type.
+   * The processor merges top-level fields ({ ...current, ...replayed }), so
+   * fields only in current are kept and never reported. Values are compared
+   * as JSON, so a stored Date equals its ISO string.
+   */
+  static diffFields(current: unknown, replayed: unknown): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const before = this.normalize(current);
+    const after = this.normalize(replayed);
+
+    if (!isPlainObject(after)) return changes;
+
+    for (const [field, value] of Object.entries(after)) {
+      const existing = isPlainObject(before) ? before[field] : undefined;
+      this.collectChanges(field, existing, value, changes);
+    }
+
+    return changes;
+  }
+
+  private static collectChanges(
+    path: string,
+    current: unknown,
+    replayed: unknown,
+    changes: FieldChange[],
+  ): void {
+    // Replaced wholesale by the merge, but diffed per leaf for readability
+    if (isPlainObject(current) && isPlainObject(replayed)) {
+      const keys = new Set([...Object.keys(current), ...Object.keys(replayed)]);
+      for (const key of keys) {
+        this.collectChanges(
+          `${path}.${key}`,
+          current[key],
+          replayed[key],
+          changes,
+        );
+      }
+      return;
+    }
+
+    if (this.stableStringify(current) !== this.stableStringify(replayed)) {
+      changes.push({ field: path, current, replayed });
+    }
+  }
+
+  private static normalize(value: unknown): unknown {
+    return value === undefined || value === null
+      ? value
+      : JSON.parse(JSON.stringify(value));
+  }
+
+  // JSON with sorted keys, so key order doesn't count as a change
+  private static stableStringify(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item) ?? "null").join(",")}]`;
+    }
+    if (isPlainObject(value)) {
+      return `{${Object.keys(value)
+        .sort()
+        .map(
+          (key) => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`,
+        )
+        .join(",")}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
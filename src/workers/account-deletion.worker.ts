@@ -0,0 +1,142 @@
+/**
+ * Account Deletion Worker
+ *
+ * Purges accounts whose deletion grace period is over.
+ * Runs as a separate process from the main API server
+ *
+ * ARCHITECTURE:
+ * 1. Find deletions past their grace period, and purges that stalled
+ * 2. Claim each one (conditional update, so only one worker purges it)
+ * 3. Remove the user from ROOK, blob storage, local TTS audio, Redis,
+ *    MongoDB and Firebase Auth, recording every step on the tombstone
+ * 4. Sleep, repeat
+ *
+ * FAILURES:
+ * - Purge steps are idempotent; a failed purge stays "purging" (it can no
+ *   longer be restored) and is retried once it is stale, up to
+ *   ACCOUNT_DELETION.MAX_ATTEMPTS times, then left "failed" and reported
+ *   to Sentry
+ * - TTS audio lives on the API server's disk, so this worker must run on
+ *   the same machine to remove it
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from "dotenv";
+dotenv.config();
+
+import * as Sentry from "@sentry/node";
+import { DatabaseService } from "../utils/database";
+import { AccountDeletionService } from "../services/accountDeletion.service";
+import { ACCOUNT_DELETION } from "../constants";
+import { initializeFirebaseAdmin } from "../utils/firebase";
+
+// Graceful shutdown flag
+let isShuttingDown = false;
+
+const accountDeletionService = new AccountDeletionService();
+
+/**
+ * Purge all accounts that are due
+ * @returns number of accounts purged
+ */
+async function processDueDeletions(now: Date = new Date()): Promise<number> {
+  const due = await accountDeletionService.getDueDeletions(now);
+  let purged = 0;
+
+  for (const deletion of due) {
+    if (isShuttingDown) break;
+
+    const claimed = await accountDeletionService.claimDeletion(deletion);
+    if (!claimed) {
+      console.log(`⏭️ Deletion ${deletion.deletionId} already claimed`);
+      continue;
+    }
+
+    try {
+      await accountDeletionService.purgeAccount(claimed);
+      purged++;
+    } catch (error) {
+      console.error(
+        `❌ Failed to purge account for deletion ${deletion.deletionId} (attempt ${claimed.attempts}):`,
+        error,
+      );
+      Sentry.captureException(error, {
+        tags: {
+          component: "account-deletion",
+          deletionId: deletion.deletionId,
+        },
+      });
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Main worker loop
+ */
+async function startWorker(): Promise<void> {
+  console.log("🚀 Starting Account Deletion Worker");
+  console.log(`📊 Polling interval: ${ACCOUNT_DELETION.POLL_INTERVAL_MS}ms\n`);
+
+  // Connect to MongoDB
+  await DatabaseService.connect();
+  console.log("✅ Connected to MongoDB\n");
+
+  // Firebase Auth users are deleted as part of the purge
+  initializeFirebaseAdmin();
+
+  while (!isShuttingDown) {
+    try {
+      const purged = await processDueDeletions();
+
+      if (purged > 0) {
+        console.log(`🗑️ Purged ${purged} account(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Account deletion error:", error);
+
+      Sentry.captureException(error, {
+        tags: { component: "account-deletion-loop" },
+      });
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, ACCOUNT_DELETION.POLL_INTERVAL_MS),
+    );
+  }
+
+  console.log("👋 Account deletion worker shutting down gracefully");
+}
+
+/**
+ * Graceful shutdown handler
+ */
+function setupGracefulShutdown(): void {
+  const shutdown = (signal: string) => {
+    console.log(`\n📢 Received ${signal}, initiating graceful shutdown...`);
+    isShuttingDown = true;
+
+    // Give worker 30s to finish the current purge
+    setTimeout(() => {
+      console.log("⏰ Shutdown timeout reached, forcing exit");
+      process.exit(0);
+    }, 30000);
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+// Start the worker
+if (require.main === module) {
+  setupGracefulShutdown();
+
+  startWorker().catch((error) => {
+    console.error("💥 Fatal account deletion error:", error);
+    Sentry.captureException(error);
+    process.exit(1);
+  });
+}
+
+export { startWorker, processDueDeletions };
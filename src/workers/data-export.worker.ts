@@ -0,0 +1,132 @@
+/**
+ * Data Export Worker
+ *
+ * Looks after export jobs once the API has started them.
+ * Runs as a separate process from the main API server
+ *
+ * ARCHITECTURE:
+ * 1. Exports are built in the API process right after they are requested,
+ *    with no retry of their own
+ * 2. Find jobs that stalled (e.g. the API restarted mid-export), claim
+ *    each one (conditional update) and run it again
+ * 3. Delete the zips of exports whose download link has lapsed
+ * 4. Sleep, repeat
+ *
+ * FAILURES:
+ * - A job started DATA_EXPORT.MAX_ATTEMPTS times without finishing is
+ *   left "failed"; the user can request a new export
+ * - A zip that can't be deleted stays "completed" and is retried on the
+ *   next poll
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from "dotenv";
+dotenv.config();
+
+import * as Sentry from "@sentry/node";
+import { DatabaseService } from "../utils/database";
+import { DataExportService } from "../services/dataExport.service";
+import { DATA_EXPORT } from "../constants";
+
+// Graceful shutdown flag
+let isShuttingDown = false;
+
+const dataExportService = new DataExportService();
+
+/**
+ * Run stalled export jobs again
+ * @returns number of jobs run again
+ */
+async function processStaleJobs(now: Date = new Date()): Promise<number> {
+  const stale = await dataExportService.getStaleJobs(now);
+  let retried = 0;
+
+  for (const job of stale) {
+    if (isShuttingDown) break;
+
+    try {
+      if (await dataExportService.retryStaleJob(job)) {
+        retried++;
+      } else {
+        console.log(`⏭️ Data export ${job.jobId} not retried`);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to retry data export ${job.jobId}:`, error);
+      Sentry.captureException(error, {
+        tags: { component: "data-export", jobId: job.jobId },
+      });
+    }
+  }
+
+  return retried;
+}
+
+/**
+ * Main worker loop
+ */
+async function startWorker(): Promise<void> {
+  console.log("🚀 Starting Data Export Worker");
+  console.log(`📊 Polling interval: ${DATA_EXPORT.POLL_INTERVAL_MS}ms\n`);
+
+  // Connect to MongoDB
+  await DatabaseService.connect();
+  console.log("✅ Connected to MongoDB\n");
+
+  while (!isShuttingDown) {
+    try {
+      const retried = await processStaleJobs();
+      const expired = await dataExportService.expireDownloads();
+
+      if (retried > 0) {
+        console.log(`🔁 Retried ${retried} data export(s)`);
+      }
+      if (expired > 0) {
+        console.log(`🗑️ Deleted ${expired} expired data export(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Data export worker error:", error);
+
+      Sentry.captureException(error, {
+        tags: { component: "data-export-loop" },
+      });
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, DATA_EXPORT.POLL_INTERVAL_MS),
+    );
+  }
+
+  console.log("👋 Data export worker shutting down gracefully");
+}
+
+/**
+ * Graceful shutdown handler
+ */
+function setupGracefulShutdown(): void {
+  const shutdown = (signal: string) => {
+    console.log(`\n📢 Received ${signal}, initiating graceful shutdown...`);
+    isShuttingDown = true;
+
+    // Give worker 60s to finish the current export
+    setTimeout(() => {
+      console.log("⏰ Shutdown timeout reached, forcing exit");
+      process.exit(0);
+    }, 60000);
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+// Start the worker
+if (require.main === module) {
+  setupGracefulShutdown();
+
+  startWorker().catch((error) => {
+    console.error("💥 Fatal data export error:", error);
+    Sentry.captureException(error);
+    process.exit(1);
+  });
+}
+
+export { startWorker, processStaleJobs };
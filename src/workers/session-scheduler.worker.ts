@@ -0,0 +1,237 @@
+/**
+ * Session Scheduler Worker
+ *
+ * Sends reminders for scheduled sessions.
+ * Runs as a separate process from the main API server
+ *
+ * ARCHITECTURE:
+ * 1. Find active schedules whose reminder time has passed (indexed query)
+ * 2. Claim each one by moving it on to its following occurrence
+ * 3. Send the reminder through the configured notifier (push, with email
+ *    for users without a registered device)
+ * 4. Sleep, repeat
+ *
+ * CONCURRENCY SAFETY:
+ * - Claiming is a conditional update on the reminder time we read, so if
+ *   several workers run, only one of them sends a given reminder
+ * - Reminders are claimed before sending (at most once) - a failed send is
+ *   reported to Sentry and not retried, to avoid duplicate reminders
+ * - Reminders missed while the worker was down are skipped instead of being
+ *   sent late
+ * - Deactivated accounts and accounts pending deletion get no reminders;
+ *   their schedules still advance, so nothing is sent late on restore
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from "dotenv";
+dotenv.config();
+
+import * as Sentry from "@sentry/node";
+import { DatabaseService } from "../utils/database";
+import { SessionScheduleService } from "../services/sessionSchedule.service";
+import {
+  createReminderNotifier,
+  ReminderNotifier,
+} from "../services/reminderNotifier.service";
+import { ISessionSchedule } from "../models/SessionSchedule.model";
+import { Session } from "../models/Session.model";
+import { User } from "../models/User.model";
+import { SESSION_SCHEDULE } from "../constants";
+import { initializeFirebaseAdmin } from "../utils/firebase";
+
+// Graceful shutdown flag
+let isShuttingDown = false;
+
+const scheduleService = new SessionScheduleService();
+
+/**
+ * Send the reminder for one due schedule
+ * @returns true if a reminder was sent
+ */
+async function processSchedule(
+  schedule: ISessionSchedule,
+  notifier: ReminderNotifier,
+  now: Date,
+): Promise<boolean> {
+  const occurrenceAt = schedule.nextOccurrenceAt!;
+
+  const claimed = await scheduleService.claimReminder(schedule);
+  if (!claimed) {
+    console.log(`⏭️ Reminder ${schedule.scheduleId} already claimed`);
+    return false;
+  }
+
+  const lateByMinutes =
+    (now.getTime() - schedule.nextReminderAt!.getTime()) / 60000;
+
+  if (
+    occurrenceAt <= now ||
+    lateByMinutes > SESSION_SCHEDULE.MISSED_REMINDER_GRACE_MINUTES
+  ) {
+    console.warn(
+      `⚠️ Skipping missed reminder for schedule ${schedule.scheduleId} (${occurrenceAt.toISOString()})`,
+    );
+    return false;
+  }
+
+  const [session, user] = await Promise.all([
+    Session.findOne({
+      sessionId: schedule.sessionId,
+      firebaseUid: schedule.firebaseUid,
+    })
+      .select("SessionName TotalDurationMinutes")
+      .lean(),
+    User.findOne({ firebaseUid: schedule.firebaseUid })
+      .select(
+        "email fullName notificationPreferences isActive deletionScheduledFor",
+      )
+      .lean(),
+  ]);
+
+  if (!session || !user) {
+    console.warn(
+      `⚠️ Session or user missing for schedule ${schedule.scheduleId}, skipping reminder`,
+    );
+    return false;
+  }
+
+  // Deactivated, or waiting to be deleted - the schedule keeps moving on,
+  // so reminders resume if the account is restored
+  if (!user.isActive || user.deletionScheduledFor) {
+    console.log(
+      `⏸️ Account inactive, skipping reminder for schedule ${schedule.scheduleId}`,
+    );
+    return false;
+  }
+
+  if (user.notificationPreferences?.optOuts?.includes("session_reminders")) {
+    console.log(
+      `🔕 User opted out of session reminders, skipping schedule ${schedule.scheduleId}`,
+    );
+    return false;
+  }
+
+  await notifier.send({
+    firebaseUid: schedule.firebaseUid,
+    email: user.email,
+    fullName: user.fullName,
+    scheduleId: schedule.scheduleId,
+    sessionId: schedule.sessionId,
+    sessionName: session.SessionName,
+    totalDurationMinutes: session.TotalDurationMinutes,
+    occurrenceAt,
+    timeZone: schedule.timeZone,
+  });
+
+  await scheduleService.markReminded(schedule.scheduleId, occurrenceAt, now);
+
+  console.log(
+    `🔔 Reminder sent via ${notifier.name} for schedule ${schedule.scheduleId}`,
+  );
+  return true;
+}
+
+/**
+ * Send all reminders that are due
+ * @returns number of reminders sent
+ */
+async function processDueReminders(
+  notifier: ReminderNotifier,
+  now: Date = new Date(),
+): Promise<number> {
+  const due = await scheduleService.getDueReminders(now);
+  let sent = 0;
+
+  for (const schedule of due) {
+    if (isShuttingDown) break;
+
+    try {
+      if (await processSchedule(schedule, notifier, now)) sent++;
+    } catch (error) {
+      console.error(
+        `❌ Failed to send reminder for schedule ${schedule.scheduleId}:`,
+        error,
+      );
+      Sentry.captureException(error, {
+        tags: {
+          component: "session-scheduler",
+          scheduleId: schedule.scheduleId,
+        },
+      });
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Main worker loop
+ */
+async function startWorker(): Promise<void> {
+  const notifier = createReminderNotifier();
+
+  console.log("🚀 Starting Session Scheduler Worker");
+  console.log(`📊 Polling interval: ${SESSION_SCHEDULE.POLL_INTERVAL_MS}ms`);
+  console.log(`🔔 Notifier: ${notifier.name}\n`);
+
+  // Connect to MongoDB
+  await DatabaseService.connect();
+  console.log("✅ Connected to MongoDB\n");
+
+  // Push reminders go through Firebase Cloud Messaging
+  initializeFirebaseAdmin();
+
+  while (!isShuttingDown) {
+    try {
+      const sent = await processDueReminders(notifier);
+
+      if (sent > 0) {
+        console.log(`📬 Sent ${sent} reminder(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Scheduler error:", error);
+
+      Sentry.captureException(error, {
+        tags: { component: "session-scheduler-loop" },
+      });
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, SESSION_SCHEDULE.POLL_INTERVAL_MS),
+    );
+  }
+
+  console.log("👋 Scheduler shutting down gracefully");
+}
+
+/**
+ * Graceful shutdown handler
+ */
+function setupGracefulShutdown(): void {
+  const shutdown = (signal: string) => {
+    console.log(`\n📢 Received ${signal}, initiating graceful shutdown...`);
+    isShuttingDown = true;
+
+    // Give worker 30s to finish the current batch
+    setTimeout(() => {
+      console.log("⏰ Shutdown timeout reached, forcing exit");
+      process.exit(0);
+    }, 30000);
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+// Start the worker
+if (require.main === module) {
+  setupGracefulShutdown();
+
+  startWorker().catch((error) => {
+    console.error("💥 Fatal scheduler error:", error);
+    Sentry.captureException(error);
+    process.exit(1);
+  });
+}
+
+export { startWorker, processDueReminders };
@@ -1,12 +1,15 @@
 /**
- * Azure Service Bus Webhook Consumer Worker
+ * Webhook Consumer Worker
  * (Replaces the old AWS SQS consumer worker)
  *
- * This worker polls the Azure Service Bus queue and processes webhook messages one at a time
+ * This worker polls the webhook queue and processes webhook messages one at a time
  * Runs as a separate process from the main API server
  *
+ * The queue is Azure Service Bus in production; QUEUE_BACKEND=mongo runs it
+ * locally without Service Bus (see config/queue.ts)
+ *
  * ARCHITECTURE:
- * 1. Poll Service Bus queue (wait up to 5s for messages)
+ * 1. Poll the queue (wait up to 1s for messages)
  * 2. Receive message
  * 3. Process webhook (transform data, update DB)
  * 4. Complete message (remove from queue — only after success)
@@ -15,7 +18,7 @@
  * CONCURRENCY SAFETY:
  * - Processes ONE message at a time (no race conditions)
  * - If processing fails, message is "abandoned" (stays in queue for retry)
- * - After max delivery attempts, Service Bus moves message to Dead Letter Queue automatically
+ * - After max delivery attempts, the queue moves message to Dead Letter Queue automatically
  * - Worker can crash/restart without data loss
  *
  * KEY DIFFERENCE FROM SQS:
@@ -28,13 +31,14 @@ import dotenv from "dotenv";
 dotenv.config();
 
 import {
+  assertQueueConfig,
   receiveFromQueue,
   completeMessage,
   abandonMessage,
   deadLetterMessage,
-  closeServiceBus,
-} from "../config/sqs";
-import { ServiceBusReceivedMessage } from "@azure/service-bus";
+  closeQueue,
+  QueueMessage,
+} from "../config/queue";
 import { WebhookProcessor } from "../services/webhook.processor.service";
 import { RawWebhook } from "../models/RawWebhook.model";
 import { DatabaseService } from "../utils/database";
@@ -49,13 +53,13 @@ const WAIT_TIME_SECONDS = 1; // Long polling timeout
 let isShuttingDown = false;
 
 /**
- * Process a single webhook message from Service Bus
+ * Process a single webhook message from the queue
  */
-async function processMessage(
-  message: ServiceBusReceivedMessage,
-): Promise<void> {
+async function processMessage(message: QueueMessage): Promise<void> {
   const startTime = Date.now();
-  console.log(`\n🔄 Processing Service Bus message: ${message.messageId}`);
+  console.log(
+    `\n🔄 Processing queue message: ${message.messageId} (delivery ${message.deliveryCount})`,
+  );
 
   try {
     // Parse message body
@@ -178,7 +182,7 @@ async function processMessage(
       },
     });
 
-    // Abandon message — Service Bus will make it available for retry
+    // Abandon message — the queue will make it available for retry
     try {
       await abandonMessage(message);
     } catch (abandonError) {
@@ -189,16 +193,42 @@ async function processMessage(
   }
 }
 
+/**
+ * Receive one batch from the queue and process it
+ * @returns number of messages received
+ */
+async function pollQueue(): Promise<number> {
+  const messages = await receiveFromQueue(MAX_MESSAGES, WAIT_TIME_SECONDS);
+
+  if (messages.length === 0) {
+    return 0;
+  }
+
+  console.log(`📬 Received ${messages.length} message(s)`);
+
+  // Process each message sequentially (one at a time)
+  for (const message of messages) {
+    if (isShuttingDown) break;
+
+    await processMessage(message);
+  }
+
+  return messages.length;
+}
+
 /**
  * Main worker loop
- * Continuously polls Service Bus and processes messages
+ * Continuously polls the queue and processes messages
  */
 async function startWorker(): Promise<void> {
-  console.log("🚀 Starting Service Bus Webhook Consumer Worker");
+  console.log("🚀 Starting Webhook Consumer Worker");
   console.log(`📊 Polling interval: ${POLLING_INTERVAL}ms`);
   console.log(`📥 Max messages per poll: ${MAX_MESSAGES}`);
   console.log(`⏱️  Wait timeout: ${WAIT_TIME_SECONDS}s\n`);
 
+  // Exit instead of retrying forever on a backend that can't work here
+  assertQueueConfig();
+
   // Connect to MongoDB
   await DatabaseService.connect();
   console.log("✅ Connected to MongoDB\n");
@@ -206,24 +236,15 @@ async function startWorker(): Promise<void> {
   // Main polling loop
   while (!isShuttingDown) {
     try {
-      // Poll Service Bus for messages
-      const messages = await receiveFromQueue(MAX_MESSAGES, WAIT_TIME_SECONDS);
+      // Poll the queue for messages
+      const received = await pollQueue();
 
-      if (messages.length === 0) {
+      if (received === 0) {
         // No messages — wait timeout reached
         console.log("💤 No messages in queue, continuing to poll...");
         continue;
       }
 
-      console.log(`📬 Received ${messages.length} message(s)`);
-
-      // Process each message sequentially (one at a time)
-      for (const message of messages) {
-        if (isShuttingDown) break;
-
-        await processMessage(message);
-      }
-
       // Small delay before next poll
       await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL));
     } catch (error: any) {
@@ -257,8 +278,8 @@ function setupGracefulShutdown(): void {
     console.log(`\n📢 Received ${signal}, initiating graceful shutdown...`);
     isShuttingDown = true;
 
-    // Close Service Bus connection
-    await closeServiceBus();
+    // Close the queue connection
+    await closeQueue();
 
     // Give worker 30s to finish current message
     setTimeout(() => {
@@ -282,4 +303,4 @@ if (require.main === module) {
   });
 }
 
-export { startWorker, processMessage };
+export { startWorker, processMessage, pollQueue };